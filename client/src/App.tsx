@@ -1,26 +1,85 @@
-import { Switch, Route } from "wouter";
+import { ComponentType } from "react";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Layout from "@/components/Layout";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import Login from "@/pages/Login";
 import Dashboard from "@/pages/Dashboard";
 import Employees from "@/pages/Employees";
 import Payslips from "@/pages/Payslips";
+import PayRuns from "@/pages/PayRuns";
+import PaySchedules from "@/pages/PaySchedules";
+import OvertimePolicies from "@/pages/OvertimePolicies";
+import Earnings from "@/pages/Earnings";
+import BenefitPlans from "@/pages/BenefitPlans";
 import Roles from "@/pages/Roles";
+import ProfileChanges from "@/pages/ProfileChanges";
 import Reports from "@/pages/Reports";
 import EmployeePortal from "@/pages/EmployeePortal";
 import NotFound from "@/pages/not-found";
+import Forbidden from "@/pages/forbidden";
+import type { Permission } from "@shared/permissions";
+
+// Renders the page only for users holding one of the permissions
+function guarded(component: ComponentType, ...permissions: Permission[]) {
+  return function GuardedPage() {
+    const { can } = useAuth();
+    const Page = permissions.some(can) ? component : Forbidden;
+    return <Page />;
+  };
+}
+
+const GuardedDashboard = guarded(Dashboard, "dashboard:view");
+const GuardedEmployees = guarded(Employees, "employees:read", "employees:read-reports");
+const GuardedPayslips = guarded(Payslips, "payroll:read");
+const GuardedPayRuns = guarded(PayRuns, "payroll:read");
+const GuardedPaySchedules = guarded(PaySchedules, "payroll:read");
+const GuardedOvertimePolicies = guarded(OvertimePolicies, "payroll:read");
+const GuardedEarnings = guarded(Earnings, "payroll:read");
+const GuardedBenefitPlans = guarded(BenefitPlans, "employees:read");
+const GuardedRoles = guarded(Roles, "roles:read");
+const GuardedProfileChanges = guarded(ProfileChanges, "employees:manage");
+const GuardedReports = guarded(Reports, "reports:view");
+
+function Home() {
+  const { user, can } = useAuth();
+  if (can("dashboard:view")) return <GuardedDashboard />;
+  if (user?.employeeId) return <Redirect to="/portal" />;
+  return <Redirect to="/employees" />;
+}
 
 function Router() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Login />;
+  }
+
   return (
     <Layout>
       <Switch>
-        <Route path="/" component={Dashboard} />
-        <Route path="/employees" component={Employees} />
-        <Route path="/payslips" component={Payslips} />
-        <Route path="/roles" component={Roles} />
-        <Route path="/reports" component={Reports} />
+        <Route path="/" component={Home} />
+        <Route path="/employees" component={GuardedEmployees} />
+        <Route path="/payslips" component={GuardedPayslips} />
+        <Route path="/pay-runs" component={GuardedPayRuns} />
+        <Route path="/pay-schedules" component={GuardedPaySchedules} />
+        <Route path="/overtime-policies" component={GuardedOvertimePolicies} />
+        <Route path="/earnings" component={GuardedEarnings} />
+        <Route path="/benefit-plans" component={GuardedBenefitPlans} />
+        <Route path="/roles" component={GuardedRoles} />
+        <Route path="/profile-changes" component={GuardedProfileChanges} />
+        <Route path="/reports" component={GuardedReports} />
         <Route path="/portal" component={EmployeePortal} />
         <Route component={NotFound} />
       </Switch>
@@ -33,7 +92,9 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
-        <Router />
+        <AuthProvider>
+          <Router />
+        </AuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import { formatContribution } from "@/lib/utils";
+import type { BenefitEnrollmentWithPlan, BenefitPlan, EmployeeWithRole } from "@shared/schema";
+
+interface BenefitsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employee: EmployeeWithRole | null;
+}
+
+export default function BenefitsModal({ isOpen, onClose, employee }: BenefitsModalProps) {
+  const { toast } = useToast();
+  const [planId, setPlanId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [employeeContribution, setEmployeeContribution] = useState("");
+  const [employerContribution, setEmployerContribution] = useState("");
+
+  const benefitsUrl = `/api/employees/${employee?.id}/benefits`;
+
+  const { data: enrollments = [], isLoading } = useQuery<BenefitEnrollmentWithPlan[]>({
+    queryKey: [benefitsUrl],
+    enabled: isOpen && !!employee,
+  });
+
+  const { data: plans = [] } = useQuery<BenefitPlan[]>({
+    queryKey: ["/api/benefit-plans"],
+    enabled: isOpen,
+  });
+
+  const openPlans = plans.filter(plan => plan.isActive);
+  const selectedPlan = openPlans.find(plan => plan.id.toString() === planId);
+
+  const resetForm = () => {
+    setPlanId("");
+    setStartDate("");
+    setEndDate("");
+    setEmployeeContribution("");
+    setEmployerContribution("");
+  };
+
+  const enrollMutation = useMutation({
+    mutationFn: async () => {
+      // Amounts left blank are taken from the plan
+      const response = await apiRequest("POST", benefitsUrl, {
+        planId: parseInt(planId),
+        startDate,
+        endDate: endDate || null,
+        ...(employeeContribution && { employeeContribution }),
+        ...(employerContribution && { employerContribution }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [benefitsUrl] });
+      toast({ title: "Employee enrolled" });
+      resetForm();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to enroll employee",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const endMutation = useMutation({
+    mutationFn: async ({ id, endDate }: { id: number; endDate: string }) => {
+      const response = await apiRequest("PUT", `${benefitsUrl}/${id}`, { endDate });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [benefitsUrl] });
+      toast({ title: "Enrollment ended" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to end enrollment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${benefitsUrl}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [benefitsUrl] });
+      toast({ title: "Enrollment deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete enrollment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEnroll = () => {
+    if (!planId || !startDate) {
+      toast({
+        title: "Error",
+        description: "Please select a plan and the date coverage starts",
+        variant: "destructive",
+      });
+      return;
+    }
+    enrollMutation.mutate();
+  };
+
+  const handleEnd = (enrollment: BenefitEnrollmentWithPlan) => {
+    const date = prompt(`Last day of ${enrollment.plan.name} coverage (YYYY-MM-DD)`, new Date().toISOString().slice(0, 10));
+    if (date) {
+      endMutation.mutate({ id: enrollment.id, endDate: date });
+    }
+  };
+
+  const unit = (type: string | undefined) => type === "percent" ? "%" : "per period";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            Benefits{employee && ` - ${employee.firstName} ${employee.lastName}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        {employee?.type !== "full-time" ? (
+          <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3">
+            Only full-time employees are eligible for benefits; existing enrollments are not deducted from this employee's pay.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Contributions are taken from each payslip while the enrollment is in effect. Leave amounts blank to use the plan's.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Plan</label>
+                <Select value={planId} onValueChange={setPlanId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select plan" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {openPlans.map((plan) => (
+                      <SelectItem key={plan.id} value={plan.id.toString()}>
+                        {plan.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Starts</label>
+                <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+                <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Employee ({unit(selectedPlan?.employeeContributionType)})
+                </label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder={selectedPlan?.employeeContribution ?? ""}
+                  value={employeeContribution}
+                  onChange={(e) => setEmployeeContribution(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Employer ({unit(selectedPlan?.employerContributionType)})
+                </label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder={selectedPlan?.employerContribution ?? ""}
+                  value={employerContribution}
+                  onChange={(e) => setEmployerContribution(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleEnroll} disabled={enrollMutation.isPending}>
+                <Plus className="h-4 w-4 mr-2" />
+                Enroll
+              </Button>
+            </div>
+          </>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-4 text-gray-500">Loading enrollments...</div>
+        ) : enrollments.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">Not enrolled in any plans.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Plan</TableHead>
+                <TableHead>Coverage</TableHead>
+                <TableHead>Employee</TableHead>
+                <TableHead>Employer</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {enrollments.map((enrollment) => (
+                <TableRow key={enrollment.id}>
+                  <TableCell className="text-sm text-gray-900">
+                    {enrollment.plan.name}
+                    <div className="text-xs text-gray-500">{enrollment.plan.isPreTax ? "Pre-tax" : "Post-tax"}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {enrollment.startDate} to {enrollment.endDate ?? "ongoing"}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-900">
+                    {formatContribution(enrollment.employeeContributionType, enrollment.employeeContribution)}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-900">
+                    {formatContribution(enrollment.employerContributionType, enrollment.employerContribution)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-1">
+                      {!enrollment.endDate && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEnd(enrollment)}
+                          disabled={endMutation.isPending}
+                        >
+                          End
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => deleteMutation.mutate(enrollment.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,16 @@
+import { ReactNode } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import type { Permission } from "@shared/permissions";
+
+interface CanProps {
+  permission: Permission;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+// Renders its children only for users holding the permission. This only hides
+// controls; the server enforces the same permissions on every route.
+export default function Can({ permission, children, fallback = null }: CanProps) {
+  const { can } = useAuth();
+  return <>{can(permission) ? children : fallback}</>;
+}
@@ -0,0 +1,303 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate, formatDateRange, getInitials } from "@/lib/utils";
+import Can from "@/components/Can";
+import { compensationChangeReasonLabels, compensationChangeReasons, payBases, payBasisLabels, payBasisUnits } from "@shared/schema";
+import type { CompensationChange, CompensationChangeReason, CompensationChangeResult, EmployeeWithRole, PayBasis, RetroPayAdjustment, RetroPayStatus } from "@shared/schema";
+
+interface EmployeeDetailModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employee: EmployeeWithRole | null;
+}
+
+const reasonColors: Record<CompensationChangeReason, string> = {
+  hire: "bg-gray-100 text-gray-800",
+  promotion: "bg-purple-100 text-purple-800",
+  merit: "bg-green-100 text-green-800",
+  correction: "bg-yellow-100 text-yellow-800",
+  adjustment: "bg-blue-100 text-blue-800",
+};
+
+const retroStatusColors: Record<RetroPayStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  applied: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
+
+// Percentage change from the previous entry, when both are on the same basis
+function changeFrom(previous: CompensationChange | undefined, entry: CompensationChange): string | null {
+  if (!previous || previous.payBasis !== entry.payBasis) return null;
+  const before = parseFloat(previous.payAmount);
+  if (before === 0) return null;
+  const percent = ((parseFloat(entry.payAmount) - before) / before) * 100;
+  return `${percent >= 0 ? "+" : ""}${percent.toFixed(1)}%`;
+}
+
+export default function EmployeeDetailModal({ isOpen, onClose, employee }: EmployeeDetailModalProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [effectiveDate, setEffectiveDate] = useState("");
+  const [reason, setReason] = useState<CompensationChangeReason>("merit");
+  const [payBasis, setPayBasis] = useState<PayBasis>("annual");
+  const [payAmount, setPayAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  // New pay defaults to the employee's current basis
+  useEffect(() => {
+    if (employee) {
+      setPayBasis(employee.payBasis as PayBasis);
+    }
+  }, [employee?.id]);
+
+  const historyUrl = `/api/employees/${employee?.id}/compensation-history`;
+
+  const { data: history = [], isLoading } = useQuery<CompensationChange[]>({
+    queryKey: [historyUrl],
+    enabled: isOpen && !!employee,
+  });
+
+  const retroPayUrl = `/api/employees/${employee?.id}/retro-pay`;
+
+  const { data: retroPay = [] } = useQuery<RetroPayAdjustment[]>({
+    queryKey: [retroPayUrl],
+    enabled: isOpen && !!employee && can("payroll:read"),
+  });
+
+  const recordChangeMutation = useMutation({
+    mutationFn: async (): Promise<CompensationChangeResult> => {
+      const response = await apiRequest("POST", historyUrl, {
+        effectiveDate,
+        reason,
+        payBasis,
+        payAmount,
+        currency: employee?.currency,
+        standardHoursPerWeek: employee?.standardHoursPerWeek,
+        note: note || null,
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [historyUrl] });
+      queryClient.invalidateQueries({ queryKey: [retroPayUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      const retroTotal = result.retroPay.reduce((total, arrears) => total + parseFloat(arrears.amount), 0);
+      toast({
+        title: "Pay change recorded",
+        description: result.retroPay.length > 0
+          ? `${formatCurrency(retroTotal, result.currency)} retro pay for ${result.retroPay.length} paid period(s) will be added to the next payslip`
+          : undefined,
+      });
+      setEffectiveDate("");
+      setPayAmount("");
+      setNote("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record pay change",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRecord = () => {
+    if (!effectiveDate || !payAmount) {
+      toast({
+        title: "Error",
+        description: "Please enter the effective date and new amount",
+        variant: "destructive",
+      });
+      return;
+    }
+    recordChangeMutation.mutate();
+  };
+
+  if (!employee) return null;
+
+  const today = new Date().toISOString().split("T")[0];
+  // History is latest first, so the first entry not in the future is the one in effect today
+  const currentEntry = history.find(entry => entry.effectiveDate <= today);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Employee Details</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center">
+          <div className="w-12 h-12 bg-gray-400 rounded-full flex items-center justify-center mr-4">
+            <span className="text-white font-medium">
+              {getInitials(employee.firstName, employee.lastName)}
+            </span>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-gray-900">
+              {employee.firstName} {employee.lastName}
+            </div>
+            <div className="text-sm text-gray-500">
+              {employee.role.title} · <span className="capitalize">{employee.department}</span> · {employee.email}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <div className="text-gray-500">Type</div>
+            <div className="text-gray-900">{employee.type === "full-time" ? "Full-Time" : "Part-Time"}</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Status</div>
+            <div className="text-gray-900 capitalize">{employee.status}</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Start Date</div>
+            <div className="text-gray-900">{formatDate(employee.startDate)}</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Current Pay</div>
+            <div className="text-gray-900">
+              {formatCurrency(employee.payAmount, employee.currency)} {payBasisUnits[employee.payBasis as PayBasis]}
+            </div>
+          </div>
+        </div>
+
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-base font-semibold text-gray-900 mb-3">Compensation History</h3>
+
+          <Can permission="employees:manage">
+            <div className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end mb-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Effective</label>
+                <Input type="date" value={effectiveDate} onChange={(e) => setEffectiveDate(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Reason</label>
+                <Select value={reason} onValueChange={(value) => setReason(value as CompensationChangeReason)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {compensationChangeReasons.filter(r => r !== "hire").map((r) => (
+                      <SelectItem key={r} value={r}>
+                        {compensationChangeReasonLabels[r]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Basis</label>
+                <Select value={payBasis} onValueChange={(value) => setPayBasis(value as PayBasis)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {payBases.map((basis) => (
+                      <SelectItem key={basis} value={basis}>
+                        {payBasisLabels[basis]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">New Amount</label>
+                <Input type="number" step="0.01" value={payAmount} onChange={(e) => setPayAmount(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Note</label>
+                <Input placeholder="Optional" value={note} onChange={(e) => setNote(e.target.value)} />
+              </div>
+              <Button onClick={handleRecord} disabled={recordChangeMutation.isPending}>
+                <Plus className="h-4 w-4 mr-2" />
+                Record
+              </Button>
+            </div>
+          </Can>
+
+          {isLoading ? (
+            <div className="text-center py-4 text-gray-500">Loading history...</div>
+          ) : history.length === 0 ? (
+            <div className="text-center py-4 text-gray-500">No pay changes recorded.</div>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2">
+              {history.map((entry, index) => {
+                const change = changeFrom(history[index + 1], entry);
+                return (
+                  <li key={entry.id} className="mb-5 ml-4">
+                    <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white"></div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">{entry.effectiveDate}</span>
+                      <Badge className={reasonColors[entry.reason as CompensationChangeReason]}>
+                        {compensationChangeReasonLabels[entry.reason as CompensationChangeReason] ?? entry.reason}
+                      </Badge>
+                      {entry.effectiveDate > today && <Badge variant="outline">Scheduled</Badge>}
+                      {entry.id === currentEntry?.id && <Badge variant="outline">Current</Badge>}
+                    </div>
+                    <div className="text-sm text-gray-900 mt-1">
+                      {formatCurrency(entry.payAmount, entry.currency)} {payBasisUnits[entry.payBasis as PayBasis]}
+                      {change && <span className="text-gray-500"> ({change})</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Recorded by {entry.changedBy} on {formatDate(entry.createdAt)}
+                      {entry.note && ` · ${entry.note}`}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+
+        {retroPay.length > 0 && (
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-base font-semibold text-gray-900 mb-1">Retro Pay</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              Periods already paid before a back-dated pay change. Pending amounts are paid on the next payslip.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Recalculated</TableHead>
+                  <TableHead className="text-right">Owed</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {retroPay.map((arrears) => (
+                  <TableRow key={arrears.id}>
+                    <TableCell className="text-sm text-gray-900">
+                      {formatDateRange(arrears.payPeriodFrom, arrears.payPeriodTo)}
+                    </TableCell>
+                    <TableCell className="text-sm text-right">{formatCurrency(arrears.paidAmount, employee.currency)}</TableCell>
+                    <TableCell className="text-sm text-right">{formatCurrency(arrears.recalculatedAmount, employee.currency)}</TableCell>
+                    <TableCell className="text-sm text-right font-medium">{formatCurrency(arrears.amount, employee.currency)}</TableCell>
+                    <TableCell>
+                      <Badge className={retroStatusColors[arrears.status as RetroPayStatus]}>{arrears.status}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
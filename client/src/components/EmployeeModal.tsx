@@ -12,8 +12,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
-import { insertEmployeeSchema } from "@shared/schema";
-import type { EmployeeWithRole, Role } from "@shared/schema";
+import { compensationChangeReasonLabels, compensationChangeReasons, insertEmployeeSchema, payBases, payBasisLabels, payBasisUnits } from "@shared/schema";
+import type { EmployeeWithRole, OvertimePolicy, PayBasis, PaySchedule, Role } from "@shared/schema";
 
 interface EmployeeModalProps {
   isOpen: boolean;
@@ -22,10 +22,18 @@ interface EmployeeModalProps {
 }
 
 const formSchema = insertEmployeeSchema.extend({
-  salary: z.string().min(1, "Salary is required"),
+  payAmount: z.string().min(1, "Pay amount is required"),
   startDate: z.string().min(1, "Start date is required"),
+  terminationDate: z.string().optional(),
+  // When and why, if an edit changes the employee's pay
+  compensationEffectiveDate: z.string().optional(),
+  compensationReason: z.enum(compensationChangeReasons).optional(),
+  compensationNote: z.string().optional(),
 });
 
+// A hire is recorded when the employee is added, so edits use the other reasons
+const editReasons = compensationChangeReasons.filter(reason => reason !== "hire");
+
 type FormData = z.infer<typeof formSchema>;
 
 export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeModalProps) {
@@ -37,6 +45,21 @@ export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeMod
     enabled: isOpen,
   });
 
+  const { data: employees = [] } = useQuery<EmployeeWithRole[]>({
+    queryKey: ["/api/employees"],
+    enabled: isOpen,
+  });
+
+  const { data: paySchedules = [] } = useQuery<PaySchedule[]>({
+    queryKey: ["/api/pay-schedules"],
+    enabled: isOpen,
+  });
+
+  const { data: overtimePolicies = [] } = useQuery<OvertimePolicy[]>({
+    queryKey: ["/api/overtime-policies"],
+    enabled: isOpen,
+  });
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -47,8 +70,16 @@ export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeMod
       type: "full-time",
       department: "",
       roleId: 0,
-      salary: "",
+      managerId: null,
+      payScheduleId: null,
+      overtimePolicyId: null,
+      isExempt: null,
+      payBasis: "annual",
+      payAmount: "",
+      currency: "USD",
+      standardHoursPerWeek: "40",
       startDate: "",
+      terminationDate: "",
       status: "active",
     },
   });
@@ -59,6 +90,8 @@ export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeMod
         ...data,
         roleId: parseInt(data.roleId.toString()),
         startDate: new Date(data.startDate),
+        terminationDate: data.terminationDate ? new Date(data.terminationDate) : null,
+        compensationEffectiveDate: data.compensationEffectiveDate || undefined,
       };
       
       if (isEditing) {
@@ -70,6 +103,10 @@ export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeMod
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      if (employee) {
+        queryClient.invalidateQueries({ queryKey: [`/api/employees/${employee.id}/compensation-history`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/employees/${employee.id}/retro-pay`] });
+      }
       toast({
         title: isEditing ? "Employee updated successfully" : "Employee added successfully",
       });
@@ -96,9 +133,20 @@ export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeMod
         type: employee.type,
         department: employee.department,
         roleId: employee.roleId,
-        salary: employee.salary,
+        managerId: employee.managerId,
+        payScheduleId: employee.payScheduleId,
+        overtimePolicyId: employee.overtimePolicyId,
+        isExempt: employee.isExempt,
+        payBasis: employee.payBasis as PayBasis,
+        payAmount: employee.payAmount,
+        currency: employee.currency,
+        standardHoursPerWeek: employee.standardHoursPerWeek,
         startDate: startDate.toISOString().split('T')[0],
+        terminationDate: employee.terminationDate ? new Date(employee.terminationDate).toISOString().split('T')[0] : "",
         status: employee.status,
+        compensationEffectiveDate: "",
+        compensationReason: "adjustment",
+        compensationNote: "",
       });
     } else if (!isEditing && isOpen) {
       form.reset({
@@ -109,8 +157,16 @@ export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeMod
         type: "full-time",
         department: "engineering",
         roleId: 0,
-        salary: "",
+        managerId: null,
+        payScheduleId: null,
+        overtimePolicyId: null,
+        isExempt: null,
+        payBasis: "annual",
+        payAmount: "",
+        currency: "USD",
+        standardHoursPerWeek: "40",
         startDate: "",
+        terminationDate: "",
         status: "active",
       });
     }
@@ -120,8 +176,15 @@ export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeMod
     createEmployeeMutation.mutate(data);
   };
 
-  const selectedType = form.watch("type");
+  const selectedPayBasis = form.watch("payBasis") ?? "annual";
   const selectedRole = roles.find(role => role.id === form.watch("roleId"));
+  const [watchedBasis, watchedAmount, watchedCurrency, watchedHours] = form.watch(["payBasis", "payAmount", "currency", "standardHoursPerWeek"]);
+  const isPayChanged = !!employee && (
+    watchedBasis !== employee.payBasis ||
+    parseFloat(watchedAmount) !== parseFloat(employee.payAmount) ||
+    watchedCurrency !== employee.currency ||
+    parseFloat(watchedHours ?? "") !== parseFloat(employee.standardHoursPerWeek)
+  );
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -251,35 +314,200 @@ export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeMod
             
             <FormField
               control={form.control}
-              name="salary"
+              name="managerId"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>
-                    {selectedType === 'full-time' ? 'Annual Salary *' : 'Hourly Rate *'}
-                  </FormLabel>
-                  <FormControl>
-                    <div className="flex">
-                      <span className="inline-flex items-center px-3 rounded-l-lg border border-r-0 border-gray-300 bg-gray-50 text-gray-500 text-sm">
-                        $
-                      </span>
+                  <FormLabel>Manager</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                    value={field.value ? field.value.toString() : "none"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select manager..." />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No manager</SelectItem>
+                      {employees
+                        .filter((candidate) => candidate.id !== employee?.id)
+                        .map((candidate) => (
+                          <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                            {candidate.firstName} {candidate.lastName} - {candidate.role.title}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="payScheduleId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pay Schedule</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                    value={field.value ? field.value.toString() : "none"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select pay schedule..." />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Department or default schedule</SelectItem>
+                      {paySchedules.map((schedule) => (
+                        <SelectItem key={schedule.id} value={schedule.id.toString()}>
+                          {schedule.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="isExempt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Overtime Classification</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "role" ? null : value === "exempt")}
+                      value={field.value === null || field.value === undefined ? "role" : field.value ? "exempt" : "non-exempt"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="role">
+                          Same as role{selectedRole ? ` (${selectedRole.isExempt ? "exempt" : "non-exempt"})` : ""}
+                        </SelectItem>
+                        <SelectItem value="non-exempt">Non-exempt (paid overtime)</SelectItem>
+                        <SelectItem value="exempt">Exempt (no overtime)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="overtimePolicyId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Overtime Policy</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                      value={field.value ? field.value.toString() : "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select overtime policy..." />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Role or default policy</SelectItem>
+                        {overtimePolicies.map((policy) => (
+                          <SelectItem key={policy.id} value={policy.id.toString()}>
+                            {policy.name}{policy.isExempt ? " (exempt)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormField
+                control={form.control}
+                name="payBasis"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pay Basis *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value ?? "annual"}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {payBases.map((basis) => (
+                          <SelectItem key={basis} value={basis}>
+                            {payBasisLabels[basis]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="payAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount *</FormLabel>
+                    <FormControl>
                       <Input
                         type="number"
                         step="0.01"
-                        className="rounded-l-none"
-                        placeholder={selectedType === 'full-time' ? 'Annual salary' : 'Hourly rate'}
+                        placeholder={`Amount ${payBasisUnits[selectedPayBasis]}`}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input
+                        maxLength={3}
+                        placeholder="USD"
                         {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
                       />
-                    </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="standardHoursPerWeek"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Standard Hours per Week</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.25" placeholder="40" {...field} />
                   </FormControl>
                   <p className="text-xs text-gray-500">
-                    {selectedType === 'full-time' 
-                      ? 'Enter annual salary for full-time employee'
-                      : 'Enter hourly rate for part-time employee'
-                    }
+                    Converts between annual, daily and hourly pay and sets the hours in a salaried pay period
                     {selectedRole && (
                       <span className="block mt-1">
-                        Salary range for this role: ${selectedRole.minSalary} - ${selectedRole.maxSalary}
-                        {selectedType === 'part-time' ? '/hour' : ''}
+                        Pay range for this role: {selectedRole.minSalary} - {selectedRole.maxSalary} {selectedRole.currency} {payBasisUnits[selectedRole.payBasis as PayBasis]}
                       </span>
                     )}
                   </p>
@@ -288,6 +516,62 @@ export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeMod
               )}
             />
             
+            {isPayChanged && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 rounded-md border border-blue-200 bg-blue-50 p-4">
+                <FormField
+                  control={form.control}
+                  name="compensationEffectiveDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pay Change Effective</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <p className="text-xs text-gray-500">Defaults to today</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="compensationReason"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reason</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? "adjustment"}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {editReasons.map((reason) => (
+                            <SelectItem key={reason} value={reason}>
+                              {compensationChangeReasonLabels[reason]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="compensationNote"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Note</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <FormField
                 control={form.control}
@@ -317,6 +601,21 @@ export default function EmployeeModal({ isOpen, onClose, employee }: EmployeeMod
               />
             </div>
             
+            <FormField
+              control={form.control}
+              name="terminationDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Termination Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <p className="text-xs text-gray-500">Last day employed; pay for that period is prorated</p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end space-x-4 pt-4 border-t border-gray-200">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
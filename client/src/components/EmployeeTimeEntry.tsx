@@ -1,16 +1,17 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { Clock, Plus, Save, Calendar } from "lucide-react";
+import { Clock, Plus, Save, Calendar, Trash2 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TimeEntry } from "@shared/schema";
 
 const timeEntrySchema = z.object({
   date: z.string().min(1, "Date is required"),
@@ -23,20 +24,21 @@ const timeEntrySchema = z.object({
 
 type TimeEntryData = z.infer<typeof timeEntrySchema>;
 
-interface TimeEntry {
-  id: string;
-  date: string;
-  startTime: string;
-  endTime: string;
-  breakDuration: string;
-  hoursWorked: number;
-  projectCode?: string;
-  description?: string;
-}
+const statusStyles: Record<string, string> = {
+  submitted: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+// Time entries of the signed-in employee, resolved from the session
+const timeEntriesUrl = "/api/me/time-entries";
 
 export default function EmployeeTimeEntry() {
   const { toast } = useToast();
-  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+
+  const { data: timeEntries = [] } = useQuery<TimeEntry[]>({
+    queryKey: [timeEntriesUrl],
+  });
 
   const form = useForm<TimeEntryData>({
     resolver: zodResolver(timeEntrySchema),
@@ -52,23 +54,19 @@ export default function EmployeeTimeEntry() {
 
   const addTimeEntryMutation = useMutation({
     mutationFn: async (data: TimeEntryData) => {
-      // Calculate hours worked
-      const startMinutes = timeToMinutes(data.startTime);
-      const endMinutes = timeToMinutes(data.endTime);
-      const breakMinutes = parseInt(data.breakDuration) || 0;
-      const hoursWorked = (endMinutes - startMinutes - breakMinutes) / 60;
-
-      const newEntry: TimeEntry = {
-        id: Date.now().toString(),
-        ...data,
-        hoursWorked: Math.max(0, hoursWorked),
-      };
-
-      // In a real app, this would save to the server
-      setTimeEntries(prev => [newEntry, ...prev]);
-      return newEntry;
+      // Hours are computed on the server from start, end and break
+      const response = await apiRequest("POST", timeEntriesUrl, {
+        workDate: data.date,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        breakMinutes: parseInt(data.breakDuration) || 0,
+        projectCode: data.projectCode || null,
+        description: data.description || null,
+      });
+      return response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [timeEntriesUrl] });
       toast({ title: "Time entry added successfully" });
       form.reset({
         date: new Date().toISOString().split('T')[0],
@@ -79,19 +77,31 @@ export default function EmployeeTimeEntry() {
         description: "",
       });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to add time entry",
+        description: error.message || "Failed to add time entry",
         variant: "destructive",
       });
     },
   });
 
-  const timeToMinutes = (timeString: string): number => {
-    const [hours, minutes] = timeString.split(':').map(Number);
-    return hours * 60 + minutes;
-  };
+  const deleteTimeEntryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${timeEntriesUrl}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [timeEntriesUrl] });
+      toast({ title: "Time entry deleted successfully" });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete time entry",
+        variant: "destructive",
+      });
+    },
+  });
 
   const formatTime = (timeString: string): string => {
     return new Date(`2000-01-01T${timeString}`).toLocaleTimeString('en-US', {
@@ -105,8 +115,11 @@ export default function EmployeeTimeEntry() {
     addTimeEntryMutation.mutate(data);
   };
 
+  // Work dates are plain YYYY-MM-DD strings, so parse them as local dates
+  const parseWorkDate = (workDate: string): Date => new Date(`${workDate}T00:00:00`);
+
   const totalHoursThisWeek = timeEntries.reduce((total, entry) => {
-    const entryDate = new Date(entry.date);
+    const entryDate = parseWorkDate(entry.workDate);
     const weekStart = new Date();
     weekStart.setDate(weekStart.getDate() - weekStart.getDay());
     weekStart.setHours(0, 0, 0, 0);
@@ -116,7 +129,7 @@ export default function EmployeeTimeEntry() {
     weekEnd.setHours(23, 59, 59, 999);
 
     if (entryDate >= weekStart && entryDate <= weekEnd) {
-      return total + entry.hoursWorked;
+      return total + parseFloat(entry.hoursWorked);
     }
     return total;
   }, 0);
@@ -274,7 +287,7 @@ export default function EmployeeTimeEntry() {
                   <div className="flex-1">
                     <div className="flex items-center space-x-4">
                       <div className="text-sm font-medium text-gray-900">
-                        {new Date(entry.date).toLocaleDateString('en-US', {
+                        {parseWorkDate(entry.workDate).toLocaleDateString('en-US', {
                           weekday: 'short',
                           month: 'short',
                           day: 'numeric',
@@ -293,8 +306,24 @@ export default function EmployeeTimeEntry() {
                       <div className="mt-1 text-sm text-gray-600">{entry.description}</div>
                     )}
                   </div>
-                  <div className="text-sm font-medium text-gray-900">
-                    {entry.hoursWorked.toFixed(1)}h
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary" className={statusStyles[entry.status]}>
+                      {entry.status}
+                    </Badge>
+                    <div className="text-sm font-medium text-gray-900">
+                      {parseFloat(entry.hoursWorked).toFixed(1)}h
+                    </div>
+                    {entry.status !== "approved" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-800"
+                        onClick={() => deleteTimeEntryMutation.mutate(entry.id)}
+                        disabled={deleteTimeEntryMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
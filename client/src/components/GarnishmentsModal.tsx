@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import { formatContribution, formatCurrency } from "@/lib/utils";
+import { garnishmentDisposableLimits, garnishmentTypeLabels, garnishmentTypes } from "@shared/schema";
+import type { ContributionType, EmployeeWithRole, GarnishmentOrderWithBalance, GarnishmentType } from "@shared/schema";
+
+interface GarnishmentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employee: EmployeeWithRole | null;
+}
+
+export default function GarnishmentsModal({ isOpen, onClose, employee }: GarnishmentsModalProps) {
+  const { toast } = useToast();
+  const [type, setType] = useState<GarnishmentType>("child_support");
+  const [payee, setPayee] = useState("");
+  const [caseNumber, setCaseNumber] = useState("");
+  const [amountType, setAmountType] = useState<ContributionType>("fixed");
+  const [amount, setAmount] = useState("");
+  const [maxPerPeriod, setMaxPerPeriod] = useState("");
+  const [totalCap, setTotalCap] = useState("");
+  const [disposableLimitPercent, setDisposableLimitPercent] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+
+  const garnishmentsUrl = `/api/employees/${employee?.id}/garnishments`;
+
+  const { data: orders = [], isLoading } = useQuery<GarnishmentOrderWithBalance[]>({
+    queryKey: [garnishmentsUrl],
+    enabled: isOpen && !!employee,
+  });
+
+  const resetForm = () => {
+    setType("child_support");
+    setPayee("");
+    setCaseNumber("");
+    setAmountType("fixed");
+    setAmount("");
+    setMaxPerPeriod("");
+    setTotalCap("");
+    setDisposableLimitPercent("");
+    setStartDate("");
+    setEndDate("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", garnishmentsUrl, {
+        type,
+        payee,
+        caseNumber: caseNumber || null,
+        amountType,
+        amount,
+        maxPerPeriod: maxPerPeriod || null,
+        totalCap: totalCap || null,
+        disposableLimitPercent: disposableLimitPercent || null,
+        startDate,
+        endDate: endDate || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [garnishmentsUrl] });
+      toast({ title: "Garnishment order added" });
+      resetForm();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add garnishment order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const endMutation = useMutation({
+    mutationFn: async ({ id, endDate }: { id: number; endDate: string }) => {
+      const response = await apiRequest("PUT", `${garnishmentsUrl}/${id}`, { endDate });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [garnishmentsUrl] });
+      toast({ title: "Garnishment order ended" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to end garnishment order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${garnishmentsUrl}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [garnishmentsUrl] });
+      toast({ title: "Garnishment order deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete garnishment order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!payee || !amount || !startDate) {
+      toast({
+        title: "Error",
+        description: "Please enter the payee, amount and the date the order starts",
+        variant: "destructive",
+      });
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const handleEnd = (order: GarnishmentOrderWithBalance) => {
+    const date = prompt(`Last day the order to ${order.payee} applies (YYYY-MM-DD)`, new Date().toISOString().slice(0, 10));
+    if (date) {
+      endMutation.mutate({ id: order.id, endDate: date });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            Garnishments{employee && ` - ${employee.firstName} ${employee.lastName}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-600">
+          Orders are withheld after taxes, support first, and together never take more than the order's share of
+          disposable earnings (pay less taxes). An order stops once its total has been paid.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+            <Select value={type} onValueChange={(value) => setType(value as GarnishmentType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {garnishmentTypes.map((garnishmentType) => (
+                  <SelectItem key={garnishmentType} value={garnishmentType}>
+                    {garnishmentTypeLabels[garnishmentType]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Payee</label>
+            <Input value={payee} onChange={(e) => setPayee(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Case Number</label>
+            <Input value={caseNumber} onChange={(e) => setCaseNumber(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Amount</label>
+            <div className="flex space-x-2">
+              <Select value={amountType} onValueChange={(value) => setAmountType(value as ContributionType)}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixed">$</SelectItem>
+                  <SelectItem value="percent">%</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Max per Period</label>
+            <Input type="number" step="0.01" min="0" placeholder="None" value={maxPerPeriod} onChange={(e) => setMaxPerPeriod(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Total Owed</label>
+            <Input type="number" step="0.01" min="0" placeholder="Ongoing" value={totalCap} onChange={(e) => setTotalCap(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Disposable Limit (%)</label>
+            <Input
+              type="number"
+              step="1"
+              min="0"
+              max="100"
+              placeholder={garnishmentDisposableLimits[type].toString()}
+              value={disposableLimitPercent}
+              onChange={(e) => setDisposableLimitPercent(e.target.value)}
+            />
+          </div>
+          <div />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Starts</label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <Button onClick={handleCreate} disabled={createMutation.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Order
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-4 text-gray-500">Loading garnishment orders...</div>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No garnishment orders.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Paid</TableHead>
+                <TableHead>Remaining</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order) => (
+                <TableRow key={order.id}>
+                  <TableCell className="text-sm text-gray-900">
+                    {garnishmentTypeLabels[order.type as GarnishmentType]} - {order.payee}
+                    {order.caseNumber && <div className="text-xs text-gray-500">Case {order.caseNumber}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {order.startDate} to {order.endDate ?? "ongoing"}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-900">
+                    {formatContribution(order.amountType, order.amount)}
+                    {order.amountType === "percent" && " of disposable"}
+                    {order.maxPerPeriod && (
+                      <div className="text-xs text-gray-500">Max {formatCurrency(parseFloat(order.maxPerPeriod))} per period</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-900">
+                    {formatCurrency(parseFloat(order.amountPaid))}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-900">
+                    {order.remainingBalance === null ? "—" : formatCurrency(parseFloat(order.remainingBalance))}
+                    {order.totalCap && (
+                      <div className="text-xs text-gray-500">of {formatCurrency(parseFloat(order.totalCap))}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-1">
+                      {!order.endDate && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEnd(order)}
+                          disabled={endMutation.isPending}
+                        >
+                          End
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => deleteMutation.mutate(order.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,24 +1,59 @@
 import { ReactNode } from "react";
 import { Link, useLocation } from "wouter";
-import { Users, BarChart3, FileText, UserCheck, PieChart, Building } from "lucide-react";
+import { Users, BarChart3, FileText, UserCheck, PieChart, Building, Layers, LogOut, ClipboardList, CalendarDays, Clock, HeartPulse, Gift } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
+import type { Permission, UserRole } from "@shared/permissions";
 
 interface LayoutProps {
   children: ReactNode;
 }
 
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: typeof Users;
+  current: boolean;
+  permission?: Permission;
+}
+
+const accessRoleLabels: Record<UserRole, string> = {
+  admin: "Payroll Administrator",
+  hr: "Human Resources",
+  manager: "Manager",
+  employee: "Employee",
+};
+
 export default function Layout({ children }: LayoutProps) {
   const [location] = useLocation();
+  const { user, can, logoutMutation } = useAuth();
 
-  const navigation = [
-    { name: "Dashboard", href: "/", icon: BarChart3, current: location === "/" },
-    { name: "Employees", href: "/employees", icon: Users, current: location === "/employees" },
-    { name: "Payslips", href: "/payslips", icon: FileText, current: location === "/payslips" },
-    { name: "Roles", href: "/roles", icon: UserCheck, current: location === "/roles" },
-    { name: "Reports", href: "/reports", icon: PieChart, current: location === "/reports" },
-    { name: "My Portal", href: "/portal", icon: Users, current: location === "/portal" },
+  const navigationItems: NavigationItem[] = [
+    { name: "Dashboard", href: "/", icon: BarChart3, current: location === "/", permission: "dashboard:view" },
+    { name: "Employees", href: "/employees", icon: Users, current: location === "/employees", permission: "employees:read" },
+    { name: "My Team", href: "/employees", icon: Users, current: location === "/employees", permission: "employees:read-reports" },
+    { name: "Payslips", href: "/payslips", icon: FileText, current: location === "/payslips", permission: "payroll:read" },
+    { name: "Pay Runs", href: "/pay-runs", icon: Layers, current: location === "/pay-runs", permission: "payroll:read" },
+    { name: "Pay Schedules", href: "/pay-schedules", icon: CalendarDays, current: location === "/pay-schedules", permission: "payroll:read" },
+    { name: "Overtime Policies", href: "/overtime-policies", icon: Clock, current: location === "/overtime-policies", permission: "payroll:read" },
+    { name: "Bonuses", href: "/earnings", icon: Gift, current: location === "/earnings", permission: "payroll:read" },
+    { name: "Benefit Plans", href: "/benefit-plans", icon: HeartPulse, current: location === "/benefit-plans", permission: "employees:read" },
+    { name: "Profile Changes", href: "/profile-changes", icon: ClipboardList, current: location === "/profile-changes", permission: "employees:manage" },
+    { name: "Roles", href: "/roles", icon: UserCheck, current: location === "/roles", permission: "roles:read" },
+    { name: "Reports", href: "/reports", icon: PieChart, current: location === "/reports", permission: "reports:view" },
   ];
 
+  // Organization-wide access supersedes the team view
+  const navigation = navigationItems
+    .filter(item => !item.permission || can(item.permission))
+    .filter(item => item.name !== "My Team" || !can("employees:read"));
+
+  // The portal is for users whose account is linked to an employee record
+  if (user?.employeeId) {
+    navigation.push({ name: "My Portal", href: "/portal", icon: Users, current: location === "/portal" });
+  }
+
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Sidebar */}
@@ -60,14 +95,24 @@ export default function Layout({ children }: LayoutProps) {
         <div className="p-4 border-t border-gray-200">
           <div className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
             <div className="w-8 h-8 bg-gray-400 rounded-full flex items-center justify-center">
-              <span className="text-white text-sm font-medium">AU</span>
+              <span className="text-white text-sm font-medium">{user?.username.slice(0, 2).toUpperCase()}</span>
             </div>
-            <div className="flex-1">
-              <p className="text-sm font-medium text-gray-900">Admin User</p>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{user?.username}</p>
               <p className="text-xs text-gray-500">
-                {location === "/portal" ? "Employee Portal" : "System Administrator"}
+                {location === "/portal" ? "Employee Portal" : accessRoleLabels[user?.accessRole as UserRole] ?? user?.accessRole}
               </p>
             </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-600 hover:text-gray-800"
+              title="Log out"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
           </div>
         </div>
       </aside>
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, getLoanStatus } from "@/lib/utils";
+import type { EmployeeWithRole, LoanWithBalance } from "@shared/schema";
+
+interface LoansModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employee: EmployeeWithRole | null;
+}
+
+// Repayment is either a fixed installment or the amount split into equal installments
+type RepaymentBasis = "installments" | "installmentAmount";
+
+const loanStatusStyles: Record<string, string> = {
+  repaying: "bg-blue-100 text-blue-800",
+  repaid: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
+
+export default function LoansModal({ isOpen, onClose, employee }: LoansModalProps) {
+  const { toast } = useToast();
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [repaymentBasis, setRepaymentBasis] = useState<RepaymentBasis>("installments");
+  const [repayment, setRepayment] = useState("");
+  const [startDate, setStartDate] = useState("");
+
+  const loansUrl = `/api/employees/${employee?.id}/loans`;
+
+  const { data: loans = [], isLoading } = useQuery<LoanWithBalance[]>({
+    queryKey: [loansUrl],
+    enabled: isOpen && !!employee,
+  });
+
+  const resetForm = () => {
+    setDescription("");
+    setAmount("");
+    setRepaymentBasis("installments");
+    setRepayment("");
+    setStartDate("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", loansUrl, {
+        description,
+        amount,
+        startDate,
+        ...(repaymentBasis === "installments"
+          ? { installments: parseInt(repayment) }
+          : { installmentAmount: repayment }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [loansUrl] });
+      toast({ title: "Loan recorded" });
+      resetForm();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record loan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("PUT", `${loansUrl}/${id}`, { status: "cancelled" });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [loansUrl] });
+      toast({ title: "Loan cancelled" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel loan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${loansUrl}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [loansUrl] });
+      toast({ title: "Loan deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete loan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!description || !amount || !repayment || !startDate) {
+      toast({
+        title: "Error",
+        description: "Please enter a description, the amount, the repayment and when repayment starts",
+        variant: "destructive",
+      });
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const handleCancel = (loan: LoanWithBalance) => {
+    if (confirm(`Cancel ${loan.description}? The ${formatCurrency(parseFloat(loan.outstandingBalance))} outstanding will be written off.`)) {
+      cancelMutation.mutate(loan.id);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            Loans{employee && ` - ${employee.firstName} ${employee.lastName}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-600">
+          An installment is deducted from each payslip from the start date until the loan is repaid.
+          Installments never take more than the net pay left after taxes and other deductions.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <Input placeholder="Salary advance" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Amount</label>
+            <Input type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Repay Starting</label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Repayment</label>
+            <Select value={repaymentBasis} onValueChange={(value) => setRepaymentBasis(value as RepaymentBasis)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="installments">Number of installments</SelectItem>
+                <SelectItem value="installmentAmount">Amount per payslip</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {repaymentBasis === "installments" ? "Installments" : "Per Payslip"}
+            </label>
+            <Input
+              type="number"
+              step={repaymentBasis === "installments" ? "1" : "0.01"}
+              min="0"
+              value={repayment}
+              onChange={(e) => setRepayment(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={createMutation.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Loan
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-4 text-gray-500">Loading loans...</div>
+        ) : loans.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No loans.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Loan</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Installment</TableHead>
+                <TableHead>Repaid</TableHead>
+                <TableHead>Outstanding</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loans.map((loan) => {
+                const status = getLoanStatus(loan);
+                return (
+                  <TableRow key={loan.id}>
+                    <TableCell className="text-sm text-gray-900">
+                      {loan.description}
+                      <div className="text-xs text-gray-500">From {loan.startDate}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-900">{formatCurrency(parseFloat(loan.amount))}</TableCell>
+                    <TableCell className="text-sm text-gray-900">
+                      {formatCurrency(parseFloat(loan.installmentAmount))}
+                      {loan.installmentsRemaining > 0 && (
+                        <div className="text-xs text-gray-500">{loan.installmentsRemaining} remaining</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-900">{formatCurrency(parseFloat(loan.amountRepaid))}</TableCell>
+                    <TableCell className="text-sm font-medium text-gray-900">{formatCurrency(parseFloat(loan.outstandingBalance))}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={loanStatusStyles[status]}>{status}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-1">
+                        {status === "repaying" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCancel(loan)}
+                            disabled={cancelMutation.isPending}
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => deleteMutation.mutate(loan.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
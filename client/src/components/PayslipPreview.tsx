@@ -1,14 +1,48 @@
 import { formatCurrency } from "@/lib/utils";
 import type { EmployeeWithRole } from "@shared/schema";
 
+interface PayslipLineItem {
+  type: "earning" | "tax" | "deduction" | "employer";
+  code: string;
+  description: string;
+  amount: number;
+  hours?: number;
+  preTax?: boolean;
+  supplemental?: boolean;
+}
+
+interface TimeEntryContribution {
+  id: number;
+  workDate: string;
+  startTime: string;
+  endTime: string;
+  hours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
+
+interface YearToDateTotals {
+  grossPay: number;
+  taxWithheld: number;
+  deductions: number;
+  netPay: number;
+  retirementContributions: number;
+  employerRetirementContributions: number;
+}
+
 interface PayslipCalculation {
   basePay: number;
   overtimePay: number;
   grossPay: number;
+  taxWithheld: number;
   deductions: number;
   netPay: number;
   hoursWorked: number;
   overtimeHours: number;
+  doubleTimeHours: number;
+  lines: PayslipLineItem[];
+  timeEntries?: TimeEntryContribution[];
+  yearToDate?: YearToDateTotals;
 }
 
 interface PayslipPreviewProps {
@@ -18,6 +52,11 @@ interface PayslipPreviewProps {
 }
 
 export default function PayslipPreview({ employee, calculation, payPeriod }: PayslipPreviewProps) {
+  const earnings = calculation.lines.filter(line => line.type === "earning");
+  const taxes = calculation.lines.filter(line => line.type === "tax");
+  const deductions = calculation.lines.filter(line => line.type === "deduction");
+  const employerContributions = calculation.lines.filter(line => line.type === "employer");
+
   return (
     <div className="border border-gray-200 rounded-lg p-4 space-y-3">
       <div className="border-b border-gray-200 pb-3">
@@ -37,31 +76,110 @@ export default function PayslipPreview({ employee, calculation, payPeriod }: Pay
             <span>{calculation.overtimeHours}</span>
           </div>
         )}
-        <div className="flex justify-between">
-          <span>Base Pay:</span>
-          <span>{formatCurrency(calculation.basePay)}</span>
-        </div>
-        {calculation.overtimePay > 0 && (
+        {calculation.doubleTimeHours > 0 && (
           <div className="flex justify-between">
-            <span>Overtime Pay:</span>
-            <span>{formatCurrency(calculation.overtimePay)}</span>
+            <span>Double Time Hours:</span>
+            <span>{calculation.doubleTimeHours}</span>
           </div>
         )}
+      </div>
+
+      {calculation.timeEntries && (
+        <div className="space-y-1 text-sm">
+          <p className="text-xs font-semibold uppercase text-gray-500">Time Entries</p>
+          {calculation.timeEntries.length === 0 ? (
+            <p className="text-gray-500">No approved time entries in this period</p>
+          ) : (
+            calculation.timeEntries.map((entry) => (
+              <div key={entry.id} className="flex justify-between text-gray-700">
+                <span>{entry.workDate} {entry.startTime}-{entry.endTime}</span>
+                <span>
+                  {entry.hours}h
+                  {entry.overtimeHours > 0 ? ` (${entry.overtimeHours}h OT)` : ""}
+                  {entry.doubleTimeHours > 0 ? ` (${entry.doubleTimeHours}h DT)` : ""}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      <div className="space-y-1 text-sm">
+        <p className="text-xs font-semibold uppercase text-gray-500">Earnings</p>
+        {earnings.map((line, index) => (
+          <div key={`${line.code}-${index}`} className="flex justify-between">
+            <span>{line.description}{line.hours !== undefined ? ` (${line.hours}h)` : ""}{line.supplemental ? " (supplemental)" : ""}:</span>
+            <span>{formatCurrency(line.amount)}</span>
+          </div>
+        ))}
         <div className="flex justify-between font-medium">
           <span>Gross Pay:</span>
           <span>{formatCurrency(calculation.grossPay)}</span>
         </div>
-        {calculation.deductions > 0 && (
-          <div className="flex justify-between text-red-600">
+      </div>
+
+      {(taxes.length > 0 || deductions.length > 0) && (
+        <div className="space-y-1 text-sm">
+          <p className="text-xs font-semibold uppercase text-gray-500">Taxes & Deductions</p>
+          {[...taxes, ...deductions].map((line, index) => (
+            <div key={`${line.code}-${index}`} className="flex justify-between text-red-600">
+              <span>{line.description}{line.preTax ? " (pre-tax)" : ""}:</span>
+              <span>-{formatCurrency(line.amount)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="border-t border-gray-200 pt-2 flex justify-between font-semibold text-lg">
+        <span>Net Pay:</span>
+        <span className="text-green-600">{formatCurrency(calculation.netPay)}</span>
+      </div>
+
+      {employerContributions.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <p className="text-xs font-semibold uppercase text-gray-500">Employer Contributions</p>
+          {employerContributions.map((line, index) => (
+            <div key={`${line.code}-${index}`} className="flex justify-between text-gray-600">
+              <span>{line.description}:</span>
+              <span>{formatCurrency(line.amount)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {calculation.yearToDate && (
+        <div className="space-y-1 text-sm">
+          <p className="text-xs font-semibold uppercase text-gray-500">Year to Date</p>
+          <div className="flex justify-between">
+            <span>Gross Pay:</span>
+            <span>{formatCurrency(calculation.yearToDate.grossPay)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Taxes:</span>
+            <span>{formatCurrency(calculation.yearToDate.taxWithheld)}</span>
+          </div>
+          <div className="flex justify-between">
             <span>Deductions:</span>
-            <span>-{formatCurrency(calculation.deductions)}</span>
+            <span>{formatCurrency(calculation.yearToDate.deductions)}</span>
           </div>
-        )}
-        <div className="border-t border-gray-200 pt-2 flex justify-between font-semibold text-lg">
-          <span>Net Pay:</span>
-          <span className="text-green-600">{formatCurrency(calculation.netPay)}</span>
+          <div className="flex justify-between font-medium">
+            <span>Net Pay:</span>
+            <span>{formatCurrency(calculation.yearToDate.netPay)}</span>
+          </div>
+          {(calculation.yearToDate.retirementContributions > 0 || calculation.yearToDate.employerRetirementContributions > 0) && (
+            <>
+              <div className="flex justify-between text-gray-600">
+                <span>Retirement Contributions:</span>
+                <span>{formatCurrency(calculation.yearToDate.retirementContributions)}</span>
+              </div>
+              <div className="flex justify-between text-gray-600">
+                <span>Employer Retirement Contributions:</span>
+                <span>{formatCurrency(calculation.yearToDate.employerRetirementContributions)}</span>
+              </div>
+            </>
+          )}
         </div>
-      </div>
+      )}
       
       <div className="border-t border-gray-200 pt-3 text-xs text-gray-500">
         <p><strong>Employee Type:</strong> {employee.type}</p>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -13,8 +13,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
-import { insertRoleSchema } from "@shared/schema";
-import type { Role } from "@shared/schema";
+import { insertRoleSchema, payBases, payBasisLabels } from "@shared/schema";
+import type { OvertimePolicy, PayBasis, Role } from "@shared/schema";
 
 interface RoleModalProps {
   isOpen: boolean;
@@ -23,8 +23,8 @@ interface RoleModalProps {
 }
 
 const formSchema = insertRoleSchema.extend({
-  minSalary: z.string().min(1, "Minimum salary is required"),
-  maxSalary: z.string().min(1, "Maximum salary is required"),
+  minSalary: z.string().min(1, "Minimum pay is required"),
+  maxSalary: z.string().min(1, "Maximum pay is required"),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -34,6 +34,11 @@ export default function RoleModal({ isOpen, onClose, role }: RoleModalProps) {
   const isEditing = !!role;
   const [responsibilities, setResponsibilities] = useState<string[]>([""]);
 
+  const { data: overtimePolicies = [] } = useQuery<OvertimePolicy[]>({
+    queryKey: ["/api/overtime-policies"],
+    enabled: isOpen,
+  });
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -43,6 +48,10 @@ export default function RoleModal({ isOpen, onClose, role }: RoleModalProps) {
       level: 1,
       minSalary: "",
       maxSalary: "",
+      payBasis: "annual",
+      currency: "USD",
+      overtimePolicyId: null,
+      isExempt: false,
       responsibilities: [],
     },
   });
@@ -87,6 +96,10 @@ export default function RoleModal({ isOpen, onClose, role }: RoleModalProps) {
         level: role.level,
         minSalary: role.minSalary,
         maxSalary: role.maxSalary,
+        payBasis: role.payBasis as PayBasis,
+        currency: role.currency,
+        overtimePolicyId: role.overtimePolicyId,
+        isExempt: role.isExempt,
         responsibilities: role.responsibilities,
       });
       setResponsibilities(role.responsibilities.length > 0 ? role.responsibilities : [""]);
@@ -98,6 +111,10 @@ export default function RoleModal({ isOpen, onClose, role }: RoleModalProps) {
         level: 1,
         minSalary: "",
         maxSalary: "",
+        payBasis: "annual",
+        currency: "USD",
+        overtimePolicyId: null,
+        isExempt: false,
         responsibilities: [],
       });
       setResponsibilities([""]);
@@ -220,17 +237,61 @@ export default function RoleModal({ isOpen, onClose, role }: RoleModalProps) {
               />
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <FormField
+                control={form.control}
+                name="payBasis"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pay Basis</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value ?? "annual"}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {payBases.map((basis) => (
+                          <SelectItem key={basis} value={basis}>
+                            {payBasisLabels[basis]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input
+                        maxLength={3}
+                        placeholder="USD"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="minSalary"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Minimum Salary *</FormLabel>
+                    <FormLabel>Minimum Pay *</FormLabel>
                     <FormControl>
                       <div className="flex">
                         <span className="inline-flex items-center px-3 rounded-l-lg border border-r-0 border-gray-300 bg-gray-50 text-gray-500 text-sm">
-                          $
+                          {form.watch("currency") || "USD"}
                         </span>
                         <Input
                           type="number"
@@ -251,11 +312,11 @@ export default function RoleModal({ isOpen, onClose, role }: RoleModalProps) {
                 name="maxSalary"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Maximum Salary *</FormLabel>
+                    <FormLabel>Maximum Pay *</FormLabel>
                     <FormControl>
                       <div className="flex">
                         <span className="inline-flex items-center px-3 rounded-l-lg border border-r-0 border-gray-300 bg-gray-50 text-gray-500 text-sm">
-                          $
+                          {form.watch("currency") || "USD"}
                         </span>
                         <Input
                           type="number"
@@ -271,6 +332,59 @@ export default function RoleModal({ isOpen, onClose, role }: RoleModalProps) {
                 )}
               />
             </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="isExempt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Overtime Classification</FormLabel>
+                    <Select onValueChange={(value) => field.onChange(value === "exempt")} value={field.value ? "exempt" : "non-exempt"}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="non-exempt">Non-exempt (paid overtime)</SelectItem>
+                        <SelectItem value="exempt">Exempt (no overtime)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="overtimePolicyId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Overtime Policy</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                      value={field.value ? field.value.toString() : "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select overtime policy..." />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Default policy</SelectItem>
+                        {overtimePolicies.map((policy) => (
+                          <SelectItem key={policy.id} value={policy.id.toString()}>
+                            {policy.name}{policy.isExempt ? " (exempt)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
             
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
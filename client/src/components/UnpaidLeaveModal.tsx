@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import type { EmployeeWithRole, UnpaidLeave } from "@shared/schema";
+
+interface UnpaidLeaveModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employee: EmployeeWithRole | null;
+}
+
+export default function UnpaidLeaveModal({ isOpen, onClose, employee }: UnpaidLeaveModalProps) {
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const leaveUrl = `/api/employees/${employee?.id}/unpaid-leave`;
+
+  const { data: leave = [], isLoading } = useQuery<UnpaidLeave[]>({
+    queryKey: [leaveUrl],
+    enabled: isOpen && !!employee,
+  });
+
+  const createLeaveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", leaveUrl, { startDate, endDate, reason: reason || null });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [leaveUrl] });
+      toast({ title: "Unpaid leave recorded" });
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record unpaid leave",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteLeaveMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${leaveUrl}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [leaveUrl] });
+      toast({ title: "Unpaid leave deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete unpaid leave",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    if (!startDate || !endDate) {
+      toast({
+        title: "Error",
+        description: "Please select the first and last day of leave",
+        variant: "destructive",
+      });
+      return;
+    }
+    createLeaveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            Unpaid Leave{employee && ` - ${employee.firstName} ${employee.lastName}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-600">
+          Salaried pay is prorated for the days of unpaid leave that fall in a pay period.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">First Day</label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Last Day</label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+            <Input placeholder="Optional" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+          <Button onClick={handleAdd} disabled={createLeaveMutation.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-4 text-gray-500">Loading leave...</div>
+        ) : leave.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No unpaid leave recorded.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>From</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leave.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="text-sm text-gray-900">{entry.startDate}</TableCell>
+                  <TableCell className="text-sm text-gray-900">{entry.endDate}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{entry.reason}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => deleteLeaveMutation.mutate(entry.id)}
+                      disabled={deleteLeaveMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
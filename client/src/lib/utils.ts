@@ -5,11 +5,11 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatCurrency(amount: number | string): string {
+export function formatCurrency(amount: number | string, currency: string = 'USD'): string {
   const num = typeof amount === 'string' ? parseFloat(amount) : amount;
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
   }).format(num);
 }
 
@@ -48,3 +48,15 @@ export function calculatePercentageChange(current: number, previous: number): nu
   if (previous === 0) return 0;
   return ((current - previous) / previous) * 100;
 }
+
+// A benefit contribution as entered: a fixed amount per period or a percentage of earnings
+export function formatContribution(type: string, amount: number | string): string {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount;
+  return type === 'percent' ? `${num}%` : formatCurrency(num);
+}
+
+// Repaid loans stay active on the server; they simply have nothing left to deduct
+export function getLoanStatus(loan: { status: string; outstandingBalance: string }): 'cancelled' | 'repaid' | 'repaying' {
+  if (loan.status === 'cancelled') return 'cancelled';
+  return parseFloat(loan.outstandingBalance) === 0 ? 'repaid' : 'repaying';
+}
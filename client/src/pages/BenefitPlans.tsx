@@ -0,0 +1,430 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Edit, Trash2, HeartPulse } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import { formatContribution } from "@/lib/utils";
+import Can from "@/components/Can";
+import { benefitPlanTypes, benefitPlanTypeLabels } from "@shared/schema";
+import type { BenefitPlan, BenefitPlanType, ContributionType, EmployerMatchTier } from "@shared/schema";
+
+interface BenefitPlanForm {
+  name: string;
+  type: BenefitPlanType;
+  description: string;
+  isPreTax: boolean;
+  employeeContributionType: ContributionType;
+  employeeContribution: string;
+  employerContributionType: ContributionType;
+  employerContribution: string;
+  employerMatch: { matchPercent: string; ofPercent: string }[];
+  annualLimit: string;
+  isActive: boolean;
+}
+
+const emptyForm: BenefitPlanForm = {
+  name: "",
+  type: "health",
+  description: "",
+  isPreTax: true,
+  employeeContributionType: "fixed",
+  employeeContribution: "0",
+  employerContributionType: "fixed",
+  employerContribution: "0",
+  employerMatch: [],
+  annualLimit: "",
+  isActive: true,
+};
+
+// "100% of 3%, 50% of the next 2%"
+function describeMatch(tiers: EmployerMatchTier[]): string {
+  return tiers
+    .map((tier, index) => `${tier.matchPercent}% of ${index === 0 ? "" : "the next "}${tier.ofPercent}%`)
+    .join(", ");
+}
+
+function ContributionInput({ label, type, amount, onChange }: {
+  label: string;
+  type: ContributionType;
+  amount: string;
+  onChange: (type: ContributionType, amount: string) => void;
+}) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <div className="flex space-x-2">
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          value={amount}
+          onChange={(e) => onChange(type, e.target.value)}
+        />
+        <Select value={type} onValueChange={(value) => onChange(value as ContributionType, amount)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="fixed">per period</SelectItem>
+            <SelectItem value="percent">% of earnings</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+export default function BenefitPlans() {
+  const [form, setForm] = useState<BenefitPlanForm>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { data: plans = [], isLoading } = useQuery<BenefitPlan[]>({
+    queryKey: ["/api/benefit-plans"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Matching and annual limits only apply to retirement plans
+      const isRetirement = form.type === "retirement";
+      const employerMatch = form.employerMatch
+        .filter(tier => tier.matchPercent && tier.ofPercent)
+        .map(tier => ({ matchPercent: parseFloat(tier.matchPercent), ofPercent: parseFloat(tier.ofPercent) }));
+      const data = {
+        ...form,
+        description: form.description || null,
+        employeeContribution: form.employeeContribution || "0",
+        employerContribution: form.employerContribution || "0",
+        employerMatch: isRetirement && employerMatch.length > 0 ? employerMatch : null,
+        annualLimit: isRetirement && form.annualLimit ? form.annualLimit : null,
+      };
+      const response = editingId
+        ? await apiRequest("PUT", `/api/benefit-plans/${editingId}`, data)
+        : await apiRequest("POST", "/api/benefit-plans", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/benefit-plans"] });
+      toast({ title: editingId ? "Benefit plan updated" : "Benefit plan created" });
+      setForm(emptyForm);
+      setEditingId(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save benefit plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/benefit-plans/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/benefit-plans"] });
+      toast({ title: "Benefit plan deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete benefit plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (plan: BenefitPlan) => {
+    setEditingId(plan.id);
+    setForm({
+      name: plan.name,
+      type: plan.type as BenefitPlanType,
+      description: plan.description ?? "",
+      isPreTax: plan.isPreTax,
+      employeeContributionType: plan.employeeContributionType as ContributionType,
+      employeeContribution: plan.employeeContribution,
+      employerContributionType: plan.employerContributionType as ContributionType,
+      employerContribution: plan.employerContribution,
+      employerMatch: (plan.employerMatch ?? []).map(tier => ({
+        matchPercent: tier.matchPercent.toString(),
+        ofPercent: tier.ofPercent.toString(),
+      })),
+      annualLimit: plan.annualLimit ?? "",
+      isActive: plan.isActive,
+    });
+  };
+
+  const handleDelete = (plan: BenefitPlan) => {
+    if (confirm(`Are you sure you want to delete the ${plan.name} benefit plan?`)) {
+      deleteMutation.mutate(plan.id);
+    }
+  };
+
+  const handleSave = () => {
+    if (!form.name) {
+      toast({
+        title: "Error",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Benefit Plans</h2>
+          <p className="text-gray-600">Plans employees can enrol in and what each side contributes</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Plan List */}
+        <Card>
+          <CardContent className="p-0">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Plans</h3>
+              <p className="text-sm text-gray-600">Only full-time employees are eligible; enrollments are managed from the employee list</p>
+            </div>
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">Loading plans...</div>
+            ) : plans.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <HeartPulse className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                <p>No benefit plans yet.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Employer</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map((plan) => (
+                    <TableRow key={plan.id}>
+                      <TableCell className="font-medium">
+                        {plan.name}
+                        <Badge variant="secondary" className="ml-2">
+                          {benefitPlanTypeLabels[plan.type as BenefitPlanType] ?? plan.type}
+                        </Badge>
+                        {!plan.isActive && (
+                          <Badge variant="secondary" className="ml-2 bg-gray-100 text-gray-600">Inactive</Badge>
+                        )}
+                        <div className="text-xs text-gray-500">
+                          {plan.isPreTax ? "Pre-tax" : "Post-tax"}{plan.description && ` - ${plan.description}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-900">
+                        {formatContribution(plan.employeeContributionType, plan.employeeContribution)}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-900">
+                        {formatContribution(plan.employerContributionType, plan.employerContribution)}
+                        {plan.employerMatch && plan.employerMatch.length > 0 && (
+                          <div className="text-xs text-gray-500">Match {describeMatch(plan.employerMatch)}</div>
+                        )}
+                        {plan.annualLimit && (
+                          <div className="text-xs text-gray-500">Limit {formatContribution("fixed", plan.annualLimit)}/year</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Can permission="employees:manage">
+                          <div className="flex space-x-1">
+                            <Button variant="ghost" size="sm" onClick={() => handleEdit(plan)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-800"
+                              onClick={() => handleDelete(plan)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </Can>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create / Edit */}
+        <Can permission="employees:manage">
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                {editingId ? "Edit Benefit Plan" : "New Benefit Plan"}
+              </h3>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                    <Input
+                      placeholder="e.g. Health PPO"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                    <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as BenefitPlanType })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {benefitPlanTypes.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {benefitPlanTypeLabels[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                  <Input
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  />
+                </div>
+                <ContributionInput
+                  label="Employee Contribution"
+                  type={form.employeeContributionType}
+                  amount={form.employeeContribution}
+                  onChange={(type, amount) => setForm({ ...form, employeeContributionType: type, employeeContribution: amount })}
+                />
+                <ContributionInput
+                  label="Employer Contribution"
+                  type={form.employerContributionType}
+                  amount={form.employerContribution}
+                  onChange={(type, amount) => setForm({ ...form, employerContributionType: type, employerContribution: amount })}
+                />
+                <p className="text-xs text-gray-500">Defaults for new enrollments; each enrollment can set its own amounts</p>
+                {form.type === "retirement" && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Employer Match</label>
+                      <div className="space-y-2">
+                        {form.employerMatch.map((tier, index) => (
+                          <div key={index} className="flex items-center space-x-2 text-sm text-gray-700">
+                            <Input
+                              type="number"
+                              step="1"
+                              min="0"
+                              className="w-24"
+                              value={tier.matchPercent}
+                              onChange={(e) => setForm({
+                                ...form,
+                                employerMatch: form.employerMatch.map((t, i) => i === index ? { ...t, matchPercent: e.target.value } : t),
+                              })}
+                            />
+                            <span>% of {index === 0 ? "the first" : "the next"}</span>
+                            <Input
+                              type="number"
+                              step="0.5"
+                              min="0"
+                              className="w-24"
+                              value={tier.ofPercent}
+                              onChange={(e) => setForm({
+                                ...form,
+                                employerMatch: form.employerMatch.map((t, i) => i === index ? { ...t, ofPercent: e.target.value } : t),
+                              })}
+                            />
+                            <span>% of earnings contributed</span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-800"
+                              onClick={() => setForm({ ...form, employerMatch: form.employerMatch.filter((_, i) => i !== index) })}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setForm({ ...form, employerMatch: [...form.employerMatch, { matchPercent: "", ofPercent: "" }] })}
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add Match Tier
+                        </Button>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Paid on top of the employer contribution, on what the employee actually contributes</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Annual Employee Limit</label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="No limit"
+                        value={form.annualLimit}
+                        onChange={(e) => setForm({ ...form, annualLimit: e.target.value })}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Deductions stop for the rest of the tax year once the employee has contributed this much</p>
+                    </div>
+                  </>
+                )}
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="plan-pre-tax"
+                    checked={form.isPreTax}
+                    onCheckedChange={(checked) => setForm({ ...form, isPreTax: checked === true })}
+                  />
+                  <label htmlFor="plan-pre-tax" className="text-sm font-medium text-gray-700">
+                    Pre-tax - deducted before withholding is worked out
+                  </label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="plan-active"
+                    checked={form.isActive}
+                    onCheckedChange={(checked) => setForm({ ...form, isActive: checked === true })}
+                  />
+                  <label htmlFor="plan-active" className="text-sm font-medium text-gray-700">
+                    Open for new enrollments
+                  </label>
+                </div>
+                <div className="flex justify-end space-x-2">
+                  {editingId && (
+                    <Button variant="outline" onClick={() => { setEditingId(null); setForm(emptyForm); }}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    {saveMutation.isPending ? "Saving..." : editingId ? "Save Changes" : "Add Plan"}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </Can>
+      </div>
+    </div>
+  );
+}
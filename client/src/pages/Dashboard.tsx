@@ -4,16 +4,19 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { formatCurrency } from "@/lib/utils";
 import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
 
 interface Stats {
   totalEmployees: number;
   fullTimeEmployees: number;
   partTimeEmployees: number;
-  monthlyPayroll: number;
+  // One total per currency employees are paid in
+  monthlyPayroll: { currency: string; amount: number }[];
 }
 
 export default function Dashboard() {
   const [, setLocation] = useLocation();
+  const { can } = useAuth();
 
   const { data: stats, isLoading } = useQuery<Stats>({
     queryKey: ["/api/stats"],
@@ -28,6 +31,7 @@ export default function Dashboard() {
       hoverColor: "hover:bg-blue-700",
       textColor: "text-white",
       action: () => setLocation("/employees"),
+      permission: "employees:manage" as const,
     },
     {
       title: "Generate Payslips",
@@ -37,6 +41,7 @@ export default function Dashboard() {
       hoverColor: "hover:bg-gray-50",
       textColor: "text-gray-700",
       action: () => setLocation("/payslips"),
+      permission: "payroll:manage" as const,
     },
     {
       title: "View Reports",
@@ -46,6 +51,7 @@ export default function Dashboard() {
       hoverColor: "hover:bg-gray-50",
       textColor: "text-gray-700",
       action: () => setLocation("/reports"),
+      permission: "reports:view" as const,
     },
     {
       title: "Manage Roles",
@@ -55,8 +61,9 @@ export default function Dashboard() {
       hoverColor: "hover:bg-gray-50",
       textColor: "text-gray-700",
       action: () => setLocation("/roles"),
+      permission: "roles:manage" as const,
     },
-  ];
+  ].filter(action => can(action.permission));
 
   const recentActivities = [
     {
@@ -171,9 +178,11 @@ export default function Dashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Monthly Payroll</p>
-                <p className="text-3xl font-bold text-gray-900">
-                  {formatCurrency(stats?.monthlyPayroll || 0)}
-                </p>
+                {(stats?.monthlyPayroll.length ? stats.monthlyPayroll : [{ currency: "USD", amount: 0 }]).map(total => (
+                  <p key={total.currency} className="text-3xl font-bold text-gray-900">
+                    {formatCurrency(total.amount, total.currency)}
+                  </p>
+                ))}
                 <p className="text-sm text-success flex items-center">
                   <TrendingUp className="h-4 w-4 mr-1" />
                   15% from last month
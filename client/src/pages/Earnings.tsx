@@ -0,0 +1,447 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Upload, Gift } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import Can from "@/components/Can";
+import { earningCalculationLabels, earningCalculations } from "@shared/schema";
+import type { EarningCalculation, EmployeeWithRole, ScheduledEarningWithEmployee } from "@shared/schema";
+
+// Earnings go to one employee or, imported, to a whole department
+type EarningTarget = "employee" | "department";
+
+interface EarningForm {
+  target: EarningTarget;
+  employeeId: string;
+  department: string;
+  calculation: EarningCalculation;
+  description: string;
+  amount: string;
+  salesAmount: string;
+  recurring: boolean;
+  startDate: string;
+  endDate: string;
+  isSupplemental: boolean;
+  // Department imports only: one "email, value" line per employee
+  rows: string;
+}
+
+const emptyForm: EarningForm = {
+  target: "employee",
+  employeeId: "",
+  department: "",
+  calculation: "flat",
+  description: "",
+  amount: "",
+  salesAmount: "",
+  recurring: false,
+  startDate: "",
+  endDate: "",
+  isSupplemental: true,
+  rows: "",
+};
+
+// How an earning is worked out, e.g. "10% of 20,000.00 sales"
+function describeAmount(earning: ScheduledEarningWithEmployee): string {
+  const amount = parseFloat(earning.amount);
+  switch (earning.calculation) {
+    case "percent_of_salary":
+      return earning.recurring ? `${amount}% of salary a year, paid each period` : `${amount}% of salary`;
+    case "commission":
+      return `${amount}% of ${formatCurrency(parseFloat(earning.salesAmount ?? "0"))} sales`;
+    default:
+      return formatCurrency(amount);
+  }
+}
+
+export default function Earnings() {
+  const [form, setForm] = useState<EarningForm>(emptyForm);
+  const { toast } = useToast();
+
+  const { data: earnings = [], isLoading } = useQuery<ScheduledEarningWithEmployee[]>({
+    queryKey: ["/api/earnings"],
+  });
+
+  const { data: employees = [] } = useQuery<EmployeeWithRole[]>({
+    queryKey: ["/api/employees"],
+  });
+
+  const departments = Array.from(new Set(employees.map(employee => employee.department))).sort();
+  // Import rows give each employee's sales figure for commission, otherwise their amount
+  const rowValue = form.calculation === "commission" ? "salesAmount" : "amount";
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const earning = {
+        calculation: form.calculation,
+        description: form.description || null,
+        amount: form.amount || undefined,
+        salesAmount: form.salesAmount || null,
+        recurring: form.recurring,
+        startDate: form.startDate,
+        endDate: form.recurring && form.endDate ? form.endDate : null,
+        isSupplemental: form.isSupplemental,
+      };
+      if (form.target === "employee") {
+        const response = await apiRequest("POST", `/api/employees/${form.employeeId}/earnings`, earning);
+        return [await response.json()];
+      }
+
+      const response = await apiRequest("POST", "/api/earnings/import", {
+        department: form.department,
+        earning,
+        rows: parseRows(),
+      });
+      return response.json();
+    },
+    onSuccess: (created: unknown[]) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/earnings"] });
+      toast({ title: created.length === 1 ? "Earning added" : `${created.length} earnings added` });
+      setForm(emptyForm);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add earnings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const endMutation = useMutation({
+    mutationFn: async ({ earning, endDate }: { earning: ScheduledEarningWithEmployee; endDate: string }) => {
+      const response = await apiRequest("PUT", `/api/employees/${earning.employeeId}/earnings/${earning.id}`, { endDate });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/earnings"] });
+      toast({ title: "Earning ended" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to end earning",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (earning: ScheduledEarningWithEmployee) => {
+      await apiRequest("DELETE", `/api/employees/${earning.employeeId}/earnings/${earning.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/earnings"] });
+      toast({ title: "Earning deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete earning",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Matches each "email, value" line to an employee; an unknown email stops the whole import
+  const parseRows = () => {
+    const lines = form.rows.split("\n").map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) return undefined;
+
+    return lines.map(line => {
+      const [email, value] = line.split(",").map(part => part.trim());
+      const employee = employees.find(emp => emp.email.toLowerCase() === email.toLowerCase());
+      if (!employee) {
+        throw new Error(`No employee with email ${email}`);
+      }
+      return { employeeId: employee.id, ...(value ? { [rowValue]: value } : {}) };
+    });
+  };
+
+  const handleEnd = (earning: ScheduledEarningWithEmployee) => {
+    const date = prompt("Last day the earning is paid (YYYY-MM-DD)", new Date().toISOString().slice(0, 10));
+    if (date) {
+      endMutation.mutate({ earning, endDate: date });
+    }
+  };
+
+  const handleDelete = (earning: ScheduledEarningWithEmployee) => {
+    if (confirm(`Delete this earning for ${earning.employee.firstName} ${earning.employee.lastName}?`)) {
+      deleteMutation.mutate(earning);
+    }
+  };
+
+  const handleSave = () => {
+    const target = form.target === "employee" ? form.employeeId : form.department;
+    if (!target || !form.startDate) {
+      toast({
+        title: "Error",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Bonuses & Commissions</h2>
+          <p className="text-gray-600">Pay one-off or recurring earnings on top of regular pay</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Earning List */}
+        <Card>
+          <CardContent className="p-0">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Earnings</h3>
+              <p className="text-sm text-gray-600">One-off earnings are paid in the period containing their date, recurring ones every period until they end</p>
+            </div>
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">Loading earnings...</div>
+            ) : earnings.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <Gift className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                <p>No bonuses or commissions yet.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Earning</TableHead>
+                    <TableHead>Paid</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {earnings.map((earning) => (
+                    <TableRow key={earning.id}>
+                      <TableCell className="font-medium">
+                        {earning.employee.firstName} {earning.employee.lastName}
+                        <div className="text-xs text-gray-500">{earning.employee.department}</div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-900">
+                        {earning.description || earningCalculationLabels[earning.calculation as EarningCalculation]}
+                        {earning.isSupplemental && (
+                          <Badge variant="secondary" className="ml-2 bg-amber-100 text-amber-800">Supplemental</Badge>
+                        )}
+                        <div className="text-xs text-gray-500">{describeAmount(earning)}</div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {earning.recurring
+                          ? `Every period from ${earning.startDate}${earning.endDate ? ` to ${earning.endDate}` : ""}`
+                          : `Once, ${earning.startDate}`}
+                      </TableCell>
+                      <TableCell>
+                        <Can permission="payroll:manage">
+                          <div className="flex space-x-1">
+                            {earning.recurring && !earning.endDate && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleEnd(earning)}
+                                disabled={endMutation.isPending}
+                              >
+                                End
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-800"
+                              onClick={() => handleDelete(earning)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </Can>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create / Import */}
+        <Can permission="payroll:manage">
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">New Earning</h3>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Pay To</label>
+                    <Select value={form.target} onValueChange={(value) => setForm({ ...form, target: value as EarningTarget })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="employee">One employee</SelectItem>
+                        <SelectItem value="department">A department</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {form.target === "employee" ? (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Employee</label>
+                      <Select value={form.employeeId} onValueChange={(value) => setForm({ ...form, employeeId: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select employee" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {employees.map((employee) => (
+                            <SelectItem key={employee.id} value={employee.id.toString()}>
+                              {employee.firstName} {employee.lastName}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Department</label>
+                      <Select value={form.department} onValueChange={(value) => setForm({ ...form, department: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select department" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {departments.map((department) => (
+                            <SelectItem key={department} value={department}>{department}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                    <Select value={form.calculation} onValueChange={(value) => setForm({ ...form, calculation: value as EarningCalculation })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {earningCalculations.map((calculation) => (
+                          <SelectItem key={calculation} value={calculation}>
+                            {earningCalculationLabels[calculation]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                    <Input
+                      placeholder={earningCalculationLabels[form.calculation]}
+                      value={form.description}
+                      onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {form.calculation === "flat" ? "Amount" : form.calculation === "commission" ? "Commission Rate (%)" : "Percent of Salary (%)"}
+                    </label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={form.amount}
+                      onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                    />
+                  </div>
+                  {form.calculation === "commission" && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Sales</label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder={form.target === "department" ? "From import" : ""}
+                        value={form.salesAmount}
+                        onChange={(e) => setForm({ ...form, salesAmount: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{form.recurring ? "Starts" : "Pay Date"}</label>
+                    <Input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} />
+                  </div>
+                  {form.recurring && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+                      <Input type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} />
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="earning-recurring"
+                    checked={form.recurring}
+                    onCheckedChange={(checked) => setForm({ ...form, recurring: checked === true })}
+                  />
+                  <label htmlFor="earning-recurring" className="text-sm font-medium text-gray-700">
+                    Recurring - paid every pay period until it ends
+                  </label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="earning-supplemental"
+                    checked={form.isSupplemental}
+                    onCheckedChange={(checked) => setForm({ ...form, isSupplemental: checked === true })}
+                  />
+                  <label htmlFor="earning-supplemental" className="text-sm font-medium text-gray-700">
+                    Supplemental wages - withheld at the flat supplemental rate
+                  </label>
+                </div>
+                {form.target === "department" && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Employees</label>
+                    <Textarea
+                      rows={5}
+                      placeholder={`jane@example.com, ${form.calculation === "commission" ? "25000" : "500"}`}
+                      value={form.rows}
+                      onChange={(e) => setForm({ ...form, rows: e.target.value })}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      One line per employee: email, then their {form.calculation === "commission" ? "sales figure" : "amount"} if it differs
+                      from the one above. Leave empty to pay every active employee in the department.
+                    </p>
+                  </div>
+                )}
+                <div className="flex justify-end">
+                  <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                    {form.target === "department" ? <Upload className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                    {saveMutation.isPending ? "Saving..." : form.target === "department" ? "Import Earnings" : "Add Earning"}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </Can>
+      </div>
+    </div>
+  );
+}
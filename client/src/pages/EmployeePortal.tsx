@@ -3,19 +3,20 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { User, Save, Eye, FileText, Calendar, Phone, Mail, Building, MapPin } from "lucide-react";
+import { User, Save, Eye, FileText, Calendar, Phone, Mail, Building, MapPin, Download } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
-import { formatCurrency, formatDate, getInitials } from "@/lib/utils";
+import { formatCurrency, formatDate, formatDateRange, getInitials, getLoanStatus } from "@/lib/utils";
 import EmployeeTimeEntry from "@/components/EmployeeTimeEntry";
-import type { EmployeeWithRole, Role } from "@shared/schema";
+import { selfServiceProfileFields, type EmployeeWithRole, type LoanWithBalance, type Payslip, type ProfileChangeRequest, type SelfServiceProfileField } from "@shared/schema";
 
 // Employee self-service form schema
 const employeeUpdateSchema = z.object({
@@ -27,23 +28,49 @@ const employeeUpdateSchema = z.object({
 
 type EmployeeUpdateData = z.infer<typeof employeeUpdateSchema>;
 
-// Mock current employee - in a real app this would come from authentication
-const CURRENT_EMPLOYEE_ID = 1;
+const profileFieldLabels: Record<SelfServiceProfileField, string> = {
+  phone: "Phone Number",
+  emergencyContact: "Emergency Contact",
+  address: "Home Address",
+  personalNotes: "Personal Notes",
+};
+
+const changeRequestStatusStyles: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+const payslipStatusStyles: Record<string, string> = {
+  approved: "bg-blue-100 text-blue-800",
+  paid: "bg-green-100 text-green-800",
+};
+
+const loanStatusStyles: Record<string, string> = {
+  repaying: "bg-blue-100 text-blue-800",
+  repaid: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
 
 export default function EmployeePortal() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState<'profile' | 'payslips' | 'timesheet'>('profile');
 
-  const { data: employees = [] } = useQuery<EmployeeWithRole[]>({
-    queryKey: ["/api/employees"],
+  // Everything on this page is scoped to the signed-in employee by the server
+  const { data: currentEmployee, isLoading } = useQuery<EmployeeWithRole>({
+    queryKey: ["/api/me"],
+    retry: false,
   });
 
-  const { data: roles = [] } = useQuery<Role[]>({
-    queryKey: ["/api/roles"],
+  const { data: payslips = [] } = useQuery<Payslip[]>({
+    queryKey: ["/api/me/payslips"],
+    enabled: !!currentEmployee,
   });
 
-  // Find current employee (in real app, this would be based on auth)
-  const currentEmployee = employees.find(emp => emp.id === CURRENT_EMPLOYEE_ID) || employees[0];
+  const { data: loans = [] } = useQuery<LoanWithBalance[]>({
+    queryKey: ["/api/me/loans"],
+    enabled: !!currentEmployee,
+  });
 
   const form = useForm<EmployeeUpdateData>({
     resolver: zodResolver(employeeUpdateSchema),
@@ -55,18 +82,38 @@ export default function EmployeePortal() {
     },
   });
 
+  const { data: changeRequests = [] } = useQuery<ProfileChangeRequest[]>({
+    queryKey: ["/api/me/profile-change-requests"],
+    enabled: !!currentEmployee,
+  });
+
+  const pendingRequest = changeRequests.find(request => request.status === "pending");
+
+  // Show the current details, or the values already waiting for HR approval
+  useEffect(() => {
+    if (!currentEmployee) return;
+    const values = {} as Record<SelfServiceProfileField, string>;
+    for (const field of selfServiceProfileFields) {
+      const pending = pendingRequest?.changes[field];
+      values[field] = (pending ? pending.to : currentEmployee[field]) ?? "";
+    }
+    form.reset(values);
+  }, [currentEmployee, pendingRequest, form]);
+
   const updateProfileMutation = useMutation({
     mutationFn: async (data: EmployeeUpdateData) => {
-      // In a real app, this would update employee personal info
-      return { success: true, data };
+      // Changes are applied only once HR approves them
+      const response = await apiRequest("POST", "/api/me/profile-change-requests", data);
+      return response.json();
     },
     onSuccess: () => {
-      toast({ title: "Profile updated successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/me/profile-change-requests"] });
+      toast({ title: "Profile changes submitted for HR approval" });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to update profile",
+        description: error.message || "Failed to submit profile changes",
         variant: "destructive",
       });
     },
@@ -76,6 +123,14 @@ export default function EmployeePortal() {
     updateProfileMutation.mutate(data);
   };
 
+  if (isLoading) {
+    return (
+      <div className="p-8">
+        <div className="text-center py-12 text-gray-500">Loading your profile...</div>
+      </div>
+    );
+  }
+
   if (!currentEmployee) {
     return (
       <div className="p-8">
@@ -146,6 +201,12 @@ export default function EmployeePortal() {
                 <CardTitle>Personal Information</CardTitle>
               </CardHeader>
               <CardContent>
+                {pendingRequest && (
+                  <div className="mb-6 p-4 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+                    Your changes submitted on {formatDate(pendingRequest.createdAt)} are waiting for HR approval.
+                    Submitting again replaces that request.
+                  </div>
+                )}
                 <Form {...form}>
                   <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -177,11 +238,7 @@ export default function EmployeePortal() {
                         <FormItem>
                           <FormLabel>Phone Number</FormLabel>
                           <FormControl>
-                            <Input 
-                              placeholder="Enter your phone number" 
-                              {...field} 
-                              value={field.value || currentEmployee.phone || ""}
-                            />
+                            <Input placeholder="Enter your phone number" {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -244,7 +301,7 @@ export default function EmployeePortal() {
                       className="w-full md:w-auto"
                     >
                       <Save className="h-4 w-4 mr-2" />
-                      {updateProfileMutation.isPending ? "Saving..." : "Save Changes"}
+                      {updateProfileMutation.isPending ? "Submitting..." : pendingRequest ? "Update Request" : "Submit for Approval"}
                     </Button>
                   </form>
                 </Form>
@@ -318,24 +375,141 @@ export default function EmployeePortal() {
                 </ul>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Profile Change History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {changeRequests.length === 0 ? (
+                  <p className="text-sm text-gray-500">No profile changes requested yet.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {changeRequests.map((request) => (
+                      <div key={request.id} className="text-sm border-b border-gray-100 pb-3 last:border-0">
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-gray-600">{formatDate(request.createdAt)}</span>
+                          <Badge variant="secondary" className={changeRequestStatusStyles[request.status]}>
+                            {request.status}
+                          </Badge>
+                        </div>
+                        <ul className="text-gray-700">
+                          {selfServiceProfileFields
+                            .filter((field) => request.changes[field])
+                            .map((field) => (
+                              <li key={field}>{profileFieldLabels[field]}: {request.changes[field]!.to || "(cleared)"}</li>
+                            ))}
+                        </ul>
+                        {request.reviewNote && (
+                          <p className="mt-1 text-gray-500 italic">{request.reviewNote}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </div>
         </div>
       )}
 
       {/* Payslips Tab */}
       {activeTab === 'payslips' && (
-        <Card>
-          <CardHeader>
-            <CardTitle>My Payslips</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center py-12 text-gray-500">
-              <FileText className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-              <p>No payslips available yet.</p>
-              <p className="text-sm">Payslips will appear here once they are generated by HR.</p>
-            </div>
-          </CardContent>
-        </Card>
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>My Payslips</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {payslips.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">
+                  <FileText className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                  <p>No payslips available yet.</p>
+                  <p className="text-sm">Payslips will appear here once they are approved by HR.</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pay Period</TableHead>
+                      <TableHead>Gross Pay</TableHead>
+                      <TableHead>Net Pay</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {payslips.map((payslip) => (
+                      <TableRow key={payslip.id}>
+                        <TableCell>{formatDateRange(payslip.payPeriodFrom, payslip.payPeriodTo)}</TableCell>
+                        <TableCell>{formatCurrency(payslip.grossPay)}</TableCell>
+                        <TableCell className="font-medium">{formatCurrency(payslip.netPay)}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={payslipStatusStyles[payslip.status]}>
+                            {payslip.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-800" asChild>
+                            <a href={`/api/me/payslips/${payslip.id}/pdf`} download title="Download PDF">
+                              <Download className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {loans.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>My Loans</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Loan</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Installment</TableHead>
+                      <TableHead>Repaid</TableHead>
+                      <TableHead>Outstanding</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loans.map((loan) => {
+                      const status = getLoanStatus(loan);
+                      return (
+                        <TableRow key={loan.id}>
+                          <TableCell>{loan.description}</TableCell>
+                          <TableCell>{formatCurrency(loan.amount)}</TableCell>
+                          <TableCell>
+                            {formatCurrency(loan.installmentAmount)}
+                            {loan.installmentsRemaining > 0 && (
+                              <span className="text-xs text-gray-500"> ({loan.installmentsRemaining} left)</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{formatCurrency(loan.amountRepaid)}</TableCell>
+                          <TableCell className="font-medium">{formatCurrency(loan.outstandingBalance)}</TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className={loanStatusStyles[status]}>
+                              {status}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
       )}
 
       {/* Timesheet Tab */}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Search, Eye, Edit, Trash2 } from "lucide-react";
+import { Plus, Search, Eye, Edit, Trash2, CalendarOff, HeartPulse, Gavel, HandCoins } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,11 +12,23 @@ import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
 import { formatCurrency, getInitials } from "@/lib/utils";
 import EmployeeModal from "@/components/EmployeeModal";
-import type { EmployeeWithRole } from "@shared/schema";
+import UnpaidLeaveModal from "@/components/UnpaidLeaveModal";
+import BenefitsModal from "@/components/BenefitsModal";
+import GarnishmentsModal from "@/components/GarnishmentsModal";
+import LoansModal from "@/components/LoansModal";
+import EmployeeDetailModal from "@/components/EmployeeDetailModal";
+import Can from "@/components/Can";
+import { payBasisUnits } from "@shared/schema";
+import type { EmployeeWithRole, PayBasis } from "@shared/schema";
 
 export default function Employees() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingEmployee, setEditingEmployee] = useState<EmployeeWithRole | null>(null);
+  const [leaveEmployee, setLeaveEmployee] = useState<EmployeeWithRole | null>(null);
+  const [benefitsEmployee, setBenefitsEmployee] = useState<EmployeeWithRole | null>(null);
+  const [garnishmentsEmployee, setGarnishmentsEmployee] = useState<EmployeeWithRole | null>(null);
+  const [loansEmployee, setLoansEmployee] = useState<EmployeeWithRole | null>(null);
+  const [viewingEmployeeId, setViewingEmployeeId] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedDepartment, setSelectedDepartment] = useState<string>("all");
   const [selectedType, setSelectedType] = useState<string>("all");
@@ -93,10 +105,12 @@ export default function Employees() {
           <h2 className="text-3xl font-bold text-gray-900 mb-2">Employees</h2>
           <p className="text-gray-600">Manage your organization's workforce</p>
         </div>
-        <Button onClick={handleAddEmployee} className="mt-4 sm:mt-0">
-          <Plus className="h-4 w-4 mr-2" />
-          Add Employee
-        </Button>
+        <Can permission="employees:manage">
+          <Button onClick={handleAddEmployee} className="mt-4 sm:mt-0">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Employee
+          </Button>
+        </Can>
       </div>
 
       {/* Filters */}
@@ -174,7 +188,7 @@ export default function Employees() {
                 <TableHead>Role</TableHead>
                 <TableHead>Department</TableHead>
                 <TableHead>Type</TableHead>
-                <TableHead>Salary</TableHead>
+                <TableHead>Pay</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
@@ -213,10 +227,8 @@ export default function Employees() {
                     </Badge>
                   </TableCell>
                   <TableCell className="text-sm text-gray-900">
-                    {employee.type === 'full-time' 
-                      ? formatCurrency(employee.salary)
-                      : `${formatCurrency(employee.salary)}/hour`
-                    }
+                    {formatCurrency(employee.payAmount, employee.currency)}
+                    <span className="text-gray-500"> {payBasisUnits[employee.payBasis as PayBasis]}</span>
                   </TableCell>
                   <TableCell>
                     <Badge 
@@ -231,20 +243,69 @@ export default function Employees() {
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => handleEditEmployee(employee)}
+                        onClick={() => setViewingEmployeeId(employee.id)}
                         className="text-gray-600 hover:text-gray-800"
+                        title="View details"
                       >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDeleteEmployee(employee)}
-                        className="text-red-600 hover:text-red-700"
-                        disabled={deleteEmployeeMutation.isPending}
-                      >
-                        <Trash2 className="h-4 w-4" />
+                        <Eye className="h-4 w-4" />
                       </Button>
+                      <Can permission="payroll:manage">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setGarnishmentsEmployee(employee)}
+                          className="text-gray-600 hover:text-gray-800"
+                          title="Garnishments"
+                        >
+                          <Gavel className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLoansEmployee(employee)}
+                          className="text-gray-600 hover:text-gray-800"
+                          title="Loans"
+                        >
+                          <HandCoins className="h-4 w-4" />
+                        </Button>
+                      </Can>
+                      <Can permission="employees:manage">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEditEmployee(employee)}
+                          className="text-gray-600 hover:text-gray-800"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLeaveEmployee(employee)}
+                          className="text-gray-600 hover:text-gray-800"
+                          title="Unpaid leave"
+                        >
+                          <CalendarOff className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setBenefitsEmployee(employee)}
+                          className="text-gray-600 hover:text-gray-800"
+                          title="Benefits"
+                        >
+                          <HeartPulse className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteEmployee(employee)}
+                          className="text-red-600 hover:text-red-700"
+                          disabled={deleteEmployeeMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </Can>
                     </div>
                   </TableCell>
                 </TableRow>
@@ -266,6 +327,41 @@ export default function Employees() {
         onClose={() => setIsModalOpen(false)}
         employee={editingEmployee}
       />
+
+      {/* Employee Detail Modal */}
+      <EmployeeDetailModal
+        isOpen={viewingEmployeeId !== null}
+        onClose={() => setViewingEmployeeId(null)}
+        employee={employees.find(employee => employee.id === viewingEmployeeId) ?? null}
+      />
+
+      {/* Unpaid Leave Modal */}
+      <UnpaidLeaveModal
+        isOpen={!!leaveEmployee}
+        onClose={() => setLeaveEmployee(null)}
+        employee={leaveEmployee}
+      />
+
+      {/* Benefits Modal */}
+      <BenefitsModal
+        isOpen={!!benefitsEmployee}
+        onClose={() => setBenefitsEmployee(null)}
+        employee={benefitsEmployee}
+      />
+
+      {/* Garnishments Modal */}
+      <GarnishmentsModal
+        isOpen={!!garnishmentsEmployee}
+        onClose={() => setGarnishmentsEmployee(null)}
+        employee={garnishmentsEmployee}
+      />
+
+      {/* Loans Modal */}
+      <LoansModal
+        isOpen={!!loansEmployee}
+        onClose={() => setLoansEmployee(null)}
+        employee={loansEmployee}
+      />
     </div>
   );
 }
@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Edit, Trash2, Clock } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import Can from "@/components/Can";
+import { SEVENTH_DAY_DOUBLE_TIME_AFTER } from "@shared/schema";
+import type { OvertimePolicy } from "@shared/schema";
+
+interface OvertimePolicyForm {
+  name: string;
+  description: string;
+  dailyThreshold: string;
+  dailyDoubleTimeThreshold: string;
+  weeklyThreshold: string;
+  overtimeMultiplier: string;
+  doubleTimeMultiplier: string;
+  seventhDayRule: boolean;
+  isExempt: boolean;
+  isDefault: boolean;
+}
+
+const emptyForm: OvertimePolicyForm = {
+  name: "",
+  description: "",
+  dailyThreshold: "",
+  dailyDoubleTimeThreshold: "",
+  weeklyThreshold: "40",
+  overtimeMultiplier: "1.5",
+  doubleTimeMultiplier: "2",
+  seventhDayRule: false,
+  isExempt: false,
+  isDefault: false,
+};
+
+// A one-line summary of when a policy pays a premium
+function describeRules(policy: OvertimePolicy): string {
+  if (policy.isExempt) return "Exempt - no overtime";
+
+  const rules: string[] = [];
+  if (policy.dailyThreshold) rules.push(`OT after ${parseFloat(policy.dailyThreshold)}h/day`);
+  if (policy.weeklyThreshold) rules.push(`OT after ${parseFloat(policy.weeklyThreshold)}h/week`);
+  if (policy.dailyDoubleTimeThreshold) rules.push(`DT after ${parseFloat(policy.dailyDoubleTimeThreshold)}h/day`);
+  if (policy.seventhDayRule) rules.push("7th day rule");
+  return rules.length > 0 ? rules.join(", ") : "No overtime thresholds";
+}
+
+export default function OvertimePolicies() {
+  const [form, setForm] = useState<OvertimePolicyForm>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { data: policies = [], isLoading } = useQuery<OvertimePolicy[]>({
+    queryKey: ["/api/overtime-policies"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: form.name,
+        description: form.description || null,
+        dailyThreshold: form.dailyThreshold || null,
+        dailyDoubleTimeThreshold: form.dailyDoubleTimeThreshold || null,
+        weeklyThreshold: form.weeklyThreshold || null,
+        overtimeMultiplier: form.overtimeMultiplier || "1.5",
+        doubleTimeMultiplier: form.doubleTimeMultiplier || "2",
+        seventhDayRule: form.seventhDayRule,
+        isExempt: form.isExempt,
+        isDefault: form.isDefault,
+      };
+      const response = editingId
+        ? await apiRequest("PUT", `/api/overtime-policies/${editingId}`, data)
+        : await apiRequest("POST", "/api/overtime-policies", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/overtime-policies"] });
+      toast({ title: editingId ? "Overtime policy updated" : "Overtime policy created" });
+      setForm(emptyForm);
+      setEditingId(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save overtime policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/overtime-policies/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/overtime-policies"] });
+      toast({ title: "Overtime policy deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete overtime policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (policy: OvertimePolicy) => {
+    setEditingId(policy.id);
+    setForm({
+      name: policy.name,
+      description: policy.description ?? "",
+      dailyThreshold: policy.dailyThreshold ?? "",
+      dailyDoubleTimeThreshold: policy.dailyDoubleTimeThreshold ?? "",
+      weeklyThreshold: policy.weeklyThreshold ?? "",
+      overtimeMultiplier: policy.overtimeMultiplier,
+      doubleTimeMultiplier: policy.doubleTimeMultiplier,
+      seventhDayRule: policy.seventhDayRule,
+      isExempt: policy.isExempt,
+      isDefault: policy.isDefault,
+    });
+  };
+
+  const handleDelete = (policy: OvertimePolicy) => {
+    if (confirm(`Are you sure you want to delete the ${policy.name} overtime policy?`)) {
+      deleteMutation.mutate(policy.id);
+    }
+  };
+
+  const handleSave = () => {
+    if (!form.name) {
+      toast({
+        title: "Error",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Overtime Policies</h2>
+          <p className="text-gray-600">Decide when worked hours are paid as overtime or double time</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Policy List */}
+        <Card>
+          <CardContent className="p-0">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Policies</h3>
+              <p className="text-sm text-gray-600">An employee's own policy wins, then their role's, then the default</p>
+            </div>
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">Loading policies...</div>
+            ) : policies.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <Clock className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                <p>No overtime policies yet. Hours over 40 a week are paid at time and a half until one is added.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Rules</TableHead>
+                    <TableHead>Rates</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {policies.map((policy) => (
+                    <TableRow key={policy.id}>
+                      <TableCell className="font-medium">
+                        {policy.name}
+                        {policy.isDefault && (
+                          <Badge variant="secondary" className="ml-2 bg-blue-100 text-blue-800">Default</Badge>
+                        )}
+                        {policy.description && (
+                          <div className="text-xs text-gray-500">{policy.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{describeRules(policy)}</TableCell>
+                      <TableCell className="text-sm text-gray-900">
+                        {policy.isExempt ? "-" : `${parseFloat(policy.overtimeMultiplier)}x / ${parseFloat(policy.doubleTimeMultiplier)}x`}
+                      </TableCell>
+                      <TableCell>
+                        <Can permission="payroll:manage">
+                          <div className="flex space-x-1">
+                            <Button variant="ghost" size="sm" onClick={() => handleEdit(policy)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-800"
+                              onClick={() => handleDelete(policy)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </Can>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create / Edit */}
+        <Can permission="payroll:manage">
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                {editingId ? "Edit Overtime Policy" : "New Overtime Policy"}
+              </h3>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                  <Input
+                    placeholder="e.g. California hourly"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                  <Input
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="policy-exempt"
+                    checked={form.isExempt}
+                    onCheckedChange={(checked) => setForm({ ...form, isExempt: checked === true })}
+                  />
+                  <label htmlFor="policy-exempt" className="text-sm font-medium text-gray-700">
+                    Exempt - never paid overtime
+                  </label>
+                </div>
+                {!form.isExempt && (
+                  <>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Daily OT After</label>
+                        <Input
+                          type="number"
+                          step="0.25"
+                          min="0"
+                          placeholder="None"
+                          value={form.dailyThreshold}
+                          onChange={(e) => setForm({ ...form, dailyThreshold: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Daily DT After</label>
+                        <Input
+                          type="number"
+                          step="0.25"
+                          min="0"
+                          placeholder="None"
+                          value={form.dailyDoubleTimeThreshold}
+                          onChange={(e) => setForm({ ...form, dailyDoubleTimeThreshold: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Weekly OT After</label>
+                        <Input
+                          type="number"
+                          step="0.25"
+                          min="0"
+                          placeholder="None"
+                          value={form.weeklyThreshold}
+                          onChange={(e) => setForm({ ...form, weeklyThreshold: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">Hours per day or per Sunday-Saturday week; leave blank to skip a threshold</p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Overtime Rate</label>
+                        <Input
+                          type="number"
+                          step="0.05"
+                          min="1"
+                          value={form.overtimeMultiplier}
+                          onChange={(e) => setForm({ ...form, overtimeMultiplier: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Double Time Rate</label>
+                        <Input
+                          type="number"
+                          step="0.05"
+                          min="1"
+                          value={form.doubleTimeMultiplier}
+                          onChange={(e) => setForm({ ...form, doubleTimeMultiplier: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="policy-seventh-day"
+                        checked={form.seventhDayRule}
+                        onCheckedChange={(checked) => setForm({ ...form, seventhDayRule: checked === true })}
+                      />
+                      <label htmlFor="policy-seventh-day" className="text-sm font-medium text-gray-700">
+                        Seventh consecutive day: all hours overtime, double time after {SEVENTH_DAY_DOUBLE_TIME_AFTER}
+                      </label>
+                    </div>
+                  </>
+                )}
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="policy-default"
+                    checked={form.isDefault}
+                    onCheckedChange={(checked) => setForm({ ...form, isDefault: checked === true })}
+                  />
+                  <label htmlFor="policy-default" className="text-sm font-medium text-gray-700">
+                    Default policy for employees and roles without one
+                  </label>
+                </div>
+                <div className="flex justify-end space-x-2">
+                  {editingId && (
+                    <Button variant="outline" onClick={() => { setEditingId(null); setForm(emptyForm); }}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    {saveMutation.isPending ? "Saving..." : editingId ? "Save Changes" : "Add Policy"}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </Can>
+      </div>
+    </div>
+  );
+}
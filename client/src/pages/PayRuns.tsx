@@ -0,0 +1,459 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle, RefreshCw, Download, Mail } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate, formatDateRange, getInitials } from "@/lib/utils";
+import Can from "@/components/Can";
+import { payFrequencies, payFrequencyLabels } from "@shared/schema";
+import type { EmployeeWithRole, PayFrequency, PayPeriod, PayRun, PayRunEntry, PaySchedule } from "@shared/schema";
+
+interface PayRunPreviewItem {
+  employee: EmployeeWithRole;
+  calculation: {
+    hoursWorked: number;
+    overtimeHours: number;
+    grossPay: number;
+    taxWithheld: number;
+    deductions: number;
+    netPay: number;
+  };
+  warnings: string[];
+  overlapsExistingPayslip: boolean;
+}
+
+interface PayRunPreview {
+  items: PayRunPreviewItem[];
+  totals: {
+    employeeCount: number;
+    totalGross: number;
+    totalTax: number;
+    totalDeductions: number;
+    totalNet: number;
+  };
+}
+
+export default function PayRuns() {
+  const [payPeriodFrom, setPayPeriodFrom] = useState("");
+  const [payPeriodTo, setPayPeriodTo] = useState("");
+  const [payFrequency, setPayFrequency] = useState<PayFrequency>("monthly");
+  const [payScheduleId, setPayScheduleId] = useState<string>("all");
+  const [entries, setEntries] = useState<Record<number, PayRunEntry>>({});
+  const [preview, setPreview] = useState<PayRunPreview | null>(null);
+  const { toast } = useToast();
+
+  const { data: payRuns = [], isLoading } = useQuery<PayRun[]>({
+    queryKey: ["/api/pay-runs"],
+  });
+
+  const { data: paySchedules = [] } = useQuery<PaySchedule[]>({
+    queryKey: ["/api/pay-schedules"],
+  });
+
+  const { data: payCalendar = [] } = useQuery<PayPeriod[]>({
+    queryKey: [`/api/pay-schedules/${payScheduleId}/calendar?year=${new Date().getFullYear()}`],
+    enabled: payScheduleId !== "all",
+  });
+
+  const buildRequest = () => ({
+    payPeriodFrom,
+    payPeriodTo,
+    payFrequency,
+    payScheduleId: payScheduleId === "all" ? undefined : parseInt(payScheduleId),
+    entries: Object.values(entries),
+  });
+
+  // A schedule run pays that schedule's employees at its frequency
+  const handleScheduleChange = (value: string) => {
+    setPayScheduleId(value);
+    setPreview(null);
+    const schedule = paySchedules.find(s => s.id.toString() === value);
+    if (schedule) {
+      setPayFrequency(schedule.frequency as PayFrequency);
+    }
+  };
+
+  const handlePeriodChange = (value: string) => {
+    const period = payCalendar.find(p => p.periodNumber.toString() === value);
+    if (period) {
+      setPayPeriodFrom(period.startDate);
+      setPayPeriodTo(period.endDate);
+      setPreview(null);
+    }
+  };
+
+  const selectedPeriod = payCalendar.find(p => p.startDate === payPeriodFrom && p.endDate === payPeriodTo);
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/pay-runs/preview", buildRequest());
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to preview pay run",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async (allowOverlapping: boolean) => {
+      const response = await apiRequest("POST", "/api/pay-runs", { ...buildRequest(), allowOverlapping });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pay-runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payslips"] });
+      toast({ title: "Pay run committed successfully" });
+      setPreview(null);
+      setEntries({});
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to commit pay run",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sendPayRunMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/pay-runs/${id}/send`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: `Emailed ${result.sent} payslip${result.sent === 1 ? "" : "s"}`,
+        description: result.failed > 0 ? `${result.failed} failed to send` : undefined,
+        variant: result.failed > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send pay run payslips",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePreview = () => {
+    if (!payPeriodFrom || !payPeriodTo) {
+      toast({
+        title: "Error",
+        description: "Please select the pay period",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    previewMutation.mutate();
+  };
+
+  const handleHoursChange = (employeeId: number, value: string) => {
+    setEntries(prev => ({
+      ...prev,
+      [employeeId]: {
+        ...prev[employeeId],
+        employeeId,
+        hoursWorked: value === "" ? undefined : parseFloat(value),
+      },
+    }));
+  };
+
+  // Employees who already have a payslip for the period are only paid again once confirmed
+  const handleCommit = () => {
+    const alreadyPaid = preview?.items.filter(item => item.overlapsExistingPayslip).length ?? 0;
+    if (alreadyPaid > 0 && !confirm(`${alreadyPaid} employee${alreadyPaid === 1 ? " already has" : "s already have"} a payslip for an overlapping period and will be paid twice. Commit anyway?`)) {
+      return;
+    }
+    commitMutation.mutate(alreadyPaid > 0);
+  };
+
+  const warningCount = preview?.items.reduce((count, item) => count + item.warnings.length, 0) ?? 0;
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Pay Runs</h2>
+          <p className="text-gray-600">Generate payslips for every active employee at once</p>
+        </div>
+      </div>
+
+      {/* New Pay Run */}
+      <Can permission="payroll:manage">
+        <Card className="mb-8">
+          <CardContent className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">New Pay Run</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pay Schedule</label>
+                <Select value={payScheduleId} onValueChange={handleScheduleChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All active employees</SelectItem>
+                    {paySchedules.map((schedule) => (
+                      <SelectItem key={schedule.id} value={schedule.id.toString()}>
+                        {schedule.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {payScheduleId !== "all" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Pay Period</label>
+                  <Select value={selectedPeriod?.periodNumber.toString() ?? ""} onValueChange={handlePeriodChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select period..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {payCalendar.map((period) => (
+                        <SelectItem key={period.periodNumber} value={period.periodNumber.toString()}>
+                          #{period.periodNumber}: {period.startDate} to {period.endDate} (paid {period.payDate})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pay Period From</label>
+                <Input type="date" value={payPeriodFrom} onChange={(e) => setPayPeriodFrom(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pay Period To</label>
+                <Input type="date" value={payPeriodTo} onChange={(e) => setPayPeriodTo(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pay Frequency</label>
+                <Select
+                  value={payFrequency}
+                  onValueChange={(value) => setPayFrequency(value as PayFrequency)}
+                  disabled={payScheduleId !== "all"}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {payFrequencies.map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {payFrequencyLabels[frequency]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handlePreview} disabled={previewMutation.isPending}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {previewMutation.isPending ? "Calculating..." : preview ? "Recalculate" : "Preview Pay Run"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </Can>
+
+      {/* Review */}
+      {preview && (
+        <Card className="mb-8">
+          <CardContent className="p-0">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Review</h3>
+                <p className="text-sm text-gray-600">
+                  {preview.totals.employeeCount} employees • Gross {formatCurrency(preview.totals.totalGross)} • Net {formatCurrency(preview.totals.totalNet)}
+                </p>
+              </div>
+              <div className="flex items-center space-x-4">
+                {warningCount > 0 && (
+                  <span className="flex items-center text-sm text-yellow-700">
+                    <AlertTriangle className="h-4 w-4 mr-1" />
+                    {warningCount} warning{warningCount === 1 ? "" : "s"}
+                  </span>
+                )}
+                <Button
+                  onClick={handleCommit}
+                  disabled={commitMutation.isPending || preview.items.length === 0}
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  {commitMutation.isPending ? "Committing..." : "Commit Pay Run"}
+                </Button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Hours</TableHead>
+                    <TableHead>Gross Pay</TableHead>
+                    <TableHead>Tax</TableHead>
+                    <TableHead>Deductions</TableHead>
+                    <TableHead>Net Pay</TableHead>
+                    <TableHead>Warnings</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.items.map((item) => (
+                    <TableRow key={item.employee.id} className="hover:bg-gray-50">
+                      <TableCell>
+                        <div className="flex items-center">
+                          <div className="w-8 h-8 bg-gray-400 rounded-full flex items-center justify-center mr-3">
+                            <span className="text-white font-medium text-xs">
+                              {getInitials(item.employee.firstName, item.employee.lastName)}
+                            </span>
+                          </div>
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">
+                              {item.employee.firstName} {item.employee.lastName}
+                            </div>
+                            <div className="text-xs text-gray-500">{item.employee.role.title}</div>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          className="w-24"
+                          placeholder={item.calculation.hoursWorked.toString()}
+                          value={entries[item.employee.id]?.hoursWorked ?? ""}
+                          onChange={(e) => handleHoursChange(item.employee.id, e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-900">{formatCurrency(item.calculation.grossPay)}</TableCell>
+                      <TableCell className="text-sm text-gray-900">{formatCurrency(item.calculation.taxWithheld)}</TableCell>
+                      <TableCell className="text-sm text-gray-900">{formatCurrency(item.calculation.deductions)}</TableCell>
+                      <TableCell className="text-sm font-medium text-gray-900">{formatCurrency(item.calculation.netPay)}</TableCell>
+                      <TableCell>
+                        {item.warnings.length === 0 ? (
+                          <Badge variant="default" className="bg-green-100 text-green-800">OK</Badge>
+                        ) : (
+                          <ul className="space-y-1">
+                            {item.warnings.map((warning, index) => (
+                              <li key={index} className="text-xs text-yellow-700 flex items-start">
+                                <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                                {warning}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {preview.items.length === 0 && (
+              <div className="text-center py-8 text-gray-500">
+                No active employees to pay.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Pay Run History */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Recent Pay Runs</h3>
+          </div>
+
+          {isLoading ? (
+            <div className="p-6">
+              <div className="animate-pulse space-y-4">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="h-16 bg-gray-200 rounded"></div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Frequency</TableHead>
+                    <TableHead>Employees</TableHead>
+                    <TableHead>Gross Pay</TableHead>
+                    <TableHead>Net Pay</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payRuns.map((payRun) => (
+                    <TableRow key={payRun.id} className="hover:bg-gray-50">
+                      <TableCell className="text-sm text-gray-900">
+                        {formatDateRange(payRun.payPeriodFrom, payRun.payPeriodTo)}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-900">
+                        {payFrequencyLabels[payRun.payFrequency as PayFrequency] ?? payRun.payFrequency}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-900">{payRun.employeeCount}</TableCell>
+                      <TableCell className="text-sm text-gray-900">{formatCurrency(payRun.totalGross)}</TableCell>
+                      <TableCell className="text-sm font-medium text-gray-900">{formatCurrency(payRun.totalNet)}</TableCell>
+                      <TableCell>
+                        <Badge variant="default" className="bg-green-100 text-green-800">
+                          {payRun.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{formatDate(payRun.createdAt)}</TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-800" asChild>
+                          <a href={`/api/pay-runs/${payRun.id}/pdf`} download title="Download all payslips">
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                        <Can permission="payroll:manage">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-gray-600 hover:text-gray-800"
+                            title="Email all payslips"
+                            onClick={() => sendPayRunMutation.mutate(payRun.id)}
+                            disabled={sendPayRunMutation.isPending}
+                          >
+                            <Mail className="h-4 w-4" />
+                          </Button>
+                        </Can>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {payRuns.length === 0 && !isLoading && (
+            <div className="text-center py-8 text-gray-500">
+              No pay runs yet.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Edit, Trash2, CalendarDays } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import Can from "@/components/Can";
+import { payFrequencies, payFrequencyLabels, prorationBases } from "@shared/schema";
+import type { PayFrequency, PayPeriod, PaySchedule, ProrationBasis } from "@shared/schema";
+
+const prorationBasisLabels: Record<ProrationBasis, string> = {
+  "working-days": "Working days (Mon-Fri)",
+  "calendar-days": "Calendar days",
+};
+
+interface PayScheduleForm {
+  name: string;
+  frequency: PayFrequency;
+  anchorDate: string;
+  payDateOffsetDays: string;
+  department: string;
+  isDefault: boolean;
+  prorationBasis: ProrationBasis;
+}
+
+const emptyForm: PayScheduleForm = {
+  name: "",
+  frequency: "monthly",
+  anchorDate: `${new Date().getFullYear()}-01-01`,
+  payDateOffsetDays: "0",
+  department: "",
+  isDefault: false,
+  prorationBasis: "working-days",
+};
+
+export default function PaySchedules() {
+  const [form, setForm] = useState<PayScheduleForm>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [selectedScheduleId, setSelectedScheduleId] = useState<number | null>(null);
+  const [calendarYear, setCalendarYear] = useState(new Date().getFullYear());
+  const { toast } = useToast();
+
+  const { data: schedules = [], isLoading } = useQuery<PaySchedule[]>({
+    queryKey: ["/api/pay-schedules"],
+  });
+
+  const { data: calendar = [], isLoading: calendarLoading } = useQuery<PayPeriod[]>({
+    queryKey: [`/api/pay-schedules/${selectedScheduleId}/calendar?year=${calendarYear}`],
+    enabled: selectedScheduleId !== null,
+  });
+
+  const selectedSchedule = schedules.find(schedule => schedule.id === selectedScheduleId);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: form.name,
+        frequency: form.frequency,
+        anchorDate: form.anchorDate,
+        payDateOffsetDays: parseInt(form.payDateOffsetDays || "0"),
+        department: form.department || null,
+        isDefault: form.isDefault,
+        prorationBasis: form.prorationBasis,
+      };
+      const response = editingId
+        ? await apiRequest("PUT", `/api/pay-schedules/${editingId}`, data)
+        : await apiRequest("POST", "/api/pay-schedules", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pay-schedules"] });
+      toast({ title: editingId ? "Pay schedule updated" : "Pay schedule created" });
+      setForm(emptyForm);
+      setEditingId(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save pay schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/pay-schedules/${id}`);
+      return response.json();
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pay-schedules"] });
+      if (selectedScheduleId === id) setSelectedScheduleId(null);
+      toast({ title: "Pay schedule deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete pay schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (schedule: PaySchedule) => {
+    setEditingId(schedule.id);
+    setForm({
+      name: schedule.name,
+      frequency: schedule.frequency as PayFrequency,
+      anchorDate: schedule.anchorDate,
+      payDateOffsetDays: schedule.payDateOffsetDays.toString(),
+      department: schedule.department ?? "",
+      isDefault: schedule.isDefault,
+      prorationBasis: schedule.prorationBasis as ProrationBasis,
+    });
+  };
+
+  const handleDelete = (schedule: PaySchedule) => {
+    if (confirm(`Are you sure you want to delete the ${schedule.name} pay schedule?`)) {
+      deleteMutation.mutate(schedule.id);
+    }
+  };
+
+  const handleSave = () => {
+    if (!form.name || !form.anchorDate) {
+      toast({
+        title: "Error",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Pay Schedules</h2>
+          <p className="text-gray-600">Define how often employees are paid and preview each schedule's pay calendar</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+        {/* Schedule List */}
+        <Card>
+          <CardContent className="p-0">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Schedules</h3>
+            </div>
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">Loading schedules...</div>
+            ) : schedules.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <CalendarDays className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                <p>No pay schedules yet. Employees are paid monthly until one is added.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Frequency</TableHead>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedules.map((schedule) => (
+                    <TableRow
+                      key={schedule.id}
+                      className={`cursor-pointer hover:bg-gray-50 ${schedule.id === selectedScheduleId ? "bg-gray-50" : ""}`}
+                      onClick={() => setSelectedScheduleId(schedule.id)}
+                    >
+                      <TableCell className="font-medium">
+                        {schedule.name}
+                        {schedule.isDefault && (
+                          <Badge variant="secondary" className="ml-2 bg-blue-100 text-blue-800">Default</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-900">
+                        {payFrequencyLabels[schedule.frequency as PayFrequency] ?? schedule.frequency}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {schedule.department ?? (schedule.isDefault ? "Everyone else" : "Assigned employees")}
+                      </TableCell>
+                      <TableCell>
+                        <Can permission="payroll:manage">
+                          <div className="flex space-x-1" onClick={(e) => e.stopPropagation()}>
+                            <Button variant="ghost" size="sm" onClick={() => handleEdit(schedule)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-800"
+                              onClick={() => handleDelete(schedule)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </Can>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create / Edit */}
+        <Can permission="payroll:manage">
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                {editingId ? "Edit Pay Schedule" : "New Pay Schedule"}
+              </h3>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                  <Input
+                    placeholder="e.g. Hourly staff bi-weekly"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Frequency</label>
+                    <Select value={form.frequency} onValueChange={(value) => setForm({ ...form, frequency: value as PayFrequency })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {payFrequencies.map((frequency) => (
+                          <SelectItem key={frequency} value={frequency}>
+                            {payFrequencyLabels[frequency]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">First Period Starts</label>
+                    <Input
+                      type="date"
+                      value={form.anchorDate}
+                      onChange={(e) => setForm({ ...form, anchorDate: e.target.value })}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Weekly and bi-weekly periods repeat from this date</p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Pay Date (days after period end)</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="31"
+                      value={form.payDateOffsetDays}
+                      onChange={(e) => setForm({ ...form, payDateOffsetDays: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Department</label>
+                    <Input
+                      placeholder="All departments"
+                      value={form.department}
+                      onChange={(e) => setForm({ ...form, department: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Prorate Salary By</label>
+                  <Select value={form.prorationBasis} onValueChange={(value) => setForm({ ...form, prorationBasis: value as ProrationBasis })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {prorationBases.map((basis) => (
+                        <SelectItem key={basis} value={basis}>
+                          {prorationBasisLabels[basis]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">Used when someone starts, leaves or takes unpaid leave mid-period</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="schedule-default"
+                    checked={form.isDefault}
+                    onCheckedChange={(checked) => setForm({ ...form, isDefault: checked === true })}
+                  />
+                  <label htmlFor="schedule-default" className="text-sm font-medium text-gray-700">
+                    Default schedule for employees without one
+                  </label>
+                </div>
+                <div className="flex justify-end space-x-2">
+                  {editingId && (
+                    <Button variant="outline" onClick={() => { setEditingId(null); setForm(emptyForm); }}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    {saveMutation.isPending ? "Saving..." : editingId ? "Save Changes" : "Add Schedule"}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </Can>
+      </div>
+
+      {/* Pay Calendar */}
+      {selectedSchedule && (
+        <Card>
+          <CardContent className="p-0">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{selectedSchedule.name} Calendar</h3>
+                <p className="text-sm text-gray-600">{calendar.length} pay periods</p>
+              </div>
+              <Input
+                type="number"
+                className="w-28"
+                value={calendarYear}
+                onChange={(e) => setCalendarYear(parseInt(e.target.value) || new Date().getFullYear())}
+              />
+            </div>
+            {calendarLoading ? (
+              <div className="text-center py-8 text-gray-500">Generating calendar...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Start</TableHead>
+                    <TableHead>End</TableHead>
+                    <TableHead>Pay Date</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {calendar.map((period) => (
+                    <TableRow key={period.periodNumber}>
+                      <TableCell className="text-sm font-medium text-gray-900">#{period.periodNumber}</TableCell>
+                      <TableCell className="text-sm text-gray-900">{period.startDate}</TableCell>
+                      <TableCell className="text-sm text-gray-900">{period.endDate}</TableCell>
+                      <TableCell className="text-sm text-gray-900">{period.payDate}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
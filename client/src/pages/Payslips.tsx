@@ -1,9 +1,10 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Eye, Download, Mail } from "lucide-react";
+import { Plus, Eye, Download, Mail, Trash2, CheckCircle, DollarSign, Ban, RotateCcw } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -12,25 +13,91 @@ import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
 import { formatCurrency, formatDateRange, getInitials } from "@/lib/utils";
 import PayslipPreview from "@/components/PayslipPreview";
-import type { PayslipWithEmployee, EmployeeWithRole } from "@shared/schema";
+import Can from "@/components/Can";
+import { earningCodes, deductionCodes, payFrequencyLabels, payslipLineLabels } from "@shared/schema";
+import type { PayslipWithEmployee, EmployeeWithRole, EmployeeOvertimePolicy, EmployeePaySchedule, PayslipTransition, TimeEntry } from "@shared/schema";
+
+interface PayslipLineItem {
+  type: "earning" | "tax" | "deduction" | "employer";
+  code: string;
+  description: string;
+  amount: number;
+  hours?: number;
+  preTax?: boolean;
+  benefitPlanId?: number | null;
+  garnishmentOrderId?: number | null;
+  loanId?: number | null;
+  earningId?: number | null;
+  supplemental?: boolean;
+}
+
+interface TimeEntryContribution {
+  id: number;
+  workDate: string;
+  startTime: string;
+  endTime: string;
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
 
 interface PayslipCalculation {
   basePay: number;
   overtimePay: number;
   grossPay: number;
+  taxWithheld: number;
   deductions: number;
   netPay: number;
   hoursWorked: number;
   overtimeHours: number;
+  doubleTimeHours: number;
+  lines: PayslipLineItem[];
+  // Present when hours were derived from approved time entries
+  timeEntries?: TimeEntryContribution[];
+  pendingTimeEntries?: TimeEntry[];
+  // Totals for the tax year including this payslip
+  yearToDate?: {
+    grossPay: number;
+    taxWithheld: number;
+    deductions: number;
+    netPay: number;
+    retirementContributions: number;
+    employerRetirementContributions: number;
+  };
 }
 
+interface PayslipAdjustment {
+  type: "earning" | "deduction";
+  code: string;
+  amount: number;
+}
+
+// Earnings and deductions that can be added by hand; regular and overtime pay are calculated
+const adjustmentCodes = [
+  ...earningCodes.filter(code => code !== "REGULAR" && code !== "OVERTIME").map(code => ({ type: "earning" as const, code })),
+  ...deductionCodes.map(code => ({ type: "deduction" as const, code })),
+];
+
+const statusStyles: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  generated: "bg-gray-100 text-gray-800",
+  approved: "bg-blue-100 text-blue-800",
+  paid: "bg-green-100 text-green-800",
+  void: "bg-red-100 text-red-800",
+};
+
 export default function Payslips() {
   const [selectedEmployee, setSelectedEmployee] = useState<string>("");
   const [payPeriodFrom, setPayPeriodFrom] = useState("");
   const [payPeriodTo, setPayPeriodTo] = useState("");
   const [hoursWorked, setHoursWorked] = useState("");
   const [overtimeHours, setOvertimeHours] = useState("");
-  const [deductions, setDeductions] = useState("");
+  const [doubleTimeHours, setDoubleTimeHours] = useState("");
+  const [useTimeEntries, setUseTimeEntries] = useState(false);
+  const [adjustments, setAdjustments] = useState<PayslipAdjustment[]>([]);
+  const [adjustmentCode, setAdjustmentCode] = useState("");
+  const [adjustmentAmount, setAdjustmentAmount] = useState("");
   const [calculationResult, setCalculationResult] = useState<PayslipCalculation | null>(null);
   const { toast } = useToast();
 
@@ -42,12 +109,37 @@ export default function Payslips() {
     queryKey: ["/api/payslips"],
   });
 
+  const { data: employeePaySchedule } = useQuery<EmployeePaySchedule>({
+    queryKey: [`/api/employees/${selectedEmployee}/pay-schedule`],
+    enabled: !!selectedEmployee,
+  });
+
+  const { data: employeeOvertimePolicy } = useQuery<EmployeeOvertimePolicy>({
+    queryKey: [`/api/employees/${selectedEmployee}/overtime-policy`],
+    enabled: !!selectedEmployee,
+  });
+
+  // Start from the current period of the selected employee's pay schedule
+  useEffect(() => {
+    const period = employeePaySchedule?.currentPeriod;
+    if (period) {
+      setPayPeriodFrom(period.startDate);
+      setPayPeriodTo(period.endDate);
+      setCalculationResult(null);
+    }
+  }, [employeePaySchedule]);
+
   const calculatePayslipMutation = useMutation({
     mutationFn: async (data: {
       employeeId: number;
-      hoursWorked: number;
-      overtimeHours: number;
-      deductions: number;
+      hoursWorked?: number;
+      overtimeHours?: number;
+      doubleTimeHours?: number;
+      adjustments: PayslipAdjustment[];
+      payPeriodFrom: string;
+      payPeriodTo: string;
+      payFrequency?: string;
+      useTimeEntries: boolean;
     }) => {
       const response = await apiRequest("POST", "/api/payslips/calculate", data);
       return response.json();
@@ -74,7 +166,13 @@ export default function Payslips() {
       toast({ title: "Payslip generated successfully" });
       resetForm();
     },
-    onError: () => {
+    onError: (error: any, data) => {
+      // An employee who already has a payslip for the period is only paid again once confirmed
+      if (error.message?.startsWith("409:") && !data.allowOverlapping &&
+          confirm("This employee already has a payslip for an overlapping period and will be paid twice. Generate anyway?")) {
+        generatePayslipMutation.mutate({ ...data, allowOverlapping: true });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to generate payslip",
@@ -83,18 +181,97 @@ export default function Payslips() {
     },
   });
 
+  const transitionPayslipMutation = useMutation({
+    mutationFn: async ({ id, transition, reason }: { id: number; transition: PayslipTransition; reason?: string }) => {
+      const response = await apiRequest("POST", `/api/payslips/${id}/${transition}`, reason ? { reason } : undefined);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payslips"] });
+      toast({ title: "Payslip updated successfully" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update payslip",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sendPayslipMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/payslips/${id}/send`);
+      return response.json();
+    },
+    onSuccess: (delivery) => {
+      toast({ title: `Payslip emailed to ${delivery.recipient}` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send payslip",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const approveTimeEntryMutation = useMutation({
+    mutationFn: async (entry: TimeEntry) => {
+      const response = await apiRequest("POST", `/api/employees/${entry.employeeId}/time-entries/${entry.id}/approve`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Time entry approved" });
+      handleCalculate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to approve time entry",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleVoid = (payslip: PayslipWithEmployee) => {
+    const reason = prompt(`Why are you voiding the payslip for ${payslip.employee.firstName} ${payslip.employee.lastName}?`);
+    if (reason) {
+      transitionPayslipMutation.mutate({ id: payslip.id, transition: "void", reason });
+    }
+  };
+
   const resetForm = () => {
     setSelectedEmployee("");
     setPayPeriodFrom("");
     setPayPeriodTo("");
     setHoursWorked("");
     setOvertimeHours("");
-    setDeductions("");
+    setDoubleTimeHours("");
+    setAdjustments([]);
+    setAdjustmentCode("");
+    setAdjustmentAmount("");
+    setCalculationResult(null);
+  };
+
+  const handleAddAdjustment = () => {
+    const option = adjustmentCodes.find(item => item.code === adjustmentCode);
+    const amount = parseFloat(adjustmentAmount);
+    if (!option || !amount || amount <= 0) return;
+
+    setAdjustments(prev => [...prev, { type: option.type, code: option.code, amount }]);
+    setAdjustmentCode("");
+    setAdjustmentAmount("");
+    setCalculationResult(null);
+  };
+
+  const handleRemoveAdjustment = (index: number) => {
+    setAdjustments(prev => prev.filter((_, i) => i !== index));
     setCalculationResult(null);
   };
 
   const handleCalculate = () => {
-    if (!selectedEmployee || !hoursWorked || !payPeriodFrom || !payPeriodTo) {
+    if (!selectedEmployee || (!hoursWorked && !useTimeEntries) || !payPeriodFrom || !payPeriodTo) {
       toast({
         title: "Error",
         description: "Please fill in all required fields",
@@ -105,9 +282,14 @@ export default function Payslips() {
 
     calculatePayslipMutation.mutate({
       employeeId: parseInt(selectedEmployee),
-      hoursWorked: parseFloat(hoursWorked),
-      overtimeHours: parseFloat(overtimeHours || "0"),
-      deductions: parseFloat(deductions || "0"),
+      hoursWorked: useTimeEntries ? undefined : parseFloat(hoursWorked),
+      overtimeHours: useTimeEntries ? undefined : parseFloat(overtimeHours || "0"),
+      doubleTimeHours: useTimeEntries ? undefined : parseFloat(doubleTimeHours || "0"),
+      adjustments,
+      payPeriodFrom,
+      payPeriodTo,
+      payFrequency: employeePaySchedule?.frequency,
+      useTimeEntries,
     });
   };
 
@@ -120,12 +302,27 @@ export default function Payslips() {
       payPeriodTo: new Date(payPeriodTo),
       hoursWorked: calculationResult.hoursWorked.toString(),
       overtimeHours: calculationResult.overtimeHours.toString(),
+      doubleTimeHours: calculationResult.doubleTimeHours.toString(),
       basePay: calculationResult.basePay.toString(),
       overtimePay: calculationResult.overtimePay.toString(),
+      taxWithheld: calculationResult.taxWithheld.toString(),
       deductions: calculationResult.deductions.toString(),
       grossPay: calculationResult.grossPay.toString(),
       netPay: calculationResult.netPay.toString(),
-      status: "generated",
+      lines: calculationResult.lines.map((line, index) => ({
+        type: line.type,
+        code: line.code,
+        description: line.description,
+        hours: line.hours !== undefined ? line.hours.toString() : null,
+        amount: line.amount.toString(),
+        preTax: line.preTax ?? false,
+        benefitPlanId: line.benefitPlanId ?? null,
+        garnishmentOrderId: line.garnishmentOrderId ?? null,
+        loanId: line.loanId ?? null,
+        earningId: line.earningId ?? null,
+        supplemental: line.supplemental ?? false,
+        sortOrder: index,
+      })),
     });
   };
 
@@ -142,123 +339,222 @@ export default function Payslips() {
       </div>
 
       {/* Payslip Generation */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
-        <Card>
-          <CardContent className="p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Generate New Payslip</h3>
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Employee</label>
-                <Select value={selectedEmployee} onValueChange={setSelectedEmployee}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select employee..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {employees.map((employee) => (
-                      <SelectItem key={employee.id} value={employee.id.toString()}>
-                        {employee.firstName} {employee.lastName} - {employee.role.title}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4">
+      <Can permission="payroll:manage">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Generate New Payslip</h3>
+              <div className="space-y-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Pay Period From</label>
-                  <Input
-                    type="date"
-                    value={payPeriodFrom}
-                    onChange={(e) => setPayPeriodFrom(e.target.value)}
-                  />
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Employee</label>
+                  <Select value={selectedEmployee} onValueChange={setSelectedEmployee}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select employee..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {employees.map((employee) => (
+                        <SelectItem key={employee.id} value={employee.id.toString()}>
+                          {employee.firstName} {employee.lastName} - {employee.role.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Pay Period To</label>
-                  <Input
-                    type="date"
-                    value={payPeriodTo}
-                    onChange={(e) => setPayPeriodTo(e.target.value)}
-                  />
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Pay Period From</label>
+                    <Input
+                      type="date"
+                      value={payPeriodFrom}
+                      onChange={(e) => setPayPeriodFrom(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Pay Period To</label>
+                    <Input
+                      type="date"
+                      value={payPeriodTo}
+                      onChange={(e) => setPayPeriodTo(e.target.value)}
+                    />
+                  </div>
                 </div>
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Hours Worked</label>
-                  <Input
-                    type="number"
-                    placeholder="160"
-                    value={hoursWorked}
-                    onChange={(e) => setHoursWorked(e.target.value)}
+                
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="use-time-entries"
+                    checked={useTimeEntries}
+                    onCheckedChange={(checked) => {
+                      setUseTimeEntries(checked === true);
+                      setCalculationResult(null);
+                    }}
                   />
-                  {selectedEmployeeData?.type === 'full-time' && (
-                    <p className="text-xs text-gray-500 mt-1">
-                      Standard full-time hours: 160/month
-                    </p>
-                  )}
+                  <label htmlFor="use-time-entries" className="text-sm font-medium text-gray-700">
+                    Use approved time entries for this pay period
+                  </label>
                 </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Hours Worked</label>
+                    <Input
+                      type="number"
+                      placeholder={employeePaySchedule ? employeePaySchedule.standardHours.toString() : "160"}
+                      value={useTimeEntries ? calculationResult?.hoursWorked ?? "" : hoursWorked}
+                      onChange={(e) => setHoursWorked(e.target.value)}
+                      disabled={useTimeEntries}
+                    />
+                    {selectedEmployeeData?.type === 'full-time' && employeePaySchedule && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Standard full-time hours: {employeePaySchedule.standardHours} per {payFrequencyLabels[employeePaySchedule.frequency].toLowerCase()} period
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Overtime Hours</label>
+                    <Input
+                      type="number"
+                      placeholder="0"
+                      value={useTimeEntries ? calculationResult?.overtimeHours ?? "" : overtimeHours}
+                      onChange={(e) => setOvertimeHours(e.target.value)}
+                      disabled={useTimeEntries}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Double Time Hours</label>
+                    <Input
+                      type="number"
+                      placeholder="0"
+                      value={useTimeEntries ? calculationResult?.doubleTimeHours ?? "" : doubleTimeHours}
+                      onChange={(e) => setDoubleTimeHours(e.target.value)}
+                      disabled={useTimeEntries}
+                    />
+                  </div>
+                </div>
+                {employeeOvertimePolicy && !employeeOvertimePolicy.isExempt && (
+                  <p className="text-xs text-gray-500">
+                    {employeeOvertimePolicy.policy
+                      ? `Overtime follows the ${employeeOvertimePolicy.policy.name} policy (${employeeOvertimePolicy.source === "employee" ? "assigned to employee" : employeeOvertimePolicy.source === "role" ? "from role" : "company default"})`
+                      : "Hours over 40 in a week are paid as overtime at 1.5x"}
+                  </p>
+                )}
+                {employeeOvertimePolicy?.isExempt && !useTimeEntries && (parseFloat(overtimeHours || "0") > 0 || parseFloat(doubleTimeHours || "0") > 0) && (
+                  <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                    {selectedEmployeeData ? `${selectedEmployeeData.firstName} ${selectedEmployeeData.lastName} is` : "This employee is"} exempt from overtime; overtime hours will be paid as regular hours
+                  </div>
+                )}
+                
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Overtime Hours</label>
-                  <Input
-                    type="number"
-                    placeholder="0"
-                    value={overtimeHours}
-                    onChange={(e) => setOvertimeHours(e.target.value)}
-                  />
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Additional Earnings & Deductions</label>
+                  <div className="flex space-x-2">
+                    <Select value={adjustmentCode} onValueChange={setAdjustmentCode}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select item..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {adjustmentCodes.map((item) => (
+                          <SelectItem key={item.code} value={item.code}>
+                            {payslipLineLabels[item.code]} ({item.type})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      placeholder="0.00"
+                      step="0.01"
+                      className="w-32"
+                      value={adjustmentAmount}
+                      onChange={(e) => setAdjustmentAmount(e.target.value)}
+                    />
+                    <Button type="button" variant="outline" onClick={handleAddAdjustment}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {adjustments.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {adjustments.map((adjustment, index) => (
+                        <li key={index} className="flex items-center justify-between text-sm text-gray-700">
+                          <span>{payslipLineLabels[adjustment.code]}</span>
+                          <span className="flex items-center space-x-2">
+                            <span className={adjustment.type === "deduction" ? "text-red-600" : ""}>
+                              {adjustment.type === "deduction" ? "-" : ""}{formatCurrency(adjustment.amount)}
+                            </span>
+                            <Button variant="ghost" size="sm" onClick={() => handleRemoveAdjustment(index)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Deductions</label>
-                <Input
-                  type="number"
-                  placeholder="0.00"
-                  step="0.01"
-                  value={deductions}
-                  onChange={(e) => setDeductions(e.target.value)}
-                />
-              </div>
-              
-              <Button 
-                onClick={handleCalculate}
-                className="w-full"
-                disabled={calculatePayslipMutation.isPending}
-              >
-                {calculatePayslipMutation.isPending ? "Calculating..." : "Calculate Payslip"}
-              </Button>
-
-              {calculationResult && (
+                
                 <Button 
-                  onClick={handleGenerate}
+                  onClick={handleCalculate}
                   className="w-full"
-                  variant="outline"
-                  disabled={generatePayslipMutation.isPending}
+                  disabled={calculatePayslipMutation.isPending}
                 >
-                  {generatePayslipMutation.isPending ? "Generating..." : "Generate & Save Payslip"}
+                  {calculatePayslipMutation.isPending ? "Calculating..." : "Calculate Payslip"}
                 </Button>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardContent className="p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Preview</h3>
-            {calculationResult && selectedEmployeeData ? (
-              <PayslipPreview
-                employee={selectedEmployeeData}
-                calculation={calculationResult}
-                payPeriod={`${payPeriodFrom} to ${payPeriodTo}`}
-              />
-            ) : (
-              <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center text-gray-500">
-                <div className="text-4xl mb-4">💰</div>
-                <p>Select an employee and fill in the details to preview the payslip</p>
+
+                {calculationResult?.pendingTimeEntries && calculationResult.pendingTimeEntries.length > 0 && (
+                  <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm">
+                    <p className="font-medium text-yellow-800 mb-2">
+                      {calculationResult.pendingTimeEntries.length} time {calculationResult.pendingTimeEntries.length === 1 ? "entry is" : "entries are"} awaiting approval and not included
+                    </p>
+                    <ul className="space-y-1">
+                      {calculationResult.pendingTimeEntries.map((entry) => (
+                        <li key={entry.id} className="flex items-center justify-between text-yellow-900">
+                          <span>{entry.workDate} {entry.startTime}-{entry.endTime} ({parseFloat(entry.hoursWorked)}h)</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => approveTimeEntryMutation.mutate(entry)}
+                            disabled={approveTimeEntryMutation.isPending}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {calculationResult && (
+                  <Button 
+                    onClick={handleGenerate}
+                    className="w-full"
+                    variant="outline"
+                    disabled={generatePayslipMutation.isPending}
+                  >
+                    {generatePayslipMutation.isPending ? "Generating..." : "Generate & Save Payslip"}
+                  </Button>
+                )}
               </div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
+            </CardContent>
+          </Card>
+          
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Preview</h3>
+              {calculationResult && selectedEmployeeData ? (
+                <PayslipPreview
+                  employee={selectedEmployeeData}
+                  calculation={calculationResult}
+                  payPeriod={`${payPeriodFrom} to ${payPeriodTo}`}
+                />
+              ) : (
+                <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center text-gray-500">
+                  <div className="text-4xl mb-4">💰</div>
+                  <p>Select an employee and fill in the details to preview the payslip</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </Can>
 
       {/* Payslip History */}
       <Card>
@@ -283,6 +579,7 @@ export default function Payslips() {
                     <TableHead>Employee</TableHead>
                     <TableHead>Period</TableHead>
                     <TableHead>Gross Pay</TableHead>
+                    <TableHead>Tax</TableHead>
                     <TableHead>Deductions</TableHead>
                     <TableHead>Net Pay</TableHead>
                     <TableHead>Status</TableHead>
@@ -310,6 +607,9 @@ export default function Payslips() {
                       <TableCell className="text-sm text-gray-900">
                         {formatCurrency(payslip.grossPay)}
                       </TableCell>
+                      <TableCell className="text-sm text-gray-900">
+                        {formatCurrency(payslip.taxWithheld)}
+                      </TableCell>
                       <TableCell className="text-sm text-gray-900">
                         {formatCurrency(payslip.deductions)}
                       </TableCell>
@@ -319,9 +619,9 @@ export default function Payslips() {
                       <TableCell>
                         <Badge 
                           variant="default"
-                          className="bg-green-100 text-green-800"
+                          className={statusStyles[payslip.status] ?? statusStyles.draft}
                         >
-                          {payslip.status}
+                          {payslip.status === "generated" ? "draft" : payslip.status}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -329,12 +629,67 @@ export default function Payslips() {
                           <Button variant="ghost" size="sm" className="text-primary hover:text-blue-700">
                             <Eye className="h-4 w-4" />
                           </Button>
-                          <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-800">
-                            <Download className="h-4 w-4" />
-                          </Button>
-                          <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-800">
-                            <Mail className="h-4 w-4" />
+                          <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-800" asChild>
+                            <a href={`/api/payslips/${payslip.id}/pdf`} download title="Download PDF">
+                              <Download className="h-4 w-4" />
+                            </a>
                           </Button>
+                          <Can permission="payroll:manage">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-gray-600 hover:text-gray-800"
+                              title="Email payslip"
+                              onClick={() => sendPayslipMutation.mutate(payslip.id)}
+                              disabled={sendPayslipMutation.isPending || payslip.status === "void"}
+                            >
+                              <Mail className="h-4 w-4" />
+                            </Button>
+                            {(payslip.status === "draft" || payslip.status === "generated") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Approve"
+                                className="text-blue-600 hover:text-blue-800"
+                                onClick={() => transitionPayslipMutation.mutate({ id: payslip.id, transition: "approve" })}
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {payslip.status === "approved" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Mark as paid"
+                                className="text-green-600 hover:text-green-800"
+                                onClick={() => transitionPayslipMutation.mutate({ id: payslip.id, transition: "pay" })}
+                              >
+                                <DollarSign className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {payslip.status !== "void" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Void"
+                                className="text-red-600 hover:text-red-800"
+                                onClick={() => handleVoid(payslip)}
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {payslip.status === "void" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Reissue"
+                                className="text-gray-600 hover:text-gray-800"
+                                onClick={() => transitionPayslipMutation.mutate({ id: payslip.id, transition: "reissue" })}
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </Can>
                         </div>
                       </TableCell>
                     </TableRow>
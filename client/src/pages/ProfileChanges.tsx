@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, X, ClipboardList } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate, getInitials } from "@/lib/utils";
+import { selfServiceProfileFields } from "@shared/schema";
+import type { ProfileChangeRequestWithEmployee, SelfServiceProfileField } from "@shared/schema";
+
+const profileFieldLabels: Record<SelfServiceProfileField, string> = {
+  phone: "Phone",
+  emergencyContact: "Emergency Contact",
+  address: "Address",
+  personalNotes: "Personal Notes",
+};
+
+const statusStyles: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+function ChangeList({ request }: { request: ProfileChangeRequestWithEmployee }) {
+  return (
+    <div className="space-y-1 text-sm">
+      {selfServiceProfileFields
+        .filter((field) => request.changes[field])
+        .map((field) => {
+          const change = request.changes[field]!;
+          return (
+            <div key={field}>
+              <span className="font-medium text-gray-900">{profileFieldLabels[field]}: </span>
+              <span className="text-red-600 line-through">{change.from || "(empty)"}</span>
+              <span className="text-gray-400"> → </span>
+              <span className="text-green-700">{change.to || "(empty)"}</span>
+            </div>
+          );
+        })}
+    </div>
+  );
+}
+
+export default function ProfileChanges() {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const { data: requests = [], isLoading } = useQuery<ProfileChangeRequestWithEmployee[]>({
+    queryKey: ["/api/profile-change-requests"],
+  });
+
+  const pendingRequests = requests.filter(request => request.status === "pending");
+  const reviewedRequests = requests.filter(request => request.status !== "pending");
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: number; decision: "approve" | "reject" }) => {
+      const response = await apiRequest("POST", `/api/profile-change-requests/${id}/${decision}`, {
+        note: notes[id] || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile-change-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      toast({ title: decision === "approve" ? "Profile changes applied" : "Profile changes rejected" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review profile changes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Profile Changes</h2>
+          <p className="text-gray-600">Review personal details employees have updated in their portal</p>
+        </div>
+      </div>
+
+      {/* Pending Queue */}
+      <Card className="mb-8">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Pending Approval ({pendingRequests.length})
+          </h3>
+          {isLoading ? (
+            <div className="text-center py-8 text-gray-500">Loading requests...</div>
+          ) : pendingRequests.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <ClipboardList className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+              <p>No profile changes waiting for review.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingRequests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <div className="flex items-center space-x-3">
+                        <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center">
+                          <span className="text-white text-xs font-medium">
+                            {getInitials(request.employee.firstName, request.employee.lastName)}
+                          </span>
+                        </div>
+                        <span className="font-medium">{request.employee.firstName} {request.employee.lastName}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{formatDate(request.createdAt)}</TableCell>
+                    <TableCell><ChangeList request={request} /></TableCell>
+                    <TableCell>
+                      <Input
+                        placeholder="Optional note"
+                        value={notes[request.id] ?? ""}
+                        onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          onClick={() => reviewMutation.mutate({ id: request.id, decision: "approve" })}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600 hover:text-red-800"
+                          onClick={() => reviewMutation.mutate({ id: request.id, decision: "reject" })}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* History */}
+      <Card>
+        <CardContent className="p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">History</h3>
+          {reviewedRequests.length === 0 ? (
+            <p className="text-sm text-gray-500">No reviewed requests yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Reviewed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reviewedRequests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">
+                      {request.employee.firstName} {request.employee.lastName}
+                    </TableCell>
+                    <TableCell><ChangeList request={request} /></TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={statusStyles[request.status]}>
+                        {request.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {request.reviewedAt && formatDate(request.reviewedAt)} by {request.reviewedBy}
+                      {request.reviewNote && <p className="italic text-gray-500">{request.reviewNote}</p>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
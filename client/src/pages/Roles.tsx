@@ -8,7 +8,9 @@ import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
 import { formatCurrency } from "@/lib/utils";
 import RoleModal from "@/components/RoleModal";
-import type { Role } from "@shared/schema";
+import Can from "@/components/Can";
+import { payBasisUnits } from "@shared/schema";
+import type { PayBasis, Role } from "@shared/schema";
 
 export default function Roles() {
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -101,10 +103,12 @@ export default function Roles() {
           <h2 className="text-3xl font-bold text-gray-900 mb-2">Roles</h2>
           <p className="text-gray-600">Manage employee roles and permissions using composition pattern</p>
         </div>
-        <Button onClick={handleCreateRole}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Role
-        </Button>
+        <Can permission="roles:manage">
+          <Button onClick={handleCreateRole}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Role
+          </Button>
+        </Can>
       </div>
 
       {/* Roles Grid */}
@@ -121,23 +125,25 @@ export default function Roles() {
                     <IconComponent className="h-6 w-6" />
                   </div>
                   <div className="flex space-x-2">
-                    <Button 
-                      variant="ghost" 
-                      size="sm"
-                      onClick={() => handleEditRole(role)}
-                      className="text-gray-600 hover:text-gray-800"
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button 
-                      variant="ghost" 
-                      size="sm"
-                      onClick={() => handleDeleteRole(role)}
-                      className="text-red-600 hover:text-red-700"
-                      disabled={deleteRoleMutation.isPending}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <Can permission="roles:manage">
+                      <Button 
+                        variant="ghost" 
+                        size="sm"
+                        onClick={() => handleEditRole(role)}
+                        className="text-gray-600 hover:text-gray-800"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button 
+                        variant="ghost" 
+                        size="sm"
+                        onClick={() => handleDeleteRole(role)}
+                        className="text-red-600 hover:text-red-700"
+                        disabled={deleteRoleMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </Can>
                   </div>
                 </div>
                 
@@ -158,9 +164,14 @@ export default function Roles() {
                   <div>
                     <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Salary Range</span>
                     <p className="text-sm font-medium text-gray-900">
-                      {formatCurrency(role.minSalary)} - {formatCurrency(role.maxSalary)}
+                      {formatCurrency(role.minSalary, role.currency)} - {formatCurrency(role.maxSalary, role.currency)} {payBasisUnits[role.payBasis as PayBasis]}
                     </p>
                   </div>
+
+                  <div>
+                    <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Overtime</span>
+                    <p className="text-sm font-medium text-gray-900">{role.isExempt ? "Exempt" : "Non-exempt"}</p>
+                  </div>
                 </div>
                 
                 <div className="mt-4 pt-4 border-t border-gray-200">
@@ -190,10 +201,12 @@ export default function Roles() {
           <div className="text-gray-400 text-6xl mb-4">👔</div>
           <h3 className="text-lg font-medium text-gray-900 mb-2">No roles created yet</h3>
           <p className="text-gray-600 mb-4">Get started by creating your first role</p>
-          <Button onClick={handleCreateRole}>
-            <Plus className="h-4 w-4 mr-2" />
-            Create Role
-          </Button>
+          <Can permission="roles:manage">
+            <Button onClick={handleCreateRole}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Role
+            </Button>
+          </Can>
         </div>
       )}
 
@@ -0,0 +1,21 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { ShieldAlert } from "lucide-react";
+
+export default function Forbidden() {
+  return (
+    <div className="min-h-full w-full flex items-center justify-center bg-gray-50 p-8">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2">
+            <ShieldAlert className="h-8 w-8 text-red-500" />
+            <h1 className="text-2xl font-bold text-gray-900">Access Denied</h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            Your account does not have permission to view this page.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,4 +11,6 @@ export default defineConfig({
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
+  // The session table is managed by connect-pg-simple
+  tablesFilter: ["!session"],
 });
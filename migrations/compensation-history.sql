@@ -0,0 +1,26 @@
+-- Starts the compensation history with each existing employee's current pay, effective from
+-- their start date, so payroll has a rate for every day they have worked.
+-- Run once on databases created before the change:
+--   psql "$DATABASE_URL" -f migrations/compensation-history.sql
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS compensation_history (
+  id serial PRIMARY KEY,
+  employee_id integer NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  effective_date date NOT NULL,
+  pay_basis text NOT NULL,
+  pay_amount numeric(12, 2) NOT NULL,
+  currency text NOT NULL DEFAULT 'USD',
+  standard_hours_per_week numeric(5, 2) NOT NULL DEFAULT 40,
+  reason text NOT NULL,
+  note text,
+  changed_by text NOT NULL,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+INSERT INTO compensation_history (employee_id, effective_date, pay_basis, pay_amount, currency, standard_hours_per_week, reason, changed_by)
+SELECT id, start_date::date, pay_basis, pay_amount, currency, standard_hours_per_week, 'hire', 'system'
+FROM employees
+WHERE NOT EXISTS (SELECT 1 FROM compensation_history WHERE compensation_history.employee_id = employees.id);
+
+COMMIT;
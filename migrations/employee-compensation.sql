@@ -0,0 +1,27 @@
+-- Replaces employees.salary, which held an annual salary for full-time staff and an hourly
+-- rate for part-time staff, with an explicit pay basis, amount, currency and standard hours.
+-- Run once on databases created before the change, before `npm run db:push`:
+--   psql "$DATABASE_URL" -f migrations/employee-compensation.sql
+BEGIN;
+
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS pay_basis text NOT NULL DEFAULT 'annual';
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS pay_amount numeric(12, 2);
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD';
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS standard_hours_per_week numeric(5, 2) NOT NULL DEFAULT 40;
+
+-- Part-time pay was estimated at 80 hours a month, i.e. 80 * 12 / 52 hours a week
+UPDATE employees
+SET pay_amount = salary,
+    pay_basis = CASE WHEN type = 'part-time' THEN 'hourly' ELSE 'annual' END,
+    standard_hours_per_week = CASE WHEN type = 'part-time' THEN round(80 * 12 / 52.0, 2) ELSE 40 END
+WHERE pay_amount IS NULL;
+
+ALTER TABLE employees ALTER COLUMN pay_amount SET NOT NULL;
+ALTER TABLE employees DROP COLUMN IF EXISTS salary;
+
+-- Role ranges were in whatever unit their employees were paid in; ranges topping out
+-- below 1,000 can only be hourly rates
+ALTER TABLE roles ADD COLUMN IF NOT EXISTS pay_basis text NOT NULL DEFAULT 'annual';
+UPDATE roles SET pay_basis = 'hourly' WHERE max_salary < 1000;
+
+COMMIT;
@@ -0,0 +1,161 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { loginSchema, type User as UserRecord, type SafeUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends UserRecord {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Stored as "<hash>.<salt>", both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const storedHash = Buffer.from(hashed, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+export function toSafeUser(user: UserRecord): SafeUser {
+  const { password, ...safeUser } = user;
+  return safeUser;
+}
+
+// Rejects requests without a signed-in user
+export function requireAuthentication(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+// Creates the first account on an empty install so someone can sign in.
+// Outside development a password must be supplied through ADMIN_PASSWORD.
+async function ensureInitialUser(): Promise<void> {
+  const existing = await storage.getUsers();
+  if (existing.length > 0) return;
+
+  const username = process.env.ADMIN_USERNAME || "admin";
+  let password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    if (process.env.NODE_ENV !== "development") {
+      log("no users exist and ADMIN_PASSWORD is not set; nobody will be able to sign in", "auth");
+      return;
+    }
+    password = "admin";
+    log(`created development user "${username}" with password "admin"; set ADMIN_PASSWORD to change it`, "auth");
+  }
+
+  await storage.createUser({ username, password: await hashPassword(password), accessRole: "admin" });
+}
+
+// Mounts sessions, passport and the /api/auth routes, then requires a
+// signed-in user for every other /api route
+export async function setupAuth(app: Express): Promise<void> {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && process.env.NODE_ENV !== "development") {
+    throw new Error("SESSION_SECRET must be set");
+  }
+
+  if (app.get("env") === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    secret: sessionSecret || "development-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 8 * 60 * 60 * 1000, // one working day
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await comparePasswords(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  await ensureInitialUser();
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const validation = loginSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: "Invalid login data", errors: validation.error.errors });
+    }
+
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      // Issue a fresh session ID on login to prevent session fixation
+      req.session.regenerate((regenerateError) => {
+        if (regenerateError) return next(regenerateError);
+        req.login(user, (loginError) => {
+          if (loginError) return next(loginError);
+          res.json(toSafeUser(user));
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((logoutError) => {
+      if (logoutError) return next(logoutError);
+      req.session.destroy((destroyError) => {
+        if (destroyError) return next(destroyError);
+        res.clearCookie("connect.sid");
+        res.json({ message: "Logged out successfully" });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    res.json(toSafeUser(req.user));
+  });
+
+  app.use("/api", requireAuthentication);
+}
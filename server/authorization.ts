@@ -0,0 +1,62 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+export function can(req: Request, permission: Permission): boolean {
+  return hasPermission(req.user?.accessRole, permission);
+}
+
+// Allows the request when the user holds any of the listed permissions
+export function requirePermission(...required: Permission[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!required.some(permission => can(req, permission))) {
+      return res.status(403).json({ message: "You do not have permission to do this" });
+    }
+    next();
+  };
+}
+
+export interface EmployeeAccessOptions {
+  // The employee may act on their own records
+  self?: boolean;
+  // The employee's manager may act on their records
+  reports?: boolean;
+  // Route parameter holding the employee ID
+  param?: string;
+}
+
+// For routes about one employee: allows holders of `permission`, plus the
+// employee themself and/or their manager when the options say so
+export function requireEmployeeAccess(permission: Permission, options: EmployeeAccessOptions = {}): RequestHandler {
+  const { self = false, reports = false, param = "id" } = options;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (can(req, permission)) return next();
+
+      const employeeId = parseInt(req.params[param]);
+      const userEmployeeId = req.user?.employeeId;
+      if (userEmployeeId) {
+        if (self && employeeId === userEmployeeId) return next();
+
+        if (reports) {
+          const employee = await storage.getEmployee(employeeId);
+          if (employee && employee.managerId === userEmployeeId) return next();
+        }
+      }
+
+      res.status(403).json({ message: "You do not have permission to do this" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
+
+// For /api/me routes: the signed-in user must be linked to an employee record,
+// whose ID the handlers then read from req.user rather than the URL
+export function requireLinkedEmployee(req: Request, res: Response, next: NextFunction) {
+  if (!req.user?.employeeId) {
+    return res.status(404).json({ message: "No employee profile is linked to this account" });
+  }
+  next();
+}
@@ -0,0 +1,96 @@
+import { benefitDeductionCodes, type BenefitEnrollment, type BenefitEnrollmentInput, type BenefitEnrollmentUpdate, type BenefitEnrollmentWithPlan, type InsertBenefitEnrollment } from "@shared/schema";
+import { storage } from "./storage";
+import { BenefitContributions, BenefitEligibilityError, InactiveBenefitPlanError, InvalidBenefitEnrollmentError, OverlappingBenefitEnrollmentError, type BenefitElection } from "./classes/Benefits";
+import type { BaseEmployee } from "./classes/Employee";
+import type { DateRange } from "./classes/Proration";
+import { roundCurrency } from "./classes/Currency";
+
+// Enrolls an employee in a plan. Eligibility is decided by the employee's domain class, and
+// contributions left out of the input start from the plan's.
+export async function enrollEmployee(employee: BaseEmployee, input: BenefitEnrollmentInput): Promise<BenefitEnrollment | undefined> {
+  if (!employee.isEligibleForBenefits()) {
+    throw new BenefitEligibilityError(employee.getFullName(), employee.getEmployeeType());
+  }
+
+  const plan = await storage.getBenefitPlan(input.planId);
+  if (!plan) return undefined;
+  if (!plan.isActive) {
+    throw new InactiveBenefitPlanError(plan);
+  }
+
+  const enrollment: InsertBenefitEnrollment = {
+    employeeId: employee.getId(),
+    planId: plan.id,
+    employeeContributionType: input.employeeContributionType ?? plan.employeeContributionType as InsertBenefitEnrollment["employeeContributionType"],
+    employeeContribution: input.employeeContribution ?? plan.employeeContribution,
+    employerContributionType: input.employerContributionType ?? plan.employerContributionType as InsertBenefitEnrollment["employerContributionType"],
+    employerContribution: input.employerContribution ?? plan.employerContribution,
+    startDate: input.startDate,
+    endDate: input.endDate ?? null,
+  };
+  await assertNoOverlap(enrollment);
+  return await storage.createBenefitEnrollment(enrollment);
+}
+
+// Changes an enrollment's contributions or dates
+export async function updateEnrollment(existing: BenefitEnrollment, update: BenefitEnrollmentUpdate): Promise<BenefitEnrollment | undefined> {
+  const startDate = update.startDate ?? existing.startDate;
+  const endDate = update.endDate === undefined ? existing.endDate : update.endDate;
+  if (endDate && endDate < startDate) {
+    throw new InvalidBenefitEnrollmentError("Enrollment must end on or after its start date");
+  }
+
+  await assertNoOverlap({ employeeId: existing.employeeId, planId: existing.planId, startDate, endDate }, existing.id);
+  return await storage.updateBenefitEnrollment(existing.id, update);
+}
+
+// The enrollments that apply to a pay period, as contributions the calculator can take. Plans
+// with an annual limit carry what the employee has already paid into them this tax year.
+// Retirement plans share one limit, so each carries everything paid into any retirement plan,
+// hand-entered retirement contributions included.
+export async function getBenefitElections(employeeId: number, period: DateRange): Promise<BenefitElection[]> {
+  const enrollments = await storage.getBenefitEnrollmentsByEmployee(employeeId, period.startDate, period.endDate);
+  const { byPlan, retirement } = enrollments.some(enrollment => enrollment.plan.annualLimit !== null)
+    ? await getContributionsThisYear(employeeId, period)
+    : { byPlan: new Map<number, number>(), retirement: 0 };
+
+  return enrollments.map(enrollment => BenefitContributions.fromEnrollment(
+    enrollment,
+    enrollment.plan.type === "retirement" ? retirement : byPlan.get(enrollment.planId) ?? 0
+  ));
+}
+
+// Employee contributions per plan, and to retirement overall whether through a plan or hand-entered,
+// on non-void payslips for earlier periods in the tax year the period ends in
+async function getContributionsThisYear(employeeId: number, period: DateRange): Promise<{ byPlan: Map<number, number>; retirement: number }> {
+  const taxYear = period.endDate.slice(0, 4);
+  const earlier = await storage.sumPayslipLines(employeeId, { from: `${taxYear}-01-01`, before: period.startDate });
+
+  const byPlan = new Map<number, number>();
+  let retirement = 0;
+  for (const total of earlier) {
+    if (total.type !== "deduction") continue;
+    if (total.benefitPlanId !== null) {
+      byPlan.set(total.benefitPlanId, roundCurrency((byPlan.get(total.benefitPlanId) ?? 0) + total.amount));
+    }
+    if (total.code === benefitDeductionCodes.retirement) {
+      retirement = roundCurrency(retirement + total.amount);
+    }
+  }
+  return { byPlan, retirement };
+}
+
+export async function getBenefitEnrollments(employeeId: number): Promise<BenefitEnrollmentWithPlan[]> {
+  return await storage.getBenefitEnrollmentsByEmployee(employeeId);
+}
+
+async function assertNoOverlap(enrollment: Pick<InsertBenefitEnrollment, "employeeId" | "planId" | "startDate" | "endDate">, id?: number): Promise<void> {
+  const existing = await storage.getBenefitEnrollmentsByEmployee(enrollment.employeeId);
+  const overlap = existing.find(other =>
+    other.id !== id && other.planId === enrollment.planId &&
+    BenefitContributions.overlaps(other, { startDate: enrollment.startDate, endDate: enrollment.endDate ?? null })
+  );
+  if (overlap) {
+    throw new OverlappingBenefitEnrollmentError(overlap, overlap.plan.name);
+  }
+}
@@ -0,0 +1,161 @@
+import { benefitDeductionCodes, employerBenefitCodes, type BenefitEnrollment, type BenefitEnrollmentWithPlan, type BenefitPlan, type BenefitPlanType, type ContributionType, type EmployerMatchTier } from "@shared/schema";
+import { roundCurrency } from "./Currency";
+import type { PayslipLineItem } from "./PayslipLines";
+
+// Raised when an employee who does not qualify for benefits is enrolled in a plan
+export class BenefitEligibilityError extends Error {
+  constructor(employeeName: string, employeeType: string) {
+    super(`${employeeName} is a ${employeeType} employee and is not eligible for benefits`);
+    this.name = "BenefitEligibilityError";
+  }
+}
+
+// Raised when enrolling in a plan that no longer takes new enrollments
+export class InactiveBenefitPlanError extends Error {
+  constructor(plan: BenefitPlan) {
+    super(`${plan.name} is not open for enrollment`);
+    this.name = "InactiveBenefitPlanError";
+  }
+}
+
+// Raised when an enrollment's dates do not describe a valid period
+export class InvalidBenefitEnrollmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidBenefitEnrollmentError";
+  }
+}
+
+// Raised when an enrollment would overlap the employee's existing enrollment in the same plan
+export class OverlappingBenefitEnrollmentError extends Error {
+  constructor(enrollment: BenefitEnrollment, planName: string) {
+    super(`Already enrolled in ${planName} from ${enrollment.startDate}${enrollment.endDate ? ` to ${enrollment.endDate}` : ""}`);
+    this.name = "OverlappingBenefitEnrollmentError";
+  }
+}
+
+// A fixed amount per pay period or a percentage of the period's taxable earnings
+export interface Contribution {
+  type: ContributionType;
+  amount: number;
+}
+
+// What an enrollment takes from and adds to one payslip
+export interface BenefitElection {
+  planId: number;
+  planName: string;
+  planType: BenefitPlanType;
+  preTax: boolean;
+  employeeContribution: Contribution;
+  employerContribution: Contribution;
+  employerMatch: EmployerMatchTier[];
+  // Most the employee can contribute in the tax year, and what they have contributed so far.
+  // Retirement plans share one limit, so for them this is what went into any retirement plan
+  annualLimit: number | null;
+  contributedThisYear: number;
+}
+
+// The lines one election adds to a payslip
+export interface BenefitContributionLines {
+  deduction?: PayslipLineItem;
+  employer: PayslipLineItem[];
+}
+
+// Works out benefit contributions and the payslip lines that carry them. Employee contributions
+// are deductions, flagged pre-tax when the plan comes out of wages before withholding, and stop
+// once the plan's annual limit is reached; employer contributions and matches are recorded on
+// their own lines and never change the employee's pay.
+export class BenefitContributions {
+  static fromEnrollment(enrollment: BenefitEnrollmentWithPlan, contributedThisYear: number = 0): BenefitElection {
+    return {
+      planId: enrollment.planId,
+      planName: enrollment.plan.name,
+      planType: enrollment.plan.type as BenefitPlanType,
+      preTax: enrollment.plan.isPreTax,
+      employeeContribution: {
+        type: enrollment.employeeContributionType as ContributionType,
+        amount: parseFloat(enrollment.employeeContribution),
+      },
+      employerContribution: {
+        type: enrollment.employerContributionType as ContributionType,
+        amount: parseFloat(enrollment.employerContribution),
+      },
+      employerMatch: enrollment.plan.employerMatch ?? [],
+      annualLimit: enrollment.plan.annualLimit === null ? null : parseFloat(enrollment.plan.annualLimit),
+      contributedThisYear,
+    };
+  }
+
+  static amount(contribution: Contribution, earnings: number): number {
+    const amount = contribution.type === "percent"
+      ? earnings * contribution.amount / 100
+      : contribution.amount;
+    return roundCurrency(Math.max(0, amount));
+  }
+
+  // What the employer matches when the employee contributes `contributed` out of `earnings`.
+  // Each tier matches its share of the employee's contribution rate, lowest tier first.
+  static matchAmount(tiers: EmployerMatchTier[], contributed: number, earnings: number): number {
+    if (earnings <= 0 || contributed <= 0) return 0;
+
+    let unmatchedPercent = contributed / earnings * 100;
+    let match = 0;
+    for (const tier of tiers) {
+      const matchedPercent = Math.min(unmatchedPercent, tier.ofPercent);
+      match += earnings * matchedPercent / 100 * tier.matchPercent / 100;
+      unmatchedPercent -= matchedPercent;
+      if (unmatchedPercent <= 0) break;
+    }
+    return roundCurrency(match);
+  }
+
+  static calculate(election: BenefitElection, earnings: number): BenefitContributionLines {
+    const requested = BenefitContributions.amount(election.employeeContribution, earnings);
+    const remaining = election.annualLimit === null
+      ? Infinity
+      : roundCurrency(Math.max(0, election.annualLimit - election.contributedThisYear));
+    const contributed = Math.min(requested, remaining);
+
+    const result: BenefitContributionLines = { employer: [] };
+    if (contributed > 0) {
+      result.deduction = {
+        type: "deduction",
+        code: benefitDeductionCodes[election.planType] ?? "BENEFIT",
+        description: contributed < requested ? `${election.planName} (annual limit reached)` : election.planName,
+        amount: contributed,
+        preTax: election.preTax,
+        benefitPlanId: election.planId,
+      };
+    }
+
+    const employerCode = employerBenefitCodes[election.planType] ?? "EMPLOYER_BENEFIT";
+    const employerAmount = BenefitContributions.amount(election.employerContribution, earnings);
+    if (employerAmount > 0) {
+      result.employer.push({
+        type: "employer",
+        code: employerCode,
+        description: `${election.planName} (employer)`,
+        amount: employerAmount,
+        benefitPlanId: election.planId,
+      });
+    }
+
+    const match = BenefitContributions.matchAmount(election.employerMatch, contributed, earnings);
+    if (match > 0) {
+      result.employer.push({
+        type: "employer",
+        code: employerCode,
+        description: `${election.planName} (employer match)`,
+        amount: match,
+        benefitPlanId: election.planId,
+      });
+    }
+
+    return result;
+  }
+
+  // Whether two inclusive date ranges share a day; a missing end date runs indefinitely
+  static overlaps(a: { startDate: string; endDate: string | null }, b: { startDate: string; endDate: string | null }): boolean {
+    return (a.endDate === null || a.endDate >= b.startDate) && (b.endDate === null || b.endDate >= a.startDate);
+  }
+}
@@ -0,0 +1,94 @@
+import { HOURS_PER_WORKDAY, WEEKS_PER_YEAR, type Employee, type PayBasis } from "@shared/schema";
+
+// The compensation fields stored on an employee
+export type CompensationRecord = Pick<Employee, "payBasis" | "payAmount" | "currency" | "standardHoursPerWeek">;
+
+// What an employee is paid: an amount per year, hour or day, plus the standard hours
+// used to convert between those bases
+export class Compensation {
+  private basis: PayBasis;
+  private amount: number;
+  private currency: string;
+  private standardHoursPerWeek: number;
+
+  constructor(basis: PayBasis, amount: number, currency: string = "USD", standardHoursPerWeek: number = 40) {
+    this.basis = basis;
+    this.amount = amount;
+    this.currency = currency;
+    this.standardHoursPerWeek = standardHoursPerWeek;
+  }
+
+  static fromRecord(record: CompensationRecord): Compensation {
+    return new Compensation(
+      record.payBasis as PayBasis,
+      parseFloat(record.payAmount),
+      record.currency,
+      parseFloat(record.standardHoursPerWeek)
+    );
+  }
+
+  getBasis(): PayBasis {
+    return this.basis;
+  }
+
+  getAmount(): number {
+    return this.amount;
+  }
+
+  getCurrency(): string {
+    return this.currency;
+  }
+
+  getStandardHoursPerWeek(): number {
+    return this.standardHoursPerWeek;
+  }
+
+  getStandardHoursPerYear(): number {
+    return this.standardHoursPerWeek * WEEKS_PER_YEAR;
+  }
+
+  // Standard working days in a year, counting a day as HOURS_PER_WORKDAY hours
+  getStandardDaysPerYear(): number {
+    return this.getStandardHoursPerYear() / HOURS_PER_WORKDAY;
+  }
+
+  getAnnualAmount(): number {
+    switch (this.basis) {
+      case "annual":
+        return this.amount;
+      case "hourly":
+        return this.amount * this.getStandardHoursPerYear();
+      case "daily":
+        return this.amount * this.getStandardDaysPerYear();
+      default:
+        throw new Error(`Unknown pay basis: ${this.basis}`);
+    }
+  }
+
+  getHourlyRate(): number {
+    if (this.basis === "hourly") return this.amount;
+    if (this.basis === "daily") return this.amount / HOURS_PER_WORKDAY;
+    const hoursPerYear = this.getStandardHoursPerYear();
+    return hoursPerYear === 0 ? 0 : this.amount / hoursPerYear;
+  }
+
+  // The same pay expressed on another basis, e.g. to compare against a role's range
+  amountIn(basis: PayBasis): number {
+    if (basis === this.basis) return this.amount;
+    switch (basis) {
+      case "annual":
+        return this.getAnnualAmount();
+      case "hourly":
+        return this.getHourlyRate();
+      case "daily":
+        return this.getHourlyRate() * HOURS_PER_WORKDAY;
+      default:
+        throw new Error(`Unknown pay basis: ${basis}`);
+    }
+  }
+
+  // Regular pay for one period when the year is split into `periodsPerYear` periods
+  getPeriodAmount(periodsPerYear: number): number {
+    return this.getAnnualAmount() / periodsPerYear;
+  }
+}
@@ -0,0 +1,72 @@
+import { Compensation } from "./Compensation";
+import { PayCalendar } from "./PayCalendar";
+import type { DateRange } from "./Proration";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Compensation that applies from a date until the next change
+export interface EffectiveCompensation {
+  effectiveDate: string;
+  compensation: Compensation;
+}
+
+// Part of a pay period paid at a single rate, and its share of the whole period
+export interface CompensationSegment extends DateRange {
+  compensation: Compensation;
+  share: number;
+}
+
+// An employee's pay over time. Each day is paid at the latest change effective on or
+// before it; days before the first change use the first change's rate
+export class CompensationTimeline {
+  private entries: EffectiveCompensation[];
+  private fallback: Compensation;
+
+  constructor(entries: EffectiveCompensation[], fallback: Compensation) {
+    this.entries = [...entries].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+    this.fallback = fallback;
+  }
+
+  compensationOn(date: string): Compensation {
+    let current = this.entries[0]?.compensation ?? this.fallback;
+    for (const entry of this.entries) {
+      if (entry.effectiveDate > date) break;
+      current = entry.compensation;
+    }
+    return current;
+  }
+
+  // Splits a period wherever a new rate takes effect inside it. Each segment's share is
+  // its days over the period's days, both counted with `countDays` so the split follows
+  // the pay schedule's proration basis
+  segmentsFor(period: DateRange, countDays: (range: DateRange) => number): CompensationSegment[] {
+    const boundaries = Array.from(new Set(
+      this.entries
+        .map(entry => entry.effectiveDate)
+        .filter(date => date > period.startDate && date <= period.endDate)
+    ));
+
+    const segments: CompensationSegment[] = [];
+    let startDate = period.startDate;
+    for (const boundary of [...boundaries, null]) {
+      const endDate = boundary ? CompensationTimeline.dayBefore(boundary) : period.endDate;
+      segments.push({ startDate, endDate, compensation: this.compensationOn(startDate), share: 0 });
+      if (boundary) startDate = boundary;
+    }
+
+    const periodDays = countDays(period);
+    for (const segment of segments) {
+      segment.share = periodDays === 0 ? 0 : countDays(segment) / periodDays;
+    }
+    // A period with no countable days is paid entirely at its closing rate
+    if (periodDays === 0) {
+      segments[segments.length - 1].share = 1;
+    }
+
+    return segments;
+  }
+
+  private static dayBefore(date: string): string {
+    return PayCalendar.formatDate(new Date(PayCalendar.parseDate(date).getTime() - DAY_MS));
+  }
+}
@@ -0,0 +1,4 @@
+// Rounds a monetary amount to whole cents
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
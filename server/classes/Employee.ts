@@ -1,4 +1,5 @@
 import { Role } from "./Role";
+import { Compensation } from "./Compensation";
 
 // Abstract base class demonstrating abstraction principle
 export abstract class BaseEmployee {
@@ -8,6 +9,8 @@ export abstract class BaseEmployee {
   protected email: string;
   protected role: Role;
   protected startDate: Date;
+  protected compensation: Compensation;
+  protected exemptOverride: boolean | null;
 
   constructor(
     id: number,
@@ -15,7 +18,9 @@ export abstract class BaseEmployee {
     lastName: string,
     email: string,
     role: Role,
-    startDate: Date
+    startDate: Date,
+    compensation: Compensation,
+    exemptOverride: boolean | null = null
   ) {
     this.id = id;
     this.firstName = firstName;
@@ -23,10 +28,13 @@ export abstract class BaseEmployee {
     this.email = email;
     this.role = role;
     this.startDate = startDate;
+    this.compensation = compensation;
+    this.exemptOverride = exemptOverride;
   }
 
   // Abstract methods to be implemented by subclasses
-  abstract calculateMonthlySalary(): number;
+  // Regular pay for one pay period when the year is split into `periodsPerYear` periods
+  abstract calculatePeriodSalary(periodsPerYear: number): number;
   abstract getEmployeeType(): string;
   abstract isEligibleForBenefits(): boolean;
 
@@ -46,27 +54,22 @@ export abstract class BaseEmployee {
   getEmail(): string {
     return this.email;
   }
-}
 
-// Full-time employee class demonstrating inheritance
-export class FullTimeEmployee extends BaseEmployee {
-  private annualSalary: number;
+  getCompensation(): Compensation {
+    return this.compensation;
+  }
 
-  constructor(
-    id: number,
-    firstName: string,
-    lastName: string,
-    email: string,
-    role: Role,
-    startDate: Date,
-    annualSalary: number
-  ) {
-    super(id, firstName, lastName, email, role, startDate);
-    this.annualSalary = annualSalary;
+  // The employee's own classification wins over their role's
+  isExempt(): boolean {
+    return this.exemptOverride ?? this.role.isExempt();
   }
+}
 
-  calculateMonthlySalary(): number {
-    return this.annualSalary / 12;
+// Full-time employee class demonstrating inheritance. Paid a fixed amount each period
+// whatever their pay basis; hourly and daily rates are annualized over standard hours.
+export class FullTimeEmployee extends BaseEmployee {
+  calculatePeriodSalary(periodsPerYear: number): number {
+    return this.compensation.getPeriodAmount(periodsPerYear);
   }
 
   getEmployeeType(): string {
@@ -78,32 +81,15 @@ export class FullTimeEmployee extends BaseEmployee {
   }
 
   getAnnualSalary(): number {
-    return this.annualSalary;
+    return this.compensation.getAnnualAmount();
   }
 }
 
-// Part-time employee class demonstrating inheritance
+// Part-time employee class demonstrating inheritance. Paid for the hours they work;
+// their expected pay for a period assumes they work their standard hours.
 export class PartTimeEmployee extends BaseEmployee {
-  private hourlyRate: number;
-  private defaultHoursPerMonth: number;
-
-  constructor(
-    id: number,
-    firstName: string,
-    lastName: string,
-    email: string,
-    role: Role,
-    startDate: Date,
-    hourlyRate: number,
-    defaultHoursPerMonth: number = 80
-  ) {
-    super(id, firstName, lastName, email, role, startDate);
-    this.hourlyRate = hourlyRate;
-    this.defaultHoursPerMonth = defaultHoursPerMonth;
-  }
-
-  calculateMonthlySalary(): number {
-    return this.hourlyRate * this.defaultHoursPerMonth;
+  calculatePeriodSalary(periodsPerYear: number): number {
+    return this.compensation.getPeriodAmount(periodsPerYear);
   }
 
   getEmployeeType(): string {
@@ -115,11 +101,11 @@ export class PartTimeEmployee extends BaseEmployee {
   }
 
   getHourlyRate(): number {
-    return this.hourlyRate;
+    return this.compensation.getHourlyRate();
   }
 
   calculatePay(hoursWorked: number): number {
-    return this.hourlyRate * hoursWorked;
+    return this.getHourlyRate() * hoursWorked;
   }
 }
 
@@ -133,13 +119,14 @@ export class EmployeeFactory {
     type: string,
     role: Role,
     startDate: Date,
-    salary: number
+    compensation: Compensation,
+    exemptOverride: boolean | null = null
   ): BaseEmployee {
     switch (type) {
       case "full-time":
-        return new FullTimeEmployee(id, firstName, lastName, email, role, startDate, salary);
+        return new FullTimeEmployee(id, firstName, lastName, email, role, startDate, compensation, exemptOverride);
       case "part-time":
-        return new PartTimeEmployee(id, firstName, lastName, email, role, startDate, salary);
+        return new PartTimeEmployee(id, firstName, lastName, email, role, startDate, compensation, exemptOverride);
       default:
         throw new Error(`Unknown employee type: ${type}`);
     }
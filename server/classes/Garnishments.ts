@@ -0,0 +1,106 @@
+import { garnishmentDeductionCodes, garnishmentDisposableLimits, garnishmentTypeLabels, garnishmentTypes, type ContributionType, type GarnishmentOrder, type GarnishmentType } from "@shared/schema";
+import { roundCurrency } from "./Currency";
+import type { Contribution } from "./Benefits";
+import type { PayslipLineItem } from "./PayslipLines";
+
+// Raised when an order's dates or amounts do not describe a valid order
+export class InvalidGarnishmentOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidGarnishmentOrderError";
+  }
+}
+
+// Raised when deleting an order that has already been withheld on payslips
+export class GarnishmentOrderInUseError extends Error {
+  constructor(order: GarnishmentOrder) {
+    super(`Amounts have already been withheld for the order to ${order.payee}; end the order instead`);
+    this.name = "GarnishmentOrderInUseError";
+  }
+}
+
+// What an order takes from one payslip
+export interface Garnishment {
+  orderId: number;
+  type: GarnishmentType;
+  payee: string;
+  startDate: string;
+  // A fixed amount per period or a percentage of disposable earnings
+  amount: Contribution;
+  maxPerPeriod: number | null;
+  // What is still owed, or null for orders without a total
+  remainingBalance: number | null;
+  // Most of disposable earnings garnishments may take once this order is included
+  disposableLimitPercent: number;
+}
+
+// Works out garnishment deductions. Orders are taken in legal priority order after taxes, each
+// limited to what is left of its share of disposable earnings, its per-period maximum, its
+// remaining balance and the employee's remaining net pay.
+export class GarnishmentCalculator {
+  static fromOrder(order: GarnishmentOrder, amountPaid: number = 0): Garnishment {
+    const type = order.type as GarnishmentType;
+    return {
+      orderId: order.id,
+      type,
+      payee: order.payee,
+      startDate: order.startDate,
+      amount: { type: order.amountType as ContributionType, amount: parseFloat(order.amount) },
+      maxPerPeriod: order.maxPerPeriod === null ? null : parseFloat(order.maxPerPeriod),
+      remainingBalance: order.totalCap === null ? null : roundCurrency(Math.max(0, parseFloat(order.totalCap) - amountPaid)),
+      disposableLimitPercent: order.disposableLimitPercent === null
+        ? garnishmentDisposableLimits[type]
+        : parseFloat(order.disposableLimitPercent),
+    };
+  }
+
+  // Support before levies before student loans before creditors; oldest order first within a kind
+  static byPriority(a: Garnishment, b: Garnishment): number {
+    return garnishmentTypes.indexOf(a.type) - garnishmentTypes.indexOf(b.type) ||
+      a.startDate.localeCompare(b.startDate) ||
+      a.orderId - b.orderId;
+  }
+
+  // Earnings less taxes, which is what the law limits garnishments by
+  static disposableEarnings(lines: PayslipLineItem[], taxableEarnings: number): number {
+    const taxes = lines.filter(line => line.type === "tax").reduce((total, line) => total + line.amount, 0);
+    return roundCurrency(Math.max(0, taxableEarnings - taxes));
+  }
+
+  // `available` is the net pay left once taxes and earlier deductions are taken
+  static calculate(garnishments: Garnishment[], disposableEarnings: number, available: number): PayslipLineItem[] {
+    const lines: PayslipLineItem[] = [];
+    let garnished = 0;
+
+    for (const garnishment of [...garnishments].sort(GarnishmentCalculator.byPriority)) {
+      const requested = garnishment.amount.type === "percent"
+        ? roundCurrency(disposableEarnings * garnishment.amount.amount / 100)
+        : garnishment.amount.amount;
+      const perPeriod = Math.min(requested, garnishment.maxPerPeriod ?? Infinity, garnishment.remainingBalance ?? Infinity);
+      const allowed = roundCurrency(Math.max(0, disposableEarnings * garnishment.disposableLimitPercent / 100 - garnished));
+      const remainingNetPay = roundCurrency(available - garnished);
+      const amount = roundCurrency(Math.max(0, Math.min(perPeriod, allowed, remainingNetPay)));
+      if (amount <= 0) continue;
+
+      let description = `${garnishmentTypeLabels[garnishment.type]} - ${garnishment.payee}`;
+      if (amount < perPeriod) {
+        description += allowed <= remainingNetPay
+          ? ` (limited to ${garnishment.disposableLimitPercent}% of disposable earnings)`
+          : " (limited to net pay)";
+      } else if (garnishment.remainingBalance !== null && amount >= garnishment.remainingBalance) {
+        description += " (final payment)";
+      }
+
+      lines.push({
+        type: "deduction",
+        code: garnishmentDeductionCodes[garnishment.type],
+        description,
+        amount,
+        garnishmentOrderId: garnishment.orderId,
+      });
+      garnished = roundCurrency(garnished + amount);
+    }
+
+    return lines;
+  }
+}
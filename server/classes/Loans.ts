@@ -0,0 +1,70 @@
+import { payslipLineLabels, type Loan } from "@shared/schema";
+import { roundCurrency } from "./Currency";
+import type { PayslipLineItem } from "./PayslipLines";
+
+// Raised when deleting a loan that has already been repaid on payslips
+export class LoanInUseError extends Error {
+  constructor(loan: Loan) {
+    super(`Installments have already been repaid on ${loan.description}; cancel the loan instead`);
+    this.name = "LoanInUseError";
+  }
+}
+
+// What a loan takes from one payslip
+export interface LoanInstallment {
+  loanId: number;
+  description: string;
+  installment: number;
+  outstandingBalance: number;
+}
+
+// Works out loan repayments. Each loan takes its installment, or what is left of it if that is
+// less, oldest loan first and never more than the employee's remaining net pay; anything not
+// recovered stays owed for the next payslip.
+export class LoanRepayments {
+  static fromLoan(loan: Loan, amountRepaid: number = 0): LoanInstallment {
+    return {
+      loanId: loan.id,
+      description: loan.description,
+      installment: parseFloat(loan.installmentAmount),
+      outstandingBalance: LoanRepayments.outstanding(parseFloat(loan.amount), amountRepaid),
+    };
+  }
+
+  static outstanding(amount: number, amountRepaid: number): number {
+    return roundCurrency(Math.max(0, amount - amountRepaid));
+  }
+
+  // Equal installments, rounded up to the cent so the last one is never larger than the rest
+  static installmentFor(amount: number, installments: number): number {
+    return Math.ceil(amount * 100 / installments) / 100;
+  }
+
+  static installmentsRemaining(outstandingBalance: number, installment: number): number {
+    if (outstandingBalance <= 0 || installment <= 0) return 0;
+    return Math.ceil(roundCurrency(outstandingBalance / installment));
+  }
+
+  // `available` is the net pay left once taxes and earlier deductions are taken
+  static calculate(loans: LoanInstallment[], available: number): PayslipLineItem[] {
+    const lines: PayslipLineItem[] = [];
+    let repaid = 0;
+
+    for (const loan of [...loans].sort((a, b) => a.loanId - b.loanId)) {
+      const amount = roundCurrency(Math.max(0, Math.min(loan.installment, loan.outstandingBalance, available - repaid)));
+      if (amount <= 0) continue;
+
+      const balance = roundCurrency(loan.outstandingBalance - amount);
+      lines.push({
+        type: "deduction",
+        code: "LOAN_REPAYMENT",
+        description: `${payslipLineLabels.LOAN_REPAYMENT} - ${loan.description} (${balance > 0 ? `${balance.toFixed(2)} outstanding` : "repaid"})`,
+        amount,
+        loanId: loan.loanId,
+      });
+      repaid = roundCurrency(repaid + amount);
+    }
+
+    return lines;
+  }
+}
@@ -0,0 +1,125 @@
+import { SEVENTH_DAY_DOUBLE_TIME_AFTER, WEEKLY_OVERTIME_THRESHOLD, type OvertimePolicy } from "@shared/schema";
+
+// The overtime policy fields that decide how hours are paid
+export type OvertimeRulesRecord = Pick<OvertimePolicy,
+  "dailyThreshold" | "dailyDoubleTimeThreshold" | "weeklyThreshold" | "overtimeMultiplier" | "doubleTimeMultiplier" | "seventhDayRule" | "isExempt">;
+
+// What came before a stretch of hours in the same day and workweek
+export interface OvertimeContext {
+  hoursEarlierToday: number;
+  regularHoursEarlierThisWeek: number;
+  isSeventhConsecutiveDay: boolean;
+}
+
+export interface HoursAllocation {
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Hours of the day between `from` and `to` that fall between `low` and `high`
+function overlap(from: number, to: number, low: number, high: number): number {
+  return Math.max(0, Math.min(to, high) - Math.max(from, low));
+}
+
+// Splits worked hours into regular, overtime and double time under an overtime policy.
+// Daily thresholds are applied first; the weekly threshold then counts only regular hours,
+// so an hour already paid as daily overtime is not paid as overtime twice.
+export class OvertimeRules {
+  private dailyThreshold: number | null;
+  private dailyDoubleTimeThreshold: number | null;
+  private weeklyThreshold: number | null;
+  private overtimeMultiplier: number;
+  private doubleTimeMultiplier: number;
+  private seventhDayRule: boolean;
+  private exempt: boolean;
+
+  constructor(options: {
+    dailyThreshold?: number | null;
+    dailyDoubleTimeThreshold?: number | null;
+    weeklyThreshold?: number | null;
+    overtimeMultiplier?: number;
+    doubleTimeMultiplier?: number;
+    seventhDayRule?: boolean;
+    isExempt?: boolean;
+  } = {}) {
+    this.dailyThreshold = options.dailyThreshold ?? null;
+    this.dailyDoubleTimeThreshold = options.dailyDoubleTimeThreshold ?? null;
+    this.weeklyThreshold = options.weeklyThreshold === undefined ? WEEKLY_OVERTIME_THRESHOLD : options.weeklyThreshold;
+    this.overtimeMultiplier = options.overtimeMultiplier ?? 1.5;
+    this.doubleTimeMultiplier = options.doubleTimeMultiplier ?? 2;
+    this.seventhDayRule = options.seventhDayRule ?? false;
+    this.exempt = options.isExempt ?? false;
+  }
+
+  // Time and a half after 40 hours a week, used when no policy applies
+  static standard(): OvertimeRules {
+    return new OvertimeRules();
+  }
+
+  static fromRecord(record: OvertimeRulesRecord): OvertimeRules {
+    const hours = (value: string | null) => value === null ? null : parseFloat(value);
+    return new OvertimeRules({
+      dailyThreshold: hours(record.dailyThreshold),
+      dailyDoubleTimeThreshold: hours(record.dailyDoubleTimeThreshold),
+      weeklyThreshold: hours(record.weeklyThreshold),
+      overtimeMultiplier: parseFloat(record.overtimeMultiplier),
+      doubleTimeMultiplier: parseFloat(record.doubleTimeMultiplier),
+      seventhDayRule: record.seventhDayRule,
+      isExempt: record.isExempt,
+    });
+  }
+
+  isExempt(): boolean {
+    return this.exempt;
+  }
+
+  getOvertimeMultiplier(): number {
+    return this.overtimeMultiplier;
+  }
+
+  getDoubleTimeMultiplier(): number {
+    return this.doubleTimeMultiplier;
+  }
+
+  usesSeventhDayRule(): boolean {
+    return this.seventhDayRule;
+  }
+
+  allocate(hours: number, context: OvertimeContext): HoursAllocation {
+    if (this.exempt) {
+      return { regularHours: round(hours), overtimeHours: 0, doubleTimeHours: 0 };
+    }
+
+    const from = context.hoursEarlierToday;
+    const to = from + hours;
+
+    if (this.seventhDayRule && context.isSeventhConsecutiveDay) {
+      return {
+        regularHours: 0,
+        overtimeHours: round(overlap(from, to, 0, SEVENTH_DAY_DOUBLE_TIME_AFTER)),
+        doubleTimeHours: round(overlap(from, to, SEVENTH_DAY_DOUBLE_TIME_AFTER, Infinity)),
+      };
+    }
+
+    const doubleTimeAfter = this.dailyDoubleTimeThreshold ?? Infinity;
+    const overtimeAfter = Math.min(this.dailyThreshold ?? Infinity, doubleTimeAfter);
+
+    const doubleTimeHours = overlap(from, to, doubleTimeAfter, Infinity);
+    const dailyOvertimeHours = overlap(from, to, overtimeAfter, doubleTimeAfter);
+    const withinDay = overlap(from, to, 0, overtimeAfter);
+
+    const weeklyRoom = this.weeklyThreshold === null
+      ? Infinity
+      : Math.max(0, this.weeklyThreshold - context.regularHoursEarlierThisWeek);
+    const regularHours = Math.min(withinDay, weeklyRoom);
+
+    return {
+      regularHours: round(regularHours),
+      overtimeHours: round(dailyOvertimeHours + withinDay - regularHours),
+      doubleTimeHours: round(doubleTimeHours),
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { periodsPerYear, type PayFrequency, type PayPeriod, type PaySchedule } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The schedule fields that shape its calendar
+export type PayCalendarSchedule = Pick<PaySchedule, "frequency" | "anchorDate" | "payDateOffsetDays">;
+
+// Generates pay periods and pay dates for a schedule. Weekly and bi-weekly periods repeat every
+// 7 or 14 days from the anchor date; semi-monthly periods run 1st-15th and 16th-month end;
+// monthly periods are calendar months. Pay dates falling on a weekend move back to the Friday.
+export class PayCalendar {
+  private frequency: PayFrequency;
+  private anchorDate: string;
+  private payDateOffsetDays: number;
+
+  constructor(schedule: PayCalendarSchedule) {
+    this.frequency = schedule.frequency as PayFrequency;
+    this.anchorDate = schedule.anchorDate;
+    this.payDateOffsetDays = schedule.payDateOffsetDays;
+  }
+
+  // Dates are handled as UTC midnight so periods never shift with the server's time zone
+  static parseDate(value: string): Date {
+    const [year, month, day] = value.split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  static formatDate(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+
+  getFrequency(): PayFrequency {
+    return this.frequency;
+  }
+
+  getPeriodsPerYear(): number {
+    return periodsPerYear[this.frequency];
+  }
+
+  // Periods belong to the year they end in, matching the tax year of their payslips
+  periodsForYear(year: number): PayPeriod[] {
+    return this.periodBoundsForYear(year).map(([start, end], index) => ({
+      periodNumber: index + 1,
+      startDate: PayCalendar.formatDate(start),
+      endDate: PayCalendar.formatDate(end),
+      payDate: PayCalendar.formatDate(this.payDateFor(end)),
+    }));
+  }
+
+  // The period a YYYY-MM-DD date falls in
+  periodContaining(date: string): PayPeriod {
+    const year = PayCalendar.parseDate(date).getUTCFullYear();
+    // A date late in December can belong to a period ending the next January
+    for (const candidate of [year, year + 1]) {
+      const period = this.periodsForYear(candidate).find(p => p.startDate <= date && p.endDate >= date);
+      if (period) return period;
+    }
+    throw new Error(`No pay period contains ${date}`);
+  }
+
+  private periodBoundsForYear(year: number): [Date, Date][] {
+    switch (this.frequency) {
+      case "weekly":
+        return this.fixedLengthPeriods(year, 7);
+      case "biweekly":
+        return this.fixedLengthPeriods(year, 14);
+      case "semimonthly":
+        return Array.from({ length: 12 }, (_, month) => [
+          [new Date(Date.UTC(year, month, 1)), new Date(Date.UTC(year, month, 15))],
+          [new Date(Date.UTC(year, month, 16)), new Date(Date.UTC(year, month + 1, 0))],
+        ] as [Date, Date][]).flat();
+      case "monthly":
+        return Array.from({ length: 12 }, (_, month) =>
+          [new Date(Date.UTC(year, month, 1)), new Date(Date.UTC(year, month + 1, 0))] as [Date, Date]
+        );
+      default:
+        throw new Error(`Unknown pay frequency: ${this.frequency}`);
+    }
+  }
+
+  private fixedLengthPeriods(year: number, lengthDays: number): [Date, Date][] {
+    const anchor = PayCalendar.parseDate(this.anchorDate);
+    const yearStart = new Date(Date.UTC(year, 0, 1));
+    const yearEnd = new Date(Date.UTC(year, 11, 31));
+
+    // Step back to the last period starting on or before the first of the year
+    const offset = Math.floor((yearStart.getTime() - anchor.getTime()) / (lengthDays * DAY_MS));
+    let start = PayCalendar.addDays(anchor, offset * lengthDays);
+
+    const periods: [Date, Date][] = [];
+    while (start <= yearEnd) {
+      const end = PayCalendar.addDays(start, lengthDays - 1);
+      if (end >= yearStart && end <= yearEnd) {
+        periods.push([start, end]);
+      }
+      start = PayCalendar.addDays(start, lengthDays);
+    }
+    return periods;
+  }
+
+  private payDateFor(periodEnd: Date): Date {
+    const payDate = PayCalendar.addDays(periodEnd, this.payDateOffsetDays);
+    const weekday = payDate.getUTCDay();
+    if (weekday === 6) return PayCalendar.addDays(payDate, -1);
+    if (weekday === 0) return PayCalendar.addDays(payDate, -2);
+    return payDate;
+  }
+}
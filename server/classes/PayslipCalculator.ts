@@ -1,61 +1,265 @@
+import { benefitDeductionCodes, payslipLineLabels } from "@shared/schema";
 import { BaseEmployee, FullTimeEmployee, PartTimeEmployee } from "./Employee";
+import { TaxWithholdingEngine, type TaxLine } from "./TaxWithholding";
+import { PayslipReconciler, type PayslipLineItem, type PayslipTotals } from "./PayslipLines";
+import { roundCurrency } from "./Currency";
+import type { ProrationResult } from "./Proration";
+import type { Compensation } from "./Compensation";
+import type { CompensationSegment } from "./CompensationTimeline";
+import { OvertimeRules } from "./OvertimeRules";
+import { BenefitContributions, type BenefitElection } from "./Benefits";
+import { GarnishmentCalculator, type Garnishment } from "./Garnishments";
+import { LoanRepayments, type LoanInstallment } from "./Loans";
+import { ScheduledEarnings, type EarningItem } from "./ScheduledEarnings";
+
+// Collaborators injected into a calculator - demonstrates dependency injection
+export interface PayslipCalculatorOptions {
+  taxWithholding?: TaxWithholdingEngine;
+  // Pay periods in the employee's pay schedule year; defaults to monthly
+  periodsPerYear?: number;
+  // Share of the pay period the employee is owed, when they were not employed for all of it
+  proration?: ProrationResult;
+  // Stretches of the period at different rates, when pay changed during it; defaults to
+  // the employee's current compensation for the whole period
+  compensationSegments?: CompensationSegment[];
+  // The employee's overtime policy; defaults to time and a half with no double time
+  overtimeRules?: OvertimeRules;
+  // Benefit plans the employee is enrolled in for the period
+  benefits?: BenefitElection[];
+  // Garnishment orders in effect for the period
+  garnishments?: Garnishment[];
+  // Loans the employee is repaying
+  loans?: LoanInstallment[];
+  // Bonuses and commissions paid in the period
+  earnings?: EarningItem[];
+}
 
 // Abstract payslip calculator demonstrating abstraction
 export abstract class PayslipCalculator {
   protected employee: BaseEmployee;
+  protected taxWithholding?: TaxWithholdingEngine;
+  protected periodsPerYear: number;
+  protected proration?: ProrationResult;
+  protected compensationSegments: CompensationSegment[];
+  protected overtimeRules: OvertimeRules;
+  protected benefits: BenefitElection[];
+  protected garnishments: Garnishment[];
+  protected loans: LoanInstallment[];
+  protected earnings: EarningItem[];
 
-  constructor(employee: BaseEmployee) {
+  constructor(employee: BaseEmployee, options: PayslipCalculatorOptions = {}) {
     this.employee = employee;
+    this.taxWithholding = options.taxWithholding;
+    this.periodsPerYear = options.periodsPerYear ?? 12;
+    this.proration = options.proration;
+    this.compensationSegments = options.compensationSegments?.length
+      ? options.compensationSegments
+      : [{ startDate: "", endDate: "", compensation: employee.getCompensation(), share: 1 }];
+    this.overtimeRules = options.overtimeRules ?? OvertimeRules.standard();
+    this.benefits = options.benefits ?? [];
+    this.garnishments = options.garnishments ?? [];
+    this.loans = options.loans ?? [];
+    this.earnings = options.earnings ?? [];
   }
 
   // Template method pattern - defines the algorithm structure
   calculatePayslip(
     hoursWorked: number,
     overtimeHours: number = 0,
-    deductions: number = 0
+    adjustments: PayslipAdjustment[] = [],
+    doubleTimeHours: number = 0
   ): PayslipResult {
-    const basePay = this.calculateBasePay(hoursWorked);
-    const overtimePay = this.calculateOvertimePay(overtimeHours);
-    const grossPay = basePay + overtimePay;
-    const netPay = grossPay - deductions;
+    const lines: PayslipLineItem[] = [];
+
+    // Exempt employees, by classification or overtime policy, cannot accrue overtime, so any
+    // extra hours are just hours worked
+    if (this.employee.isExempt() || this.overtimeRules.isExempt()) {
+      hoursWorked = roundCurrency(hoursWorked + overtimeHours + doubleTimeHours);
+      overtimeHours = 0;
+      doubleTimeHours = 0;
+    }
+
+    // One regular pay line per rate in effect during the period
+    const split = this.compensationSegments.length > 1;
+    let basePay = 0;
+    let hoursAllocated = 0;
+    this.compensationSegments.forEach((segment, index) => {
+      const isLast = index === this.compensationSegments.length - 1;
+      // Hours are spread over the segments by share; the last one takes the rounding remainder
+      const hours = isLast ? roundCurrency(hoursWorked - hoursAllocated) : roundCurrency(hoursWorked * segment.share);
+      hoursAllocated += hours;
+
+      const amount = roundCurrency(this.calculateBasePay(hours, segment));
+      basePay = roundCurrency(basePay + amount);
+      lines.push({
+        type: "earning",
+        code: "REGULAR",
+        description: split
+          ? `${payslipLineLabels.REGULAR} (${segment.startDate} to ${segment.endDate})`
+          : payslipLineLabels.REGULAR,
+        amount,
+        hours,
+      });
+    });
+
+    const prorationAdjustment = roundCurrency(this.calculateProrationAdjustment(basePay));
+    if (this.proration && prorationAdjustment !== 0) {
+      const { payableDays, periodDays, basis } = this.proration;
+      lines.push({
+        type: "earning",
+        code: "PRORATION",
+        description: `${payslipLineLabels.PRORATION} (${payableDays} of ${periodDays} ${basis.replace("-", " ")})`,
+        amount: prorationAdjustment,
+      });
+    }
+
+    const overtimePay = roundCurrency(this.calculateOvertimePay(overtimeHours, this.overtimeRules.getOvertimeMultiplier()));
+    if (overtimePay > 0) {
+      lines.push({
+        type: "earning",
+        code: "OVERTIME",
+        description: payslipLineLabels.OVERTIME,
+        amount: overtimePay,
+        hours: overtimeHours,
+      });
+    }
+
+    const doubleTimePay = roundCurrency(this.calculateOvertimePay(doubleTimeHours, this.overtimeRules.getDoubleTimeMultiplier()));
+    if (doubleTimePay > 0) {
+      lines.push({
+        type: "earning",
+        code: "DOUBLE_TIME",
+        description: payslipLineLabels.DOUBLE_TIME,
+        amount: doubleTimePay,
+        hours: doubleTimeHours,
+      });
+    }
+
+    // Percentage-of-salary bonuses use the salary in effect at the end of the period
+    lines.push(...ScheduledEarnings.calculate(this.earnings, this.closingCompensation().getAnnualAmount(), this.periodsPerYear));
+
+    // Hand-entered earnings first so they are included in taxable wages
+    for (const adjustment of adjustments.filter(a => a.type === "earning")) {
+      lines.push(this.toLine(adjustment));
+    }
+
+    // Hand-entered retirement contributions are pre-tax, like contributions through a plan
+    const isManualRetirement = (a: PayslipAdjustment) => a.type === "deduction" && a.code === benefitDeductionCodes.retirement;
+    const manualRetirement = adjustments.filter(isManualRetirement).map(a => ({ ...this.toLine(a), preTax: true }));
+    const benefits = this.employee.isEligibleForBenefits() ? this.benefits : [];
+
+    // Percentage contributions are worked out on taxable earnings before any deduction. Retirement
+    // plans share one annual limit, so every retirement contribution on this payslip, hand-entered
+    // or through a plan, uses up what is left for the plans after it
+    const earnings = PayslipReconciler.taxableEarnings(lines);
+    let retirementThisPayslip = roundCurrency(manualRetirement.reduce((total, line) => total + line.amount, 0));
+    const contributions = benefits.map(election => {
+      if (election.planType !== "retirement") return BenefitContributions.calculate(election, earnings);
+
+      const contribution = BenefitContributions.calculate({
+        ...election,
+        contributedThisYear: roundCurrency(election.contributedThisYear + retirementThisPayslip),
+      }, earnings);
+      retirementThisPayslip = roundCurrency(retirementThisPayslip + (contribution.deduction?.amount ?? 0));
+      return contribution;
+    });
+    const benefitDeductions = contributions
+      .map(contribution => contribution.deduction)
+      .filter((line): line is PayslipLineItem => line !== undefined);
+
+    // Pre-tax deductions come before withholding so they reduce taxable wages
+    lines.push(...benefitDeductions.filter(line => line.preTax));
+    lines.push(...manualRetirement);
+
+    const supplementalWages = PayslipReconciler.supplementalWages(lines);
+    const taxes = this.calculateTaxes(roundCurrency(PayslipReconciler.taxableWages(lines) - supplementalWages), supplementalWages);
+    for (const tax of taxes) {
+      lines.push({ type: "tax", code: tax.code, description: tax.description, amount: tax.amount });
+    }
+
+    // Garnishments come straight after taxes, ahead of any voluntary deduction
+    lines.push(...GarnishmentCalculator.calculate(
+      this.garnishments,
+      GarnishmentCalculator.disposableEarnings(lines, earnings),
+      PayslipReconciler.summarize(lines).netPay
+    ));
+
+    lines.push(...benefitDeductions.filter(line => !line.preTax));
+
+    // Loan installments come out of whatever net pay is left
+    lines.push(...LoanRepayments.calculate(this.loans, PayslipReconciler.summarize(lines).netPay));
+
+    for (const adjustment of adjustments.filter(a => a.type === "deduction" && !isManualRetirement(a))) {
+      lines.push(this.toLine(adjustment));
+    }
+
+    lines.push(...contributions.flatMap(contribution => contribution.employer));
 
     return {
-      basePay,
-      overtimePay,
-      grossPay,
-      deductions,
-      netPay,
+      ...PayslipReconciler.summarize(lines),
       hoursWorked,
       overtimeHours,
+      doubleTimeHours,
+      lines,
+    };
+  }
+
+  private toLine(adjustment: PayslipAdjustment): PayslipLineItem {
+    return {
+      type: adjustment.type,
+      code: adjustment.code,
+      description: adjustment.description || payslipLineLabels[adjustment.code] || adjustment.code,
+      amount: roundCurrency(adjustment.amount),
     };
   }
 
+  // Hourly pay already reflects the time worked, so by default nothing is prorated
+  protected calculateProrationAdjustment(basePay: number): number {
+    return 0;
+  }
+
+  protected calculateTaxes(taxableWages: number, supplementalWages: number = 0): TaxLine[] {
+    if (!this.taxWithholding) return [];
+    return this.taxWithholding.calculate(taxableWages, supplementalWages);
+  }
+
+  // Overtime and double time are paid at the rate in effect at the end of the period
+  protected closingCompensation(): Compensation {
+    return this.compensationSegments[this.compensationSegments.length - 1].compensation;
+  }
+
   // Abstract methods to be implemented by subclasses
-  protected abstract calculateBasePay(hoursWorked: number): number;
-  protected abstract calculateOvertimePay(overtimeHours: number): number;
+  protected abstract calculateBasePay(hoursWorked: number, segment: CompensationSegment): number;
+  protected abstract calculateOvertimePay(overtimeHours: number, multiplier: number): number;
 }
 
 // Full-time payslip calculator
 export class FullTimePayslipCalculator extends PayslipCalculator {
   private fullTimeEmployee: FullTimeEmployee;
 
-  constructor(employee: FullTimeEmployee) {
-    super(employee);
+  constructor(employee: FullTimeEmployee, options: PayslipCalculatorOptions = {}) {
+    super(employee, options);
     this.fullTimeEmployee = employee;
   }
 
-  protected calculateBasePay(hoursWorked: number): number {
-    // For full-time employees, pay is based on monthly salary regardless of hours
-    // (assuming standard 160 hours per month)
-    return this.fullTimeEmployee.calculateMonthlySalary();
+  protected calculateBasePay(hoursWorked: number, segment: CompensationSegment): number {
+    // For full-time employees, pay is the annual salary split across the
+    // schedule's pay periods, regardless of hours
+    return segment.compensation.getPeriodAmount(this.periodsPerYear) * segment.share;
+  }
+
+  // Days before the start date, after termination or on unpaid leave come off the period's salary
+  protected calculateProrationAdjustment(basePay: number): number {
+    if (!this.proration) return 0;
+    return -basePay * (1 - this.proration.factor);
   }
 
-  protected calculateOvertimePay(overtimeHours: number): number {
+  protected calculateOvertimePay(overtimeHours: number, multiplier: number): number {
     if (overtimeHours <= 0) return 0;
     
-    // Overtime rate is 1.5x the hourly equivalent
-    const hourlyRate = this.fullTimeEmployee.getAnnualSalary() / (52 * 40); // Annual salary / (weeks * hours per week)
-    return overtimeHours * hourlyRate * 1.5;
+    // Overtime is paid at the policy's multiple of the hourly equivalent over the employee's standard hours
+    const hourlyRate = this.closingCompensation().getHourlyRate();
+    return overtimeHours * hourlyRate * multiplier;
   }
 }
 
@@ -63,43 +267,48 @@ export class FullTimePayslipCalculator extends PayslipCalculator {
 export class PartTimePayslipCalculator extends PayslipCalculator {
   private partTimeEmployee: PartTimeEmployee;
 
-  constructor(employee: PartTimeEmployee) {
-    super(employee);
+  constructor(employee: PartTimeEmployee, options: PayslipCalculatorOptions = {}) {
+    super(employee, options);
     this.partTimeEmployee = employee;
   }
 
-  protected calculateBasePay(hoursWorked: number): number {
-    return this.partTimeEmployee.calculatePay(hoursWorked);
+  protected calculateBasePay(hoursWorked: number, segment: CompensationSegment): number {
+    return segment.compensation.getHourlyRate() * hoursWorked;
   }
 
-  protected calculateOvertimePay(overtimeHours: number): number {
+  protected calculateOvertimePay(overtimeHours: number, multiplier: number): number {
     if (overtimeHours <= 0) return 0;
     
-    // Overtime rate is 1.5x the regular hourly rate
-    return overtimeHours * this.partTimeEmployee.getHourlyRate() * 1.5;
+    // Overtime is paid at the policy's multiple of the regular hourly rate
+    return overtimeHours * this.closingCompensation().getHourlyRate() * multiplier;
   }
 }
 
 // Factory for creating appropriate calculator - demonstrates Factory pattern
 export class PayslipCalculatorFactory {
-  static createCalculator(employee: BaseEmployee): PayslipCalculator {
+  static createCalculator(employee: BaseEmployee, options: PayslipCalculatorOptions = {}): PayslipCalculator {
     if (employee instanceof FullTimeEmployee) {
-      return new FullTimePayslipCalculator(employee);
+      return new FullTimePayslipCalculator(employee, options);
     } else if (employee instanceof PartTimeEmployee) {
-      return new PartTimePayslipCalculator(employee);
+      return new PartTimePayslipCalculator(employee, options);
     } else {
       throw new Error("Unknown employee type");
     }
   }
 }
 
+// Hand-entered earning or deduction added on top of calculated pay
+export interface PayslipAdjustment {
+  type: "earning" | "deduction";
+  code: string;
+  description?: string;
+  amount: number;
+}
+
 // Result interface
-export interface PayslipResult {
-  basePay: number;
-  overtimePay: number;
-  grossPay: number;
-  deductions: number;
-  netPay: number;
+export interface PayslipResult extends PayslipTotals {
   hoursWorked: number;
   overtimeHours: number;
+  doubleTimeHours: number;
+  lines: PayslipLineItem[];
 }
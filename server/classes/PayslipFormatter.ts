@@ -0,0 +1,26 @@
+import type { Payslip } from "@shared/schema";
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" });
+
+// Dates and amounts as payslips print them, in PDFs and emails alike. Period dates are stored
+// as UTC midnight, so they are formatted in UTC to show the same day whatever the server's time
+// zone; amounts are in the employee's currency
+export class PayslipFormatter {
+  private currencyFormatter: Intl.NumberFormat;
+
+  constructor(currency: string) {
+    this.currencyFormatter = new Intl.NumberFormat("en-US", { style: "currency", currency });
+  }
+
+  formatMoney(amount: number | string): string {
+    return this.currencyFormatter.format(typeof amount === "string" ? parseFloat(amount) : amount);
+  }
+
+  formatDate(date: Date): string {
+    return dateFormatter.format(date);
+  }
+
+  formatPeriod(payslip: Pick<Payslip, "payPeriodFrom" | "payPeriodTo">): string {
+    return `${this.formatDate(payslip.payPeriodFrom)} - ${this.formatDate(payslip.payPeriodTo)}`;
+  }
+}
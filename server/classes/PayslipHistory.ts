@@ -0,0 +1,135 @@
+import type { InsertPayslip, Payslip, PayslipYearToDate } from "@shared/schema";
+import { roundCurrency } from "./Currency";
+import { PayCalendar } from "./PayCalendar";
+import { PayslipStateMachine } from "./PayslipStatus";
+import type { YearToDateTotals } from "./PayslipPdfRenderer";
+
+// Raised when a new payslip covers days its employee has already been paid for
+export class OverlappingPayslipError extends Error {
+  readonly employeeIds: number[];
+
+  constructor(employeeIds: number[]) {
+    super(`Already paid for an overlapping pay period: employee ${employeeIds.join(", ")}`);
+    this.name = "OverlappingPayslipError";
+    this.employeeIds = employeeIds;
+  }
+}
+
+// The fields year-to-date totals are built from, so unsaved payslips can be included too
+export type YearToDateSource = Pick<Payslip, "id" | "status" | "payPeriodTo" | "grossPay" | "taxWithheld" | "deductions" | "netPay" | "retirementContributions" | "employerRetirementContributions">;
+
+// A payslip that is not saved yet sorts after every saved payslip for the same period
+export const UNSAVED_PAYSLIP_ID = Number.MAX_SAFE_INTEGER;
+
+// One employee's payslips: the periods they have been paid for and the year-to-date totals
+// each payslip carries
+export class PayslipHistory {
+  private payslips: Payslip[];
+
+  constructor(payslips: Payslip[]) {
+    this.payslips = payslips;
+  }
+
+  // Payslips belong to the tax year their period ends in, as for withholding. The year is read
+  // from the YYYY-MM-DD end date so it agrees with period dates everywhere else
+  static taxYearOf(payslip: Pick<Payslip, "payPeriodTo">): number {
+    return parseInt(PayCalendar.formatDate(payslip.payPeriodTo).slice(0, 4));
+  }
+
+  // Whether a non-void payslip already covers any day from `from` to `to`
+  overlaps(from: Date, to: Date): boolean {
+    return this.payslips.some(payslip =>
+      PayslipStateMachine.normalize(payslip.status) !== "void" &&
+      payslip.payPeriodFrom <= to && payslip.payPeriodTo >= from
+    );
+  }
+
+  // Sums the non-void payslips in the same tax year, up to and including this one
+  yearToDate(payslip: YearToDateSource): YearToDateTotals {
+    const year = PayslipHistory.taxYearOf(payslip);
+    const included: YearToDateSource[] = this.payslips.filter(other =>
+      other.id !== payslip.id &&
+      PayslipHistory.taxYearOf(other) === year &&
+      PayslipStateMachine.normalize(other.status) !== "void" &&
+      (other.payPeriodTo < payslip.payPeriodTo ||
+        (other.payPeriodTo.getTime() === payslip.payPeriodTo.getTime() && other.id < payslip.id))
+    );
+    included.push(payslip);
+
+    const sum = (pick: (other: YearToDateSource) => string) =>
+      roundCurrency(included.reduce((total, other) => total + parseFloat(pick(other)), 0));
+
+    return {
+      grossPay: sum(other => other.grossPay),
+      taxWithheld: sum(other => other.taxWithheld),
+      deductions: sum(other => other.deductions),
+      netPay: sum(other => other.netPay),
+      retirementContributions: sum(other => other.retirementContributions),
+      employerRetirementContributions: sum(other => other.employerRetirementContributions),
+    };
+  }
+
+  // A payslip about to be created, with totals from the earlier payslips plus its own
+  stamp(payslip: InsertPayslip): InsertPayslip {
+    const totals = this.yearToDate({
+      id: UNSAVED_PAYSLIP_ID,
+      status: payslip.status ?? "draft",
+      payPeriodTo: payslip.payPeriodTo,
+      grossPay: payslip.grossPay,
+      taxWithheld: payslip.taxWithheld ?? "0",
+      deductions: payslip.deductions ?? "0",
+      netPay: payslip.netPay,
+      retirementContributions: payslip.retirementContributions ?? "0",
+      employerRetirementContributions: payslip.employerRetirementContributions ?? "0",
+    });
+
+    return { ...payslip, ...PayslipHistory.toColumns(totals) };
+  }
+
+  // Non-void payslips in the tax year whose stored totals no longer match the history, e.g. after a
+  // payslip for an earlier period is added, voided or deleted. Voided payslips keep the totals they
+  // were issued with
+  staleYearToDate(taxYear: number): { id: number; totals: PayslipYearToDate }[] {
+    const stale: { id: number; totals: PayslipYearToDate }[] = [];
+    for (const payslip of this.payslips) {
+      if (PayslipHistory.taxYearOf(payslip) !== taxYear || PayslipStateMachine.normalize(payslip.status) === "void") continue;
+
+      const totals = PayslipHistory.toColumns(this.yearToDate(payslip));
+      const changed = (Object.keys(totals) as (keyof PayslipYearToDate)[])
+        .some(column => payslip[column] !== totals[column]);
+      if (changed) {
+        stale.push({ id: payslip.id, totals });
+      }
+    }
+    return stale;
+  }
+
+  static toColumns(totals: YearToDateTotals): PayslipYearToDate {
+    return {
+      ytdGrossPay: totals.grossPay.toFixed(2),
+      ytdTaxWithheld: totals.taxWithheld.toFixed(2),
+      ytdDeductions: totals.deductions.toFixed(2),
+      ytdNetPay: totals.netPay.toFixed(2),
+      ytdRetirementContributions: totals.retirementContributions.toFixed(2),
+      ytdEmployerRetirementContributions: totals.employerRetirementContributions.toFixed(2),
+    };
+  }
+
+  // The stored totals, or undefined for payslips generated before year-to-date tracking
+  static fromColumns(payslip: Payslip): YearToDateTotals | undefined {
+    if (payslip.ytdGrossPay === null || payslip.ytdTaxWithheld === null ||
+      payslip.ytdDeductions === null || payslip.ytdNetPay === null ||
+      payslip.ytdRetirementContributions === null || payslip.ytdEmployerRetirementContributions === null) {
+      return undefined;
+    }
+
+    return {
+      grossPay: parseFloat(payslip.ytdGrossPay),
+      taxWithheld: parseFloat(payslip.ytdTaxWithheld),
+      deductions: parseFloat(payslip.ytdDeductions),
+      netPay: parseFloat(payslip.ytdNetPay),
+      retirementContributions: parseFloat(payslip.ytdRetirementContributions),
+      employerRetirementContributions: parseFloat(payslip.ytdEmployerRetirementContributions),
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { nonTaxableEarningCodes, type PayslipLineType } from "@shared/schema";
+import { roundCurrency } from "./Currency";
+
+// A single itemized line produced by the payslip calculator
+export interface PayslipLineItem {
+  type: PayslipLineType;
+  code: string;
+  description: string;
+  amount: number;
+  hours?: number;
+  // Deductions taken out of wages before withholding is worked out
+  preTax?: boolean;
+  // The benefit plan a contribution was paid into
+  benefitPlanId?: number | null;
+  // The garnishment order an amount was withheld for
+  garnishmentOrderId?: number | null;
+  // The loan an installment repaid
+  loanId?: number | null;
+  // The scheduled earning a bonus or commission paid
+  earningId?: number | null;
+  // Bonuses and commissions withheld at the supplemental rate rather than with regular wages
+  supplemental?: boolean;
+}
+
+// Header totals derived from a set of lines
+export interface PayslipTotals {
+  basePay: number;
+  overtimePay: number;
+  grossPay: number;
+  taxWithheld: number;
+  deductions: number;
+  netPay: number;
+  // Retirement plan contributions, already counted in deductions, and what the employer paid in
+  retirementContributions: number;
+  employerRetirementContributions: number;
+}
+
+// Keeps payslip header totals consistent with their line items
+export class PayslipReconciler {
+  // Tolerance for rounding differences between header and lines
+  private static readonly TOLERANCE = 0.01;
+
+  static summarize(lines: PayslipLineItem[]): PayslipTotals {
+    const sum = (predicate: (line: PayslipLineItem) => boolean) =>
+      roundCurrency(lines.filter(predicate).reduce((total, line) => total + line.amount, 0));
+
+    const basePay = sum(line => line.type === "earning" && line.code === "REGULAR");
+    const overtimePay = sum(line => line.type === "earning" && (line.code === "OVERTIME" || line.code === "DOUBLE_TIME"));
+    const grossPay = sum(line => line.type === "earning");
+    const taxWithheld = sum(line => line.type === "tax");
+    const deductions = sum(line => line.type === "deduction");
+
+    return {
+      basePay,
+      overtimePay,
+      grossPay,
+      taxWithheld,
+      deductions,
+      netPay: roundCurrency(grossPay - taxWithheld - deductions),
+      retirementContributions: sum(line => line.type === "deduction" && line.code === "RETIREMENT"),
+      employerRetirementContributions: sum(line => line.type === "employer" && line.code === "EMPLOYER_RETIREMENT"),
+    };
+  }
+
+  static taxableEarnings(lines: PayslipLineItem[]): number {
+    return roundCurrency(
+      lines
+        .filter(line => line.type === "earning" && !nonTaxableEarningCodes.includes(line.code))
+        .reduce((total, line) => total + line.amount, 0)
+    );
+  }
+
+  // Taxable earnings less pre-tax deductions, which is what withholding is worked out on
+  static taxableWages(lines: PayslipLineItem[]): number {
+    const preTaxDeductions = lines
+      .filter(line => line.type === "deduction" && line.preTax)
+      .reduce((total, line) => total + line.amount, 0);
+    return roundCurrency(Math.max(0, PayslipReconciler.taxableEarnings(lines) - preTaxDeductions));
+  }
+
+  // The part of taxable wages paid as supplemental earnings; pre-tax deductions come out of
+  // regular wages first
+  static supplementalWages(lines: PayslipLineItem[]): number {
+    const supplemental = lines
+      .filter(line => line.type === "earning" && line.supplemental && !nonTaxableEarningCodes.includes(line.code))
+      .reduce((total, line) => total + line.amount, 0);
+    return roundCurrency(Math.min(supplemental, PayslipReconciler.taxableWages(lines)));
+  }
+
+  // Returns a message for every header total that disagrees with the lines
+  static reconcile(header: Partial<Record<keyof PayslipTotals, number>>, lines: PayslipLineItem[]): string[] {
+    const totals = PayslipReconciler.summarize(lines);
+    const discrepancies: string[] = [];
+
+    for (const key of Object.keys(totals) as (keyof PayslipTotals)[]) {
+      const value = header[key];
+      if (value === undefined) continue;
+
+      if (Math.abs(value - totals[key]) > PayslipReconciler.TOLERANCE) {
+        discrepancies.push(`${key} is ${value.toFixed(2)} but line items total ${totals[key].toFixed(2)}`);
+      }
+    }
+
+    return discrepancies;
+  }
+}
@@ -0,0 +1,100 @@
+import type { PayslipDocumentData } from "./PayslipPdfRenderer";
+import { PayslipFormatter } from "./PayslipFormatter";
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments: MailAttachment[];
+}
+
+// Minimal transport contract so any SMTP client (or a test sink) can be plugged in
+export interface MailTransport {
+  sendMail(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Sends a payslip as an HTML summary with the PDF attached
+export class PayslipMailer {
+  private transport: MailTransport;
+  private from: string;
+
+  constructor(transport: MailTransport, from: string) {
+    this.transport = transport;
+    this.from = from;
+  }
+
+  // Returns the transport's message ID; transport errors propagate to the caller
+  async send(data: PayslipDocumentData, pdf: Buffer): Promise<string> {
+    const { payslip } = data;
+    const info = await this.transport.sendMail({
+      from: this.from,
+      to: payslip.employee.email,
+      subject: this.buildSubject(data),
+      text: this.buildText(data),
+      html: this.buildHtml(data),
+      attachments: [
+        { filename: `payslip-${payslip.id}.pdf`, content: pdf, contentType: "application/pdf" },
+      ],
+    });
+    return info.messageId;
+  }
+
+  private buildSubject(data: PayslipDocumentData): string {
+    const format = new PayslipFormatter(data.payslip.employee.currency);
+    return `${data.companyName} payslip for ${format.formatPeriod(data.payslip)}`;
+  }
+
+  private buildText(data: PayslipDocumentData): string {
+    const { payslip } = data;
+    const format = new PayslipFormatter(payslip.employee.currency);
+    return [
+      `Hi ${payslip.employee.firstName},`,
+      "",
+      `Your payslip for ${format.formatPeriod(payslip)} is attached.`,
+      "",
+      `Gross pay: ${format.formatMoney(payslip.grossPay)}`,
+      `Taxes: ${format.formatMoney(payslip.taxWithheld)}`,
+      `Deductions: ${format.formatMoney(payslip.deductions)}`,
+      `Net pay: ${format.formatMoney(payslip.netPay)}`,
+      "",
+      data.companyName,
+    ].join("\n");
+  }
+
+  private buildHtml(data: PayslipDocumentData): string {
+    const { payslip } = data;
+    const format = new PayslipFormatter(payslip.employee.currency);
+    const row = (label: string, amount: string, bold = false) =>
+      `<tr><td style="padding:4px 12px 4px 0">${bold ? `<strong>${label}</strong>` : label}</td>` +
+      `<td style="padding:4px 0;text-align:right">${bold ? `<strong>${format.formatMoney(amount)}</strong>` : format.formatMoney(amount)}</td></tr>`;
+
+    return `<div style="font-family:Arial,sans-serif;color:#111827">
+  <h2 style="margin:0 0 4px">${escapeHtml(data.companyName)}</h2>
+  <p style="margin:0 0 16px;color:#6b7280">Payslip for ${format.formatPeriod(payslip)}</p>
+  <p>Hi ${escapeHtml(payslip.employee.firstName)},</p>
+  <p>Your payslip is attached as a PDF. Here is a summary:</p>
+  <table style="border-collapse:collapse">
+    ${row("Gross pay", payslip.grossPay)}
+    ${row("Taxes", payslip.taxWithheld)}
+    ${row("Deductions", payslip.deductions)}
+    ${row("Net pay", payslip.netPay, true)}
+  </table>
+</div>`;
+  }
+}
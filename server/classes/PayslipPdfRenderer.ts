@@ -0,0 +1,179 @@
+import PDFDocument from "pdfkit";
+import type { PayslipDetail, PayslipLine, Role } from "@shared/schema";
+import { PayslipFormatter } from "./PayslipFormatter";
+
+// Year-to-date totals printed alongside the current period
+export interface YearToDateTotals {
+  grossPay: number;
+  taxWithheld: number;
+  deductions: number;
+  netPay: number;
+  retirementContributions: number;
+  employerRetirementContributions: number;
+}
+
+// Everything the renderer needs to print one payslip
+export interface PayslipDocumentData {
+  companyName: string;
+  payslip: PayslipDetail;
+  role: Role;
+  yearToDate: YearToDateTotals;
+}
+
+// Renders payslips to PDF in-process; one payslip per page so the same
+// renderer serves single downloads and bulk exports
+export class PayslipPdfRenderer {
+  private static readonly MARGIN = 50;
+  private static readonly PAGE_WIDTH = 612; // US Letter in points
+
+  async render(data: PayslipDocumentData): Promise<Buffer> {
+    return this.renderMany([data]);
+  }
+
+  async renderMany(documents: PayslipDocumentData[]): Promise<Buffer> {
+    const doc = new PDFDocument({ size: "LETTER", margin: PayslipPdfRenderer.MARGIN, autoFirstPage: false });
+    const chunks: Buffer[] = [];
+
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+    });
+
+    for (const data of documents) {
+      doc.addPage();
+      this.drawPayslip(doc, data);
+    }
+
+    doc.end();
+    return finished;
+  }
+
+  private drawPayslip(doc: PDFKit.PDFDocument, data: PayslipDocumentData): void {
+    const { payslip, role, yearToDate } = data;
+    const { employee } = payslip;
+    const format = new PayslipFormatter(employee.currency);
+    const left = PayslipPdfRenderer.MARGIN;
+    const right = PayslipPdfRenderer.PAGE_WIDTH - PayslipPdfRenderer.MARGIN;
+
+    // Company header
+    doc.font("Helvetica-Bold").fontSize(18).text(data.companyName, left, 50);
+    doc.font("Helvetica").fontSize(10).fillColor("#555555")
+      .text("Payslip", left, 72)
+      .text(`Pay period: ${format.formatPeriod(payslip)}`, left, 86);
+    doc.text(`Payslip #${payslip.id}`, left, 50, { width: right - left, align: "right" })
+      .text(`Status: ${payslip.status}`, left, 64, { width: right - left, align: "right" });
+    doc.fillColor("#000000");
+    doc.moveTo(left, 110).lineTo(right, 110).strokeColor("#cccccc").stroke();
+
+    // Employee and role details
+    let y = 122;
+    const detail = (label: string, value: string, x: number) => {
+      doc.font("Helvetica-Bold").fontSize(9).text(label, x, y);
+      doc.font("Helvetica").fontSize(10).text(value, x, y + 11);
+    };
+    detail("Employee", `${employee.firstName} ${employee.lastName}`, left);
+    detail("Employee ID", employee.id.toString(), left + 180);
+    detail("Email", employee.email, left + 330);
+    y += 32;
+    detail("Role", role.title, left);
+    detail("Department", employee.department, left + 180);
+    detail("Employment Type", employee.type, left + 330);
+    y += 40;
+
+    // Earnings and deductions tables; employer contributions are listed only when there are any
+    const earnings = payslip.lines.filter(line => line.type === "earning");
+    const deductions = payslip.lines.filter(line => line.type === "tax" || line.type === "deduction");
+    const employerContributions = payslip.lines.filter(line => line.type === "employer");
+    y = this.drawLineTable(doc, format, "Earnings", earnings, y, true);
+    y = this.drawLineTable(doc, format, "Taxes & Deductions", deductions, y + 14, false);
+    if (employerContributions.length > 0) {
+      y = this.drawLineTable(doc, format, "Employer Contributions", employerContributions, y + 14, false);
+    }
+
+    // Current and year-to-date summary
+    y += 20;
+    doc.font("Helvetica-Bold").fontSize(11).text("Summary", left, y);
+    y += 18;
+    doc.fontSize(9)
+      .text("Current", left + 300, y, { width: 90, align: "right" })
+      .text("Year to Date", left + 400, y, { width: 112, align: "right" });
+    y += 14;
+
+    const summaryRows: [string, string, number][] = [
+      ["Gross Pay", payslip.grossPay, yearToDate.grossPay],
+      ["Taxes", payslip.taxWithheld, yearToDate.taxWithheld],
+      ["Deductions", payslip.deductions, yearToDate.deductions],
+      ["Net Pay", payslip.netPay, yearToDate.netPay],
+    ];
+    // Retirement savings are shown for the year once there are any, below net pay since they
+    // are already part of deductions
+    if (yearToDate.retirementContributions > 0 || yearToDate.employerRetirementContributions > 0) {
+      summaryRows.push(
+        ["Retirement Contributions", payslip.retirementContributions, yearToDate.retirementContributions],
+        ["Employer Retirement Contributions", payslip.employerRetirementContributions, yearToDate.employerRetirementContributions],
+      );
+    }
+    for (const [label, current, ytd] of summaryRows) {
+      const isNet = label === "Net Pay";
+      if (isNet) {
+        doc.moveTo(left, y - 3).lineTo(right, y - 3).strokeColor("#cccccc").stroke();
+      }
+      doc.font(isNet ? "Helvetica-Bold" : "Helvetica").fontSize(10)
+        .text(label, left, y)
+        .text(format.formatMoney(current), left + 300, y, { width: 90, align: "right" })
+        .text(format.formatMoney(ytd), left + 400, y, { width: 112, align: "right" });
+      y += 16;
+    }
+
+    if (payslip.status === "void") {
+      doc.save();
+      doc.rotate(-30, { origin: [306, 396] });
+      doc.font("Helvetica-Bold").fontSize(96).fillColor("#cc0000").opacity(0.15)
+        .text("VOID", 0, 350, { width: PayslipPdfRenderer.PAGE_WIDTH, align: "center" });
+      doc.restore();
+    }
+
+    doc.font("Helvetica").fontSize(8).fillColor("#888888")
+      .text(`Generated ${format.formatDate(new Date())}`, left, 730, { width: right - left, align: "center" });
+    doc.fillColor("#000000");
+  }
+
+  private drawLineTable(doc: PDFKit.PDFDocument, format: PayslipFormatter, title: string, lines: PayslipLine[], startY: number, showHours: boolean): number {
+    const left = PayslipPdfRenderer.MARGIN;
+    const right = PayslipPdfRenderer.PAGE_WIDTH - PayslipPdfRenderer.MARGIN;
+    let y = startY;
+
+    doc.font("Helvetica-Bold").fontSize(11).text(title, left, y);
+    y += 18;
+    doc.rect(left, y - 3, right - left, 16).fill("#f3f4f6");
+    doc.fillColor("#000000").font("Helvetica-Bold").fontSize(9)
+      .text("Description", left + 6, y)
+      .text(showHours ? "Hours" : "", left + 300, y, { width: 90, align: "right" })
+      .text("Amount", left + 400, y, { width: 106, align: "right" });
+    y += 18;
+
+    if (lines.length === 0) {
+      doc.font("Helvetica").fontSize(10).fillColor("#888888").text("None", left + 6, y);
+      doc.fillColor("#000000");
+      return y + 16;
+    }
+
+    for (const line of lines) {
+      doc.font("Helvetica").fontSize(10)
+        .text(PayslipPdfRenderer.describe(line), left + 6, y, { width: 290 })
+        .text(showHours && line.hours ? line.hours : "", left + 300, y, { width: 90, align: "right" })
+        .text(format.formatMoney(line.amount), left + 400, y, { width: 106, align: "right" });
+      y += 16;
+    }
+
+    return y;
+  }
+
+  // Marks lines whose tax treatment differs from regular pay
+  private static describe(line: PayslipLine): string {
+    if (line.preTax) return `${line.description} (pre-tax)`;
+    if (line.supplemental) return `${line.description} (supplemental)`;
+    return line.description;
+  }
+}
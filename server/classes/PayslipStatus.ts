@@ -0,0 +1,69 @@
+import type { PayslipStatus, PayslipStatusUpdate, PayslipTransition } from "@shared/schema";
+
+// Raised when a transition is not allowed from a payslip's current status
+export class InvalidPayslipTransitionError extends Error {
+  constructor(status: string, transition: PayslipTransition) {
+    super(`Cannot ${transition} a payslip that is ${status}`);
+    this.name = "InvalidPayslipTransitionError";
+  }
+}
+
+// Raised when something tries to edit or delete a paid or voided payslip
+export class PayslipLockedError extends Error {
+  constructor(id: number, status: string) {
+    super(`Payslip ${id} is ${status} and can no longer be modified`);
+    this.name = "PayslipLockedError";
+  }
+}
+
+// State machine for the payslip lifecycle - demonstrates the State pattern
+export class PayslipStateMachine {
+  // For reissue, `to` is the status of the replacement payslip; the original stays void
+  private static readonly transitions: Record<PayslipTransition, { from: PayslipStatus[]; to: PayslipStatus }> = {
+    approve: { from: ["draft"], to: "approved" },
+    pay: { from: ["approved"], to: "paid" },
+    void: { from: ["draft", "approved", "paid"], to: "void" },
+    reissue: { from: ["void"], to: "draft" },
+  };
+
+  // Payslips created before the lifecycle existed were stored as "generated"
+  static normalize(status: string): PayslipStatus {
+    return status === "generated" ? "draft" : status as PayslipStatus;
+  }
+
+  static canTransition(status: string, transition: PayslipTransition): boolean {
+    return PayslipStateMachine.transitions[transition].from.includes(PayslipStateMachine.normalize(status));
+  }
+
+  static availableTransitions(status: string): PayslipTransition[] {
+    return (Object.keys(PayslipStateMachine.transitions) as PayslipTransition[])
+      .filter(transition => PayslipStateMachine.canTransition(status, transition));
+  }
+
+  static assertTransition(status: string, transition: PayslipTransition): PayslipStatus {
+    if (!PayslipStateMachine.canTransition(status, transition)) {
+      throw new InvalidPayslipTransitionError(PayslipStateMachine.normalize(status), transition);
+    }
+    return PayslipStateMachine.transitions[transition].to;
+  }
+
+  // Paid and voided payslips are a permanent record; only lifecycle transitions may touch them
+  static isLocked(status: string): boolean {
+    const normalized = PayslipStateMachine.normalize(status);
+    return normalized === "paid" || normalized === "void";
+  }
+
+  // Who/when stamps recorded for a transition on the payslip it applies to
+  static stamp(transition: Exclude<PayslipTransition, "reissue">, actor: string, at: Date, reason?: string): PayslipStatusUpdate {
+    const status = PayslipStateMachine.transitions[transition].to;
+
+    switch (transition) {
+      case "approve":
+        return { status, approvedBy: actor, approvedAt: at };
+      case "pay":
+        return { status, paidBy: actor, paidAt: at };
+      case "void":
+        return { status, voidedBy: actor, voidedAt: at, voidReason: reason || null };
+    }
+  }
+}
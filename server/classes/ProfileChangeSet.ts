@@ -0,0 +1,57 @@
+import { selfServiceProfileFields, type Employee, type InsertEmployee, type ProfileChanges, type ProfileUpdate } from "@shared/schema";
+
+// Raised when a submitted profile update does not differ from the employee's current details
+export class NoProfileChangesError extends Error {
+  constructor() {
+    super("No profile changes to submit");
+    this.name = "NoProfileChangesError";
+  }
+}
+
+// Raised when reviewing a change request that has already been approved or rejected
+export class ProfileChangeRequestClosedError extends Error {
+  constructor(id: number, status: string) {
+    super(`Profile change request ${id} is already ${status}`);
+    this.name = "ProfileChangeRequestClosedError";
+  }
+}
+
+// Field-by-field diff between an employee's self-service details and a requested update
+export class ProfileChangeSet {
+  // Blank strings clear a field, so they are stored as null
+  private static normalize(value: string | null | undefined): string | null {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : null;
+  }
+
+  // Fields left out of the update are unchanged
+  static diff(employee: Employee, update: ProfileUpdate): ProfileChanges {
+    const changes: ProfileChanges = {};
+    for (const field of selfServiceProfileFields) {
+      if (update[field] === undefined) continue;
+
+      const from = ProfileChangeSet.normalize(employee[field]);
+      const to = ProfileChangeSet.normalize(update[field]);
+      if (from !== to) {
+        changes[field] = { from, to };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new NoProfileChangesError();
+    }
+    return changes;
+  }
+
+  // The employee update that applies approved changes
+  static toEmployeeUpdate(changes: ProfileChanges): Partial<InsertEmployee> {
+    const update: Partial<InsertEmployee> = {};
+    for (const field of selfServiceProfileFields) {
+      const change = changes[field];
+      if (change) {
+        update[field] = change.to;
+      }
+    }
+    return update;
+  }
+}
@@ -0,0 +1,76 @@
+import type { ProrationBasis } from "@shared/schema";
+import { PayCalendar } from "./PayCalendar";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An inclusive YYYY-MM-DD date range
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+// How much of a pay period an employee is paid for
+export interface ProrationResult {
+  basis: ProrationBasis;
+  periodDays: number;
+  payableDays: number;
+  factor: number;
+}
+
+// Works out the share of a pay period a salaried employee is owed. Days before they
+// start, after they terminate, or on unpaid leave are not payable; on the working-days
+// basis only Monday to Friday count, on the calendar-days basis every day does.
+export class ProrationCalculator {
+  private basis: ProrationBasis;
+
+  constructor(basis: ProrationBasis = "working-days") {
+    this.basis = basis;
+  }
+
+  getBasis(): ProrationBasis {
+    return this.basis;
+  }
+
+  calculate(period: DateRange, employment: { startDate: string; terminationDate?: string | null }, unpaidLeave: DateRange[] = []): ProrationResult {
+    let periodDays = 0;
+    let payableDays = 0;
+
+    for (const day of ProrationCalculator.daysIn(period)) {
+      if (!this.counts(day)) continue;
+      periodDays++;
+
+      const employed = day >= employment.startDate && (!employment.terminationDate || day <= employment.terminationDate);
+      const onLeave = unpaidLeave.some(leave => day >= leave.startDate && day <= leave.endDate);
+      if (employed && !onLeave) {
+        payableDays++;
+      }
+    }
+
+    return {
+      basis: this.basis,
+      periodDays,
+      payableDays,
+      factor: periodDays === 0 ? 1 : payableDays / periodDays,
+    };
+  }
+
+  // Days in a range that count on this basis
+  countDays(range: DateRange): number {
+    return ProrationCalculator.daysIn(range).filter(day => this.counts(day)).length;
+  }
+
+  private counts(day: string): boolean {
+    if (this.basis === "calendar-days") return true;
+    const weekday = PayCalendar.parseDate(day).getUTCDay();
+    return weekday !== 0 && weekday !== 6;
+  }
+
+  private static daysIn(range: DateRange): string[] {
+    const days: string[] = [];
+    const end = PayCalendar.parseDate(range.endDate).getTime();
+    for (let time = PayCalendar.parseDate(range.startDate).getTime(); time <= end; time += DAY_MS) {
+      days.push(PayCalendar.formatDate(new Date(time)));
+    }
+    return days;
+  }
+}
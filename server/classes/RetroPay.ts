@@ -0,0 +1,48 @@
+import { payslipLineLabels } from "@shared/schema";
+import { roundCurrency } from "./Currency";
+import { PayCalendar } from "./PayCalendar";
+import type { PayslipLineItem } from "./PayslipLines";
+import type { PayslipAdjustment } from "./PayslipCalculator";
+
+// Earnings worked out from the pay rate, and so owed again when the rate changes retroactively
+const RATE_EARNING_CODES: readonly string[] = ["REGULAR", "PRORATION", "OVERTIME", "DOUBLE_TIME"];
+
+type LineAmount = Pick<PayslipLineItem, "type" | "code" | "amount">;
+
+// What a paid period was short (or over) after recalculating it at the new rate
+export interface RetroPayArrears {
+  paidAmount: number;
+  recalculatedAmount: number;
+  amount: number;
+}
+
+// Works out retro pay for a period that was paid before a back-dated pay change
+export class RetroPayCalculator {
+  static rateEarnings(lines: LineAmount[]): number {
+    return roundCurrency(lines
+      .filter(line => line.type === "earning" && RATE_EARNING_CODES.includes(line.code))
+      .reduce((total, line) => total + line.amount, 0));
+  }
+
+  // Retro pay already recorded for the period is owed once, so only the remainder is new
+  static arrears(paidLines: LineAmount[], recalculatedLines: LineAmount[], alreadyOwed: number = 0): RetroPayArrears {
+    const paidAmount = RetroPayCalculator.rateEarnings(paidLines);
+    const recalculatedAmount = RetroPayCalculator.rateEarnings(recalculatedLines);
+
+    return {
+      paidAmount,
+      recalculatedAmount,
+      amount: roundCurrency(recalculatedAmount - paidAmount - alreadyOwed),
+    };
+  }
+
+  // The earning line that pays the arrears; its description names the period it is for
+  static toAdjustment(arrears: { amount: string; payPeriodFrom: Date; payPeriodTo: Date }): PayslipAdjustment {
+    return {
+      type: "earning",
+      code: "RETRO",
+      description: `${payslipLineLabels.RETRO} (${PayCalendar.formatDate(arrears.payPeriodFrom)} to ${PayCalendar.formatDate(arrears.payPeriodTo)})`,
+      amount: parseFloat(arrears.amount),
+    };
+  }
+}
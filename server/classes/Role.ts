@@ -1,3 +1,6 @@
+import type { PayBasis } from "@shared/schema";
+import type { Compensation } from "./Compensation";
+
 // Role class demonstrating composition pattern
 export class Role {
   private id: number;
@@ -8,6 +11,9 @@ export class Role {
   private minSalary: number;
   private maxSalary: number;
   private responsibilities: string[];
+  private payBasis: PayBasis;
+  private exempt: boolean;
+  private currency: string;
 
   constructor(
     id: number,
@@ -17,7 +23,10 @@ export class Role {
     level: number,
     minSalary: number,
     maxSalary: number,
-    responsibilities: string[]
+    responsibilities: string[],
+    payBasis: PayBasis = "annual",
+    exempt: boolean = false,
+    currency: string = "USD"
   ) {
     this.id = id;
     this.title = title;
@@ -27,6 +36,9 @@ export class Role {
     this.minSalary = minSalary;
     this.maxSalary = maxSalary;
     this.responsibilities = responsibilities;
+    this.payBasis = payBasis;
+    this.exempt = exempt;
+    this.currency = currency;
   }
 
   getId(): number {
@@ -49,6 +61,21 @@ export class Role {
     return this.level;
   }
 
+  // The basis the salary range is quoted in
+  getPayBasis(): PayBasis {
+    return this.payBasis;
+  }
+
+  // The currency the salary range is quoted in
+  getCurrency(): string {
+    return this.currency;
+  }
+
+  // Exempt roles are not paid overtime
+  isExempt(): boolean {
+    return this.exempt;
+  }
+
   getSalaryRange(): { min: number; max: number } {
     return { min: this.minSalary, max: this.maxSalary };
   }
@@ -61,6 +88,12 @@ export class Role {
     return salary >= this.minSalary && salary <= this.maxSalary;
   }
 
+  // Compares pay on any basis by converting it to the basis of this role's range. Pay in
+  // another currency is never in range, as there is no exchange rate to compare it at
+  isCompensationInRange(compensation: Compensation): boolean {
+    return compensation.getCurrency() === this.currency && this.isSalaryInRange(Math.round(compensation.amountIn(this.payBasis) * 100) / 100);
+  }
+
   addResponsibility(responsibility: string): void {
     if (!this.responsibilities.includes(responsibility)) {
       this.responsibilities.push(responsibility);
@@ -0,0 +1,96 @@
+import { earningCalculationCodes, earningCalculationLabels, type EarningCalculation, type ScheduledEarning } from "@shared/schema";
+import { roundCurrency } from "./Currency";
+import type { PayslipLineItem } from "./PayslipLines";
+
+// Raised when an earning or a department import of earnings cannot be used as given
+export class InvalidScheduledEarningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidScheduledEarningError";
+  }
+}
+
+// Raised when changing or deleting an earning that has already been paid on a payslip
+export class ScheduledEarningInUseError extends Error {
+  constructor(earning: ScheduledEarning) {
+    super(earning.recurring
+      ? "This earning has already been paid on a payslip; set an end date to stop it instead"
+      : "This earning has already been paid on a payslip");
+    this.name = "ScheduledEarningInUseError";
+  }
+}
+
+// What a scheduled earning pays on one payslip
+export interface EarningItem {
+  earningId: number;
+  calculation: EarningCalculation;
+  description: string | null;
+  // Flat amount, or percentage of salary or of sales
+  amount: number;
+  salesAmount: number | null;
+  recurring: boolean;
+  supplemental: boolean;
+}
+
+// Works out bonuses and commissions. A flat bonus pays its amount, a percentage bonus that
+// share of the employee's annual salary and a commission that share of its sales figure.
+// A recurring percentage bonus is a yearly share of salary, so each period pays its part of it.
+export class ScheduledEarnings {
+  static fromEarning(earning: ScheduledEarning): EarningItem {
+    return {
+      earningId: earning.id,
+      calculation: earning.calculation as EarningCalculation,
+      description: earning.description,
+      amount: parseFloat(earning.amount),
+      salesAmount: earning.salesAmount === null ? null : parseFloat(earning.salesAmount),
+      recurring: earning.recurring,
+      supplemental: earning.isSupplemental,
+    };
+  }
+
+  static amountFor(earning: EarningItem, annualSalary: number, periodsPerYear: number): number {
+    switch (earning.calculation) {
+      case "flat":
+        return roundCurrency(earning.amount);
+      case "percent_of_salary":
+        return roundCurrency(annualSalary * earning.amount / 100 / (earning.recurring ? periodsPerYear : 1));
+      case "commission":
+        return roundCurrency((earning.salesAmount ?? 0) * earning.amount / 100);
+      default:
+        throw new Error(`Unknown earning calculation: ${earning.calculation}`);
+    }
+  }
+
+  static calculate(earnings: EarningItem[], annualSalary: number, periodsPerYear: number): PayslipLineItem[] {
+    const lines: PayslipLineItem[] = [];
+
+    for (const earning of [...earnings].sort((a, b) => a.earningId - b.earningId)) {
+      const amount = ScheduledEarnings.amountFor(earning, annualSalary, periodsPerYear);
+      if (amount <= 0) continue;
+
+      lines.push({
+        type: "earning",
+        code: earningCalculationCodes[earning.calculation],
+        description: `${earning.description || earningCalculationLabels[earning.calculation]}${ScheduledEarnings.basis(earning)}`,
+        amount,
+        supplemental: earning.supplemental,
+        earningId: earning.earningId,
+      });
+    }
+
+    return lines;
+  }
+
+  // How a percentage was applied, so the payslip shows where the amount came from
+  private static basis(earning: EarningItem): string {
+    if (earning.calculation === "percent_of_salary") {
+      return earning.recurring
+        ? ` (${earning.amount}% of salary a year)`
+        : ` (${earning.amount}% of salary)`;
+    }
+    if (earning.calculation === "commission") {
+      return ` (${earning.amount}% of ${(earning.salesAmount ?? 0).toFixed(2)} sales)`;
+    }
+    return "";
+  }
+}
@@ -0,0 +1,205 @@
+import { periodsPerYear, type PayFrequency, type TaxBracket, type TaxTable, type EmployeeTaxProfile } from "@shared/schema";
+import { roundCurrency } from "./Currency";
+
+// Itemized withholding line returned on a payslip
+export interface TaxLine {
+  code: string;
+  description: string;
+  jurisdiction: string;
+  taxableWages: number;
+  amount: number;
+}
+
+// Subset of the employee tax profile the engine needs
+export interface TaxProfile {
+  filingStatus: string;
+  stateCode: string | null;
+  allowances: number;
+  additionalWithholding: number;
+  exempt: boolean;
+}
+
+export const DEFAULT_TAX_PROFILE: TaxProfile = {
+  filingStatus: "single",
+  stateCode: null,
+  allowances: 0,
+  additionalWithholding: 0,
+  exempt: false,
+};
+
+export function toTaxProfile(profile?: EmployeeTaxProfile): TaxProfile {
+  if (!profile) return DEFAULT_TAX_PROFILE;
+
+  return {
+    filingStatus: profile.filingStatus,
+    stateCode: profile.stateCode,
+    allowances: profile.allowances,
+    additionalWithholding: parseFloat(profile.additionalWithholding),
+    exempt: profile.exempt,
+  };
+}
+
+// Abstract withholding strategy - each jurisdiction plugs in its own implementation.
+// Supplemental wages (bonuses, commissions) are given separately from regular wages
+export abstract class TaxWithholdingStrategy {
+  abstract getJurisdiction(): string;
+  abstract calculateWithholding(
+    taxableWages: number,
+    payFrequency: PayFrequency,
+    profile: TaxProfile,
+    supplementalWages?: number
+  ): TaxLine;
+}
+
+// Progressive bracket withholding using the annualized wage method:
+// the period's wages are annualized, taxed through the brackets and de-annualized.
+// Supplemental wages are withheld at the table's flat supplemental rate, or added to regular
+// wages (the aggregate method) when the table has none
+export class ProgressiveBracketWithholding extends TaxWithholdingStrategy {
+  private jurisdiction: string;
+  private taxYear: number;
+  private standardDeduction: number;
+  private allowanceAmount: number;
+  private brackets: TaxBracket[];
+  private supplementalRate: number | null;
+  // Additional per-period withholding only applies to federal tax
+  private appliesAdditionalWithholding: boolean;
+
+  constructor(table: TaxTable) {
+    super();
+    this.jurisdiction = table.jurisdiction;
+    this.taxYear = table.taxYear;
+    this.standardDeduction = parseFloat(table.standardDeduction);
+    this.allowanceAmount = parseFloat(table.allowanceAmount);
+    this.brackets = [...table.brackets].sort((a, b) => a.over - b.over);
+    this.supplementalRate = table.supplementalRate === null ? null : parseFloat(table.supplementalRate);
+    this.appliesAdditionalWithholding = table.jurisdiction === "federal";
+  }
+
+  getJurisdiction(): string {
+    return this.jurisdiction;
+  }
+
+  calculateWithholding(
+    taxableWages: number,
+    payFrequency: PayFrequency,
+    profile: TaxProfile,
+    supplementalWages: number = 0
+  ): TaxLine {
+    const periods = periodsPerYear[payFrequency];
+    const flatRate = this.supplementalRate !== null && supplementalWages > 0;
+    const regularWages = flatRate ? taxableWages : taxableWages + supplementalWages;
+    let amount = 0;
+
+    if (!profile.exempt && regularWages > 0) {
+      const annualWages = regularWages * periods;
+      const annualTaxable = Math.max(
+        0,
+        annualWages - this.standardDeduction - profile.allowances * this.allowanceAmount
+      );
+      amount = this.calculateAnnualTax(annualTaxable) / periods;
+
+      if (this.appliesAdditionalWithholding) {
+        amount += profile.additionalWithholding;
+      }
+    }
+
+    if (!profile.exempt && flatRate) {
+      amount += supplementalWages * this.supplementalRate!;
+    }
+
+    return {
+      code: this.jurisdiction === "federal" ? "FED_INCOME_TAX" : `STATE_INCOME_TAX_${this.jurisdiction}`,
+      description: this.jurisdiction === "federal"
+        ? `Federal Income Tax (${this.taxYear})`
+        : `${this.jurisdiction} State Income Tax (${this.taxYear})`,
+      jurisdiction: this.jurisdiction,
+      taxableWages: roundCurrency(taxableWages + supplementalWages),
+      amount: roundCurrency(amount),
+    };
+  }
+
+  calculateAnnualTax(annualTaxable: number): number {
+    let tax = 0;
+
+    for (let i = 0; i < this.brackets.length; i++) {
+      const bracket = this.brackets[i];
+      if (annualTaxable <= bracket.over) break;
+
+      const next = this.brackets[i + 1];
+      const upper = next ? Math.min(annualTaxable, next.over) : annualTaxable;
+      tax += (upper - bracket.over) * bracket.rate;
+    }
+
+    return tax;
+  }
+}
+
+// Runs every registered strategy against the same taxable wages
+export class TaxWithholdingEngine {
+  private strategies: TaxWithholdingStrategy[] = [];
+  private payFrequency: PayFrequency;
+  private profile: TaxProfile;
+
+  constructor(payFrequency: PayFrequency, profile: TaxProfile = DEFAULT_TAX_PROFILE) {
+    this.payFrequency = payFrequency;
+    this.profile = profile;
+  }
+
+  addStrategy(strategy: TaxWithholdingStrategy): this {
+    this.strategies.push(strategy);
+    return this;
+  }
+
+  getPayFrequency(): PayFrequency {
+    return this.payFrequency;
+  }
+
+  calculate(taxableWages: number, supplementalWages: number = 0): TaxLine[] {
+    return this.strategies.map(strategy =>
+      strategy.calculateWithholding(taxableWages, this.payFrequency, this.profile, supplementalWages)
+    );
+  }
+}
+
+// Factory that picks the tax tables matching an employee's profile - demonstrates Factory pattern
+export class TaxWithholdingFactory {
+  static createEngine(
+    tables: TaxTable[],
+    taxYear: number,
+    payFrequency: PayFrequency,
+    profile: TaxProfile = DEFAULT_TAX_PROFILE
+  ): TaxWithholdingEngine {
+    const engine = new TaxWithholdingEngine(payFrequency, profile);
+
+    const federal = TaxWithholdingFactory.selectTable(tables, "federal", profile.filingStatus, taxYear);
+    if (federal) {
+      engine.addStrategy(new ProgressiveBracketWithholding(federal));
+    }
+
+    if (profile.stateCode) {
+      const state = TaxWithholdingFactory.selectTable(tables, profile.stateCode, profile.filingStatus, taxYear);
+      if (state) {
+        engine.addStrategy(new ProgressiveBracketWithholding(state));
+      }
+    }
+
+    return engine;
+  }
+
+  // Uses the table for the requested year, falling back to the latest earlier version
+  static selectTable(
+    tables: TaxTable[],
+    jurisdiction: string,
+    filingStatus: string,
+    taxYear: number
+  ): TaxTable | undefined {
+    return tables
+      .filter(table =>
+        table.jurisdiction === jurisdiction &&
+        table.filingStatus === filingStatus &&
+        table.taxYear <= taxYear
+      )
+      .sort((a, b) => b.taxYear - a.taxYear)[0];
+  }
+}
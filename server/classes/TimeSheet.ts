@@ -0,0 +1,146 @@
+import type { TimeEntry, TimeEntryInput } from "@shared/schema";
+import { OvertimeRules } from "./OvertimeRules";
+
+// Raised when a time entry's start, end and break do not describe a valid shift
+export class InvalidTimeEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidTimeEntryError";
+  }
+}
+
+// Raised when a time entry would overlap another shift on the same day
+export class OverlappingTimeEntryError extends Error {
+  constructor(entry: TimeEntry) {
+    super(`Overlaps the ${entry.startTime}-${entry.endTime} entry on ${entry.workDate}`);
+    this.name = "OverlappingTimeEntryError";
+  }
+}
+
+// Raised when something tries to change a time entry that has already been reviewed
+export class TimeEntryLockedError extends Error {
+  constructor(entry: TimeEntry) {
+    super(`Time entry ${entry.id} is ${entry.status} and can no longer be modified`);
+    this.name = "TimeEntryLockedError";
+  }
+}
+
+// How one time entry was split between regular, overtime and double-time hours
+export interface TimeEntryContribution {
+  id: number;
+  workDate: string;
+  startTime: string;
+  endTime: string;
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
+
+export interface TimesheetSummary {
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+  entries: TimeEntryContribution[];
+}
+
+type Shift = Pick<TimeEntryInput, "workDate" | "startTime" | "endTime">;
+
+// Hours and overlap rules for an employee's time entries
+export class TimeSheet {
+  static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  }
+
+  // Shifts end on the day they start, so the end time must come after the start time
+  static calculateHours(entry: Pick<TimeEntryInput, "startTime" | "endTime" | "breakMinutes">): number {
+    const start = TimeSheet.toMinutes(entry.startTime);
+    const end = TimeSheet.toMinutes(entry.endTime);
+    const breakMinutes = entry.breakMinutes ?? 0;
+
+    if (end <= start) {
+      throw new InvalidTimeEntryError("End time must be after start time");
+    }
+    if (breakMinutes >= end - start) {
+      throw new InvalidTimeEntryError("Break must be shorter than the shift");
+    }
+
+    return Math.round(((end - start - breakMinutes) / 60) * 100) / 100;
+  }
+
+  // Touching shifts (one ends when the next starts) do not overlap
+  static overlaps(a: Shift, b: Shift): boolean {
+    if (a.workDate !== b.workDate) return false;
+    return TimeSheet.toMinutes(a.startTime) < TimeSheet.toMinutes(b.endTime)
+      && TimeSheet.toMinutes(b.startTime) < TimeSheet.toMinutes(a.endTime);
+  }
+
+  static toWorkDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  // Sunday that starts the workweek containing the given YYYY-MM-DD date
+  static weekStart(workDate: string): string {
+    const date = new Date(`${workDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() - date.getUTCDay());
+    return TimeSheet.toWorkDate(date);
+  }
+
+  // Splits hours into regular, overtime and double time under an overtime policy. Entries
+  // dated before `from` in the period's first week count toward that week's thresholds but
+  // are not paid again, since they belong to the previous period.
+  static summarize(entries: TimeEntry[], from: string, to: string, rules: OvertimeRules = OvertimeRules.standard()): TimesheetSummary {
+    const sorted = [...entries].sort((a, b) => a.workDate.localeCompare(b.workDate) || a.startTime.localeCompare(b.startTime));
+    const dailyHours = new Map<string, number>();
+    const weeklyRegularHours = new Map<string, number>();
+    const weeklyDaysWorked = new Map<string, Set<string>>();
+    const contributions: TimeEntryContribution[] = [];
+
+    for (const entry of sorted) {
+      if (entry.workDate > to) continue;
+
+      const week = TimeSheet.weekStart(entry.workDate);
+      const daysWorked = weeklyDaysWorked.get(week) ?? new Set<string>();
+      const hours = parseFloat(entry.hoursWorked);
+      const hoursEarlierToday = dailyHours.get(entry.workDate) ?? 0;
+      const regularHoursEarlierThisWeek = weeklyRegularHours.get(week) ?? 0;
+
+      // Every earlier day of the workweek worked makes this its seventh consecutive day
+      daysWorked.delete(entry.workDate);
+      const allocation = rules.allocate(hours, {
+        hoursEarlierToday,
+        regularHoursEarlierThisWeek,
+        isSeventhConsecutiveDay: daysWorked.size === 6,
+      });
+      daysWorked.add(entry.workDate);
+
+      weeklyDaysWorked.set(week, daysWorked);
+      dailyHours.set(entry.workDate, hoursEarlierToday + hours);
+      weeklyRegularHours.set(week, regularHoursEarlierThisWeek + allocation.regularHours);
+
+      if (entry.workDate < from) continue;
+
+      contributions.push({
+        id: entry.id,
+        workDate: entry.workDate,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        hours,
+        ...allocation,
+      });
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+      regularHours: round(contributions.reduce((sum, entry) => sum + entry.regularHours, 0)),
+      overtimeHours: round(contributions.reduce((sum, entry) => sum + entry.overtimeHours, 0)),
+      doubleTimeHours: round(contributions.reduce((sum, entry) => sum + entry.doubleTimeHours, 0)),
+      entries: contributions,
+    };
+  }
+
+  static findOverlap(entry: Shift, existing: TimeEntry[], ignoreId?: number): TimeEntry | undefined {
+    return existing.find(other => other.id !== ignoreId && TimeSheet.overlaps(entry, other));
+  }
+}
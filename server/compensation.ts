@@ -0,0 +1,136 @@
+import { storage } from "./storage";
+import { Compensation, type CompensationRecord } from "./classes/Compensation";
+import { CompensationTimeline } from "./classes/CompensationTimeline";
+import { PayCalendar } from "./classes/PayCalendar";
+import type { CompensationChange, CompensationChangeDetails, CompensationChangeInput, Employee, InsertEmployee, PayBasis } from "@shared/schema";
+
+const COMPENSATION_FIELDS = ["payBasis", "payAmount", "currency", "standardHoursPerWeek"] as const;
+
+// Just the pay fields, in the shape employee and history inserts take
+function toRecord(source: CompensationRecord) {
+  return {
+    payBasis: source.payBasis as PayBasis,
+    payAmount: source.payAmount,
+    currency: source.currency,
+    standardHoursPerWeek: source.standardHoursPerWeek,
+  };
+}
+
+// Whether an employee update sets any pay field to a new value. Decimals are compared as
+// numbers so "50000" and "50000.00" count as the same pay
+export function isCompensationChange(employee: Employee, update: Partial<InsertEmployee>): boolean {
+  return COMPENSATION_FIELDS.some(field => {
+    const value = update[field];
+    if (value === undefined || value === null) return false;
+    if (field === "payAmount" || field === "standardHoursPerWeek") {
+      return parseFloat(String(value)) !== parseFloat(employee[field]);
+    }
+    return value !== employee[field];
+  });
+}
+
+// The employee's pay with an update's pay fields applied
+export function mergeCompensation(employee: Employee, update: Partial<InsertEmployee>) {
+  return toRecord({
+    payBasis: update.payBasis ?? employee.payBasis,
+    payAmount: update.payAmount ?? employee.payAmount,
+    currency: update.currency ?? employee.currency,
+    standardHoursPerWeek: update.standardHoursPerWeek ?? employee.standardHoursPerWeek,
+  });
+}
+
+// Records a pay change. The employee's own pay fields hold the pay in effect today, so they are
+// updated only when no later change is already in effect; future-dated changes wait in the
+// history until syncCurrentCompensation copies them over on the day they take effect.
+export async function recordCompensationChange(employee: Employee, input: CompensationChangeInput, actor: string): Promise<CompensationChange> {
+  const today = PayCalendar.formatDate(new Date());
+  const history = await storage.getCompensationHistory(employee.id);
+  const supersededToday = history.some(change => change.effectiveDate > input.effectiveDate && change.effectiveDate <= today);
+  const employeeUpdate = input.effectiveDate <= today && !supersededToday
+    ? toRecord({
+        payBasis: input.payBasis,
+        payAmount: input.payAmount,
+        currency: input.currency ?? employee.currency,
+        standardHoursPerWeek: input.standardHoursPerWeek ?? employee.standardHoursPerWeek,
+      })
+    : undefined;
+
+  return await storage.createCompensationChange({ ...input, employeeId: employee.id, changedBy: actor }, employeeUpdate);
+}
+
+// The day the employees' pay fields were last brought up to date
+let compensationSyncedOn: string | undefined;
+
+// Copies each employee's latest change in effect today onto their pay fields, so a
+// future-dated raise becomes the current pay once its day comes. Runs at most once a day;
+// changes effective on or before the day they are recorded are applied as they are recorded
+export async function syncCurrentCompensation(): Promise<void> {
+  const today = PayCalendar.formatDate(new Date());
+  if (compensationSyncedOn === today) return;
+
+  const [employees, changes] = await Promise.all([
+    storage.getEmployees(),
+    storage.getCurrentCompensationChanges(today),
+  ]);
+  const currentChanges = new Map(changes.map(change => [change.employeeId, change]));
+  for (const employee of employees) {
+    const change = currentChanges.get(employee.id);
+    if (change && isCompensationChange(employee, toRecord(change))) {
+      await storage.updateEmployee(employee.id, toRecord(change));
+    }
+  }
+  compensationSyncedOn = today;
+}
+
+// Applies an edit to an employee. New pay is recorded in the compensation history, effective
+// today unless the details give another date, instead of overwriting the old pay in place.
+export async function updateEmployee(
+  employee: Employee,
+  update: Partial<InsertEmployee>,
+  details: CompensationChangeDetails,
+  actor: string
+): Promise<{ employee: Employee | undefined; compensationChange?: CompensationChange }> {
+  const { payBasis, payAmount, currency, standardHoursPerWeek, ...profile } = update;
+
+  let compensationChange: CompensationChange | undefined;
+  if (isCompensationChange(employee, update)) {
+    compensationChange = await recordCompensationChange(employee, {
+      ...mergeCompensation(employee, update),
+      effectiveDate: details.compensationEffectiveDate ?? PayCalendar.formatDate(new Date()),
+      reason: details.compensationReason ?? "adjustment",
+      note: details.compensationNote || null,
+    }, actor);
+  }
+
+  // A pay-only edit leaves nothing else to update
+  const updated = Object.keys(profile).length === 0
+    ? await storage.getEmployee(employee.id)
+    : await storage.updateEmployee(employee.id, profile);
+  return { employee: updated, compensationChange };
+}
+
+// Starts a new employee's history with the pay they were hired on
+export async function recordHireCompensation(employee: Employee, actor: string): Promise<CompensationChange> {
+  return await storage.createCompensationChange({
+    ...toRecord(employee),
+    employeeId: employee.id,
+    effectiveDate: PayCalendar.formatDate(employee.startDate),
+    reason: "hire",
+    changedBy: actor,
+  });
+}
+
+// The employee's pay over time. Employees with no recorded history are paid their current
+// pay for every day.
+export async function getCompensationTimeline(employee: Employee): Promise<CompensationTimeline> {
+  // Oldest first, so of two changes on the same day the one recorded later wins
+  const history = (await storage.getCompensationHistory(employee.id)).reverse();
+
+  return new CompensationTimeline(
+    history.map(change => ({
+      effectiveDate: change.effectiveDate,
+      compensation: Compensation.fromRecord(change),
+    })),
+    Compensation.fromRecord(employee)
+  );
+}
@@ -0,0 +1,116 @@
+import type { EarningImport, ScheduledEarning, ScheduledEarningInput, ScheduledEarningUpdate, ScheduledEarningWithEmployee } from "@shared/schema";
+import { storage } from "./storage";
+import { InvalidScheduledEarningError, ScheduledEarningInUseError, ScheduledEarnings, type EarningItem } from "./classes/ScheduledEarnings";
+import type { DateRange } from "./classes/Proration";
+
+export async function createScheduledEarning(employeeId: number, input: ScheduledEarningInput): Promise<ScheduledEarning> {
+  return await storage.createScheduledEarning({ ...input, employeeId });
+}
+
+// Changes an earning's terms or dates, or stops a recurring one by setting an end date. Once
+// an earning has been paid on a payslip, ending it is the only change allowed.
+export async function updateScheduledEarning(existing: ScheduledEarning, update: ScheduledEarningUpdate): Promise<ScheduledEarning | undefined> {
+  const endsOnly = Object.keys(update).every(key => key === "endDate");
+  if (!(existing.recurring && endsOnly) && (await getPaidEarnings(existing.employeeId)).has(existing.id)) {
+    throw new ScheduledEarningInUseError(existing);
+  }
+
+  const startDate = update.startDate ?? existing.startDate;
+  const endDate = update.endDate === undefined ? existing.endDate : update.endDate;
+  const recurring = update.recurring ?? existing.recurring;
+  if (endDate && endDate < startDate) {
+    throw new InvalidScheduledEarningError("Earning must end on or after its start date");
+  }
+  if (endDate && !recurring) {
+    throw new InvalidScheduledEarningError("Only recurring earnings have an end date");
+  }
+  const calculation = update.calculation ?? existing.calculation;
+  const salesAmount = update.salesAmount === undefined ? existing.salesAmount : update.salesAmount;
+  if (calculation === "commission" && !salesAmount) {
+    throw new InvalidScheduledEarningError("Commission needs the sales figure it is paid on");
+  }
+
+  return await storage.updateScheduledEarning(existing.id, update);
+}
+
+// Earnings already paid on a payslip are kept for the record; recurring ones can only be ended
+export async function deleteScheduledEarning(earning: ScheduledEarning): Promise<boolean> {
+  if ((await getPaidEarnings(earning.employeeId)).has(earning.id)) {
+    throw new ScheduledEarningInUseError(earning);
+  }
+  return await storage.deleteScheduledEarning(earning.id);
+}
+
+// Every employee's earnings that fall in the given dates, latest first
+export async function getScheduledEarnings(from?: string, to?: string): Promise<ScheduledEarningWithEmployee[]> {
+  return await storage.getScheduledEarnings(from, to);
+}
+
+// The bonuses and commissions paid in a pay period, as earnings the calculator can take. A
+// one-off earning already on a non-void payslip is not paid again, whatever its period.
+export async function getScheduledEarningsForPeriod(employeeId: number, period: DateRange): Promise<EarningItem[]> {
+  const earnings = await storage.getScheduledEarningsByEmployee(employeeId, period.startDate, period.endDate);
+  if (earnings.length === 0) return [];
+
+  const paid = await getPaidEarnings(employeeId);
+  return earnings
+    .filter(earning => earning.recurring || !paid.has(earning.id))
+    .map(earning => ScheduledEarnings.fromEarning(earning));
+}
+
+// The earnings paid on the employee's non-void payslips
+async function getPaidEarnings(employeeId: number): Promise<Set<number>> {
+  const paid = new Set<number>();
+  for (const total of await storage.sumPayslipLines(employeeId)) {
+    if (total.type === "earning" && total.earningId !== null) {
+      paid.add(total.earningId);
+    }
+  }
+  return paid;
+}
+
+// Adds the same earning for a department, either to every active employee in it or to the
+// listed employees with their own amounts. Every row is checked first and the earnings are
+// saved together, so a bad row leaves no earnings behind.
+export async function importEarnings(request: EarningImport): Promise<ScheduledEarning[]> {
+  const { department, earning, rows } = request;
+  if (earning.endDate && !earning.recurring) {
+    throw new InvalidScheduledEarningError("Only recurring earnings have an end date");
+  }
+  if (earning.endDate && earning.endDate < earning.startDate) {
+    throw new InvalidScheduledEarningError("Earning must end on or after its start date");
+  }
+
+  const employees = (await storage.getEmployees()).filter(employee => employee.department === department);
+  const targets = rows ?? employees
+    .filter(employee => employee.status === "active")
+    .map(employee => ({ employeeId: employee.id, amount: undefined, salesAmount: undefined }));
+  if (targets.length === 0) {
+    throw new InvalidScheduledEarningError(`${department} has no active employees`);
+  }
+
+  const inDepartment = new Map(employees.map(employee => [employee.id, `${employee.firstName} ${employee.lastName}`]));
+  const seen = new Set<number>();
+  const earnings = targets.map(row => {
+    const name = inDepartment.get(row.employeeId);
+    if (!name) {
+      throw new InvalidScheduledEarningError(`Employee ${row.employeeId} is not in ${department}`);
+    }
+    if (seen.has(row.employeeId)) {
+      throw new InvalidScheduledEarningError(`${name} is listed more than once`);
+    }
+    seen.add(row.employeeId);
+
+    const amount = row.amount ?? earning.amount;
+    const salesAmount = row.salesAmount ?? earning.salesAmount ?? null;
+    if (!amount) {
+      throw new InvalidScheduledEarningError(`No amount given for ${name}`);
+    }
+    if (earning.calculation === "commission" && !salesAmount) {
+      throw new InvalidScheduledEarningError(`No sales figure given for ${name}`);
+    }
+    return { ...earning, employeeId: row.employeeId, amount, salesAmount };
+  });
+
+  return await storage.createScheduledEarnings(earnings);
+}
@@ -0,0 +1,76 @@
+import type { GarnishmentOrder, GarnishmentOrderInput, GarnishmentOrderUpdate, GarnishmentOrderWithBalance } from "@shared/schema";
+import { storage } from "./storage";
+import { GarnishmentCalculator, GarnishmentOrderInUseError, InvalidGarnishmentOrderError, type Garnishment } from "./classes/Garnishments";
+import type { DateRange } from "./classes/Proration";
+import { roundCurrency } from "./classes/Currency";
+
+export async function createGarnishmentOrder(employeeId: number, input: GarnishmentOrderInput): Promise<GarnishmentOrder> {
+  return await storage.createGarnishmentOrder({ ...input, employeeId });
+}
+
+// Changes an order's terms or dates, or lifts it by setting an end date
+export async function updateGarnishmentOrder(existing: GarnishmentOrder, update: GarnishmentOrderUpdate): Promise<GarnishmentOrder | undefined> {
+  const startDate = update.startDate ?? existing.startDate;
+  const endDate = update.endDate === undefined ? existing.endDate : update.endDate;
+  if (endDate && endDate < startDate) {
+    throw new InvalidGarnishmentOrderError("Order must end on or after its start date");
+  }
+  const amountType = update.amountType ?? existing.amountType;
+  const amount = update.amount ?? existing.amount;
+  if (amountType === "percent" && parseFloat(amount) > 100) {
+    throw new InvalidGarnishmentOrderError("A percentage cannot be more than 100");
+  }
+
+  return await storage.updateGarnishmentOrder(existing.id, update);
+}
+
+// Orders that have been withheld on a payslip are kept for the record and can only be ended
+export async function deleteGarnishmentOrder(order: GarnishmentOrder): Promise<boolean> {
+  const paid = await getAmountsWithheld(order.employeeId);
+  if (paid.has(order.id)) {
+    throw new GarnishmentOrderInUseError(order);
+  }
+  return await storage.deleteGarnishmentOrder(order.id);
+}
+
+// The employee's orders, newest first, with what has been withheld for each and what is still owed
+export async function getGarnishmentOrders(employeeId: number): Promise<GarnishmentOrderWithBalance[]> {
+  const [orders, paid] = await Promise.all([
+    storage.getGarnishmentOrdersByEmployee(employeeId),
+    getAmountsWithheld(employeeId),
+  ]);
+
+  return orders.map(order => {
+    const amountPaid = paid.get(order.id) ?? 0;
+    return {
+      ...order,
+      amountPaid: amountPaid.toFixed(2),
+      remainingBalance: order.totalCap === null
+        ? null
+        : roundCurrency(Math.max(0, parseFloat(order.totalCap) - amountPaid)).toFixed(2),
+    };
+  });
+}
+
+// The orders that apply to a pay period, as garnishments the calculator can take. Balances count
+// what was withheld for periods before this one, so recalculating a period does not count itself.
+export async function getGarnishmentsForPeriod(employeeId: number, period: DateRange): Promise<Garnishment[]> {
+  const orders = await storage.getGarnishmentOrdersByEmployee(employeeId, period.startDate, period.endDate);
+  if (orders.length === 0) return [];
+
+  const paid = await getAmountsWithheld(employeeId, period.startDate);
+  return orders
+    .map(order => GarnishmentCalculator.fromOrder(order, paid.get(order.id) ?? 0))
+    .filter(garnishment => garnishment.remainingBalance !== 0);
+}
+
+// Amounts withheld per order on the employee's non-void payslips, optionally only those for
+// periods ending before `before`
+async function getAmountsWithheld(employeeId: number, before?: string): Promise<Map<number, number>> {
+  const paid = new Map<number, number>();
+  for (const total of await storage.sumPayslipLines(employeeId, { before })) {
+    if (total.type !== "deduction" || total.garnishmentOrderId === null) continue;
+    paid.set(total.garnishmentOrderId, roundCurrency((paid.get(total.garnishmentOrderId) ?? 0) + total.amount));
+  }
+  return paid;
+}
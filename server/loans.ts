@@ -0,0 +1,74 @@
+import type { Loan, LoanInput, LoanUpdate, LoanWithBalance } from "@shared/schema";
+import { storage } from "./storage";
+import { LoanInUseError, LoanRepayments, type LoanInstallment } from "./classes/Loans";
+import type { DateRange } from "./classes/Proration";
+import { roundCurrency } from "./classes/Currency";
+
+// Records a loan, working out the installment when it is given as a number of repayments
+export async function createLoan(employeeId: number, input: LoanInput): Promise<Loan> {
+  const { installments, ...loan } = input;
+  const installmentAmount = installments === undefined
+    ? loan.installmentAmount!
+    : LoanRepayments.installmentFor(parseFloat(loan.amount), installments).toFixed(2);
+
+  return await storage.createLoan({ ...loan, employeeId, installmentAmount, status: "active" });
+}
+
+export async function updateLoan(existing: Loan, update: LoanUpdate): Promise<Loan | undefined> {
+  return await storage.updateLoan(existing.id, update);
+}
+
+// Loans already repaid on a payslip are kept for the record and can only be cancelled
+export async function deleteLoan(loan: Loan): Promise<boolean> {
+  const repaid = await getAmountsRepaid(loan.employeeId);
+  if (repaid.has(loan.id)) {
+    throw new LoanInUseError(loan);
+  }
+  return await storage.deleteLoan(loan.id);
+}
+
+// The employee's loans, oldest first, with what has been repaid and what is still owed
+export async function getLoans(employeeId: number): Promise<LoanWithBalance[]> {
+  const [loans, repaid] = await Promise.all([
+    storage.getLoansByEmployee(employeeId),
+    getAmountsRepaid(employeeId),
+  ]);
+
+  return loans.map(loan => {
+    const amountRepaid = repaid.get(loan.id) ?? 0;
+    // Cancelled loans are written off, so nothing more is owed on them
+    const outstandingBalance = loan.status === "cancelled"
+      ? 0
+      : LoanRepayments.outstanding(parseFloat(loan.amount), amountRepaid);
+    return {
+      ...loan,
+      amountRepaid: amountRepaid.toFixed(2),
+      outstandingBalance: outstandingBalance.toFixed(2),
+      installmentsRemaining: LoanRepayments.installmentsRemaining(outstandingBalance, parseFloat(loan.installmentAmount)),
+    };
+  });
+}
+
+// The active loans repaid in a pay period, as installments the calculator can take. Balances
+// count what was repaid for periods before this one, so recalculating a period does not count itself.
+export async function getLoanInstallmentsForPeriod(employeeId: number, period: DateRange): Promise<LoanInstallment[]> {
+  const loans = (await storage.getLoansByEmployee(employeeId))
+    .filter(loan => loan.status === "active" && loan.startDate <= period.endDate);
+  if (loans.length === 0) return [];
+
+  const repaid = await getAmountsRepaid(employeeId, period.startDate);
+  return loans
+    .map(loan => LoanRepayments.fromLoan(loan, repaid.get(loan.id) ?? 0))
+    .filter(installment => installment.outstandingBalance > 0);
+}
+
+// Amounts repaid per loan on the employee's non-void payslips, optionally only those for
+// periods ending before `before`
+async function getAmountsRepaid(employeeId: number, before?: string): Promise<Map<number, number>> {
+  const repaid = new Map<number, number>();
+  for (const total of await storage.sumPayslipLines(employeeId, { before })) {
+    if (total.type !== "deduction" || total.loanId === null) continue;
+    repaid.set(total.loanId, roundCurrency((repaid.get(total.loanId) ?? 0) + total.amount));
+  }
+  return repaid;
+}
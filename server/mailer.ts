@@ -0,0 +1,27 @@
+import nodemailer from "nodemailer";
+import { PayslipMailer } from "./classes/PayslipMailer";
+
+// SMTP settings come from the environment; the defaults point at a local SMTP sink
+// such as MailHog or smtp4dev listening on port 1025
+export function createMailTransport() {
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST || "localhost",
+    port: parseInt(process.env.SMTP_PORT || "1025"),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || "" }
+      : undefined,
+  });
+}
+
+let payslipMailer: PayslipMailer | undefined;
+
+export function getPayslipMailer(): PayslipMailer {
+  if (!payslipMailer) {
+    payslipMailer = new PayslipMailer(
+      createMailTransport(),
+      process.env.MAIL_FROM || "HR Manager <payroll@localhost>"
+    );
+  }
+  return payslipMailer;
+}
@@ -0,0 +1,64 @@
+import type { Employee, EmployeeOvertimePolicy, InsertOvertimePolicy, OvertimePolicy, OvertimePolicySource, Role } from "@shared/schema";
+import { storage } from "./storage";
+import { OvertimeRules } from "./classes/OvertimeRules";
+
+// The employee's own policy wins, then their role's, then the company default. The employee's
+// exemption classification likewise overrides their role's.
+export function resolveOvertimePolicy(
+  employee: Pick<Employee, "overtimePolicyId" | "isExempt">,
+  role: Pick<Role, "overtimePolicyId" | "isExempt"> | undefined,
+  policies: OvertimePolicy[]
+): EmployeeOvertimePolicy {
+  const classifiedExempt = employee.isExempt ?? role?.isExempt ?? false;
+  const resolve = (policy: OvertimePolicy | null, source: OvertimePolicySource): EmployeeOvertimePolicy =>
+    ({ policy, source, isExempt: classifiedExempt || (policy?.isExempt ?? false) });
+
+  const own = policies.find(policy => policy.id === employee.overtimePolicyId);
+  if (own) return resolve(own, "employee");
+
+  const fromRole = role ? policies.find(policy => policy.id === role.overtimePolicyId) : undefined;
+  if (fromRole) return resolve(fromRole, "role");
+
+  const fallback = policies.find(policy => policy.isDefault);
+  if (fallback) return resolve(fallback, "default");
+
+  return resolve(null, "standard");
+}
+
+export async function getEmployeeOvertimePolicy(employee: Employee & { role?: Role }): Promise<EmployeeOvertimePolicy> {
+  const role = employee.role ?? await storage.getRole(employee.roleId);
+  return resolveOvertimePolicy(employee, role, await storage.getOvertimePolicies());
+}
+
+// The rules used to split the employee's hours and price their overtime; exempt employees
+// have all their hours counted as regular
+export async function getEmployeeOvertimeRules(employee: Employee & { role?: Role }): Promise<OvertimeRules> {
+  const { policy, isExempt } = await getEmployeeOvertimePolicy(employee);
+  if (isExempt) return new OvertimeRules({ isExempt: true });
+  return policy ? OvertimeRules.fromRecord(policy) : OvertimeRules.standard();
+}
+
+// Only one policy can be the default, so saving one as default clears the flag on the others
+export async function createOvertimePolicy(input: InsertOvertimePolicy): Promise<OvertimePolicy> {
+  const policy = await storage.createOvertimePolicy(input);
+  await clearOtherDefaults(policy);
+  return policy;
+}
+
+export async function updateOvertimePolicy(id: number, input: Partial<InsertOvertimePolicy>): Promise<OvertimePolicy | undefined> {
+  const policy = await storage.updateOvertimePolicy(id, input);
+  if (policy) {
+    await clearOtherDefaults(policy);
+  }
+  return policy;
+}
+
+async function clearOtherDefaults(policy: OvertimePolicy): Promise<void> {
+  if (!policy.isDefault) return;
+
+  for (const other of await storage.getOvertimePolicies()) {
+    if (other.id !== policy.id && other.isDefault) {
+      await storage.updateOvertimePolicy(other.id, { isDefault: false });
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { periodsPerYear, WEEKS_PER_YEAR, type Employee, type EmployeePaySchedule, type InsertPaySchedule, type PayFrequency, type PayPeriod, type PaySchedule } from "@shared/schema";
+import { storage } from "./storage";
+import { PayCalendar } from "./classes/PayCalendar";
+import { roundCurrency } from "./classes/Currency";
+
+// Employees with no schedule anywhere are paid monthly
+const FALLBACK_FREQUENCY: PayFrequency = "monthly";
+
+// Hours in a pay period for someone working their standard week every week of the year
+export function standardHoursPerPeriod(payFrequency: PayFrequency, hoursPerWeek: number = 40): number {
+  return roundCurrency(hoursPerWeek * WEEKS_PER_YEAR / periodsPerYear[payFrequency]);
+}
+
+// The employee's own schedule wins, then their department's, then the company default
+export function resolvePaySchedule(employee: Pick<Employee, "payScheduleId" | "department">, schedules: PaySchedule[]): PaySchedule | undefined {
+  return schedules.find(schedule => schedule.id === employee.payScheduleId) ??
+    schedules.find(schedule => schedule.department !== null && schedule.department === employee.department) ??
+    schedules.find(schedule => schedule.isDefault);
+}
+
+// The schedule, frequency, standard hours and current period that apply to one employee
+export async function getEmployeePaySchedule(employee: Employee, today: Date = new Date()): Promise<EmployeePaySchedule> {
+  const schedule = resolvePaySchedule(employee, await storage.getPaySchedules()) ?? null;
+  const frequency = schedule ? schedule.frequency as PayFrequency : FALLBACK_FREQUENCY;
+
+  return {
+    schedule,
+    frequency,
+    standardHours: standardHoursPerPeriod(frequency, parseFloat(employee.standardHoursPerWeek)),
+    currentPeriod: schedule ? new PayCalendar(schedule).periodContaining(PayCalendar.formatDate(today)) : null,
+  };
+}
+
+export async function getPayCalendar(id: number, year: number): Promise<PayPeriod[] | undefined> {
+  const schedule = await storage.getPaySchedule(id);
+  if (!schedule) return undefined;
+
+  return new PayCalendar(schedule).periodsForYear(year);
+}
+
+// Only one schedule can be the default, so saving one as default clears the flag on the others
+export async function createPaySchedule(input: InsertPaySchedule): Promise<PaySchedule> {
+  const schedule = await storage.createPaySchedule(input);
+  await clearOtherDefaults(schedule);
+  return schedule;
+}
+
+export async function updatePaySchedule(id: number, input: Partial<InsertPaySchedule>): Promise<PaySchedule | undefined> {
+  const schedule = await storage.updatePaySchedule(id, input);
+  if (schedule) {
+    await clearOtherDefaults(schedule);
+  }
+  return schedule;
+}
+
+async function clearOtherDefaults(schedule: PaySchedule): Promise<void> {
+  if (!schedule.isDefault) return;
+
+  for (const other of await storage.getPaySchedules()) {
+    if (other.id !== schedule.id && other.isDefault) {
+      await storage.updatePaySchedule(other.id, { isDefault: false });
+    }
+  }
+}
@@ -0,0 +1,635 @@
+import { periodsPerYear, type CompensationChange, type OvertimePolicy, type EmployeeWithRole, type InsertPayslip, type InsertPayslipLine, type PayFrequency, type PayRunRequest, type PayBasis, type PaySchedule, type ProrationBasis, type Payslip, type PayslipDelivery, type PayslipLineType, type PayslipTransition, type RetroPayAdjustment, type TaxTable } from "@shared/schema";
+import { storage } from "./storage";
+import { EmployeeFactory, type BaseEmployee } from "./classes/Employee";
+import { Role } from "./classes/Role";
+import { PayslipCalculatorFactory, type PayslipAdjustment, type PayslipResult } from "./classes/PayslipCalculator";
+import { TaxWithholdingFactory, toTaxProfile } from "./classes/TaxWithholding";
+import { InvalidPayslipTransitionError, PayslipStateMachine } from "./classes/PayslipStatus";
+import type { PayslipLineItem } from "./classes/PayslipLines";
+import { PayslipPdfRenderer, type PayslipDocumentData, type YearToDateTotals } from "./classes/PayslipPdfRenderer";
+import { roundCurrency } from "./classes/Currency";
+import { Compensation } from "./classes/Compensation";
+import { PayCalendar } from "./classes/PayCalendar";
+import { PayslipHistory, UNSAVED_PAYSLIP_ID } from "./classes/PayslipHistory";
+import { ProrationCalculator, type DateRange, type ProrationResult } from "./classes/Proration";
+import type { CompensationSegment } from "./classes/CompensationTimeline";
+import { RetroPayCalculator } from "./classes/RetroPay";
+import { getCompensationTimeline } from "./compensation";
+import { getPayslipMailer } from "./mailer";
+import { resolvePaySchedule, standardHoursPerPeriod } from "./paySchedules";
+import { resolveOvertimePolicy } from "./overtimePolicies";
+import { OvertimeRules } from "./classes/OvertimeRules";
+import { getBenefitElections } from "./benefits";
+import { getGarnishmentsForPeriod } from "./garnishments";
+import { getLoanInstallmentsForPeriod } from "./loans";
+import { getScheduledEarningsForPeriod } from "./earnings";
+
+// Company name printed on payslip documents
+const COMPANY_NAME = process.env.COMPANY_NAME || "HR Manager";
+
+export interface PayslipCalculationInput {
+  hoursWorked: number;
+  overtimeHours: number;
+  doubleTimeHours?: number;
+  adjustments: PayslipAdjustment[];
+  payFrequency: PayFrequency;
+  payPeriodFrom?: Date;
+  payPeriodTo?: Date;
+  // Adds the employee's pending retro pay as earning lines
+  includeRetroPay?: boolean;
+}
+
+export interface PayRunPreviewItem {
+  employee: EmployeeWithRole;
+  calculation: PayslipResult;
+  warnings: string[];
+  // The employee already has a non-void payslip for an overlapping period
+  overlapsExistingPayslip: boolean;
+}
+
+export interface PayRunPreview {
+  payPeriodFrom: Date;
+  payPeriodTo: Date;
+  payFrequency: PayFrequency;
+  payScheduleId: number | null;
+  items: PayRunPreviewItem[];
+  totals: {
+    employeeCount: number;
+    totalGross: number;
+    totalTax: number;
+    totalDeductions: number;
+    totalNet: number;
+  };
+}
+
+// Build the domain employee object for an employee record using the factory pattern
+export function toDomainEmployee(employeeWithRole: EmployeeWithRole): BaseEmployee {
+  const roleObj = toDomainRole(employeeWithRole.role);
+
+  return EmployeeFactory.createEmployee(
+    employeeWithRole.id,
+    employeeWithRole.firstName,
+    employeeWithRole.lastName,
+    employeeWithRole.email,
+    employeeWithRole.type,
+    roleObj,
+    employeeWithRole.startDate,
+    Compensation.fromRecord(employeeWithRole),
+    employeeWithRole.isExempt
+  );
+}
+
+export function toDomainRole(role: EmployeeWithRole["role"]): Role {
+  return new Role(
+    role.id,
+    role.title,
+    role.description,
+    role.department,
+    role.level,
+    parseFloat(role.minSalary),
+    parseFloat(role.maxSalary),
+    role.responsibilities,
+    role.payBasis as PayBasis,
+    role.isExempt,
+    role.currency
+  );
+}
+
+// Days are counted on the proration basis of the employee's pay schedule
+function prorationCalculatorFor(employee: EmployeeWithRole, paySchedules: PaySchedule[]): ProrationCalculator {
+  const basis = (resolvePaySchedule(employee, paySchedules)?.prorationBasis ?? "working-days") as ProrationBasis;
+  return new ProrationCalculator(basis);
+}
+
+// Share of the period the employee is owed
+async function calculateProration(
+  employee: EmployeeWithRole,
+  period: DateRange,
+  prorationCalculator: ProrationCalculator
+): Promise<ProrationResult> {
+  const unpaidLeave = await storage.getUnpaidLeavesByEmployee(employee.id, period.startDate, period.endDate);
+
+  return prorationCalculator.calculate(period, {
+    startDate: PayCalendar.formatDate(employee.startDate),
+    terminationDate: employee.terminationDate ? PayCalendar.formatDate(employee.terminationDate) : null,
+  }, unpaidLeave);
+}
+
+// The rate in effect on each day of the period, split wherever the employee's pay changed
+async function calculateCompensationSegments(
+  employee: EmployeeWithRole,
+  period: DateRange,
+  prorationCalculator: ProrationCalculator
+): Promise<CompensationSegment[]> {
+  const timeline = await getCompensationTimeline(employee);
+  return timeline.segmentsFor(period, range => prorationCalculator.countDays(range));
+}
+
+// Runs the payslip calculator for one employee with the period's tax tables, overtime policy and benefits.
+// With a whole pay period, salaried pay is prorated to the days owed, each day at the rate in effect on it.
+export async function calculateEmployeePayslip(
+  employeeWithRole: EmployeeWithRole,
+  input: PayslipCalculationInput,
+  taxTables?: TaxTable[],
+  paySchedules?: PaySchedule[],
+  overtimePolicies?: OvertimePolicy[]
+): Promise<PayslipResult> {
+  const employee = toDomainEmployee(employeeWithRole);
+
+  // Withholding uses the tax tables for the year the period ends in
+  const taxYear = taxYearOf({ payPeriodTo: input.payPeriodTo ?? new Date() });
+  const [tables, taxProfile, schedules, policies, retroPay] = await Promise.all([
+    taxTables ? Promise.resolve(taxTables) : storage.getTaxTables(),
+    storage.getEmployeeTaxProfile(employeeWithRole.id),
+    paySchedules ? Promise.resolve(paySchedules) : storage.getPaySchedules(),
+    overtimePolicies ? Promise.resolve(overtimePolicies) : storage.getOvertimePolicies(),
+    input.includeRetroPay ? storage.getRetroPayAdjustmentsByEmployee(employeeWithRole.id, "pending") : Promise.resolve([]),
+  ]);
+  // Without a period, benefits, garnishments, loans and bonuses are those in effect today
+  const today = PayCalendar.formatDate(new Date());
+  const period = input.payPeriodFrom && input.payPeriodTo
+    ? { startDate: PayCalendar.formatDate(input.payPeriodFrom), endDate: PayCalendar.formatDate(input.payPeriodTo) }
+    : undefined;
+  const [benefits, garnishments, loans, earnings] = await Promise.all([
+    getBenefitElections(employeeWithRole.id, period ?? { startDate: today, endDate: today }),
+    getGarnishmentsForPeriod(employeeWithRole.id, period ?? { startDate: today, endDate: today }),
+    getLoanInstallmentsForPeriod(employeeWithRole.id, period ?? { startDate: today, endDate: today }),
+    getScheduledEarningsForPeriod(employeeWithRole.id, period ?? { startDate: today, endDate: today }),
+  ]);
+
+  let proration: ProrationResult | undefined;
+  let compensationSegments: CompensationSegment[] | undefined;
+  if (period) {
+    const prorationCalculator = prorationCalculatorFor(employeeWithRole, schedules);
+    [proration, compensationSegments] = await Promise.all([
+      calculateProration(employeeWithRole, period, prorationCalculator),
+      calculateCompensationSegments(employeeWithRole, period, prorationCalculator),
+    ]);
+  }
+  const taxWithholding = TaxWithholdingFactory.createEngine(
+    tables,
+    taxYear,
+    input.payFrequency,
+    toTaxProfile(taxProfile)
+  );
+  const { policy } = resolveOvertimePolicy(employeeWithRole, employeeWithRole.role, policies);
+
+  // Use abstract payslip calculator
+  const calculator = PayslipCalculatorFactory.createCalculator(employee, {
+    taxWithholding,
+    periodsPerYear: periodsPerYear[input.payFrequency],
+    proration,
+    compensationSegments,
+    overtimeRules: policy ? OvertimeRules.fromRecord(policy) : OvertimeRules.standard(),
+    benefits,
+    garnishments,
+    loans,
+    earnings,
+  });
+  const adjustments = [...retroPay.map(arrears => RetroPayCalculator.toAdjustment(arrears)), ...input.adjustments];
+  return calculator.calculatePayslip(input.hoursWorked, input.overtimeHours, adjustments, input.doubleTimeHours ?? 0);
+}
+
+// Converts a calculation into the payslip header and lines that storage persists
+export function toPayslipRecords(
+  employeeId: number,
+  payPeriodFrom: Date,
+  payPeriodTo: Date,
+  result: PayslipResult
+): { payslip: InsertPayslip; lines: InsertPayslipLine[] } {
+  return {
+    payslip: {
+      employeeId,
+      payPeriodFrom,
+      payPeriodTo,
+      hoursWorked: result.hoursWorked.toString(),
+      overtimeHours: result.overtimeHours.toString(),
+      doubleTimeHours: result.doubleTimeHours.toString(),
+      basePay: result.basePay.toFixed(2),
+      overtimePay: result.overtimePay.toFixed(2),
+      taxWithheld: result.taxWithheld.toFixed(2),
+      deductions: result.deductions.toFixed(2),
+      grossPay: result.grossPay.toFixed(2),
+      netPay: result.netPay.toFixed(2),
+      retirementContributions: result.retirementContributions.toFixed(2),
+      employerRetirementContributions: result.employerRetirementContributions.toFixed(2),
+      status: "draft",
+    },
+    lines: result.lines.map((line, index) => ({
+      type: line.type,
+      code: line.code,
+      description: line.description,
+      hours: line.hours !== undefined ? line.hours.toString() : null,
+      amount: line.amount.toFixed(2),
+      preTax: line.preTax ?? false,
+      benefitPlanId: line.benefitPlanId ?? null,
+      garnishmentOrderId: line.garnishmentOrderId ?? null,
+      loanId: line.loanId ?? null,
+      earningId: line.earningId ?? null,
+      supplemental: line.supplemental ?? false,
+      sortOrder: index,
+    })),
+  };
+}
+
+// Active employees are paid, as is anyone whose termination date falls in or after the period;
+// nobody is paid for a period that ends before they start
+function isPayableInPeriod(employee: EmployeeWithRole, from: Date, to: Date): boolean {
+  if (employee.startDate > to) return false;
+  if (employee.terminationDate) return employee.terminationDate >= from;
+  return employee.status === "active";
+}
+
+// Calculates a payslip for every payable employee without persisting anything
+export async function previewPayRun(request: PayRunRequest): Promise<PayRunPreview> {
+  const [employees, taxTables, paySchedules, overtimePolicies] = await Promise.all([
+    storage.getEmployees(),
+    storage.getTaxTables(),
+    storage.getPaySchedules(),
+    storage.getOvertimePolicies(),
+  ]);
+
+  // A run for one pay schedule pays only that schedule's employees, at its frequency
+  const paySchedule = paySchedules.find(schedule => schedule.id === request.payScheduleId);
+  const payFrequency = paySchedule ? paySchedule.frequency as PayFrequency : request.payFrequency;
+  const activeEmployees = employees.filter(employee =>
+    isPayableInPeriod(employee, request.payPeriodFrom, request.payPeriodTo) &&
+    (!paySchedule || resolvePaySchedule(employee, paySchedules)?.id === paySchedule.id)
+  );
+  const taxYear = taxYearOf(request);
+  const items: PayRunPreviewItem[] = [];
+
+  for (const employeeWithRole of activeEmployees) {
+    const entry = request.entries.find(e => e.employeeId === employeeWithRole.id);
+    const warnings: string[] = [];
+
+    let hoursWorked = entry?.hoursWorked;
+    if (hoursWorked === undefined) {
+      if (employeeWithRole.type === "full-time") {
+        hoursWorked = standardHoursPerPeriod(payFrequency, parseFloat(employeeWithRole.standardHoursPerWeek));
+      } else {
+        hoursWorked = 0;
+        warnings.push("No hours entered for part-time employee");
+      }
+    }
+
+    const [calculation, taxProfile, existingPayslips] = await Promise.all([
+      calculateEmployeePayslip(employeeWithRole, {
+        hoursWorked,
+        overtimeHours: entry?.overtimeHours ?? 0,
+        doubleTimeHours: entry?.doubleTimeHours ?? 0,
+        adjustments: entry?.adjustments ?? [],
+        payFrequency,
+        payPeriodFrom: request.payPeriodFrom,
+        payPeriodTo: request.payPeriodTo,
+        includeRetroPay: true,
+      }, taxTables, paySchedules, overtimePolicies),
+      storage.getEmployeeTaxProfile(employeeWithRole.id),
+      storage.getPayslipsByEmployee(employeeWithRole.id),
+    ]);
+
+    if (!taxProfile) {
+      warnings.push("No tax profile on file; withholding as single with no allowances");
+    }
+    const employeeSchedule = resolvePaySchedule(employeeWithRole, paySchedules);
+    if (employeeSchedule && employeeSchedule.frequency !== payFrequency) {
+      warnings.push(`Employee is paid ${employeeSchedule.frequency} on the ${employeeSchedule.name} schedule`);
+    }
+    if (!TaxWithholdingFactory.selectTable(taxTables, "federal", taxProfile?.filingStatus ?? "single", taxYear)) {
+      warnings.push(`No federal tax table for ${taxYear}; no income tax withheld`);
+    }
+    const overlapsExistingPayslip = new PayslipHistory(existingPayslips).overlaps(request.payPeriodFrom, request.payPeriodTo);
+    if (overlapsExistingPayslip) {
+      warnings.push("A payslip already exists for an overlapping pay period");
+    }
+    const enteredOvertime = (entry?.overtimeHours ?? 0) > 0 || (entry?.doubleTimeHours ?? 0) > 0;
+    if (enteredOvertime && resolveOvertimePolicy(employeeWithRole, employeeWithRole.role, overtimePolicies).isExempt) {
+      warnings.push("Employee is exempt from overtime; overtime hours are paid as regular hours");
+    }
+    if (!toDomainRole(employeeWithRole.role).isCompensationInRange(Compensation.fromRecord(employeeWithRole))) {
+      warnings.push(`Salary is outside the ${employeeWithRole.role.title} range`);
+    }
+    if (calculation.lines.filter(line => line.code === "REGULAR").length > 1) {
+      warnings.push("Pay changed during the period; regular pay is split at the effective date");
+    }
+    const retroLines = calculation.lines.filter(line => line.code === "RETRO");
+    if (retroLines.length > 0) {
+      const retroTotal = roundCurrency(retroLines.reduce((total, line) => total + line.amount, 0));
+      warnings.push(`Includes ${retroTotal.toFixed(2)} retro pay for ${retroLines.length} earlier period(s)`);
+    }
+    const prorationLine = calculation.lines.find(line => line.code === "PRORATION");
+    if (prorationLine) {
+      warnings.push(`${prorationLine.description} applied to base pay`);
+    }
+    const domainEmployee = toDomainEmployee(employeeWithRole);
+    if (!domainEmployee.isEligibleForBenefits() &&
+        (await storage.getBenefitEnrollmentsByEmployee(employeeWithRole.id, PayCalendar.formatDate(request.payPeriodFrom), PayCalendar.formatDate(request.payPeriodTo))).length > 0) {
+      warnings.push(`Employee is not eligible for benefits as ${domainEmployee.getEmployeeType()}; enrolled plans are not deducted`);
+    }
+    if (calculation.grossPay <= 0) {
+      warnings.push("Gross pay is zero");
+    }
+    if (calculation.netPay < 0) {
+      warnings.push("Net pay is negative");
+    }
+
+    items.push({ employee: employeeWithRole, calculation, warnings, overlapsExistingPayslip });
+  }
+
+  const sum = (pick: (result: PayslipResult) => number) =>
+    roundCurrency(items.reduce((total, item) => total + pick(item.calculation), 0));
+
+  return {
+    payPeriodFrom: request.payPeriodFrom,
+    payPeriodTo: request.payPeriodTo,
+    payFrequency,
+    payScheduleId: paySchedule?.id ?? null,
+    items,
+    totals: {
+      employeeCount: items.length,
+      totalGross: sum(result => result.grossPay),
+      totalTax: sum(result => result.taxWithheld),
+      totalDeductions: sum(result => result.deductions),
+      totalNet: sum(result => result.netPay),
+    },
+  };
+}
+
+// Moves a payslip through approve, pay or void, stamping who did it and when
+export async function transitionPayslip(
+  id: number,
+  transition: Exclude<PayslipTransition, "reissue">,
+  actor: string,
+  reason?: string
+): Promise<Payslip | undefined> {
+  const payslip = await storage.getPayslip(id);
+  if (!payslip) return undefined;
+
+  PayslipStateMachine.assertTransition(payslip.status, transition);
+  const updated = await storage.transitionPayslip(
+    id,
+    payslip.status,
+    PayslipStateMachine.stamp(transition, actor, new Date(), reason)
+  );
+
+  // Someone else moved the payslip on between our read and write
+  if (!updated) {
+    const current = await storage.getPayslip(id);
+    throw new InvalidPayslipTransitionError(current?.status ?? "deleted", transition);
+  }
+
+  // A voided payslip drops out of the year-to-date totals of the payslips after it
+  if (transition === "void") {
+    await refreshYearToDate(updated.employeeId, taxYearOf(updated));
+    await releaseRetroPay(updated);
+  }
+
+  return updated;
+}
+
+// Creates a draft copy of a voided payslip; the original stays void for the audit trail
+export async function reissuePayslip(id: number): Promise<Payslip | undefined> {
+  const payslip = await storage.getPayslip(id);
+  if (!payslip) return undefined;
+
+  PayslipStateMachine.assertTransition(payslip.status, "reissue");
+
+  const siblings = await storage.getPayslipsByEmployee(payslip.employeeId);
+  if (siblings.some(sibling => sibling.reissuedFromId === id)) {
+    throw new InvalidPayslipTransitionError("already reissued", "reissue");
+  }
+
+  // The replacement stands in for the voided original, so it may cover the same period. It counts
+  // again toward any later payslips in the year and pays again any retro pay the original carried
+  const lines = payslip.lines.map(({ id: _id, payslipId: _payslipId, ...line }) => ({ ...line, type: line.type as PayslipLineType }));
+  return await storage.commitPayslip({
+    payslip: {
+      employeeId: payslip.employeeId,
+      payPeriodFrom: payslip.payPeriodFrom,
+      payPeriodTo: payslip.payPeriodTo,
+      hoursWorked: payslip.hoursWorked,
+      overtimeHours: payslip.overtimeHours,
+      doubleTimeHours: payslip.doubleTimeHours,
+      basePay: payslip.basePay,
+      overtimePay: payslip.overtimePay,
+      taxWithheld: payslip.taxWithheld,
+      deductions: payslip.deductions,
+      grossPay: payslip.grossPay,
+      netPay: payslip.netPay,
+      retirementContributions: payslip.retirementContributions,
+      employerRetirementContributions: payslip.employerRetirementContributions,
+      status: "draft",
+      reissuedFromId: payslip.id,
+    },
+    lines,
+    retroPayAdjustmentIds: await findSettledRetroPay(payslip.employeeId, lines.map(line => ({ ...line, amount: parseFloat(line.amount) }))),
+  }, true);
+}
+
+// Recalculates the employee's paid payslips that cover days on or after a back-dated pay change
+// and records what each period is owed as pending retro pay. Overpaid periods get a negative amount.
+export async function calculateRetroPay(change: CompensationChange): Promise<RetroPayAdjustment[]> {
+  const employeeWithRole = await storage.getEmployee(change.employeeId);
+  if (!employeeWithRole) return [];
+
+  const [employeePayslips, recorded, taxTables, paySchedules, overtimePolicies] = await Promise.all([
+    storage.getPayslipsByEmployee(change.employeeId),
+    storage.getRetroPayAdjustmentsByEmployee(change.employeeId),
+    storage.getTaxTables(),
+    storage.getPaySchedules(),
+    storage.getOvertimePolicies(),
+  ]);
+  const affected = employeePayslips.filter(payslip =>
+    PayslipStateMachine.normalize(payslip.status) === "paid" &&
+    PayCalendar.formatDate(payslip.payPeriodTo) >= change.effectiveDate
+  );
+
+  const adjustments: RetroPayAdjustment[] = [];
+  for (const summary of affected) {
+    const payslip = await storage.getPayslip(summary.id);
+    if (!payslip) continue;
+
+    // Recalculate at the frequency the period was paid at
+    const payRun = payslip.payRunId ? await storage.getPayRun(payslip.payRunId) : undefined;
+    const payFrequency = (payRun?.payFrequency ??
+      resolvePaySchedule(employeeWithRole, paySchedules)?.frequency ?? "monthly") as PayFrequency;
+
+    const recalculated = await calculateEmployeePayslip(employeeWithRole, {
+      hoursWorked: parseFloat(payslip.hoursWorked),
+      overtimeHours: parseFloat(payslip.overtimeHours),
+      doubleTimeHours: parseFloat(payslip.doubleTimeHours),
+      adjustments: [],
+      payFrequency,
+      payPeriodFrom: payslip.payPeriodFrom,
+      payPeriodTo: payslip.payPeriodTo,
+    }, taxTables, paySchedules, overtimePolicies);
+
+    const alreadyOwed = recorded
+      .filter(adjustment => adjustment.payslipId === payslip.id && adjustment.status !== "cancelled")
+      .reduce((total, adjustment) => total + parseFloat(adjustment.amount), 0);
+    const arrears = RetroPayCalculator.arrears(
+      payslip.lines.map(line => ({ ...line, type: line.type as PayslipLineType, amount: parseFloat(line.amount) })),
+      recalculated.lines,
+      alreadyOwed
+    );
+    if (arrears.amount === 0) continue;
+
+    adjustments.push(await storage.createRetroPayAdjustment({
+      employeeId: change.employeeId,
+      compensationChangeId: change.id,
+      payslipId: payslip.id,
+      payPeriodFrom: payslip.payPeriodFrom,
+      payPeriodTo: payslip.payPeriodTo,
+      paidAmount: arrears.paidAmount.toFixed(2),
+      recalculatedAmount: arrears.recalculatedAmount.toFixed(2),
+      amount: arrears.amount.toFixed(2),
+    }));
+  }
+
+  return adjustments;
+}
+
+// The pending retro pay a new payslip's Retro Pay lines settle, to be marked as applied when it is
+// saved. Each line settles the pending arrears it was generated from, so lines removed before
+// saving leave their arrears pending.
+export async function findSettledRetroPay(employeeId: number, lines: Pick<PayslipLineItem, "code" | "description" | "amount">[]): Promise<number[]> {
+  const retroLines = lines.filter(line => line.code === "RETRO");
+  if (retroLines.length === 0) return [];
+
+  const pending = await storage.getRetroPayAdjustmentsByEmployee(employeeId, "pending");
+  const settled: number[] = [];
+  for (const line of retroLines) {
+    const index = pending.findIndex(arrears => {
+      const expected = RetroPayCalculator.toAdjustment(arrears);
+      return expected.description === line.description && expected.amount === roundCurrency(line.amount);
+    });
+    if (index === -1) continue;
+
+    const [arrears] = pending.splice(index, 1);
+    settled.push(arrears.id);
+  }
+  return settled;
+}
+
+// A voided payslip no longer pays the retro pay it carried, which goes back to pending; and if
+// it was a period recalculated for retro pay, the arrears still pending for it are cancelled.
+export async function releaseRetroPay(payslip: Pick<Payslip, "id" | "employeeId">): Promise<void> {
+  const adjustments = await storage.getRetroPayAdjustmentsByEmployee(payslip.employeeId);
+
+  for (const adjustment of adjustments) {
+    if (adjustment.status === "applied" && adjustment.appliedPayslipId === payslip.id) {
+      await storage.updateRetroPayAdjustment(adjustment.id, { status: "pending", appliedPayslipId: null });
+    } else if (adjustment.status === "pending" && adjustment.payslipId === payslip.id) {
+      await storage.updateRetroPayAdjustment(adjustment.id, { status: "cancelled" });
+    }
+  }
+}
+
+// Payslips belong to the tax year their period ends in, as for withholding
+export function taxYearOf(payslip: Pick<Payslip, "payPeriodTo">): number {
+  return PayslipHistory.taxYearOf(payslip);
+}
+
+// Year-to-date totals for a calculation that has not been saved, e.g. on the payslip preview
+export async function previewYearToDate(employeeId: number, payPeriodTo: Date, result: PayslipResult): Promise<YearToDateTotals> {
+  const history = new PayslipHistory(await storage.getPayslipsByEmployee(employeeId));
+  return history.yearToDate({
+    id: UNSAVED_PAYSLIP_ID,
+    status: "draft",
+    payPeriodTo,
+    grossPay: result.grossPay.toFixed(2),
+    taxWithheld: result.taxWithheld.toFixed(2),
+    deductions: result.deductions.toFixed(2),
+    netPay: result.netPay.toFixed(2),
+    retirementContributions: result.retirementContributions.toFixed(2),
+    employerRetirementContributions: result.employerRetirementContributions.toFixed(2),
+  });
+}
+
+// Recomputes the stored totals of the employee's non-void payslips in a tax year. Run after a payslip
+// is voided or deleted, so later payslips stop counting it.
+export async function refreshYearToDate(employeeId: number, taxYear: number): Promise<void> {
+  const history = new PayslipHistory(await storage.getPayslipsByEmployee(employeeId));
+  for (const { id, totals } of history.staleYearToDate(taxYear)) {
+    await storage.updatePayslipYearToDate(id, totals);
+  }
+}
+
+// Gathers the payslip, role and year-to-date figures the PDF renderer prints
+export async function buildPayslipDocument(id: number): Promise<PayslipDocumentData | undefined> {
+  const payslip = await storage.getPayslip(id);
+  if (!payslip) return undefined;
+
+  const [employeeWithRole, employeePayslips] = await Promise.all([
+    storage.getEmployee(payslip.employeeId),
+    storage.getPayslipsByEmployee(payslip.employeeId),
+  ]);
+  if (!employeeWithRole) return undefined;
+
+  return {
+    companyName: COMPANY_NAME,
+    payslip,
+    role: employeeWithRole.role,
+    yearToDate: PayslipHistory.fromColumns(payslip) ?? new PayslipHistory(employeePayslips).yearToDate(payslip),
+  };
+}
+
+export async function renderPayslipPdf(id: number): Promise<Buffer | undefined> {
+  const document = await buildPayslipDocument(id);
+  if (!document) return undefined;
+
+  return await new PayslipPdfRenderer().render(document);
+}
+
+// Bulk export: every payslip in the list, one per page, in a single PDF
+export async function renderPayslipsPdf(ids: number[]): Promise<Buffer> {
+  const documents: PayslipDocumentData[] = [];
+  for (const id of ids) {
+    const document = await buildPayslipDocument(id);
+    if (document) documents.push(document);
+  }
+
+  return await new PayslipPdfRenderer().renderMany(documents);
+}
+
+// Emails one payslip and records the attempt, whether it succeeded or failed
+export async function deliverPayslip(id: number): Promise<PayslipDelivery | undefined> {
+  const document = await buildPayslipDocument(id);
+  if (!document) return undefined;
+
+  const recipient = document.payslip.employee.email;
+  try {
+    const pdf = await new PayslipPdfRenderer().render(document);
+    const messageId = await getPayslipMailer().send(document, pdf);
+    return await storage.createPayslipDelivery({ payslipId: id, recipient, status: "sent", messageId });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return await storage.createPayslipDelivery({ payslipId: id, recipient, status: "failed", error: message });
+  }
+}
+
+// Emails every non-void payslip in a pay run, one at a time so a failure does not stop the rest
+export async function deliverPayRun(id: number): Promise<{ sent: number; failed: number; skipped: number; deliveries: PayslipDelivery[] } | undefined> {
+  const payRun = await storage.getPayRun(id);
+  if (!payRun) return undefined;
+
+  const deliveries: PayslipDelivery[] = [];
+  let skipped = 0;
+
+  for (const payslip of payRun.payslips) {
+    if (PayslipStateMachine.normalize(payslip.status) === "void") {
+      skipped++;
+      continue;
+    }
+
+    const delivery = await deliverPayslip(payslip.id);
+    if (delivery) deliveries.push(delivery);
+  }
+
+  return {
+    sent: deliveries.filter(delivery => delivery.status === "sent").length,
+    failed: deliveries.filter(delivery => delivery.status === "failed").length,
+    skipped,
+    deliveries,
+  };
+}
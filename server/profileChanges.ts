@@ -0,0 +1,40 @@
+import { storage } from "./storage";
+import { ProfileChangeSet, ProfileChangeRequestClosedError } from "./classes/ProfileChangeSet";
+import type { ProfileChangeRequest, ProfileUpdate } from "@shared/schema";
+
+// Records an employee's requested profile edit for HR review. An employee has at most one
+// pending request; submitting again replaces its changes rather than queueing a second one.
+export async function submitProfileChange(employeeId: number, update: ProfileUpdate, actor: string): Promise<ProfileChangeRequest | undefined> {
+  const employee = await storage.getEmployee(employeeId);
+  if (!employee) return undefined;
+
+  const changes = ProfileChangeSet.diff(employee, update);
+
+  const pending = (await storage.getProfileChangeRequestsByEmployee(employeeId))
+    .find(request => request.status === "pending");
+  if (pending) {
+    return await storage.updateProfileChangeRequest(pending.id, { changes, requestedBy: actor });
+  }
+
+  return await storage.createProfileChangeRequest({ employeeId, changes, requestedBy: actor });
+}
+
+// Approving applies the requested values to the employee; rejecting leaves the profile as it is.
+// Either way the request is kept, with its before/after values, as profile history.
+export async function reviewProfileChange(id: number, decision: "approved" | "rejected", actor: string, note?: string): Promise<ProfileChangeRequest | undefined> {
+  const request = await storage.getProfileChangeRequest(id);
+  if (!request) return undefined;
+  if (request.status !== "pending") {
+    throw new ProfileChangeRequestClosedError(id, request.status);
+  }
+
+  const review = { status: decision, reviewedBy: actor, reviewedAt: new Date(), reviewNote: note || null };
+  const employeeUpdate = decision === "approved" ? ProfileChangeSet.toEmployeeUpdate(request.changes) : undefined;
+
+  const reviewed = await storage.reviewProfileChangeRequest(id, review, employeeUpdate);
+  if (!reviewed) {
+    // Someone else reviewed it between the read and the update
+    throw new ProfileChangeRequestClosedError(id, "reviewed");
+  }
+  return reviewed;
+}
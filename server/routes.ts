@@ -1,14 +1,84 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertRoleSchema, insertEmployeeSchema, insertPayslipSchema } from "@shared/schema";
-import { EmployeeFactory } from "./classes/Employee";
-import { Role } from "./classes/Role";
-import { PayslipCalculatorFactory } from "./classes/PayslipCalculator";
+import { z } from "zod";
+import { insertUserSchema, updateUserSchema, insertRoleSchema, insertPayScheduleSchema, insertOvertimePolicySchema, insertEmployeeSchema, insertTaxTableSchema, insertEmployeeTaxProfileSchema, createPayslipWithLinesSchema, payslipAdjustmentSchema, payRunRequestSchema, timeEntryInputSchema, unpaidLeaveInputSchema, insertBenefitPlanSchema, benefitEnrollmentInputSchema, benefitEnrollmentUpdateSchema, garnishmentOrderInputSchema, garnishmentOrderUpdateSchema, loanInputSchema, loanUpdateSchema, scheduledEarningInputSchema, scheduledEarningUpdateSchema, earningImportSchema, compensationChangeInputSchema, compensationChangeDetailsSchema, profileUpdateSchema, profileChangeReviewSchema, payFrequencies, payBasisUnits, type CompensationChangeResult, type PayFrequency, type PayBasis, type Role, type TaxTable } from "@shared/schema";
+import { hashPassword, toSafeUser } from "./auth";
+import { can, requireEmployeeAccess, requireLinkedEmployee, requirePermission } from "./authorization";
+import { Compensation, type CompensationRecord } from "./classes/Compensation";
+import { PayslipReconciler } from "./classes/PayslipLines";
+import { InvalidPayslipTransitionError, PayslipLockedError, PayslipStateMachine } from "./classes/PayslipStatus";
+import { OverlappingPayslipError } from "./classes/PayslipHistory";
+import { InvalidTimeEntryError, OverlappingTimeEntryError, TimeEntryLockedError } from "./classes/TimeSheet";
+import { calculateEmployeePayslip, calculateRetroPay, releaseRetroPay, toDomainEmployee, toDomainRole, deliverPayRun, deliverPayslip, findSettledRetroPay, previewPayRun, previewYearToDate, refreshYearToDate, reissuePayslip, renderPayslipPdf, renderPayslipsPdf, taxYearOf, toPayslipRecords, transitionPayslip } from "./payroll";
+import { NoProfileChangesError, ProfileChangeRequestClosedError } from "./classes/ProfileChangeSet";
+import { reviewProfileChange, submitProfileChange } from "./profileChanges";
+import { mergeCompensation, recordCompensationChange, recordHireCompensation, syncCurrentCompensation, updateEmployee } from "./compensation";
+import { createPaySchedule, getEmployeePaySchedule, getPayCalendar, updatePaySchedule } from "./paySchedules";
+import { createOvertimePolicy, getEmployeeOvertimePolicy, getEmployeeOvertimeRules, updateOvertimePolicy } from "./overtimePolicies";
+import { BenefitEligibilityError, InactiveBenefitPlanError, InvalidBenefitEnrollmentError, OverlappingBenefitEnrollmentError } from "./classes/Benefits";
+import { enrollEmployee, getBenefitEnrollments, updateEnrollment } from "./benefits";
+import { GarnishmentOrderInUseError, InvalidGarnishmentOrderError } from "./classes/Garnishments";
+import { createGarnishmentOrder, deleteGarnishmentOrder, getGarnishmentOrders, updateGarnishmentOrder } from "./garnishments";
+import { LoanInUseError } from "./classes/Loans";
+import { createLoan, deleteLoan, getLoans, updateLoan } from "./loans";
+import { InvalidScheduledEarningError, ScheduledEarningInUseError } from "./classes/ScheduledEarnings";
+import { createScheduledEarning, deleteScheduledEarning, getScheduledEarnings, importEarnings, updateScheduledEarning } from "./earnings";
+import { deleteTimeEntry, getPayPeriodTimesheet, reviewTimeEntry, saveTimeEntry, type PayPeriodTimesheet } from "./timesheets";
+
+function parseOptionalDecimal(value?: string | null): number | undefined {
+  return value === undefined || value === null ? undefined : parseFloat(value);
+}
+
+// Payslips an employee can see on their own; drafts stay with payroll until approved
+const releasedPayslipStatuses: readonly string[] = ["approved", "paid"];
+
+// Pay must be in the role's currency and fall inside its range once converted to the basis
+// the range is quoted in
+function compensationRangeError(role: Role, compensation: CompensationRecord): string | undefined {
+  if (toDomainRole(role).isCompensationInRange(Compensation.fromRecord(compensation))) return undefined;
+  if (compensation.currency !== role.currency) {
+    return `Pay must be in ${role.currency} for this role`;
+  }
+  return `Pay must be between ${role.minSalary} and ${role.maxSalary} ${role.currency} ${payBasisUnits[role.payBasis as PayBasis]} for this role`;
+}
+
+// Only one tax table may exist per tax year, jurisdiction and filing status, or withholding
+// could pick either of them
+type TaxTableKey = Pick<TaxTable, "taxYear" | "jurisdiction" | "filingStatus">;
+
+async function findConflictingTaxTable(key: TaxTableKey, excludeId?: number): Promise<TaxTable | undefined> {
+  return (await storage.getTaxTables()).find(table =>
+    table.id !== excludeId &&
+    table.taxYear === key.taxYear &&
+    table.jurisdiction === key.jurisdiction &&
+    table.filingStatus === key.filingStatus
+  );
+}
+
+function taxTableConflictMessage(key: TaxTableKey): string {
+  return `A ${key.taxYear} ${key.jurisdiction} tax table for ${key.filingStatus} filers already exists`;
+}
+
+// Name recorded in who/when stamps
+function getActor(req: Request): string {
+  return req.user?.username ?? "system";
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Employee pay fields are read as the current pay, so future-dated changes that have
+  // since taken effect are applied before any request reads them
+  app.use("/api", async (req, res, next) => {
+    try {
+      await syncCurrentCompensation();
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Stats endpoint
-  app.get("/api/stats", async (req, res) => {
+  app.get("/api/stats", requirePermission("dashboard:view"), async (req, res) => {
     try {
       const stats = await storage.getStats();
       res.json(stats);
@@ -17,8 +87,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // User routes
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toSafeUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const validation = insertUserSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid user data", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getUserByUsername(validation.data.username);
+      if (existing) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      if (validation.data.employeeId) {
+        const employee = await storage.getEmployee(validation.data.employeeId);
+        if (!employee) {
+          return res.status(400).json({ message: "Invalid employee ID" });
+        }
+
+        const users = await storage.getUsers();
+        if (users.some(user => user.employeeId === validation.data.employeeId)) {
+          return res.status(409).json({ message: "Employee already has a user account" });
+        }
+      }
+
+      const user = await storage.createUser({
+        ...validation.data,
+        password: await hashPassword(validation.data.password),
+      });
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.put("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = updateUserSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid user data", errors: validation.error.errors });
+      }
+
+      // Keep at least one administrator able to manage users
+      if (id === req.user?.id && validation.data.accessRole && validation.data.accessRole !== "admin") {
+        return res.status(409).json({ message: "You cannot remove your own admin access" });
+      }
+
+      const user = await storage.updateUser(id, validation.data);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toSafeUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
   // Role routes
-  app.get("/api/roles", async (req, res) => {
+  app.get("/api/roles", requirePermission("roles:read"), async (req, res) => {
     try {
       const roles = await storage.getRoles();
       res.json(roles);
@@ -27,7 +164,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/roles/:id", async (req, res) => {
+  app.get("/api/roles/:id", requirePermission("roles:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const role = await storage.getRole(id);
@@ -40,13 +177,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/roles", async (req, res) => {
+  app.post("/api/roles", requirePermission("roles:manage"), async (req, res) => {
     try {
       const validation = insertRoleSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ message: "Invalid role data", errors: validation.error.errors });
       }
 
+      if (validation.data.overtimePolicyId && !(await storage.getOvertimePolicy(validation.data.overtimePolicyId))) {
+        return res.status(400).json({ message: "Invalid overtime policy ID" });
+      }
+
       const role = await storage.createRole(validation.data);
       res.status(201).json(role);
     } catch (error) {
@@ -54,7 +195,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/roles/:id", async (req, res) => {
+  app.put("/api/roles/:id", requirePermission("roles:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validation = insertRoleSchema.partial().safeParse(req.body);
@@ -62,6 +203,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid role data", errors: validation.error.errors });
       }
 
+      if (validation.data.overtimePolicyId && !(await storage.getOvertimePolicy(validation.data.overtimePolicyId))) {
+        return res.status(400).json({ message: "Invalid overtime policy ID" });
+      }
+
       const role = await storage.updateRole(id, validation.data);
       if (!role) {
         return res.status(404).json({ message: "Role not found" });
@@ -72,7 +217,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/roles/:id", async (req, res) => {
+  app.delete("/api/roles/:id", requirePermission("roles:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const deleted = await storage.deleteRole(id);
@@ -85,17 +230,181 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Self-service routes for the signed-in employee. The employee always comes
+  // from the session, never the URL, so one employee cannot reach another's records
+  app.get("/api/me", requireLinkedEmployee, async (req, res) => {
+    try {
+      const employee = await storage.getEmployee(req.user!.employeeId!);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+      res.json(employee);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch employee" });
+    }
+  });
+
+  app.get("/api/me/payslips", requireLinkedEmployee, async (req, res) => {
+    try {
+      const payslips = await storage.getPayslipsByEmployee(req.user!.employeeId!);
+      res.json(payslips
+        .filter(payslip => releasedPayslipStatuses.includes(payslip.status))
+        .sort((a, b) => new Date(b.payPeriodFrom).getTime() - new Date(a.payPeriodFrom).getTime()));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payslips" });
+    }
+  });
+
+  app.get("/api/me/payslips/:id/pdf", requireLinkedEmployee, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payslip = await storage.getPayslip(id);
+      if (!payslip || payslip.employeeId !== req.user!.employeeId || !releasedPayslipStatuses.includes(payslip.status)) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+
+      const pdf = await renderPayslipPdf(id);
+      if (!pdf) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="payslip-${id}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to render payslip PDF" });
+    }
+  });
+
+  app.get("/api/me/loans", requireLinkedEmployee, async (req, res) => {
+    try {
+      const loans = await getLoans(req.user!.employeeId!);
+      res.json(loans);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch loans" });
+    }
+  });
+
+  app.get("/api/me/time-entries", requireLinkedEmployee, async (req, res) => {
+    try {
+      const from = typeof req.query.from === "string" ? req.query.from : undefined;
+      const to = typeof req.query.to === "string" ? req.query.to : undefined;
+      const entries = await storage.getTimeEntriesByEmployee(req.user!.employeeId!, from, to);
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch time entries" });
+    }
+  });
+
+  app.post("/api/me/time-entries", requireLinkedEmployee, async (req, res) => {
+    try {
+      const validation = timeEntryInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid time entry data", errors: validation.error.errors });
+      }
+
+      const entry = await saveTimeEntry(req.user!.employeeId!, validation.data);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof InvalidTimeEntryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof OverlappingTimeEntryError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create time entry" });
+    }
+  });
+
+  app.put("/api/me/time-entries/:entryId", requireLinkedEmployee, async (req, res) => {
+    try {
+      const employeeId = req.user!.employeeId!;
+      const entryId = parseInt(req.params.entryId);
+      const validation = timeEntryInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid time entry data", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getTimeEntry(entryId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+
+      const entry = await saveTimeEntry(employeeId, validation.data, entryId);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof InvalidTimeEntryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof OverlappingTimeEntryError || error instanceof TimeEntryLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update time entry" });
+    }
+  });
+
+  app.delete("/api/me/time-entries/:entryId", requireLinkedEmployee, async (req, res) => {
+    try {
+      const entryId = parseInt(req.params.entryId);
+      const existing = await storage.getTimeEntry(entryId);
+      if (!existing || existing.employeeId !== req.user!.employeeId) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+
+      await deleteTimeEntry(entryId);
+      res.json({ message: "Time entry deleted successfully" });
+    } catch (error) {
+      if (error instanceof TimeEntryLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete time entry" });
+    }
+  });
+
+  app.get("/api/me/profile-change-requests", requireLinkedEmployee, async (req, res) => {
+    try {
+      const requests = await storage.getProfileChangeRequestsByEmployee(req.user!.employeeId!);
+      res.json(requests);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch profile change requests" });
+    }
+  });
+
+  app.post("/api/me/profile-change-requests", requireLinkedEmployee, async (req, res) => {
+    try {
+      const validation = profileUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid profile data", errors: validation.error.errors });
+      }
+
+      const request = await submitProfileChange(req.user!.employeeId!, validation.data, getActor(req));
+      if (!request) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+      res.status(201).json(request);
+    } catch (error) {
+      if (error instanceof NoProfileChangesError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to submit profile changes" });
+    }
+  });
+
   // Employee routes
-  app.get("/api/employees", async (req, res) => {
+  app.get("/api/employees", requirePermission("employees:read", "employees:read-reports"), async (req, res) => {
     try {
       const employees = await storage.getEmployees();
+      // Managers without organization-wide access only see their direct reports
+      if (!can(req, "employees:read")) {
+        return res.json(employees.filter(employee => employee.managerId !== null && employee.managerId === req.user?.employeeId));
+      }
       res.json(employees);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch employees" });
     }
   });
 
-  app.get("/api/employees/:id", async (req, res) => {
+  app.get("/api/employees/:id", requireEmployeeAccess("employees:read", { self: true, reports: true }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const employee = await storage.getEmployee(id);
@@ -108,7 +417,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/employees", async (req, res) => {
+  app.post("/api/employees", requirePermission("employees:manage"), async (req, res) => {
     try {
       const validation = insertEmployeeSchema.safeParse(req.body);
       if (!validation.success) {
@@ -127,28 +436,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid role ID" });
       }
 
-      // Validate salary range for the role
-      const roleObj = new Role(role.id, role.title, role.description, role.department, role.level, parseFloat(role.minSalary), parseFloat(role.maxSalary), role.responsibilities);
-      if (!roleObj.isSalaryInRange(parseFloat(validation.data.salary))) {
-        return res.status(400).json({ message: `Salary must be between ${role.minSalary} and ${role.maxSalary} for this role` });
+      // Validate pay against the role's range
+      const rangeError = compensationRangeError(role, {
+        payBasis: validation.data.payBasis ?? "annual",
+        payAmount: validation.data.payAmount,
+        currency: validation.data.currency ?? "USD",
+        standardHoursPerWeek: validation.data.standardHoursPerWeek ?? "40",
+      });
+      if (rangeError) {
+        return res.status(400).json({ message: rangeError });
+      }
+
+      if (validation.data.managerId && !(await storage.getEmployee(validation.data.managerId))) {
+        return res.status(400).json({ message: "Invalid manager ID" });
+      }
+
+      if (validation.data.payScheduleId && !(await storage.getPaySchedule(validation.data.payScheduleId))) {
+        return res.status(400).json({ message: "Invalid pay schedule ID" });
+      }
+
+      if (validation.data.overtimePolicyId && !(await storage.getOvertimePolicy(validation.data.overtimePolicyId))) {
+        return res.status(400).json({ message: "Invalid overtime policy ID" });
       }
 
       const employee = await storage.createEmployee(validation.data);
+      await recordHireCompensation(employee, getActor(req));
       res.status(201).json(employee);
     } catch (error) {
       res.status(500).json({ message: "Failed to create employee" });
     }
   });
 
-  app.put("/api/employees/:id", async (req, res) => {
+  app.put("/api/employees/:id", requirePermission("employees:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validation = insertEmployeeSchema.partial().safeParse(req.body);
+      const details = compensationChangeDetailsSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ message: "Invalid employee data", errors: validation.error.errors });
       }
+      if (!details.success) {
+        return res.status(400).json({ message: "Invalid employee data", errors: details.error.errors });
+      }
 
-      const employee = await storage.updateEmployee(id, validation.data);
+      const existing = await storage.getEmployee(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      if (validation.data.managerId) {
+        if (validation.data.managerId === id) {
+          return res.status(400).json({ message: "An employee cannot be their own manager" });
+        }
+        if (!(await storage.getEmployee(validation.data.managerId))) {
+          return res.status(400).json({ message: "Invalid manager ID" });
+        }
+      }
+
+      if (validation.data.payScheduleId && !(await storage.getPaySchedule(validation.data.payScheduleId))) {
+        return res.status(400).json({ message: "Invalid pay schedule ID" });
+      }
+
+      if (validation.data.overtimePolicyId && !(await storage.getOvertimePolicy(validation.data.overtimePolicyId))) {
+        return res.status(400).json({ message: "Invalid overtime policy ID" });
+      }
+
+      // A new role or new pay is checked against the role's range
+      const { roleId, payBasis, payAmount, standardHoursPerWeek } = validation.data;
+      if (roleId !== undefined || payBasis !== undefined || payAmount !== undefined || standardHoursPerWeek !== undefined) {
+        const role = roleId !== undefined ? await storage.getRole(roleId) : existing.role;
+        if (!role) {
+          return res.status(400).json({ message: "Invalid role ID" });
+        }
+        const rangeError = compensationRangeError(role, mergeCompensation(existing, validation.data));
+        if (rangeError) {
+          return res.status(400).json({ message: rangeError });
+        }
+      }
+
+      const { employee, compensationChange } = await updateEmployee(existing, validation.data, details.data, getActor(req));
+      // A back-dated raise is owed for the periods already paid
+      if (compensationChange) {
+        await calculateRetroPay(compensationChange);
+      }
       if (!employee) {
         return res.status(404).json({ message: "Employee not found" });
       }
@@ -158,7 +528,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/employees/:id", async (req, res) => {
+  app.delete("/api/employees/:id", requirePermission("employees:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const deleted = await storage.deleteEmployee(id);
@@ -171,8 +541,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Profile change request routes
+  app.get("/api/profile-change-requests", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const requests = await storage.getProfileChangeRequests(status);
+      res.json(requests);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch profile change requests" });
+    }
+  });
+
+  app.get("/api/employees/:id/profile-change-requests", requirePermission("employees:read"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const requests = await storage.getProfileChangeRequestsByEmployee(employeeId);
+      res.json(requests);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch profile change requests" });
+    }
+  });
+
+  app.post("/api/profile-change-requests/:id/approve", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = profileChangeReviewSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid review data", errors: validation.error.errors });
+      }
+
+      const request = await reviewProfileChange(id, "approved", getActor(req), validation.data.note);
+      if (!request) {
+        return res.status(404).json({ message: "Profile change request not found" });
+      }
+      res.json(request);
+    } catch (error) {
+      if (error instanceof ProfileChangeRequestClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to approve profile change request" });
+    }
+  });
+
+  app.post("/api/profile-change-requests/:id/reject", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = profileChangeReviewSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid review data", errors: validation.error.errors });
+      }
+
+      const request = await reviewProfileChange(id, "rejected", getActor(req), validation.data.note);
+      if (!request) {
+        return res.status(404).json({ message: "Profile change request not found" });
+      }
+      res.json(request);
+    } catch (error) {
+      if (error instanceof ProfileChangeRequestClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reject profile change request" });
+    }
+  });
+
   // Payslip routes
-  app.get("/api/payslips", async (req, res) => {
+  app.get("/api/payslips", requirePermission("payroll:read"), async (req, res) => {
     try {
       const payslips = await storage.getPayslips();
       res.json(payslips);
@@ -181,7 +614,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/payslips/:id", async (req, res) => {
+  app.get("/api/payslips/:id", requirePermission("payroll:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const payslip = await storage.getPayslip(id);
@@ -194,82 +627,1286 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/payslips/calculate", async (req, res) => {
+  app.get("/api/payslips/:id/pdf", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pdf = await renderPayslipPdf(id);
+      if (!pdf) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="payslip-${id}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to render payslip PDF" });
+    }
+  });
+
+  app.get("/api/payslips/:id/deliveries", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deliveries = await storage.getPayslipDeliveries(id);
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payslip deliveries" });
+    }
+  });
+
+  app.post("/api/payslips/:id/send", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payslip = await storage.getPayslip(id);
+      if (!payslip) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+      if (payslip.status === "void") {
+        return res.status(409).json({ message: "Voided payslips cannot be sent" });
+      }
+
+      const delivery = await deliverPayslip(id);
+      if (!delivery) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+      if (delivery.status === "failed") {
+        return res.status(502).json({ message: `Failed to send payslip: ${delivery.error}`, delivery });
+      }
+      res.json(delivery);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send payslip" });
+    }
+  });
+
+  app.post("/api/payslips/calculate", requirePermission("payroll:manage"), async (req, res) => {
     try {
-      const { employeeId, hoursWorked, overtimeHours = 0, deductions = 0 } = req.body;
+      const { employeeId, overtimeHours = 0, doubleTimeHours = 0, deductions = 0, adjustments = [], payPeriodFrom, payPeriodTo, useTimeEntries = false } = req.body;
+      let { payFrequency } = req.body;
+      let { hoursWorked } = req.body;
 
-      if (!employeeId || !hoursWorked) {
+      if (!employeeId || (!hoursWorked && !useTimeEntries)) {
         return res.status(400).json({ message: "Employee ID and hours worked are required" });
       }
+      if (useTimeEntries && (!payPeriodFrom || !payPeriodTo)) {
+        return res.status(400).json({ message: "Pay period is required to use time entries" });
+      }
+
+      const adjustmentsValidation = z.array(payslipAdjustmentSchema).safeParse(adjustments);
+      if (!adjustmentsValidation.success) {
+        return res.status(400).json({ message: "Invalid adjustments", errors: adjustmentsValidation.error.errors });
+      }
+
+      // A lump-sum deduction is still accepted and itemized as an "other" deduction
+      const lineAdjustments = [...adjustmentsValidation.data];
+      const lumpDeduction = parseFloat(deductions.toString());
+      if (lumpDeduction > 0) {
+        lineAdjustments.push({ type: "deduction", code: "OTHER_DEDUCTION", amount: lumpDeduction });
+      }
 
       const employeeWithRole = await storage.getEmployee(employeeId);
       if (!employeeWithRole) {
         return res.status(404).json({ message: "Employee not found" });
       }
 
-      // Create employee object using factory pattern
-      const roleObj = new Role(
-        employeeWithRole.role.id,
-        employeeWithRole.role.title,
-        employeeWithRole.role.description,
-        employeeWithRole.role.department,
-        employeeWithRole.role.level,
-        parseFloat(employeeWithRole.role.minSalary),
-        parseFloat(employeeWithRole.role.maxSalary),
-        employeeWithRole.role.responsibilities
-      );
+      // Without an explicit frequency the employee is paid on their own pay schedule
+      if (payFrequency === undefined) {
+        payFrequency = (await getEmployeePaySchedule(employeeWithRole)).frequency;
+      }
+      if (!payFrequencies.includes(payFrequency)) {
+        return res.status(400).json({ message: `Pay frequency must be one of: ${payFrequencies.join(", ")}` });
+      }
 
-      const employee = EmployeeFactory.createEmployee(
-        employeeWithRole.id,
-        employeeWithRole.firstName,
-        employeeWithRole.lastName,
-        employeeWithRole.email,
-        employeeWithRole.type,
-        roleObj,
-        employeeWithRole.startDate,
-        parseFloat(employeeWithRole.salary)
-      );
+      // Approved time entries replace the typed-in hours when requested, split under the
+      // employee's overtime policy
+      let timesheet: PayPeriodTimesheet | undefined;
+      let overtime = parseFloat(overtimeHours.toString());
+      let doubleTime = parseFloat(doubleTimeHours.toString());
+      if (useTimeEntries) {
+        const rules = await getEmployeeOvertimeRules(employeeWithRole);
+        timesheet = await getPayPeriodTimesheet(employeeWithRole.id, new Date(payPeriodFrom), new Date(payPeriodTo), rules);
+        hoursWorked = timesheet.regularHours;
+        overtime = timesheet.overtimeHours;
+        doubleTime = timesheet.doubleTimeHours;
+      }
 
-      // Use abstract payslip calculator
-      const calculator = PayslipCalculatorFactory.createCalculator(employee);
-      const result = calculator.calculatePayslip(
-        parseFloat(hoursWorked.toString()),
-        parseFloat(overtimeHours.toString()),
-        parseFloat(deductions.toString())
-      );
+      const result = await calculateEmployeePayslip(employeeWithRole, {
+        hoursWorked: parseFloat(hoursWorked.toString()),
+        overtimeHours: overtime,
+        doubleTimeHours: doubleTime,
+        adjustments: lineAdjustments,
+        payFrequency: payFrequency as PayFrequency,
+        payPeriodFrom: payPeriodFrom ? new Date(payPeriodFrom) : undefined,
+        payPeriodTo: payPeriodTo ? new Date(payPeriodTo) : undefined,
+        includeRetroPay: true,
+      });
 
-      res.json(result);
+      const yearToDate = payPeriodTo ? await previewYearToDate(employeeWithRole.id, new Date(payPeriodTo), result) : undefined;
+
+      res.json(timesheet
+        ? { ...result, yearToDate, payFrequency, timeEntries: timesheet.entries, pendingTimeEntries: timesheet.pendingEntries }
+        : { ...result, yearToDate, payFrequency });
     } catch (error) {
       res.status(500).json({ message: "Failed to calculate payslip" });
     }
   });
 
-  app.post("/api/payslips", async (req, res) => {
+  app.post("/api/payslips", requirePermission("payroll:manage"), async (req, res) => {
     try {
-      const validation = insertPayslipSchema.safeParse(req.body);
+      const validation = createPayslipWithLinesSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ message: "Invalid payslip data", errors: validation.error.errors });
       }
 
-      const employee = await storage.getEmployee(validation.data.employeeId);
+      const { lines, allowOverlapping, ...header } = validation.data;
+
+      const employee = await storage.getEmployee(header.employeeId);
       if (!employee) {
         return res.status(400).json({ message: "Invalid employee ID" });
       }
 
-      const payslip = await storage.createPayslip(validation.data);
+      // Header totals are derived from the lines; any totals sent by the client must agree with them
+      const lineItems = lines.map(line => ({ ...line, amount: parseFloat(line.amount), hours: parseOptionalDecimal(line.hours) }));
+      const discrepancies = PayslipReconciler.reconcile({
+        basePay: parseOptionalDecimal(header.basePay),
+        overtimePay: parseOptionalDecimal(header.overtimePay),
+        grossPay: parseOptionalDecimal(header.grossPay),
+        taxWithheld: parseOptionalDecimal(header.taxWithheld),
+        deductions: parseOptionalDecimal(header.deductions),
+        netPay: parseOptionalDecimal(header.netPay),
+      }, lineItems);
+      if (discrepancies.length > 0) {
+        return res.status(400).json({ message: "Payslip totals do not reconcile with line items", errors: discrepancies });
+      }
+
+      const totals = PayslipReconciler.summarize(lineItems);
+      // Saving again for a period that has been paid would pay the employee twice
+      const payslip = await storage.commitPayslip({
+        payslip: {
+          ...header,
+          basePay: totals.basePay.toFixed(2),
+          overtimePay: totals.overtimePay.toFixed(2),
+          grossPay: totals.grossPay.toFixed(2),
+          taxWithheld: totals.taxWithheld.toFixed(2),
+          deductions: totals.deductions.toFixed(2),
+          netPay: totals.netPay.toFixed(2),
+          retirementContributions: totals.retirementContributions.toFixed(2),
+          employerRetirementContributions: totals.employerRetirementContributions.toFixed(2),
+        },
+        lines,
+        retroPayAdjustmentIds: await findSettledRetroPay(header.employeeId, lineItems),
+      }, allowOverlapping);
       res.status(201).json(payslip);
     } catch (error) {
+      if (error instanceof OverlappingPayslipError) {
+        return res.status(409).json({ message: error.message, employeeIds: error.employeeIds });
+      }
       res.status(500).json({ message: "Failed to create payslip" });
     }
   });
 
-  app.get("/api/employees/:id/payslips", async (req, res) => {
+  app.delete("/api/payslips/:id", requirePermission("payroll:manage"), async (req, res) => {
     try {
-      const employeeId = parseInt(req.params.id);
-      const payslips = await storage.getPayslipsByEmployee(employeeId);
-      res.json(payslips);
+      const id = parseInt(req.params.id);
+      const payslip = await storage.getPayslip(id);
+      // Retro pay on a draft being deleted is owed again on the next payslip
+      if (payslip && !PayslipStateMachine.isLocked(payslip.status)) {
+        await releaseRetroPay(payslip);
+      }
+      const deleted = await storage.deletePayslip(id);
+      if (!payslip || !deleted) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+      await refreshYearToDate(payslip.employeeId, taxYearOf(payslip));
+      res.json({ message: "Payslip deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch employee payslips" });
+      if (error instanceof PayslipLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete payslip" });
+    }
+  });
+
+  // Payslip lifecycle routes
+  app.post("/api/payslips/:id/approve", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payslip = await transitionPayslip(id, "approve", getActor(req));
+      if (!payslip) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+      res.json(payslip);
+    } catch (error) {
+      if (error instanceof InvalidPayslipTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to approve payslip" });
+    }
+  });
+
+  app.post("/api/payslips/:id/pay", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payslip = await transitionPayslip(id, "pay", getActor(req));
+      if (!payslip) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+      res.json(payslip);
+    } catch (error) {
+      if (error instanceof InvalidPayslipTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to mark payslip as paid" });
+    }
+  });
+
+  app.post("/api/payslips/:id/void", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { reason } = req.body;
+      if (!reason || typeof reason !== "string") {
+        return res.status(400).json({ message: "A reason is required to void a payslip" });
+      }
+
+      const payslip = await transitionPayslip(id, "void", getActor(req), reason);
+      if (!payslip) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+      res.json(payslip);
+    } catch (error) {
+      if (error instanceof InvalidPayslipTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to void payslip" });
+    }
+  });
+
+  app.post("/api/payslips/:id/reissue", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payslip = await reissuePayslip(id);
+      if (!payslip) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+      res.status(201).json(payslip);
+    } catch (error) {
+      if (error instanceof InvalidPayslipTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reissue payslip" });
+    }
+  });
+
+  // Includes drafts, so payroll only; employees see their released payslips through /api/me/payslips
+  app.get("/api/employees/:id/payslips", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const payslips = await storage.getPayslipsByEmployee(employeeId);
+      res.json(payslips);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch employee payslips" });
+    }
+  });
+
+  // Pay schedule routes
+  app.get("/api/pay-schedules", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const schedules = await storage.getPaySchedules();
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pay schedules" });
+    }
+  });
+
+  app.get("/api/pay-schedules/:id/calendar", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const year = typeof req.query.year === "string" ? parseInt(req.query.year) : new Date().getFullYear();
+      if (isNaN(year)) {
+        return res.status(400).json({ message: "Year must be a number" });
+      }
+
+      const periods = await getPayCalendar(id, year);
+      if (!periods) {
+        return res.status(404).json({ message: "Pay schedule not found" });
+      }
+      res.json(periods);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate pay calendar" });
+    }
+  });
+
+  app.post("/api/pay-schedules", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const validation = insertPayScheduleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid pay schedule data", errors: validation.error.errors });
+      }
+
+      const schedule = await createPaySchedule(validation.data);
+      res.status(201).json(schedule);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create pay schedule" });
+    }
+  });
+
+  app.put("/api/pay-schedules/:id", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = insertPayScheduleSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid pay schedule data", errors: validation.error.errors });
+      }
+
+      const schedule = await updatePaySchedule(id, validation.data);
+      if (!schedule) {
+        return res.status(404).json({ message: "Pay schedule not found" });
+      }
+      res.json(schedule);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update pay schedule" });
+    }
+  });
+
+  app.delete("/api/pay-schedules/:id", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const [employees, payRuns] = await Promise.all([storage.getEmployees(), storage.getPayRuns()]);
+      const assigned = employees.filter(employee => employee.payScheduleId === id).length;
+      if (assigned > 0) {
+        return res.status(409).json({ message: `Pay schedule is assigned to ${assigned} employee${assigned === 1 ? "" : "s"}` });
+      }
+      if (payRuns.some(payRun => payRun.payScheduleId === id)) {
+        return res.status(409).json({ message: "Pay schedule has pay runs and cannot be deleted" });
+      }
+
+      const deleted = await storage.deletePaySchedule(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Pay schedule not found" });
+      }
+      res.json({ message: "Pay schedule deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete pay schedule" });
+    }
+  });
+
+  app.get("/api/employees/:id/pay-schedule", requireEmployeeAccess("payroll:read", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+      res.json(await getEmployeePaySchedule(employee));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pay schedule" });
+    }
+  });
+
+  // Overtime policy routes
+  app.get("/api/overtime-policies", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const policies = await storage.getOvertimePolicies();
+      res.json(policies);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch overtime policies" });
+    }
+  });
+
+  app.post("/api/overtime-policies", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const validation = insertOvertimePolicySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid overtime policy data", errors: validation.error.errors });
+      }
+
+      const policy = await createOvertimePolicy(validation.data);
+      res.status(201).json(policy);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create overtime policy" });
+    }
+  });
+
+  app.put("/api/overtime-policies/:id", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = insertOvertimePolicySchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid overtime policy data", errors: validation.error.errors });
+      }
+
+      const policy = await updateOvertimePolicy(id, validation.data);
+      if (!policy) {
+        return res.status(404).json({ message: "Overtime policy not found" });
+      }
+      res.json(policy);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update overtime policy" });
+    }
+  });
+
+  app.delete("/api/overtime-policies/:id", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const [employees, roles] = await Promise.all([storage.getEmployees(), storage.getRoles()]);
+      const assigned = employees.filter(employee => employee.overtimePolicyId === id).length;
+      if (assigned > 0) {
+        return res.status(409).json({ message: `Overtime policy is assigned to ${assigned} employee${assigned === 1 ? "" : "s"}` });
+      }
+      const assignedRoles = roles.filter(role => role.overtimePolicyId === id).length;
+      if (assignedRoles > 0) {
+        return res.status(409).json({ message: `Overtime policy is assigned to ${assignedRoles} role${assignedRoles === 1 ? "" : "s"}` });
+      }
+
+      const deleted = await storage.deleteOvertimePolicy(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Overtime policy not found" });
+      }
+      res.json({ message: "Overtime policy deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete overtime policy" });
+    }
+  });
+
+  app.get("/api/employees/:id/overtime-policy", requireEmployeeAccess("payroll:read", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+      res.json(await getEmployeeOvertimePolicy(employee));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch overtime policy" });
+    }
+  });
+
+  // Pay run routes
+  app.get("/api/pay-runs", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const payRuns = await storage.getPayRuns();
+      res.json(payRuns);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pay runs" });
+    }
+  });
+
+  app.get("/api/pay-runs/:id", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payRun = await storage.getPayRun(id);
+      if (!payRun) {
+        return res.status(404).json({ message: "Pay run not found" });
+      }
+      res.json(payRun);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pay run" });
+    }
+  });
+
+  app.get("/api/pay-runs/:id/pdf", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payRun = await storage.getPayRun(id);
+      if (!payRun) {
+        return res.status(404).json({ message: "Pay run not found" });
+      }
+
+      const pdf = await renderPayslipsPdf(payRun.payslips.map(payslip => payslip.id));
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="pay-run-${id}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to render pay run PDF" });
+    }
+  });
+
+  app.post("/api/pay-runs/:id/send", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const result = await deliverPayRun(id);
+      if (!result) {
+        return res.status(404).json({ message: "Pay run not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send pay run payslips" });
+    }
+  });
+
+  // Calculates every active employee's payslip for review without saving anything
+  app.post("/api/pay-runs/preview", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const validation = payRunRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid pay run data", errors: validation.error.errors });
+      }
+      if (validation.data.payScheduleId && !(await storage.getPaySchedule(validation.data.payScheduleId))) {
+        return res.status(400).json({ message: "Invalid pay schedule ID" });
+      }
+
+      const preview = await previewPayRun(validation.data);
+      res.json(preview);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to preview pay run" });
+    }
+  });
+
+  app.post("/api/pay-runs", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const validation = payRunRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid pay run data", errors: validation.error.errors });
+      }
+      if (validation.data.payScheduleId && !(await storage.getPaySchedule(validation.data.payScheduleId))) {
+        return res.status(400).json({ message: "Invalid pay schedule ID" });
+      }
+
+      // Recalculate on commit so the saved payslips reflect current data, not a stale preview
+      const preview = await previewPayRun(validation.data);
+      if (preview.items.length === 0) {
+        return res.status(400).json({ message: "No active employees to pay" });
+      }
+      const records = [];
+      for (const item of preview.items) {
+        const { payslip, lines } = toPayslipRecords(item.employee.id, preview.payPeriodFrom, preview.payPeriodTo, item.calculation);
+        records.push({ payslip, lines, retroPayAdjustmentIds: await findSettledRetroPay(item.employee.id, item.calculation.lines) });
+      }
+
+      // Committing again for a period that has been paid would pay those employees twice
+      const payRun = await storage.createPayRun(        {
+          payPeriodFrom: preview.payPeriodFrom,
+          payPeriodTo: preview.payPeriodTo,
+          payFrequency: preview.payFrequency,
+          payScheduleId: preview.payScheduleId,
+          status: "committed",
+          employeeCount: preview.totals.employeeCount,
+          totalGross: preview.totals.totalGross.toFixed(2),
+          totalTax: preview.totals.totalTax.toFixed(2),
+          totalDeductions: preview.totals.totalDeductions.toFixed(2),
+          totalNet: preview.totals.totalNet.toFixed(2),
+        },
+        records,
+        validation.data.allowOverlapping
+      );
+      res.status(201).json(payRun);
+    } catch (error) {
+      if (error instanceof OverlappingPayslipError) {
+        return res.status(409).json({ message: error.message, employeeIds: error.employeeIds });
+      }
+      res.status(500).json({ message: "Failed to create pay run" });
+    }
+  });
+
+  // Tax routes
+  app.get("/api/tax-tables", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const tables = await storage.getTaxTables();
+      res.json(tables);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tax tables" });
+    }
+  });
+
+  app.post("/api/tax-tables", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const validation = insertTaxTableSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid tax table data", errors: validation.error.errors });
+      }
+
+      if (await findConflictingTaxTable(validation.data)) {
+        return res.status(409).json({ message: taxTableConflictMessage(validation.data) });
+      }
+
+      const table = await storage.createTaxTable(validation.data);
+      res.status(201).json(table);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create tax table" });
+    }
+  });
+
+  app.put("/api/tax-tables/:id", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = insertTaxTableSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid tax table data", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getTaxTable(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Tax table not found" });
+      }
+      const key = { ...existing, ...validation.data };
+      if (await findConflictingTaxTable(key, id)) {
+        return res.status(409).json({ message: taxTableConflictMessage(key) });
+      }
+
+      const table = await storage.updateTaxTable(id, validation.data);
+      if (!table) {
+        return res.status(404).json({ message: "Tax table not found" });
+      }
+      res.json(table);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update tax table" });
+    }
+  });
+
+  app.delete("/api/tax-tables/:id", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteTaxTable(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Tax table not found" });
+      }
+      res.json({ message: "Tax table deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete tax table" });
+    }
+  });
+
+  app.get("/api/employees/:id/tax-profile", requireEmployeeAccess("payroll:read", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const profile = await storage.getEmployeeTaxProfile(employeeId);
+      if (!profile) {
+        return res.status(404).json({ message: "Tax profile not found" });
+      }
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tax profile" });
+    }
+  });
+
+  app.put("/api/employees/:id/tax-profile", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const validation = insertEmployeeTaxProfileSchema.safeParse({ ...req.body, employeeId });
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid tax profile data", errors: validation.error.errors });
+      }
+
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      const profile = await storage.upsertEmployeeTaxProfile(validation.data);
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save tax profile" });
+    }
+  });
+
+  // Time entry routes
+  app.get("/api/employees/:id/time-entries", requireEmployeeAccess("timesheets:read", { self: true, reports: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const from = typeof req.query.from === "string" ? req.query.from : undefined;
+      const to = typeof req.query.to === "string" ? req.query.to : undefined;
+      const entries = await storage.getTimeEntriesByEmployee(employeeId, from, to);
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch time entries" });
+    }
+  });
+
+  app.post("/api/employees/:id/time-entries", requireEmployeeAccess("timesheets:manage", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const validation = timeEntryInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid time entry data", errors: validation.error.errors });
+      }
+
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      const entry = await saveTimeEntry(employeeId, validation.data);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof InvalidTimeEntryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof OverlappingTimeEntryError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create time entry" });
+    }
+  });
+
+  app.put("/api/employees/:id/time-entries/:entryId", requireEmployeeAccess("timesheets:manage", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const entryId = parseInt(req.params.entryId);
+      const validation = timeEntryInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid time entry data", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getTimeEntry(entryId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+
+      const entry = await saveTimeEntry(employeeId, validation.data, entryId);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof InvalidTimeEntryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof OverlappingTimeEntryError || error instanceof TimeEntryLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update time entry" });
+    }
+  });
+
+  app.delete("/api/employees/:id/time-entries/:entryId", requireEmployeeAccess("timesheets:manage", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const entryId = parseInt(req.params.entryId);
+      const existing = await storage.getTimeEntry(entryId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+
+      await deleteTimeEntry(entryId);
+      res.json({ message: "Time entry deleted successfully" });
+    } catch (error) {
+      if (error instanceof TimeEntryLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete time entry" });
+    }
+  });
+
+  app.post("/api/employees/:id/time-entries/:entryId/approve", requireEmployeeAccess("timesheets:review", { reports: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const entryId = parseInt(req.params.entryId);
+      const existing = await storage.getTimeEntry(entryId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+
+      const entry = await reviewTimeEntry(entryId, "approved", getActor(req));
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof TimeEntryLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to approve time entry" });
+    }
+  });
+
+  app.post("/api/employees/:id/time-entries/:entryId/reject", requireEmployeeAccess("timesheets:review", { reports: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const entryId = parseInt(req.params.entryId);
+      const existing = await storage.getTimeEntry(entryId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+
+      const entry = await reviewTimeEntry(entryId, "rejected", getActor(req));
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof TimeEntryLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reject time entry" });
+    }
+  });
+
+  // Unpaid leave routes
+  app.get("/api/employees/:id/unpaid-leave", requireEmployeeAccess("employees:read", { self: true, reports: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const leave = await storage.getUnpaidLeavesByEmployee(employeeId);
+      res.json(leave);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch unpaid leave" });
+    }
+  });
+
+  app.post("/api/employees/:id/unpaid-leave", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const validation = unpaidLeaveInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid unpaid leave data", errors: validation.error.errors });
+      }
+
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      const leave = await storage.createUnpaidLeave({ ...validation.data, employeeId });
+      res.status(201).json(leave);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record unpaid leave" });
+    }
+  });
+
+  app.delete("/api/employees/:id/unpaid-leave/:leaveId", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const leaveId = parseInt(req.params.leaveId);
+      const existing = await storage.getUnpaidLeave(leaveId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Unpaid leave not found" });
+      }
+
+      await storage.deleteUnpaidLeave(leaveId);
+      res.json({ message: "Unpaid leave deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete unpaid leave" });
+    }
+  });
+
+  // Benefit plan routes
+  app.get("/api/benefit-plans", requirePermission("employees:read"), async (req, res) => {
+    try {
+      const plans = await storage.getBenefitPlans();
+      res.json(plans);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch benefit plans" });
+    }
+  });
+
+  app.post("/api/benefit-plans", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const validation = insertBenefitPlanSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid benefit plan data", errors: validation.error.errors });
+      }
+
+      const plan = await storage.createBenefitPlan(validation.data);
+      res.status(201).json(plan);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create benefit plan" });
+    }
+  });
+
+  app.put("/api/benefit-plans/:id", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = insertBenefitPlanSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid benefit plan data", errors: validation.error.errors });
+      }
+
+      const plan = await storage.updateBenefitPlan(id, validation.data);
+      if (!plan) {
+        return res.status(404).json({ message: "Benefit plan not found" });
+      }
+      res.json(plan);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update benefit plan" });
+    }
+  });
+
+  app.delete("/api/benefit-plans/:id", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const enrolled = (await storage.getBenefitEnrollmentsByPlan(id)).length;
+      if (enrolled > 0) {
+        return res.status(409).json({ message: `Benefit plan has ${enrolled} enrollment${enrolled === 1 ? "" : "s"}; deactivate it instead` });
+      }
+
+      const deleted = await storage.deleteBenefitPlan(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Benefit plan not found" });
+      }
+      res.json({ message: "Benefit plan deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete benefit plan" });
+    }
+  });
+
+  // Benefit enrollment routes
+  app.get("/api/employees/:id/benefits", requireEmployeeAccess("employees:read", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const enrollments = await getBenefitEnrollments(employeeId);
+      res.json(enrollments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch benefit enrollments" });
+    }
+  });
+
+  app.post("/api/employees/:id/benefits", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const validation = benefitEnrollmentInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid benefit enrollment data", errors: validation.error.errors });
+      }
+
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      const enrollment = await enrollEmployee(toDomainEmployee(employee), validation.data);
+      if (!enrollment) {
+        return res.status(404).json({ message: "Benefit plan not found" });
+      }
+      res.status(201).json(enrollment);
+    } catch (error) {
+      if (error instanceof BenefitEligibilityError || error instanceof InactiveBenefitPlanError || error instanceof OverlappingBenefitEnrollmentError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create benefit enrollment" });
+    }
+  });
+
+  app.put("/api/employees/:id/benefits/:enrollmentId", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const enrollmentId = parseInt(req.params.enrollmentId);
+      const validation = benefitEnrollmentUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid benefit enrollment data", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getBenefitEnrollment(enrollmentId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Benefit enrollment not found" });
+      }
+
+      const enrollment = await updateEnrollment(existing, validation.data);
+      res.json(enrollment);
+    } catch (error) {
+      if (error instanceof InvalidBenefitEnrollmentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof OverlappingBenefitEnrollmentError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update benefit enrollment" });
+    }
+  });
+
+  app.delete("/api/employees/:id/benefits/:enrollmentId", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const enrollmentId = parseInt(req.params.enrollmentId);
+      const existing = await storage.getBenefitEnrollment(enrollmentId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Benefit enrollment not found" });
+      }
+
+      await storage.deleteBenefitEnrollment(enrollmentId);
+      res.json({ message: "Benefit enrollment deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete benefit enrollment" });
+    }
+  });
+
+  // Garnishment order routes
+  app.get("/api/employees/:id/garnishments", requireEmployeeAccess("payroll:read", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const orders = await getGarnishmentOrders(employeeId);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch garnishment orders" });
+    }
+  });
+
+  app.post("/api/employees/:id/garnishments", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const validation = garnishmentOrderInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid garnishment order data", errors: validation.error.errors });
+      }
+
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      const order = await createGarnishmentOrder(employeeId, validation.data);
+      res.status(201).json(order);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create garnishment order" });
+    }
+  });
+
+  app.put("/api/employees/:id/garnishments/:orderId", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const orderId = parseInt(req.params.orderId);
+      const validation = garnishmentOrderUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid garnishment order data", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getGarnishmentOrder(orderId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Garnishment order not found" });
+      }
+
+      const order = await updateGarnishmentOrder(existing, validation.data);
+      res.json(order);
+    } catch (error) {
+      if (error instanceof InvalidGarnishmentOrderError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update garnishment order" });
+    }
+  });
+
+  app.delete("/api/employees/:id/garnishments/:orderId", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const orderId = parseInt(req.params.orderId);
+      const existing = await storage.getGarnishmentOrder(orderId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Garnishment order not found" });
+      }
+
+      await deleteGarnishmentOrder(existing);
+      res.json({ message: "Garnishment order deleted successfully" });
+    } catch (error) {
+      if (error instanceof GarnishmentOrderInUseError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete garnishment order" });
+    }
+  });
+
+  // Loan routes
+  app.get("/api/employees/:id/loans", requireEmployeeAccess("payroll:read", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const loans = await getLoans(employeeId);
+      res.json(loans);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch loans" });
+    }
+  });
+
+  app.post("/api/employees/:id/loans", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const validation = loanInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid loan data", errors: validation.error.errors });
+      }
+
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      const loan = await createLoan(employeeId, validation.data);
+      res.status(201).json(loan);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create loan" });
+    }
+  });
+
+  app.put("/api/employees/:id/loans/:loanId", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const loanId = parseInt(req.params.loanId);
+      const validation = loanUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid loan data", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getLoan(loanId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+
+      const loan = await updateLoan(existing, validation.data);
+      res.json(loan);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update loan" });
+    }
+  });
+
+  app.delete("/api/employees/:id/loans/:loanId", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const loanId = parseInt(req.params.loanId);
+      const existing = await storage.getLoan(loanId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+
+      await deleteLoan(existing);
+      res.json({ message: "Loan deleted successfully" });
+    } catch (error) {
+      if (error instanceof LoanInUseError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete loan" });
+    }
+  });
+
+  // Bonus and commission routes
+  app.get("/api/earnings", requirePermission("payroll:read"), async (req, res) => {
+    try {
+      const from = typeof req.query.from === "string" ? req.query.from : undefined;
+      const to = typeof req.query.to === "string" ? req.query.to : undefined;
+      const earnings = await getScheduledEarnings(from, to);
+      res.json(earnings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch earnings" });
+    }
+  });
+
+  app.post("/api/earnings/import", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const validation = earningImportSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid earning import data", errors: validation.error.errors });
+      }
+
+      const earnings = await importEarnings(validation.data);
+      res.status(201).json(earnings);
+    } catch (error) {
+      if (error instanceof InvalidScheduledEarningError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to import earnings" });
+    }
+  });
+
+  app.get("/api/employees/:id/earnings", requireEmployeeAccess("payroll:read", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const earnings = await storage.getScheduledEarningsByEmployee(employeeId);
+      res.json(earnings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch earnings" });
+    }
+  });
+
+  app.post("/api/employees/:id/earnings", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const validation = scheduledEarningInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid earning data", errors: validation.error.errors });
+      }
+
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      const earning = await createScheduledEarning(employeeId, validation.data);
+      res.status(201).json(earning);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create earning" });
+    }
+  });
+
+  app.put("/api/employees/:id/earnings/:earningId", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const earningId = parseInt(req.params.earningId);
+      const validation = scheduledEarningUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid earning data", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getScheduledEarning(earningId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Earning not found" });
+      }
+
+      const earning = await updateScheduledEarning(existing, validation.data);
+      res.json(earning);
+    } catch (error) {
+      if (error instanceof InvalidScheduledEarningError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ScheduledEarningInUseError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update earning" });
+    }
+  });
+
+  app.delete("/api/employees/:id/earnings/:earningId", requirePermission("payroll:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const earningId = parseInt(req.params.earningId);
+      const existing = await storage.getScheduledEarning(earningId);
+      if (!existing || existing.employeeId !== employeeId) {
+        return res.status(404).json({ message: "Earning not found" });
+      }
+
+      await deleteScheduledEarning(existing);
+      res.json({ message: "Earning deleted successfully" });
+    } catch (error) {
+      if (error instanceof ScheduledEarningInUseError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete earning" });
+    }
+  });
+
+  app.get("/api/employees/:id/retro-pay", requireEmployeeAccess("payroll:read", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const adjustments = await storage.getRetroPayAdjustmentsByEmployee(employeeId);
+      res.json(adjustments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch retro pay" });
+    }
+  });
+
+  // Compensation history routes
+  app.get("/api/employees/:id/compensation-history", requireEmployeeAccess("employees:read", { self: true }), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const history = await storage.getCompensationHistory(employeeId);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch compensation history" });
+    }
+  });
+
+  app.post("/api/employees/:id/compensation-history", requirePermission("employees:manage"), async (req, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const validation = compensationChangeInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid compensation data", errors: validation.error.errors });
+      }
+
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      const rangeError = compensationRangeError(employee.role, {
+        payBasis: validation.data.payBasis,
+        payAmount: validation.data.payAmount,
+        currency: validation.data.currency ?? employee.currency,
+        standardHoursPerWeek: validation.data.standardHoursPerWeek ?? employee.standardHoursPerWeek,
+      });
+      if (rangeError) {
+        return res.status(400).json({ message: rangeError });
+      }
+
+      const change = await recordCompensationChange(employee, validation.data, getActor(req));
+      const retroPay = await calculateRetroPay(change);
+      const result: CompensationChangeResult = { ...change, retroPay };
+      res.status(201).json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record compensation change" });
     }
   });
 
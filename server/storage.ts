@@ -1,8 +1,38 @@
-import { roles, employees, payslips, type Role, type Employee, type Payslip, type InsertRole, type InsertEmployee, type InsertPayslip, type EmployeeWithRole, type PayslipWithEmployee } from "@shared/schema";
+import { users, roles, paySchedules, overtimePolicies, employees, payRuns, payslips, payslipLines, payslipDeliveries, taxTables, employeeTaxProfiles, timeEntries, unpaidLeaves, compensationHistory, retroPayAdjustments, benefitPlans, benefitEnrollments, garnishmentOrders, loans, scheduledEarnings, type Role, type PaySchedule, type InsertPaySchedule, type OvertimePolicy, type InsertOvertimePolicy, type Employee, type Payslip, type InsertRole, type InsertEmployee, type InsertPayslip, type EmployeeWithRole, type PayslipWithEmployee, type PayslipDetail, type PayRun, type InsertPayRun, type PayRunWithPayslips, type PayslipStatusUpdate, type PayslipYearToDate, type PayslipDelivery, type InsertPayslipDelivery, type PayslipLine, type InsertPayslipLine, type PayslipLineTotal, type TaxTable, type InsertTaxTable, type EmployeeTaxProfile, type InsertEmployeeTaxProfile, type TimeEntry, type InsertTimeEntry, type UnpaidLeave, type InsertUnpaidLeave, type CompensationChange, type InsertCompensationChange, type RetroPayAdjustment, type InsertRetroPayAdjustment, type BenefitPlan, type InsertBenefitPlan, type BenefitEnrollment, type InsertBenefitEnrollment, type BenefitEnrollmentWithPlan, type GarnishmentOrder, type InsertGarnishmentOrder, type Loan, type InsertLoan, type ScheduledEarning, type InsertScheduledEarning, type ScheduledEarningWithEmployee, profileChangeRequests, type ProfileChangeRequest, type InsertProfileChangeRequest, type ProfileChangeRequestWithEmployee, type ProfileChangeReview, type User, type InsertUser, type UpdateUser } from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, lte, ne, or, sum } from "drizzle-orm";
+import { PayslipLockedError, PayslipStateMachine } from "./classes/PayslipStatus";
+import { Compensation } from "./classes/Compensation";
+import { PayCalendar } from "./classes/PayCalendar";
+import { roundCurrency } from "./classes/Currency";
+import { OverlappingPayslipError, PayslipHistory } from "./classes/PayslipHistory";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+
+const PostgresSessionStore = connectPg(session);
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+const MemoryStore = createMemoryStore(session);
+
+// A new payslip with its lines and the pending retro pay its Retro Pay lines settle
+export interface PayslipRecord {
+  payslip: InsertPayslip;
+  lines: InsertPayslipLine[];
+  retroPayAdjustmentIds: number[];
+}
 
 export interface IStorage {
+  // Session store backing express-session
+  sessionStore: session.Store;
+
+  // User methods; passwords are stored already hashed
+  getUsers(): Promise<User[]>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: UpdateUser): Promise<User | undefined>;
+
   // Role methods
   getRoles(): Promise<Role[]>;
   getRole(id: number): Promise<Role | undefined>;
@@ -10,6 +40,20 @@ export interface IStorage {
   updateRole(id: number, role: Partial<InsertRole>): Promise<Role | undefined>;
   deleteRole(id: number): Promise<boolean>;
 
+  // Pay schedule methods
+  getPaySchedules(): Promise<PaySchedule[]>;
+  getPaySchedule(id: number): Promise<PaySchedule | undefined>;
+  createPaySchedule(schedule: InsertPaySchedule): Promise<PaySchedule>;
+  updatePaySchedule(id: number, schedule: Partial<InsertPaySchedule>): Promise<PaySchedule | undefined>;
+  deletePaySchedule(id: number): Promise<boolean>;
+
+  // Overtime policy methods
+  getOvertimePolicies(): Promise<OvertimePolicy[]>;
+  getOvertimePolicy(id: number): Promise<OvertimePolicy | undefined>;
+  createOvertimePolicy(policy: InsertOvertimePolicy): Promise<OvertimePolicy>;
+  updateOvertimePolicy(id: number, policy: Partial<InsertOvertimePolicy>): Promise<OvertimePolicy | undefined>;
+  deleteOvertimePolicy(id: number): Promise<boolean>;
+
   // Employee methods
   getEmployees(): Promise<EmployeeWithRole[]>;
   getEmployee(id: number): Promise<EmployeeWithRole | undefined>;
@@ -20,37 +64,217 @@ export interface IStorage {
 
   // Payslip methods
   getPayslips(): Promise<PayslipWithEmployee[]>;
-  getPayslip(id: number): Promise<PayslipWithEmployee | undefined>;
+  getPayslip(id: number): Promise<PayslipDetail | undefined>;
   getPayslipsByEmployee(employeeId: number): Promise<Payslip[]>;
-  createPayslip(payslip: InsertPayslip): Promise<Payslip>;
+  getPayslipLines(payslipId: number): Promise<PayslipLine[]>;
+  // Totals of the lines on an employee's non-void payslips, optionally only payslips whose period
+  // ends on or after `from` and before `before` (YYYY-MM-DD)
+  sumPayslipLines(employeeId: number, range?: { from?: string; before?: string }): Promise<PayslipLineTotal[]>;
+  createPayslip(payslip: InsertPayslip, lines?: InsertPayslipLine[]): Promise<Payslip>;
+  // Saves a payslip with its year-to-date totals, brings the totals of later payslips up to date and
+  // marks the retro pay it settles as applied, all in one step. Throws OverlappingPayslipError if the
+  // employee already has a non-void payslip for an overlapping period, unless `allowOverlapping`
+  commitPayslip(record: PayslipRecord, allowOverlapping: boolean): Promise<Payslip>;
+  // Both throw PayslipLockedError for paid or voided payslips
   updatePayslip(id: number, payslip: Partial<InsertPayslip>): Promise<Payslip | undefined>;
   deletePayslip(id: number): Promise<boolean>;
+  // Applies a lifecycle transition only if the payslip is still in the expected status
+  transitionPayslip(id: number, expectedStatus: string, update: PayslipStatusUpdate): Promise<Payslip | undefined>;
+  // Year-to-date totals follow the payslip history, so they can change even on locked payslips
+  updatePayslipYearToDate(id: number, totals: PayslipYearToDate): Promise<Payslip | undefined>;
+
+  // Payslip delivery methods
+  getPayslipDeliveries(payslipId: number): Promise<PayslipDelivery[]>;
+  createPayslipDelivery(delivery: InsertPayslipDelivery): Promise<PayslipDelivery>;
+
+  // Time entry methods; from/to are inclusive YYYY-MM-DD bounds on the work date
+  getTimeEntriesByEmployee(employeeId: number, from?: string, to?: string): Promise<TimeEntry[]>;
+  getTimeEntry(id: number): Promise<TimeEntry | undefined>;
+  createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry>;
+  updateTimeEntry(id: number, entry: Partial<InsertTimeEntry>): Promise<TimeEntry | undefined>;
+  deleteTimeEntry(id: number): Promise<boolean>;
+
+  // Unpaid leave methods; from/to are inclusive YYYY-MM-DD bounds, and any leave overlapping them is returned
+  getUnpaidLeavesByEmployee(employeeId: number, from?: string, to?: string): Promise<UnpaidLeave[]>;
+  getUnpaidLeave(id: number): Promise<UnpaidLeave | undefined>;
+  createUnpaidLeave(leave: InsertUnpaidLeave): Promise<UnpaidLeave>;
+  deleteUnpaidLeave(id: number): Promise<boolean>;
+
+  // Compensation history methods; changes are latest effective date first
+  getCompensationHistory(employeeId: number): Promise<CompensationChange[]>;
+  // Each employee's latest change effective on or before `asOf` (YYYY-MM-DD)
+  getCurrentCompensationChanges(asOf: string): Promise<CompensationChange[]>;
+  // Records a pay change and applies `employeeUpdate` to the employee in the same step
+  createCompensationChange(change: InsertCompensationChange, employeeUpdate?: Partial<InsertEmployee>): Promise<CompensationChange>;
+
+  // Retro pay methods; adjustments are oldest pay period first
+  getRetroPayAdjustmentsByEmployee(employeeId: number, status?: string): Promise<RetroPayAdjustment[]>;
+  createRetroPayAdjustment(adjustment: InsertRetroPayAdjustment): Promise<RetroPayAdjustment>;
+  updateRetroPayAdjustment(id: number, adjustment: Partial<InsertRetroPayAdjustment>): Promise<RetroPayAdjustment | undefined>;
+
+  // Benefit methods
+  getBenefitPlans(): Promise<BenefitPlan[]>;
+  getBenefitPlan(id: number): Promise<BenefitPlan | undefined>;
+  createBenefitPlan(plan: InsertBenefitPlan): Promise<BenefitPlan>;
+  updateBenefitPlan(id: number, plan: Partial<InsertBenefitPlan>): Promise<BenefitPlan | undefined>;
+  deleteBenefitPlan(id: number): Promise<boolean>;
+  // from/to are inclusive YYYY-MM-DD bounds, and any enrollment overlapping them is returned
+  getBenefitEnrollmentsByEmployee(employeeId: number, from?: string, to?: string): Promise<BenefitEnrollmentWithPlan[]>;
+  getBenefitEnrollmentsByPlan(planId: number): Promise<BenefitEnrollment[]>;
+  getBenefitEnrollment(id: number): Promise<BenefitEnrollment | undefined>;
+  createBenefitEnrollment(enrollment: InsertBenefitEnrollment): Promise<BenefitEnrollment>;
+  updateBenefitEnrollment(id: number, enrollment: Partial<InsertBenefitEnrollment>): Promise<BenefitEnrollment | undefined>;
+  deleteBenefitEnrollment(id: number): Promise<boolean>;
+
+  // Garnishment order methods; from/to are inclusive YYYY-MM-DD bounds as for benefit enrollments
+  getGarnishmentOrdersByEmployee(employeeId: number, from?: string, to?: string): Promise<GarnishmentOrder[]>;
+  getGarnishmentOrder(id: number): Promise<GarnishmentOrder | undefined>;
+  createGarnishmentOrder(order: InsertGarnishmentOrder): Promise<GarnishmentOrder>;
+  updateGarnishmentOrder(id: number, order: Partial<InsertGarnishmentOrder>): Promise<GarnishmentOrder | undefined>;
+  deleteGarnishmentOrder(id: number): Promise<boolean>;
+
+  // Scheduled earning methods; from/to are inclusive YYYY-MM-DD bounds and any earning that
+  // could fall in them is returned, latest start first
+  getScheduledEarnings(from?: string, to?: string): Promise<ScheduledEarningWithEmployee[]>;
+  getScheduledEarningsByEmployee(employeeId: number, from?: string, to?: string): Promise<ScheduledEarning[]>;
+  getScheduledEarning(id: number): Promise<ScheduledEarning | undefined>;
+  createScheduledEarning(earning: InsertScheduledEarning): Promise<ScheduledEarning>;
+  // Creates every earning or, if any insert fails, none of them
+  createScheduledEarnings(earnings: InsertScheduledEarning[]): Promise<ScheduledEarning[]>;
+  updateScheduledEarning(id: number, earning: Partial<InsertScheduledEarning>): Promise<ScheduledEarning | undefined>;
+  deleteScheduledEarning(id: number): Promise<boolean>;
+
+  // Loan methods; loans are oldest first
+  getLoansByEmployee(employeeId: number): Promise<Loan[]>;
+  getLoan(id: number): Promise<Loan | undefined>;
+  createLoan(loan: InsertLoan): Promise<Loan>;
+  updateLoan(id: number, loan: Partial<InsertLoan>): Promise<Loan | undefined>;
+  deleteLoan(id: number): Promise<boolean>;
+
+  // Profile change request methods; requests are newest first
+  getProfileChangeRequests(status?: string): Promise<ProfileChangeRequestWithEmployee[]>;
+  getProfileChangeRequestsByEmployee(employeeId: number): Promise<ProfileChangeRequest[]>;
+  getProfileChangeRequest(id: number): Promise<ProfileChangeRequest | undefined>;
+  createProfileChangeRequest(request: InsertProfileChangeRequest): Promise<ProfileChangeRequest>;
+  updateProfileChangeRequest(id: number, request: Partial<InsertProfileChangeRequest>): Promise<ProfileChangeRequest | undefined>;
+  // Closes a still-pending request and applies `employeeUpdate` to the employee in the same step
+  reviewProfileChangeRequest(id: number, review: ProfileChangeReview, employeeUpdate?: Partial<InsertEmployee>): Promise<ProfileChangeRequest | undefined>;
+
+  // Pay run methods
+  getPayRuns(): Promise<PayRun[]>;
+  getPayRun(id: number): Promise<PayRunWithPayslips | undefined>;
+  // Saves the run and its payslips in one step, each payslip as commitPayslip does
+  createPayRun(payRun: InsertPayRun, payslips: PayslipRecord[], allowOverlapping: boolean): Promise<PayRun>;
+
+  // Tax methods
+  getTaxTables(): Promise<TaxTable[]>;
+  getTaxTable(id: number): Promise<TaxTable | undefined>;
+  createTaxTable(table: InsertTaxTable): Promise<TaxTable>;
+  updateTaxTable(id: number, table: Partial<InsertTaxTable>): Promise<TaxTable | undefined>;
+  deleteTaxTable(id: number): Promise<boolean>;
+  getEmployeeTaxProfile(employeeId: number): Promise<EmployeeTaxProfile | undefined>;
+  upsertEmployeeTaxProfile(profile: InsertEmployeeTaxProfile): Promise<EmployeeTaxProfile>;
 
   // Stats methods
   getStats(): Promise<{
     totalEmployees: number;
     fullTimeEmployees: number;
     partTimeEmployees: number;
-    monthlyPayroll: number;
+    // Pay in different currencies cannot be added up, so each currency has its own total
+    monthlyPayroll: { currency: string; amount: number }[];
   }>;
 }
 
 // Legacy in-memory storage implementation (kept for reference)
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private users: Map<number, User>;
   private roles: Map<number, Role>;
+  private paySchedules: Map<number, PaySchedule>;
+  private overtimePolicies: Map<number, OvertimePolicy>;
   private employees: Map<number, Employee>;
+  private payRuns: Map<number, PayRun>;
   private payslips: Map<number, Payslip>;
+  private payslipLines: Map<number, PayslipLine>;
+  private payslipDeliveries: Map<number, PayslipDelivery>;
+  private timeEntries: Map<number, TimeEntry>;
+  private unpaidLeaves: Map<number, UnpaidLeave>;
+  private compensationHistory: Map<number, CompensationChange>;
+  private retroPayAdjustments: Map<number, RetroPayAdjustment>;
+  private benefitPlans: Map<number, BenefitPlan>;
+  private benefitEnrollments: Map<number, BenefitEnrollment>;
+  private garnishmentOrders: Map<number, GarnishmentOrder>;
+  private loans: Map<number, Loan>;
+  private scheduledEarnings: Map<number, ScheduledEarning>;
+  private profileChangeRequests: Map<number, ProfileChangeRequest>;
+  private taxTables: Map<number, TaxTable>;
+  private taxProfiles: Map<number, EmployeeTaxProfile>;
+  private currentUserId: number;
   private currentRoleId: number;
+  private currentPayScheduleId: number;
+  private currentOvertimePolicyId: number;
   private currentEmployeeId: number;
+  private currentPayRunId: number;
   private currentPayslipId: number;
+  private currentPayslipLineId: number;
+  private currentPayslipDeliveryId: number;
+  private currentTimeEntryId: number;
+  private currentUnpaidLeaveId: number;
+  private currentCompensationChangeId: number;
+  private currentRetroPayAdjustmentId: number;
+  private currentBenefitPlanId: number;
+  private currentBenefitEnrollmentId: number;
+  private currentGarnishmentOrderId: number;
+  private currentLoanId: number;
+  private currentScheduledEarningId: number;
+  private currentProfileChangeRequestId: number;
+  private currentTaxTableId: number;
+  private currentTaxProfileId: number;
 
   constructor() {
+    this.sessionStore = new MemoryStore({ checkPeriod: 86400000 });
+    this.users = new Map();
     this.roles = new Map();
+    this.paySchedules = new Map();
+    this.overtimePolicies = new Map();
     this.employees = new Map();
+    this.payRuns = new Map();
     this.payslips = new Map();
+    this.payslipLines = new Map();
+    this.payslipDeliveries = new Map();
+    this.timeEntries = new Map();
+    this.unpaidLeaves = new Map();
+    this.compensationHistory = new Map();
+    this.retroPayAdjustments = new Map();
+    this.benefitPlans = new Map();
+    this.benefitEnrollments = new Map();
+    this.garnishmentOrders = new Map();
+    this.loans = new Map();
+    this.scheduledEarnings = new Map();
+    this.profileChangeRequests = new Map();
+    this.taxTables = new Map();
+    this.taxProfiles = new Map();
+    this.currentUserId = 1;
     this.currentRoleId = 1;
+    this.currentPayScheduleId = 1;
+    this.currentOvertimePolicyId = 1;
     this.currentEmployeeId = 1;
+    this.currentPayRunId = 1;
     this.currentPayslipId = 1;
+    this.currentPayslipLineId = 1;
+    this.currentPayslipDeliveryId = 1;
+    this.currentTimeEntryId = 1;
+    this.currentUnpaidLeaveId = 1;
+    this.currentCompensationChangeId = 1;
+    this.currentRetroPayAdjustmentId = 1;
+    this.currentBenefitPlanId = 1;
+    this.currentBenefitEnrollmentId = 1;
+    this.currentGarnishmentOrderId = 1;
+    this.currentLoanId = 1;
+    this.currentScheduledEarningId = 1;
+    this.currentProfileChangeRequestId = 1;
+    this.currentTaxTableId = 1;
+    this.currentTaxProfileId = 1;
 
     // Initialize with some sample roles
     this.initializeSampleData();
@@ -84,20 +308,128 @@ export class MemStorage implements IStorage {
         level: 2,
         minSalary: "25",
         maxSalary: "45",
+        payBasis: "hourly",
         responsibilities: ["UI/UX design", "Prototyping", "Design systems"]
       }
     ];
 
     sampleRoles.forEach(role => {
       const id = this.currentRoleId++;
-      this.roles.set(id, { ...role, id, responsibilities: [...role.responsibilities] });
+      this.roles.set(id, { ...role, id, payBasis: role.payBasis ?? "annual", currency: role.currency ?? "USD", responsibilities: [...role.responsibilities], overtimePolicyId: role.overtimePolicyId ?? null, isExempt: role.isExempt ?? false });
     });
 
     // Sample employees are now seeded via database seed script
 
+    // Sample 2025 federal withholding tables
+    const sampleTaxTables: InsertTaxTable[] = [
+      {
+        taxYear: 2025,
+        jurisdiction: "federal",
+        filingStatus: "single",
+        standardDeduction: "15000",
+        allowanceAmount: "0",
+        supplementalRate: "0.22",
+        brackets: [
+          { over: 0, rate: 0.10 },
+          { over: 11925, rate: 0.12 },
+          { over: 48475, rate: 0.22 },
+          { over: 103350, rate: 0.24 },
+          { over: 197300, rate: 0.32 },
+          { over: 250525, rate: 0.35 },
+          { over: 626350, rate: 0.37 },
+        ],
+      },
+      {
+        taxYear: 2025,
+        jurisdiction: "federal",
+        filingStatus: "married",
+        standardDeduction: "30000",
+        allowanceAmount: "0",
+        supplementalRate: "0.22",
+        brackets: [
+          { over: 0, rate: 0.10 },
+          { over: 23850, rate: 0.12 },
+          { over: 96950, rate: 0.22 },
+          { over: 206700, rate: 0.24 },
+          { over: 394600, rate: 0.32 },
+          { over: 501050, rate: 0.35 },
+          { over: 751600, rate: 0.37 },
+        ],
+      },
+      {
+        taxYear: 2025,
+        jurisdiction: "federal",
+        filingStatus: "head-of-household",
+        standardDeduction: "22500",
+        allowanceAmount: "0",
+        supplementalRate: "0.22",
+        brackets: [
+          { over: 0, rate: 0.10 },
+          { over: 17000, rate: 0.12 },
+          { over: 64850, rate: 0.22 },
+          { over: 103350, rate: 0.24 },
+          { over: 197300, rate: 0.32 },
+          { over: 250500, rate: 0.35 },
+          { over: 626350, rate: 0.37 },
+        ],
+      },
+    ];
+
+    sampleTaxTables.forEach(table => {
+      const id = this.currentTaxTableId++;
+      this.taxTables.set(id, this.buildTaxTable(id, table));
+    });
+
     // Note: Sample employees are now seeded via database seed script
   }
 
+  private buildTaxTable(id: number, table: InsertTaxTable): TaxTable {
+    return {
+      ...table,
+      id,
+      standardDeduction: table.standardDeduction || "0",
+      allowanceAmount: table.allowanceAmount || "0",
+      brackets: [...table.brackets],
+      supplementalRate: table.supplementalRate ?? null,
+      createdAt: new Date()
+    };
+  }
+
+  // User methods
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.currentUserId++;
+    const user: User = {
+      ...insertUser,
+      id,
+      employeeId: insertUser.employeeId ?? null,
+      accessRole: insertUser.accessRole || "employee",
+      createdAt: new Date()
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUser(id: number, updateUser: UpdateUser): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    const updated: User = { ...existing, ...updateUser };
+    this.users.set(id, updated);
+    return updated;
+  }
+
   // Role methods
   async getRoles(): Promise<Role[]> {
     return Array.from(this.roles.values());
@@ -112,7 +444,11 @@ export class MemStorage implements IStorage {
     const role: Role = { 
       ...insertRole, 
       id,
-      responsibilities: [...insertRole.responsibilities]
+      payBasis: insertRole.payBasis ?? "annual",
+      currency: insertRole.currency ?? "USD",
+      responsibilities: [...insertRole.responsibilities],
+      overtimePolicyId: insertRole.overtimePolicyId ?? null,
+      isExempt: insertRole.isExempt ?? false
     };
     this.roles.set(id, role);
     return role;
@@ -135,6 +471,86 @@ export class MemStorage implements IStorage {
     return this.roles.delete(id);
   }
 
+  // Pay schedule methods
+  async getPaySchedules(): Promise<PaySchedule[]> {
+    return Array.from(this.paySchedules.values());
+  }
+
+  async getPaySchedule(id: number): Promise<PaySchedule | undefined> {
+    return this.paySchedules.get(id);
+  }
+
+  async createPaySchedule(insertSchedule: InsertPaySchedule): Promise<PaySchedule> {
+    const id = this.currentPayScheduleId++;
+    const schedule: PaySchedule = {
+      ...insertSchedule,
+      id,
+      frequency: insertSchedule.frequency || "monthly",
+      payDateOffsetDays: insertSchedule.payDateOffsetDays ?? 0,
+      department: insertSchedule.department ?? null,
+      isDefault: insertSchedule.isDefault ?? false,
+      prorationBasis: insertSchedule.prorationBasis ?? "working-days",
+      createdAt: new Date()
+    };
+    this.paySchedules.set(id, schedule);
+    return schedule;
+  }
+
+  async updatePaySchedule(id: number, insertSchedule: Partial<InsertPaySchedule>): Promise<PaySchedule | undefined> {
+    const existing = this.paySchedules.get(id);
+    if (!existing) return undefined;
+
+    const updated: PaySchedule = { ...existing, ...insertSchedule };
+    this.paySchedules.set(id, updated);
+    return updated;
+  }
+
+  async deletePaySchedule(id: number): Promise<boolean> {
+    return this.paySchedules.delete(id);
+  }
+
+  // Overtime policy methods
+  async getOvertimePolicies(): Promise<OvertimePolicy[]> {
+    return Array.from(this.overtimePolicies.values());
+  }
+
+  async getOvertimePolicy(id: number): Promise<OvertimePolicy | undefined> {
+    return this.overtimePolicies.get(id);
+  }
+
+  async createOvertimePolicy(insertPolicy: InsertOvertimePolicy): Promise<OvertimePolicy> {
+    const id = this.currentOvertimePolicyId++;
+    const policy: OvertimePolicy = {
+      ...insertPolicy,
+      id,
+      description: insertPolicy.description ?? null,
+      dailyThreshold: insertPolicy.dailyThreshold ?? null,
+      dailyDoubleTimeThreshold: insertPolicy.dailyDoubleTimeThreshold ?? null,
+      weeklyThreshold: insertPolicy.weeklyThreshold === undefined ? "40" : insertPolicy.weeklyThreshold,
+      overtimeMultiplier: insertPolicy.overtimeMultiplier ?? "1.5",
+      doubleTimeMultiplier: insertPolicy.doubleTimeMultiplier ?? "2",
+      seventhDayRule: insertPolicy.seventhDayRule ?? false,
+      isExempt: insertPolicy.isExempt ?? false,
+      isDefault: insertPolicy.isDefault ?? false,
+      createdAt: new Date()
+    };
+    this.overtimePolicies.set(id, policy);
+    return policy;
+  }
+
+  async updateOvertimePolicy(id: number, insertPolicy: Partial<InsertOvertimePolicy>): Promise<OvertimePolicy | undefined> {
+    const existing = this.overtimePolicies.get(id);
+    if (!existing) return undefined;
+
+    const updated: OvertimePolicy = { ...existing, ...insertPolicy };
+    this.overtimePolicies.set(id, updated);
+    return updated;
+  }
+
+  async deleteOvertimePolicy(id: number): Promise<boolean> {
+    return this.overtimePolicies.delete(id);
+  }
+
   // Employee methods
   async getEmployees(): Promise<EmployeeWithRole[]> {
     const employeeList = Array.from(this.employees.values());
@@ -171,6 +587,17 @@ export class MemStorage implements IStorage {
       id,
       status: insertEmployee.status || "active",
       phone: insertEmployee.phone || null,
+      emergencyContact: insertEmployee.emergencyContact ?? null,
+      address: insertEmployee.address ?? null,
+      personalNotes: insertEmployee.personalNotes ?? null,
+      managerId: insertEmployee.managerId ?? null,
+      payScheduleId: insertEmployee.payScheduleId ?? null,
+      overtimePolicyId: insertEmployee.overtimePolicyId ?? null,
+      isExempt: insertEmployee.isExempt ?? null,
+      terminationDate: insertEmployee.terminationDate ?? null,
+      payBasis: insertEmployee.payBasis ?? "annual",
+      currency: insertEmployee.currency ?? "USD",
+      standardHoursPerWeek: insertEmployee.standardHoursPerWeek ?? "40",
       createdAt: new Date()
     };
     this.employees.set(id, employee);
@@ -205,246 +632,1665 @@ export class MemStorage implements IStorage {
     return result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  async getPayslip(id: number): Promise<PayslipWithEmployee | undefined> {
+  async getPayslip(id: number): Promise<PayslipDetail | undefined> {
     const payslip = this.payslips.get(id);
     if (!payslip) return undefined;
 
     const employee = this.employees.get(payslip.employeeId);
     if (!employee) return undefined;
 
-    return { ...payslip, employee };
+    const lines = await this.getPayslipLines(id);
+    return { ...payslip, employee, lines };
   }
 
   async getPayslipsByEmployee(employeeId: number): Promise<Payslip[]> {
     return Array.from(this.payslips.values()).filter(p => p.employeeId === employeeId);
   }
 
-  async createPayslip(insertPayslip: InsertPayslip): Promise<Payslip> {
+  async getPayslipLines(payslipId: number): Promise<PayslipLine[]> {
+    return Array.from(this.payslipLines.values())
+      .filter(line => line.payslipId === payslipId)
+      .sort((a, b) => a.sortOrder - b.sortOrder);
+  }
+
+  async sumPayslipLines(employeeId: number, range: { from?: string; before?: string } = {}): Promise<PayslipLineTotal[]> {
+    const payslipIds = new Set(Array.from(this.payslips.values())
+      .filter(payslip => {
+        const payPeriodTo = PayCalendar.formatDate(payslip.payPeriodTo);
+        return payslip.employeeId === employeeId &&
+          PayslipStateMachine.normalize(payslip.status) !== "void" &&
+          (!range.from || payPeriodTo >= range.from) &&
+          (!range.before || payPeriodTo < range.before);
+      })
+      .map(payslip => payslip.id));
+
+    const totals = new Map<string, PayslipLineTotal>();
+    for (const line of Array.from(this.payslipLines.values())) {
+      if (!payslipIds.has(line.payslipId)) continue;
+
+      const { type, code, earningId, benefitPlanId, garnishmentOrderId, loanId } = line;
+      const key = [type, code, earningId, benefitPlanId, garnishmentOrderId, loanId].join("|");
+      const total = totals.get(key) ?? { type, code, earningId, benefitPlanId, garnishmentOrderId, loanId, amount: 0 };
+      total.amount = roundCurrency(total.amount + parseFloat(line.amount));
+      totals.set(key, total);
+    }
+    return Array.from(totals.values());
+  }
+
+  async createPayslip(insertPayslip: InsertPayslip, lines: InsertPayslipLine[] = []): Promise<Payslip> {
     const id = this.currentPayslipId++;
     const payslip: Payslip = { 
       ...insertPayslip, 
       id,
-      status: insertPayslip.status || "generated",
+      payRunId: insertPayslip.payRunId ?? null,
+      status: insertPayslip.status || "draft",
+      approvedBy: insertPayslip.approvedBy ?? null,
+      approvedAt: insertPayslip.approvedAt ?? null,
+      paidBy: insertPayslip.paidBy ?? null,
+      paidAt: insertPayslip.paidAt ?? null,
+      voidedBy: insertPayslip.voidedBy ?? null,
+      voidedAt: insertPayslip.voidedAt ?? null,
+      voidReason: insertPayslip.voidReason ?? null,
+      reissuedFromId: insertPayslip.reissuedFromId ?? null,
+      ytdGrossPay: insertPayslip.ytdGrossPay ?? null,
+      ytdTaxWithheld: insertPayslip.ytdTaxWithheld ?? null,
+      ytdDeductions: insertPayslip.ytdDeductions ?? null,
+      ytdNetPay: insertPayslip.ytdNetPay ?? null,
+      ytdRetirementContributions: insertPayslip.ytdRetirementContributions ?? null,
+      ytdEmployerRetirementContributions: insertPayslip.ytdEmployerRetirementContributions ?? null,
       overtimeHours: insertPayslip.overtimeHours || "0",
+      doubleTimeHours: insertPayslip.doubleTimeHours || "0",
       overtimePay: insertPayslip.overtimePay || "0",
+      taxWithheld: insertPayslip.taxWithheld || "0",
       deductions: insertPayslip.deductions || "0",
+      retirementContributions: insertPayslip.retirementContributions || "0",
+      employerRetirementContributions: insertPayslip.employerRetirementContributions || "0",
       createdAt: new Date()
     };
     this.payslips.set(id, payslip);
+
+    lines.forEach((insertLine, index) => {
+      const lineId = this.currentPayslipLineId++;
+      this.payslipLines.set(lineId, {
+        ...insertLine,
+        id: lineId,
+        payslipId: id,
+        hours: insertLine.hours || null,
+        preTax: insertLine.preTax ?? false,
+        supplemental: insertLine.supplemental ?? false,
+        benefitPlanId: insertLine.benefitPlanId ?? null,
+        garnishmentOrderId: insertLine.garnishmentOrderId ?? null,
+        loanId: insertLine.loanId ?? null,
+        earningId: insertLine.earningId ?? null,
+        sortOrder: insertLine.sortOrder ?? index
+      });
+    });
+
     return payslip;
   }
 
   async updatePayslip(id: number, insertPayslip: Partial<InsertPayslip>): Promise<Payslip | undefined> {
     const existing = this.payslips.get(id);
     if (!existing) return undefined;
+    if (PayslipStateMachine.isLocked(existing.status)) {
+      throw new PayslipLockedError(id, existing.status);
+    }
 
     const updated: Payslip = { ...existing, ...insertPayslip };
     this.payslips.set(id, updated);
     return updated;
   }
 
-  async deletePayslip(id: number): Promise<boolean> {
-    return this.payslips.delete(id);
+  async transitionPayslip(id: number, expectedStatus: string, update: PayslipStatusUpdate): Promise<Payslip | undefined> {
+    const existing = this.payslips.get(id);
+    if (!existing || existing.status !== expectedStatus) return undefined;
+
+    const updated: Payslip = { ...existing, ...update };
+    this.payslips.set(id, updated);
+    return updated;
   }
 
-  // Stats methods
-  async getStats(): Promise<{
-    totalEmployees: number;
-    fullTimeEmployees: number;
-    partTimeEmployees: number;
-    monthlyPayroll: number;
-  }> {
-    const employeeList = Array.from(this.employees.values()).filter(emp => emp.status === 'active');
-    const fullTimeEmployees = employeeList.filter(emp => emp.type === 'full-time');
-    const partTimeEmployees = employeeList.filter(emp => emp.type === 'part-time');
+  async commitPayslip(record: PayslipRecord, allowOverlapping: boolean): Promise<Payslip> {
+    const [payslip] = await this.commitPayslipRecords([record], allowOverlapping);
+    return payslip;
+  }
 
-    // Calculate monthly payroll estimate
-    let monthlyPayroll = 0;
-    for (const employee of employeeList) {
-      const salary = parseFloat(employee.salary);
-      if (employee.type === 'full-time') {
-        monthlyPayroll += salary / 12; // Annual to monthly
-      } else {
-        monthlyPayroll += salary * 80; // Assuming 80 hours per month for part-time
+  private async commitPayslipRecords(records: PayslipRecord[], allowOverlapping: boolean, payRunId?: number): Promise<Payslip[]> {
+    const historyOf = async (employeeId: number) => new PayslipHistory(await this.getPayslipsByEmployee(employeeId));
+
+    if (!allowOverlapping) {
+      const overlapping: number[] = [];
+      for (const { payslip } of records) {
+        if ((await historyOf(payslip.employeeId)).overlaps(payslip.payPeriodFrom, payslip.payPeriodTo)) {
+          overlapping.push(payslip.employeeId);
+        }
       }
+      if (overlapping.length > 0) throw new OverlappingPayslipError(overlapping);
     }
 
-    return {
-      totalEmployees: employeeList.length,
-      fullTimeEmployees: fullTimeEmployees.length,
-      partTimeEmployees: partTimeEmployees.length,
-      monthlyPayroll: Math.round(monthlyPayroll)
-    };
+    const saved: Payslip[] = [];
+    for (const { payslip, lines, retroPayAdjustmentIds } of records) {
+      const stamped = (await historyOf(payslip.employeeId)).stamp(payslip);
+      const created = await this.createPayslip(payRunId ? { ...stamped, payRunId } : stamped, lines);
+      for (const adjustmentId of retroPayAdjustmentIds) {
+        if (this.retroPayAdjustments.get(adjustmentId)?.status === "pending") {
+          await this.updateRetroPayAdjustment(adjustmentId, { status: "applied", appliedPayslipId: created.id });
+        }
+      }
+      saved.push(created);
+    }
+
+    // Payslips later in the year include these if they were generated out of order
+    for (const payslip of saved) {
+      const history = await historyOf(payslip.employeeId);
+      for (const { id, totals } of history.staleYearToDate(PayslipHistory.taxYearOf(payslip))) {
+        await this.updatePayslipYearToDate(id, totals);
+      }
+    }
+    return saved;
   }
-}
 
-// Database storage implementation
-export class DatabaseStorage implements IStorage {
-  async getRoles(): Promise<Role[]> {
-    return await db.select().from(roles);
+  async updatePayslipYearToDate(id: number, totals: PayslipYearToDate): Promise<Payslip | undefined> {
+    const existing = this.payslips.get(id);
+    if (!existing) return undefined;
+
+    const updated: Payslip = { ...existing, ...totals };
+    this.payslips.set(id, updated);
+    return updated;
   }
 
-  async getRole(id: number): Promise<Role | undefined> {
-    const [role] = await db.select().from(roles).where(eq(roles.id, id));
-    return role || undefined;
+  async deletePayslip(id: number): Promise<boolean> {
+    const existing = this.payslips.get(id);
+    if (existing && PayslipStateMachine.isLocked(existing.status)) {
+      throw new PayslipLockedError(id, existing.status);
+    }
+
+    for (const line of await this.getPayslipLines(id)) {
+      this.payslipLines.delete(line.id);
+    }
+    for (const delivery of await this.getPayslipDeliveries(id)) {
+      this.payslipDeliveries.delete(delivery.id);
+    }
+    return this.payslips.delete(id);
   }
 
-  async createRole(insertRole: InsertRole): Promise<Role> {
-    const [role] = await db
-      .insert(roles)
-      .values(insertRole)
-      .returning();
-    return role;
+  // Payslip delivery methods
+  async getPayslipDeliveries(payslipId: number): Promise<PayslipDelivery[]> {
+    return Array.from(this.payslipDeliveries.values())
+      .filter(delivery => delivery.payslipId === payslipId)
+      .sort((a, b) => b.attemptedAt.getTime() - a.attemptedAt.getTime());
   }
 
-  async updateRole(id: number, insertRole: Partial<InsertRole>): Promise<Role | undefined> {
-    const [role] = await db
-      .update(roles)
-      .set(insertRole)
-      .where(eq(roles.id, id))
-      .returning();
-    return role || undefined;
+  async createPayslipDelivery(insertDelivery: InsertPayslipDelivery): Promise<PayslipDelivery> {
+    const id = this.currentPayslipDeliveryId++;
+    const delivery: PayslipDelivery = {
+      ...insertDelivery,
+      id,
+      messageId: insertDelivery.messageId ?? null,
+      error: insertDelivery.error ?? null,
+      attemptedAt: new Date()
+    };
+    this.payslipDeliveries.set(id, delivery);
+    return delivery;
   }
 
-  async deleteRole(id: number): Promise<boolean> {
-    const result = await db.delete(roles).where(eq(roles.id, id));
-    return (result.rowCount || 0) > 0;
+  // Time entry methods
+  async getTimeEntriesByEmployee(employeeId: number, from?: string, to?: string): Promise<TimeEntry[]> {
+    return Array.from(this.timeEntries.values())
+      .filter(entry => entry.employeeId === employeeId)
+      .filter(entry => (!from || entry.workDate >= from) && (!to || entry.workDate <= to))
+      .sort((a, b) => b.workDate.localeCompare(a.workDate) || b.startTime.localeCompare(a.startTime));
   }
 
-  async getEmployees(): Promise<EmployeeWithRole[]> {
-    const employeeList = await db
-      .select()
-      .from(employees)
-      .leftJoin(roles, eq(employees.roleId, roles.id));
-    
-    return employeeList.map(row => ({
-      ...row.employees,
-      role: row.roles!
-    }));
+  async getTimeEntry(id: number): Promise<TimeEntry | undefined> {
+    return this.timeEntries.get(id);
   }
 
-  async getEmployee(id: number): Promise<EmployeeWithRole | undefined> {
-    const [result] = await db
-      .select()
-      .from(employees)
-      .leftJoin(roles, eq(employees.roleId, roles.id))
-      .where(eq(employees.id, id));
-    
-    if (!result || !result.roles) return undefined;
-    
-    return {
-      ...result.employees,
-      role: result.roles
+  async createTimeEntry(insertEntry: InsertTimeEntry): Promise<TimeEntry> {
+    const id = this.currentTimeEntryId++;
+    const entry: TimeEntry = {
+      ...insertEntry,
+      id,
+      breakMinutes: insertEntry.breakMinutes ?? 0,
+      projectCode: insertEntry.projectCode ?? null,
+      description: insertEntry.description ?? null,
+      status: insertEntry.status || "submitted",
+      reviewedBy: insertEntry.reviewedBy ?? null,
+      reviewedAt: insertEntry.reviewedAt ?? null,
+      createdAt: new Date()
     };
+    this.timeEntries.set(id, entry);
+    return entry;
   }
 
-  async getEmployeeByEmail(email: string): Promise<Employee | undefined> {
-    const [employee] = await db.select().from(employees).where(eq(employees.email, email));
-    return employee || undefined;
-  }
+  async updateTimeEntry(id: number, insertEntry: Partial<InsertTimeEntry>): Promise<TimeEntry | undefined> {
+    const existing = this.timeEntries.get(id);
+    if (!existing) return undefined;
 
-  async createEmployee(insertEmployee: InsertEmployee): Promise<Employee> {
-    const [employee] = await db
-      .insert(employees)
-      .values(insertEmployee)
-      .returning();
-    return employee;
+    const updated: TimeEntry = { ...existing, ...insertEntry };
+    this.timeEntries.set(id, updated);
+    return updated;
   }
 
-  async updateEmployee(id: number, insertEmployee: Partial<InsertEmployee>): Promise<Employee | undefined> {
-    const [employee] = await db
-      .update(employees)
-      .set(insertEmployee)
-      .where(eq(employees.id, id))
-      .returning();
-    return employee || undefined;
+  async deleteTimeEntry(id: number): Promise<boolean> {
+    return this.timeEntries.delete(id);
   }
 
-  async deleteEmployee(id: number): Promise<boolean> {
-    const result = await db.delete(employees).where(eq(employees.id, id));
-    return (result.rowCount || 0) > 0;
+  // Unpaid leave methods
+  async getUnpaidLeavesByEmployee(employeeId: number, from?: string, to?: string): Promise<UnpaidLeave[]> {
+    return Array.from(this.unpaidLeaves.values())
+      .filter(leave => leave.employeeId === employeeId)
+      .filter(leave => (!from || leave.endDate >= from) && (!to || leave.startDate <= to))
+      .sort((a, b) => b.startDate.localeCompare(a.startDate));
   }
 
-  async getPayslips(): Promise<PayslipWithEmployee[]> {
-    const payslipList = await db
-      .select()
-      .from(payslips)
-      .leftJoin(employees, eq(payslips.employeeId, employees.id))
-      .orderBy(payslips.createdAt);
-    
-    return payslipList.map(row => ({
-      ...row.payslips,
-      employee: row.employees!
-    }));
+  async getUnpaidLeave(id: number): Promise<UnpaidLeave | undefined> {
+    return this.unpaidLeaves.get(id);
   }
 
-  async getPayslip(id: number): Promise<PayslipWithEmployee | undefined> {
-    const [result] = await db
-      .select()
-      .from(payslips)
-      .leftJoin(employees, eq(payslips.employeeId, employees.id))
-      .where(eq(payslips.id, id));
-    
-    if (!result || !result.employees) return undefined;
-    
-    return {
-      ...result.payslips,
-      employee: result.employees
+  async createUnpaidLeave(insertLeave: InsertUnpaidLeave): Promise<UnpaidLeave> {
+    const id = this.currentUnpaidLeaveId++;
+    const leave: UnpaidLeave = {
+      ...insertLeave,
+      id,
+      reason: insertLeave.reason ?? null,
+      createdAt: new Date()
     };
+    this.unpaidLeaves.set(id, leave);
+    return leave;
   }
 
-  async getPayslipsByEmployee(employeeId: number): Promise<Payslip[]> {
-    return await db.select().from(payslips).where(eq(payslips.employeeId, employeeId));
+  async deleteUnpaidLeave(id: number): Promise<boolean> {
+    return this.unpaidLeaves.delete(id);
   }
 
-  async createPayslip(insertPayslip: InsertPayslip): Promise<Payslip> {
-    const [payslip] = await db
-      .insert(payslips)
-      .values(insertPayslip)
-      .returning();
-    return payslip;
+  // Compensation history methods
+  async getCompensationHistory(employeeId: number): Promise<CompensationChange[]> {
+    return Array.from(this.compensationHistory.values())
+      .filter(change => change.employeeId === employeeId)
+      .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || b.id - a.id);
   }
 
-  async updatePayslip(id: number, insertPayslip: Partial<InsertPayslip>): Promise<Payslip | undefined> {
-    const [payslip] = await db
-      .update(payslips)
-      .set(insertPayslip)
-      .where(eq(payslips.id, id))
-      .returning();
-    return payslip || undefined;
+  async getCurrentCompensationChanges(asOf: string): Promise<CompensationChange[]> {
+    const current = new Map<number, CompensationChange>();
+    for (const change of Array.from(this.compensationHistory.values())) {
+      if (change.effectiveDate > asOf) continue;
+      const latest = current.get(change.employeeId);
+      if (!latest || change.effectiveDate > latest.effectiveDate ||
+          (change.effectiveDate === latest.effectiveDate && change.id > latest.id)) {
+        current.set(change.employeeId, change);
+      }
+    }
+    return Array.from(current.values());
   }
 
-  async deletePayslip(id: number): Promise<boolean> {
-    const result = await db.delete(payslips).where(eq(payslips.id, id));
-    return (result.rowCount || 0) > 0;
+  async createCompensationChange(insertChange: InsertCompensationChange, employeeUpdate?: Partial<InsertEmployee>): Promise<CompensationChange> {
+    const id = this.currentCompensationChangeId++;
+    const change: CompensationChange = {
+      ...insertChange,
+      id,
+      currency: insertChange.currency ?? "USD",
+      standardHoursPerWeek: insertChange.standardHoursPerWeek ?? "40",
+      note: insertChange.note ?? null,
+      createdAt: new Date()
+    };
+    this.compensationHistory.set(id, change);
+
+    if (employeeUpdate) {
+      await this.updateEmployee(change.employeeId, employeeUpdate);
+    }
+    return change;
   }
 
-  async getStats(): Promise<{
-    totalEmployees: number;
-    fullTimeEmployees: number;
+  // Retro pay methods
+  async getRetroPayAdjustmentsByEmployee(employeeId: number, status?: string): Promise<RetroPayAdjustment[]> {
+    return Array.from(this.retroPayAdjustments.values())
+      .filter(adjustment => adjustment.employeeId === employeeId && (!status || adjustment.status === status))
+      .sort((a, b) => a.payPeriodFrom.getTime() - b.payPeriodFrom.getTime() || a.id - b.id);
+  }
+
+  async createRetroPayAdjustment(insertAdjustment: InsertRetroPayAdjustment): Promise<RetroPayAdjustment> {
+    const id = this.currentRetroPayAdjustmentId++;
+    const adjustment: RetroPayAdjustment = {
+      ...insertAdjustment,
+      id,
+      status: insertAdjustment.status || "pending",
+      appliedPayslipId: insertAdjustment.appliedPayslipId ?? null,
+      createdAt: new Date()
+    };
+    this.retroPayAdjustments.set(id, adjustment);
+    return adjustment;
+  }
+
+  async updateRetroPayAdjustment(id: number, insertAdjustment: Partial<InsertRetroPayAdjustment>): Promise<RetroPayAdjustment | undefined> {
+    const existing = this.retroPayAdjustments.get(id);
+    if (!existing) return undefined;
+
+    const updated: RetroPayAdjustment = { ...existing, ...insertAdjustment };
+    this.retroPayAdjustments.set(id, updated);
+    return updated;
+  }
+
+  // Benefit methods
+  async getBenefitPlans(): Promise<BenefitPlan[]> {
+    return Array.from(this.benefitPlans.values());
+  }
+
+  async getBenefitPlan(id: number): Promise<BenefitPlan | undefined> {
+    return this.benefitPlans.get(id);
+  }
+
+  async createBenefitPlan(insertPlan: InsertBenefitPlan): Promise<BenefitPlan> {
+    const id = this.currentBenefitPlanId++;
+    const plan: BenefitPlan = {
+      ...insertPlan,
+      id,
+      description: insertPlan.description ?? null,
+      isPreTax: insertPlan.isPreTax ?? true,
+      employeeContributionType: insertPlan.employeeContributionType ?? "fixed",
+      employeeContribution: insertPlan.employeeContribution ?? "0",
+      employerContributionType: insertPlan.employerContributionType ?? "fixed",
+      employerContribution: insertPlan.employerContribution ?? "0",
+      employerMatch: insertPlan.employerMatch ?? null,
+      annualLimit: insertPlan.annualLimit ?? null,
+      isActive: insertPlan.isActive ?? true,
+      createdAt: new Date()
+    };
+    this.benefitPlans.set(id, plan);
+    return plan;
+  }
+
+  async updateBenefitPlan(id: number, insertPlan: Partial<InsertBenefitPlan>): Promise<BenefitPlan | undefined> {
+    const existing = this.benefitPlans.get(id);
+    if (!existing) return undefined;
+
+    const updated: BenefitPlan = { ...existing, ...insertPlan };
+    this.benefitPlans.set(id, updated);
+    return updated;
+  }
+
+  async deleteBenefitPlan(id: number): Promise<boolean> {
+    return this.benefitPlans.delete(id);
+  }
+
+  async getBenefitEnrollmentsByEmployee(employeeId: number, from?: string, to?: string): Promise<BenefitEnrollmentWithPlan[]> {
+    return Array.from(this.benefitEnrollments.values())
+      .filter(enrollment => enrollment.employeeId === employeeId)
+      .filter(enrollment => (!from || enrollment.endDate === null || enrollment.endDate >= from) && (!to || enrollment.startDate <= to))
+      .sort((a, b) => b.startDate.localeCompare(a.startDate))
+      .map(enrollment => ({ ...enrollment, plan: this.benefitPlans.get(enrollment.planId)! }));
+  }
+
+  async getBenefitEnrollmentsByPlan(planId: number): Promise<BenefitEnrollment[]> {
+    return Array.from(this.benefitEnrollments.values()).filter(enrollment => enrollment.planId === planId);
+  }
+
+  async getBenefitEnrollment(id: number): Promise<BenefitEnrollment | undefined> {
+    return this.benefitEnrollments.get(id);
+  }
+
+  async createBenefitEnrollment(insertEnrollment: InsertBenefitEnrollment): Promise<BenefitEnrollment> {
+    const id = this.currentBenefitEnrollmentId++;
+    const enrollment: BenefitEnrollment = {
+      ...insertEnrollment,
+      id,
+      endDate: insertEnrollment.endDate ?? null,
+      createdAt: new Date()
+    };
+    this.benefitEnrollments.set(id, enrollment);
+    return enrollment;
+  }
+
+  async updateBenefitEnrollment(id: number, insertEnrollment: Partial<InsertBenefitEnrollment>): Promise<BenefitEnrollment | undefined> {
+    const existing = this.benefitEnrollments.get(id);
+    if (!existing) return undefined;
+
+    const updated: BenefitEnrollment = { ...existing, ...insertEnrollment };
+    this.benefitEnrollments.set(id, updated);
+    return updated;
+  }
+
+  async deleteBenefitEnrollment(id: number): Promise<boolean> {
+    return this.benefitEnrollments.delete(id);
+  }
+
+  // Garnishment order methods
+  async getGarnishmentOrdersByEmployee(employeeId: number, from?: string, to?: string): Promise<GarnishmentOrder[]> {
+    return Array.from(this.garnishmentOrders.values())
+      .filter(order => order.employeeId === employeeId)
+      .filter(order => (!from || order.endDate === null || order.endDate >= from) && (!to || order.startDate <= to))
+      .sort((a, b) => b.startDate.localeCompare(a.startDate));
+  }
+
+  async getGarnishmentOrder(id: number): Promise<GarnishmentOrder | undefined> {
+    return this.garnishmentOrders.get(id);
+  }
+
+  async createGarnishmentOrder(insertOrder: InsertGarnishmentOrder): Promise<GarnishmentOrder> {
+    const id = this.currentGarnishmentOrderId++;
+    const order: GarnishmentOrder = {
+      ...insertOrder,
+      id,
+      caseNumber: insertOrder.caseNumber ?? null,
+      amountType: insertOrder.amountType ?? "fixed",
+      maxPerPeriod: insertOrder.maxPerPeriod ?? null,
+      totalCap: insertOrder.totalCap ?? null,
+      disposableLimitPercent: insertOrder.disposableLimitPercent ?? null,
+      endDate: insertOrder.endDate ?? null,
+      createdAt: new Date()
+    };
+    this.garnishmentOrders.set(id, order);
+    return order;
+  }
+
+  async updateGarnishmentOrder(id: number, insertOrder: Partial<InsertGarnishmentOrder>): Promise<GarnishmentOrder | undefined> {
+    const existing = this.garnishmentOrders.get(id);
+    if (!existing) return undefined;
+
+    const updated: GarnishmentOrder = { ...existing, ...insertOrder };
+    this.garnishmentOrders.set(id, updated);
+    return updated;
+  }
+
+  async deleteGarnishmentOrder(id: number): Promise<boolean> {
+    return this.garnishmentOrders.delete(id);
+  }
+
+  // Scheduled earning methods. One-off earnings end where they start
+  async getScheduledEarnings(from?: string, to?: string): Promise<ScheduledEarningWithEmployee[]> {
+    const result: ScheduledEarningWithEmployee[] = [];
+    for (const earning of Array.from(this.scheduledEarnings.values())) {
+      const endDate = earning.recurring ? earning.endDate : earning.startDate;
+      if (from && endDate !== null && endDate < from) continue;
+      if (to && earning.startDate > to) continue;
+
+      const employee = this.employees.get(earning.employeeId);
+      if (employee) {
+        result.push({ ...earning, employee });
+      }
+    }
+    return result.sort((a, b) => b.startDate.localeCompare(a.startDate) || b.id - a.id);
+  }
+
+  async getScheduledEarningsByEmployee(employeeId: number, from?: string, to?: string): Promise<ScheduledEarning[]> {
+    return (await this.getScheduledEarnings(from, to))
+      .filter(earning => earning.employeeId === employeeId)
+      .map(({ employee: _employee, ...earning }) => earning);
+  }
+
+  async getScheduledEarning(id: number): Promise<ScheduledEarning | undefined> {
+    return this.scheduledEarnings.get(id);
+  }
+
+  async createScheduledEarning(insertEarning: InsertScheduledEarning): Promise<ScheduledEarning> {
+    const id = this.currentScheduledEarningId++;
+    const earning: ScheduledEarning = {
+      ...insertEarning,
+      id,
+      description: insertEarning.description ?? null,
+      salesAmount: insertEarning.salesAmount ?? null,
+      recurring: insertEarning.recurring ?? false,
+      endDate: insertEarning.endDate ?? null,
+      isSupplemental: insertEarning.isSupplemental ?? true,
+      createdAt: new Date()
+    };
+    this.scheduledEarnings.set(id, earning);
+    return earning;
+  }
+
+  async createScheduledEarnings(insertEarnings: InsertScheduledEarning[]): Promise<ScheduledEarning[]> {
+    const created: ScheduledEarning[] = [];
+    for (const insertEarning of insertEarnings) {
+      created.push(await this.createScheduledEarning(insertEarning));
+    }
+    return created;
+  }
+
+  async updateScheduledEarning(id: number, insertEarning: Partial<InsertScheduledEarning>): Promise<ScheduledEarning | undefined> {
+    const existing = this.scheduledEarnings.get(id);
+    if (!existing) return undefined;
+
+    const updated: ScheduledEarning = { ...existing, ...insertEarning };
+    this.scheduledEarnings.set(id, updated);
+    return updated;
+  }
+
+  async deleteScheduledEarning(id: number): Promise<boolean> {
+    return this.scheduledEarnings.delete(id);
+  }
+
+  // Loan methods
+  async getLoansByEmployee(employeeId: number): Promise<Loan[]> {
+    return Array.from(this.loans.values())
+      .filter(loan => loan.employeeId === employeeId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async getLoan(id: number): Promise<Loan | undefined> {
+    return this.loans.get(id);
+  }
+
+  async createLoan(insertLoan: InsertLoan): Promise<Loan> {
+    const id = this.currentLoanId++;
+    const loan: Loan = {
+      ...insertLoan,
+      id,
+      status: insertLoan.status ?? "active",
+      createdAt: new Date()
+    };
+    this.loans.set(id, loan);
+    return loan;
+  }
+
+  async updateLoan(id: number, insertLoan: Partial<InsertLoan>): Promise<Loan | undefined> {
+    const existing = this.loans.get(id);
+    if (!existing) return undefined;
+
+    const updated: Loan = { ...existing, ...insertLoan };
+    this.loans.set(id, updated);
+    return updated;
+  }
+
+  async deleteLoan(id: number): Promise<boolean> {
+    return this.loans.delete(id);
+  }
+
+  // Profile change request methods
+  async getProfileChangeRequests(status?: string): Promise<ProfileChangeRequestWithEmployee[]> {
+    const result: ProfileChangeRequestWithEmployee[] = [];
+    for (const request of Array.from(this.profileChangeRequests.values())) {
+      if (status && request.status !== status) continue;
+      const employee = this.employees.get(request.employeeId);
+      if (employee) {
+        result.push({ ...request, employee });
+      }
+    }
+    return result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getProfileChangeRequestsByEmployee(employeeId: number): Promise<ProfileChangeRequest[]> {
+    return Array.from(this.profileChangeRequests.values())
+      .filter(request => request.employeeId === employeeId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getProfileChangeRequest(id: number): Promise<ProfileChangeRequest | undefined> {
+    return this.profileChangeRequests.get(id);
+  }
+
+  async createProfileChangeRequest(insertRequest: InsertProfileChangeRequest): Promise<ProfileChangeRequest> {
+    const id = this.currentProfileChangeRequestId++;
+    const request: ProfileChangeRequest = {
+      ...insertRequest,
+      id,
+      status: insertRequest.status || "pending",
+      reviewedBy: insertRequest.reviewedBy ?? null,
+      reviewedAt: insertRequest.reviewedAt ?? null,
+      reviewNote: insertRequest.reviewNote ?? null,
+      createdAt: new Date()
+    };
+    this.profileChangeRequests.set(id, request);
+    return request;
+  }
+
+  async updateProfileChangeRequest(id: number, insertRequest: Partial<InsertProfileChangeRequest>): Promise<ProfileChangeRequest | undefined> {
+    const existing = this.profileChangeRequests.get(id);
+    if (!existing) return undefined;
+
+    const updated: ProfileChangeRequest = { ...existing, ...insertRequest };
+    this.profileChangeRequests.set(id, updated);
+    return updated;
+  }
+
+  async reviewProfileChangeRequest(id: number, review: ProfileChangeReview, employeeUpdate?: Partial<InsertEmployee>): Promise<ProfileChangeRequest | undefined> {
+    const existing = this.profileChangeRequests.get(id);
+    if (!existing || existing.status !== "pending") return undefined;
+
+    if (employeeUpdate) {
+      await this.updateEmployee(existing.employeeId, employeeUpdate);
+    }
+
+    const updated: ProfileChangeRequest = { ...existing, ...review };
+    this.profileChangeRequests.set(id, updated);
+    return updated;
+  }
+
+  // Pay run methods
+  async getPayRuns(): Promise<PayRun[]> {
+    return Array.from(this.payRuns.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPayRun(id: number): Promise<PayRunWithPayslips | undefined> {
+    const payRun = this.payRuns.get(id);
+    if (!payRun) return undefined;
+
+    const payslips = (await this.getPayslips()).filter(payslip => payslip.payRunId === id);
+    return { ...payRun, payslips };
+  }
+
+  async createPayRun(insertPayRun: InsertPayRun, payslips: PayslipRecord[], allowOverlapping: boolean): Promise<PayRun> {
+    const id = this.currentPayRunId++;
+    const payRun: PayRun = {
+      ...insertPayRun,
+      id,
+      payFrequency: insertPayRun.payFrequency || "monthly",
+      payScheduleId: insertPayRun.payScheduleId ?? null,
+      status: insertPayRun.status || "committed",
+      createdAt: new Date()
+    };
+    try {
+      this.payRuns.set(id, payRun);
+      await this.commitPayslipRecords(payslips, allowOverlapping, id);
+    } catch (error) {
+      this.payRuns.delete(id);
+      throw error;
+    }
+
+    return payRun;
+  }
+
+  // Tax methods
+  async getTaxTables(): Promise<TaxTable[]> {
+    return Array.from(this.taxTables.values());
+  }
+
+  async getTaxTable(id: number): Promise<TaxTable | undefined> {
+    return this.taxTables.get(id);
+  }
+
+  async createTaxTable(insertTaxTable: InsertTaxTable): Promise<TaxTable> {
+    const id = this.currentTaxTableId++;
+    const table = this.buildTaxTable(id, insertTaxTable);
+    this.taxTables.set(id, table);
+    return table;
+  }
+
+  async updateTaxTable(id: number, insertTaxTable: Partial<InsertTaxTable>): Promise<TaxTable | undefined> {
+    const existing = this.taxTables.get(id);
+    if (!existing) return undefined;
+
+    const updated: TaxTable = {
+      ...existing,
+      ...insertTaxTable,
+      brackets: insertTaxTable.brackets ? [...insertTaxTable.brackets] : existing.brackets
+    };
+    this.taxTables.set(id, updated);
+    return updated;
+  }
+
+  async deleteTaxTable(id: number): Promise<boolean> {
+    return this.taxTables.delete(id);
+  }
+
+  async getEmployeeTaxProfile(employeeId: number): Promise<EmployeeTaxProfile | undefined> {
+    return Array.from(this.taxProfiles.values()).find(profile => profile.employeeId === employeeId);
+  }
+
+  async upsertEmployeeTaxProfile(insertProfile: InsertEmployeeTaxProfile): Promise<EmployeeTaxProfile> {
+    const existing = await this.getEmployeeTaxProfile(insertProfile.employeeId);
+    const id = existing ? existing.id : this.currentTaxProfileId++;
+    const profile: EmployeeTaxProfile = {
+      ...insertProfile,
+      id,
+      filingStatus: insertProfile.filingStatus || "single",
+      stateCode: insertProfile.stateCode || null,
+      allowances: insertProfile.allowances ?? 0,
+      additionalWithholding: insertProfile.additionalWithholding || "0",
+      exempt: insertProfile.exempt ?? false
+    };
+    this.taxProfiles.set(id, profile);
+    return profile;
+  }
+
+  // Stats methods
+  async getStats(): Promise<{
+    totalEmployees: number;
+    fullTimeEmployees: number;
+    partTimeEmployees: number;
+    monthlyPayroll: { currency: string; amount: number }[];
+  }> {
+    const employeeList = Array.from(this.employees.values()).filter(emp => emp.status === 'active');
+    const fullTimeEmployees = employeeList.filter(emp => emp.type === 'full-time');
+    const partTimeEmployees = employeeList.filter(emp => emp.type === 'part-time');
+
+    // Calculate monthly payroll estimate per currency; hourly and daily pay assumes standard hours
+    const monthlyPayroll = new Map<string, number>();
+    for (const employee of employeeList) {
+      const compensation = Compensation.fromRecord(employee);
+      const currency = compensation.getCurrency();
+      monthlyPayroll.set(currency, (monthlyPayroll.get(currency) ?? 0) + compensation.getAnnualAmount() / 12);
+    }
+
+    return {
+      totalEmployees: employeeList.length,
+      fullTimeEmployees: fullTimeEmployees.length,
+      partTimeEmployees: partTimeEmployees.length,
+      monthlyPayroll: Array.from(monthlyPayroll, ([currency, amount]) => ({ currency, amount: Math.round(amount) }))
+        .sort((a, b) => a.currency.localeCompare(b.currency))
+    };
+  }
+}
+
+// Database storage implementation
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values(insertUser)
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: number, updateUser: UpdateUser): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(updateUser)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async getRoles(): Promise<Role[]> {
+    return await db.select().from(roles);
+  }
+
+  async getRole(id: number): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.id, id));
+    return role || undefined;
+  }
+
+  async createRole(insertRole: InsertRole): Promise<Role> {
+    const [role] = await db
+      .insert(roles)
+      .values(insertRole)
+      .returning();
+    return role;
+  }
+
+  async updateRole(id: number, insertRole: Partial<InsertRole>): Promise<Role | undefined> {
+    const [role] = await db
+      .update(roles)
+      .set(insertRole)
+      .where(eq(roles.id, id))
+      .returning();
+    return role || undefined;
+  }
+
+  async deleteRole(id: number): Promise<boolean> {
+    const result = await db.delete(roles).where(eq(roles.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getPaySchedules(): Promise<PaySchedule[]> {
+    return await db.select().from(paySchedules).orderBy(asc(paySchedules.name));
+  }
+
+  async getPaySchedule(id: number): Promise<PaySchedule | undefined> {
+    const [schedule] = await db.select().from(paySchedules).where(eq(paySchedules.id, id));
+    return schedule || undefined;
+  }
+
+  async createPaySchedule(insertSchedule: InsertPaySchedule): Promise<PaySchedule> {
+    const [schedule] = await db
+      .insert(paySchedules)
+      .values(insertSchedule)
+      .returning();
+    return schedule;
+  }
+
+  async updatePaySchedule(id: number, insertSchedule: Partial<InsertPaySchedule>): Promise<PaySchedule | undefined> {
+    const [schedule] = await db
+      .update(paySchedules)
+      .set(insertSchedule)
+      .where(eq(paySchedules.id, id))
+      .returning();
+    return schedule || undefined;
+  }
+
+  async deletePaySchedule(id: number): Promise<boolean> {
+    const result = await db.delete(paySchedules).where(eq(paySchedules.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getOvertimePolicies(): Promise<OvertimePolicy[]> {
+    return await db.select().from(overtimePolicies).orderBy(asc(overtimePolicies.name));
+  }
+
+  async getOvertimePolicy(id: number): Promise<OvertimePolicy | undefined> {
+    const [policy] = await db.select().from(overtimePolicies).where(eq(overtimePolicies.id, id));
+    return policy || undefined;
+  }
+
+  async createOvertimePolicy(insertPolicy: InsertOvertimePolicy): Promise<OvertimePolicy> {
+    const [policy] = await db
+      .insert(overtimePolicies)
+      .values(insertPolicy)
+      .returning();
+    return policy;
+  }
+
+  async updateOvertimePolicy(id: number, insertPolicy: Partial<InsertOvertimePolicy>): Promise<OvertimePolicy | undefined> {
+    const [policy] = await db
+      .update(overtimePolicies)
+      .set(insertPolicy)
+      .where(eq(overtimePolicies.id, id))
+      .returning();
+    return policy || undefined;
+  }
+
+  async deleteOvertimePolicy(id: number): Promise<boolean> {
+    const result = await db.delete(overtimePolicies).where(eq(overtimePolicies.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getEmployees(): Promise<EmployeeWithRole[]> {
+    const employeeList = await db
+      .select()
+      .from(employees)
+      .leftJoin(roles, eq(employees.roleId, roles.id));
+    
+    return employeeList.map(row => ({
+      ...row.employees,
+      role: row.roles!
+    }));
+  }
+
+  async getEmployee(id: number): Promise<EmployeeWithRole | undefined> {
+    const [result] = await db
+      .select()
+      .from(employees)
+      .leftJoin(roles, eq(employees.roleId, roles.id))
+      .where(eq(employees.id, id));
+    
+    if (!result || !result.roles) return undefined;
+    
+    return {
+      ...result.employees,
+      role: result.roles
+    };
+  }
+
+  async getEmployeeByEmail(email: string): Promise<Employee | undefined> {
+    const [employee] = await db.select().from(employees).where(eq(employees.email, email));
+    return employee || undefined;
+  }
+
+  async createEmployee(insertEmployee: InsertEmployee): Promise<Employee> {
+    const [employee] = await db
+      .insert(employees)
+      .values(insertEmployee)
+      .returning();
+    return employee;
+  }
+
+  async updateEmployee(id: number, insertEmployee: Partial<InsertEmployee>): Promise<Employee | undefined> {
+    const [employee] = await db
+      .update(employees)
+      .set(insertEmployee)
+      .where(eq(employees.id, id))
+      .returning();
+    return employee || undefined;
+  }
+
+  async deleteEmployee(id: number): Promise<boolean> {
+    const result = await db.delete(employees).where(eq(employees.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getPayslips(): Promise<PayslipWithEmployee[]> {
+    const payslipList = await db
+      .select()
+      .from(payslips)
+      .leftJoin(employees, eq(payslips.employeeId, employees.id))
+      .orderBy(payslips.createdAt);
+    
+    return payslipList.map(row => ({
+      ...row.payslips,
+      employee: row.employees!
+    }));
+  }
+
+  async getPayslip(id: number): Promise<PayslipDetail | undefined> {
+    const [result] = await db
+      .select()
+      .from(payslips)
+      .leftJoin(employees, eq(payslips.employeeId, employees.id))
+      .where(eq(payslips.id, id));
+    
+    if (!result || !result.employees) return undefined;
+    
+    const lines = await this.getPayslipLines(id);
+    return {
+      ...result.payslips,
+      employee: result.employees,
+      lines
+    };
+  }
+
+  async getPayslipsByEmployee(employeeId: number): Promise<Payslip[]> {
+    return await db.select().from(payslips).where(eq(payslips.employeeId, employeeId));
+  }
+
+  async getPayslipLines(payslipId: number): Promise<PayslipLine[]> {
+    return await db
+      .select()
+      .from(payslipLines)
+      .where(eq(payslipLines.payslipId, payslipId))
+      .orderBy(asc(payslipLines.sortOrder));
+  }
+
+  async sumPayslipLines(employeeId: number, range: { from?: string; before?: string } = {}): Promise<PayslipLineTotal[]> {
+    const conditions = [eq(payslips.employeeId, employeeId), ne(payslips.status, "void")];
+    if (range.from) conditions.push(gte(payslips.payPeriodTo, PayCalendar.parseDate(range.from)));
+    if (range.before) conditions.push(lt(payslips.payPeriodTo, PayCalendar.parseDate(range.before)));
+
+    const rows = await db
+      .select({
+        type: payslipLines.type,
+        code: payslipLines.code,
+        earningId: payslipLines.earningId,
+        benefitPlanId: payslipLines.benefitPlanId,
+        garnishmentOrderId: payslipLines.garnishmentOrderId,
+        loanId: payslipLines.loanId,
+        amount: sum(payslipLines.amount),
+      })
+      .from(payslipLines)
+      .innerJoin(payslips, eq(payslipLines.payslipId, payslips.id))
+      .where(and(...conditions))
+      .groupBy(payslipLines.type, payslipLines.code, payslipLines.earningId, payslipLines.benefitPlanId, payslipLines.garnishmentOrderId, payslipLines.loanId);
+    return rows.map(row => ({ ...row, amount: roundCurrency(parseFloat(row.amount ?? "0")) }));
+  }
+
+  async createPayslip(insertPayslip: InsertPayslip, lines: InsertPayslipLine[] = []): Promise<Payslip> {
+    // Header and lines are written together so a payslip never exists without its breakdown
+    return await db.transaction(async (tx) => {
+      const [payslip] = await tx
+        .insert(payslips)
+        .values(insertPayslip)
+        .returning();
+
+      if (lines.length > 0) {
+        await tx.insert(payslipLines).values(
+          lines.map((line, index) => ({ ...line, payslipId: payslip.id, sortOrder: line.sortOrder ?? index }))
+        );
+      }
+
+      return payslip;
+    });
+  }
+
+  async commitPayslip(record: PayslipRecord, allowOverlapping: boolean): Promise<Payslip> {
+    return await db.transaction(async (tx) => {
+      const [payslip] = await this.commitPayslipRecords(tx, [record], allowOverlapping);
+      return payslip;
+    });
+  }
+
+  // The employees being paid are locked first, so concurrent saves for them wait for this one and
+  // then check their periods against the payslips it saved
+  private async commitPayslipRecords(tx: Transaction, records: PayslipRecord[], allowOverlapping: boolean, payRunId?: number): Promise<Payslip[]> {
+    const employeeIds = Array.from(new Set(records.map(record => record.payslip.employeeId)));
+    await tx
+      .select({ id: employees.id })
+      .from(employees)
+      .where(inArray(employees.id, employeeIds))
+      .for("update");
+
+    const existing = await tx
+      .select()
+      .from(payslips)
+      .where(inArray(payslips.employeeId, employeeIds));
+    const historyOf = (employeeId: number) => new PayslipHistory(existing.filter(payslip => payslip.employeeId === employeeId));
+
+    if (!allowOverlapping) {
+      const overlapping = records
+        .filter(({ payslip }) => historyOf(payslip.employeeId).overlaps(payslip.payPeriodFrom, payslip.payPeriodTo))
+        .map(({ payslip }) => payslip.employeeId);
+      if (overlapping.length > 0) throw new OverlappingPayslipError(overlapping);
+    }
+
+    const saved: Payslip[] = [];
+    for (const { payslip: insertPayslip, lines, retroPayAdjustmentIds } of records) {
+      const stamped = historyOf(insertPayslip.employeeId).stamp(insertPayslip);
+      const [payslip] = await tx
+        .insert(payslips)
+        .values(payRunId ? { ...stamped, payRunId } : stamped)
+        .returning();
+      existing.push(payslip);
+
+      if (lines.length > 0) {
+        await tx.insert(payslipLines).values(
+          lines.map((line, index) => ({ ...line, payslipId: payslip.id, sortOrder: line.sortOrder ?? index }))
+        );
+      }
+      if (retroPayAdjustmentIds.length > 0) {
+        await tx
+          .update(retroPayAdjustments)
+          .set({ status: "applied", appliedPayslipId: payslip.id })
+          .where(and(inArray(retroPayAdjustments.id, retroPayAdjustmentIds), eq(retroPayAdjustments.status, "pending")));
+      }
+      saved.push(payslip);
+    }
+
+    // Payslips later in the year include these if they were generated out of order
+    for (const payslip of saved) {
+      for (const { id, totals } of historyOf(payslip.employeeId).staleYearToDate(PayslipHistory.taxYearOf(payslip))) {
+        await tx.update(payslips).set(totals).where(eq(payslips.id, id));
+        Object.assign(existing.find(other => other.id === id)!, totals);
+      }
+    }
+    return saved;
+  }
+
+  async updatePayslip(id: number, insertPayslip: Partial<InsertPayslip>): Promise<Payslip | undefined> {
+    await this.assertPayslipUnlocked(id);
+
+    const [payslip] = await db
+      .update(payslips)
+      .set(insertPayslip)
+      .where(eq(payslips.id, id))
+      .returning();
+    return payslip || undefined;
+  }
+
+  async transitionPayslip(id: number, expectedStatus: string, update: PayslipStatusUpdate): Promise<Payslip | undefined> {
+    const [payslip] = await db
+      .update(payslips)
+      .set(update)
+      .where(and(eq(payslips.id, id), eq(payslips.status, expectedStatus)))
+      .returning();
+    return payslip || undefined;
+  }
+
+  async updatePayslipYearToDate(id: number, totals: PayslipYearToDate): Promise<Payslip | undefined> {
+    const [payslip] = await db
+      .update(payslips)
+      .set(totals)
+      .where(eq(payslips.id, id))
+      .returning();
+    return payslip || undefined;
+  }
+
+  async deletePayslip(id: number): Promise<boolean> {
+    await this.assertPayslipUnlocked(id);
+
+    const result = await db.delete(payslips).where(eq(payslips.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  private async assertPayslipUnlocked(id: number): Promise<void> {
+    const [existing] = await db.select({ status: payslips.status }).from(payslips).where(eq(payslips.id, id));
+    if (existing && PayslipStateMachine.isLocked(existing.status)) {
+      throw new PayslipLockedError(id, existing.status);
+    }
+  }
+
+  async getPayslipDeliveries(payslipId: number): Promise<PayslipDelivery[]> {
+    return await db
+      .select()
+      .from(payslipDeliveries)
+      .where(eq(payslipDeliveries.payslipId, payslipId))
+      .orderBy(desc(payslipDeliveries.attemptedAt));
+  }
+
+  async createPayslipDelivery(insertDelivery: InsertPayslipDelivery): Promise<PayslipDelivery> {
+    const [delivery] = await db
+      .insert(payslipDeliveries)
+      .values(insertDelivery)
+      .returning();
+    return delivery;
+  }
+
+  async getTimeEntriesByEmployee(employeeId: number, from?: string, to?: string): Promise<TimeEntry[]> {
+    const conditions = [eq(timeEntries.employeeId, employeeId)];
+    if (from) conditions.push(gte(timeEntries.workDate, from));
+    if (to) conditions.push(lte(timeEntries.workDate, to));
+
+    return await db
+      .select()
+      .from(timeEntries)
+      .where(and(...conditions))
+      .orderBy(desc(timeEntries.workDate), desc(timeEntries.startTime));
+  }
+
+  async getTimeEntry(id: number): Promise<TimeEntry | undefined> {
+    const [entry] = await db.select().from(timeEntries).where(eq(timeEntries.id, id));
+    return entry || undefined;
+  }
+
+  async createTimeEntry(insertEntry: InsertTimeEntry): Promise<TimeEntry> {
+    const [entry] = await db
+      .insert(timeEntries)
+      .values(insertEntry)
+      .returning();
+    return entry;
+  }
+
+  async updateTimeEntry(id: number, insertEntry: Partial<InsertTimeEntry>): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .update(timeEntries)
+      .set(insertEntry)
+      .where(eq(timeEntries.id, id))
+      .returning();
+    return entry || undefined;
+  }
+
+  async deleteTimeEntry(id: number): Promise<boolean> {
+    const result = await db.delete(timeEntries).where(eq(timeEntries.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getUnpaidLeavesByEmployee(employeeId: number, from?: string, to?: string): Promise<UnpaidLeave[]> {
+    const conditions = [eq(unpaidLeaves.employeeId, employeeId)];
+    if (from) conditions.push(gte(unpaidLeaves.endDate, from));
+    if (to) conditions.push(lte(unpaidLeaves.startDate, to));
+
+    return await db
+      .select()
+      .from(unpaidLeaves)
+      .where(and(...conditions))
+      .orderBy(desc(unpaidLeaves.startDate));
+  }
+
+  async getUnpaidLeave(id: number): Promise<UnpaidLeave | undefined> {
+    const [leave] = await db.select().from(unpaidLeaves).where(eq(unpaidLeaves.id, id));
+    return leave || undefined;
+  }
+
+  async createUnpaidLeave(insertLeave: InsertUnpaidLeave): Promise<UnpaidLeave> {
+    const [leave] = await db
+      .insert(unpaidLeaves)
+      .values(insertLeave)
+      .returning();
+    return leave;
+  }
+
+  async deleteUnpaidLeave(id: number): Promise<boolean> {
+    const result = await db.delete(unpaidLeaves).where(eq(unpaidLeaves.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getCompensationHistory(employeeId: number): Promise<CompensationChange[]> {
+    return await db
+      .select()
+      .from(compensationHistory)
+      .where(eq(compensationHistory.employeeId, employeeId))
+      .orderBy(desc(compensationHistory.effectiveDate), desc(compensationHistory.id));
+  }
+
+  async getCurrentCompensationChanges(asOf: string): Promise<CompensationChange[]> {
+    return await db
+      .selectDistinctOn([compensationHistory.employeeId])
+      .from(compensationHistory)
+      .where(lte(compensationHistory.effectiveDate, asOf))
+      .orderBy(compensationHistory.employeeId, desc(compensationHistory.effectiveDate), desc(compensationHistory.id));
+  }
+
+  async createCompensationChange(insertChange: InsertCompensationChange, employeeUpdate?: Partial<InsertEmployee>): Promise<CompensationChange> {
+    // The change is recorded and the employee's current pay updated together or not at all
+    return await db.transaction(async (tx) => {
+      const [change] = await tx
+        .insert(compensationHistory)
+        .values(insertChange)
+        .returning();
+
+      if (employeeUpdate) {
+        await tx
+          .update(employees)
+          .set(employeeUpdate)
+          .where(eq(employees.id, change.employeeId));
+      }
+      return change;
+    });
+  }
+
+  async getRetroPayAdjustmentsByEmployee(employeeId: number, status?: string): Promise<RetroPayAdjustment[]> {
+    const conditions = [eq(retroPayAdjustments.employeeId, employeeId)];
+    if (status) conditions.push(eq(retroPayAdjustments.status, status));
+
+    return await db
+      .select()
+      .from(retroPayAdjustments)
+      .where(and(...conditions))
+      .orderBy(asc(retroPayAdjustments.payPeriodFrom), asc(retroPayAdjustments.id));
+  }
+
+  async createRetroPayAdjustment(insertAdjustment: InsertRetroPayAdjustment): Promise<RetroPayAdjustment> {
+    const [adjustment] = await db
+      .insert(retroPayAdjustments)
+      .values(insertAdjustment)
+      .returning();
+    return adjustment;
+  }
+
+  async updateRetroPayAdjustment(id: number, insertAdjustment: Partial<InsertRetroPayAdjustment>): Promise<RetroPayAdjustment | undefined> {
+    const [adjustment] = await db
+      .update(retroPayAdjustments)
+      .set(insertAdjustment)
+      .where(eq(retroPayAdjustments.id, id))
+      .returning();
+    return adjustment || undefined;
+  }
+
+  async getBenefitPlans(): Promise<BenefitPlan[]> {
+    return await db.select().from(benefitPlans).orderBy(asc(benefitPlans.name));
+  }
+
+  async getBenefitPlan(id: number): Promise<BenefitPlan | undefined> {
+    const [plan] = await db.select().from(benefitPlans).where(eq(benefitPlans.id, id));
+    return plan || undefined;
+  }
+
+  async createBenefitPlan(insertPlan: InsertBenefitPlan): Promise<BenefitPlan> {
+    const [plan] = await db
+      .insert(benefitPlans)
+      .values(insertPlan)
+      .returning();
+    return plan;
+  }
+
+  async updateBenefitPlan(id: number, insertPlan: Partial<InsertBenefitPlan>): Promise<BenefitPlan | undefined> {
+    const [plan] = await db
+      .update(benefitPlans)
+      .set(insertPlan)
+      .where(eq(benefitPlans.id, id))
+      .returning();
+    return plan || undefined;
+  }
+
+  async deleteBenefitPlan(id: number): Promise<boolean> {
+    const result = await db.delete(benefitPlans).where(eq(benefitPlans.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getBenefitEnrollmentsByEmployee(employeeId: number, from?: string, to?: string): Promise<BenefitEnrollmentWithPlan[]> {
+    const conditions = [eq(benefitEnrollments.employeeId, employeeId)];
+    if (from) conditions.push(or(isNull(benefitEnrollments.endDate), gte(benefitEnrollments.endDate, from))!);
+    if (to) conditions.push(lte(benefitEnrollments.startDate, to));
+
+    const result = await db
+      .select()
+      .from(benefitEnrollments)
+      .innerJoin(benefitPlans, eq(benefitEnrollments.planId, benefitPlans.id))
+      .where(and(...conditions))
+      .orderBy(desc(benefitEnrollments.startDate));
+
+    return result.map(row => ({
+      ...row.benefit_enrollments,
+      plan: row.benefit_plans,
+    }));
+  }
+
+  async getBenefitEnrollmentsByPlan(planId: number): Promise<BenefitEnrollment[]> {
+    return await db.select().from(benefitEnrollments).where(eq(benefitEnrollments.planId, planId));
+  }
+
+  async getBenefitEnrollment(id: number): Promise<BenefitEnrollment | undefined> {
+    const [enrollment] = await db.select().from(benefitEnrollments).where(eq(benefitEnrollments.id, id));
+    return enrollment || undefined;
+  }
+
+  async createBenefitEnrollment(insertEnrollment: InsertBenefitEnrollment): Promise<BenefitEnrollment> {
+    const [enrollment] = await db
+      .insert(benefitEnrollments)
+      .values(insertEnrollment)
+      .returning();
+    return enrollment;
+  }
+
+  async updateBenefitEnrollment(id: number, insertEnrollment: Partial<InsertBenefitEnrollment>): Promise<BenefitEnrollment | undefined> {
+    const [enrollment] = await db
+      .update(benefitEnrollments)
+      .set(insertEnrollment)
+      .where(eq(benefitEnrollments.id, id))
+      .returning();
+    return enrollment || undefined;
+  }
+
+  async deleteBenefitEnrollment(id: number): Promise<boolean> {
+    const result = await db.delete(benefitEnrollments).where(eq(benefitEnrollments.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getGarnishmentOrdersByEmployee(employeeId: number, from?: string, to?: string): Promise<GarnishmentOrder[]> {
+    const conditions = [eq(garnishmentOrders.employeeId, employeeId)];
+    if (from) conditions.push(or(isNull(garnishmentOrders.endDate), gte(garnishmentOrders.endDate, from))!);
+    if (to) conditions.push(lte(garnishmentOrders.startDate, to));
+
+    return await db
+      .select()
+      .from(garnishmentOrders)
+      .where(and(...conditions))
+      .orderBy(desc(garnishmentOrders.startDate));
+  }
+
+  async getGarnishmentOrder(id: number): Promise<GarnishmentOrder | undefined> {
+    const [order] = await db.select().from(garnishmentOrders).where(eq(garnishmentOrders.id, id));
+    return order || undefined;
+  }
+
+  async createGarnishmentOrder(insertOrder: InsertGarnishmentOrder): Promise<GarnishmentOrder> {
+    const [order] = await db
+      .insert(garnishmentOrders)
+      .values(insertOrder)
+      .returning();
+    return order;
+  }
+
+  async updateGarnishmentOrder(id: number, insertOrder: Partial<InsertGarnishmentOrder>): Promise<GarnishmentOrder | undefined> {
+    const [order] = await db
+      .update(garnishmentOrders)
+      .set(insertOrder)
+      .where(eq(garnishmentOrders.id, id))
+      .returning();
+    return order || undefined;
+  }
+
+  async deleteGarnishmentOrder(id: number): Promise<boolean> {
+    const result = await db.delete(garnishmentOrders).where(eq(garnishmentOrders.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getScheduledEarnings(from?: string, to?: string): Promise<ScheduledEarningWithEmployee[]> {
+    const result = await db
+      .select()
+      .from(scheduledEarnings)
+      .innerJoin(employees, eq(scheduledEarnings.employeeId, employees.id))
+      .where(and(...this.scheduledEarningConditions(from, to)))
+      .orderBy(desc(scheduledEarnings.startDate), desc(scheduledEarnings.id));
+
+    return result.map(row => ({
+      ...row.scheduled_earnings,
+      employee: row.employees,
+    }));
+  }
+
+  async getScheduledEarningsByEmployee(employeeId: number, from?: string, to?: string): Promise<ScheduledEarning[]> {
+    return await db
+      .select()
+      .from(scheduledEarnings)
+      .where(and(eq(scheduledEarnings.employeeId, employeeId), ...this.scheduledEarningConditions(from, to)))
+      .orderBy(desc(scheduledEarnings.startDate), desc(scheduledEarnings.id));
+  }
+
+  // One-off earnings end where they start; recurring ones run to their end date, if any
+  private scheduledEarningConditions(from?: string, to?: string) {
+    const conditions = [];
+    if (from) {
+      conditions.push(or(
+        and(eq(scheduledEarnings.recurring, false), gte(scheduledEarnings.startDate, from)),
+        and(eq(scheduledEarnings.recurring, true), or(isNull(scheduledEarnings.endDate), gte(scheduledEarnings.endDate, from)))
+      )!);
+    }
+    if (to) conditions.push(lte(scheduledEarnings.startDate, to));
+    return conditions;
+  }
+
+  async getScheduledEarning(id: number): Promise<ScheduledEarning | undefined> {
+    const [earning] = await db.select().from(scheduledEarnings).where(eq(scheduledEarnings.id, id));
+    return earning || undefined;
+  }
+
+  async createScheduledEarning(insertEarning: InsertScheduledEarning): Promise<ScheduledEarning> {
+    const [earning] = await db
+      .insert(scheduledEarnings)
+      .values(insertEarning)
+      .returning();
+    return earning;
+  }
+
+  async createScheduledEarnings(insertEarnings: InsertScheduledEarning[]): Promise<ScheduledEarning[]> {
+    // An import is committed together or not at all
+    return await db.transaction(async (tx) => {
+      if (insertEarnings.length === 0) return [];
+      return await tx
+        .insert(scheduledEarnings)
+        .values(insertEarnings)
+        .returning();
+    });
+  }
+
+  async updateScheduledEarning(id: number, insertEarning: Partial<InsertScheduledEarning>): Promise<ScheduledEarning | undefined> {
+    const [earning] = await db
+      .update(scheduledEarnings)
+      .set(insertEarning)
+      .where(eq(scheduledEarnings.id, id))
+      .returning();
+    return earning || undefined;
+  }
+
+  async deleteScheduledEarning(id: number): Promise<boolean> {
+    const result = await db.delete(scheduledEarnings).where(eq(scheduledEarnings.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getLoansByEmployee(employeeId: number): Promise<Loan[]> {
+    return await db
+      .select()
+      .from(loans)
+      .where(eq(loans.employeeId, employeeId))
+      .orderBy(asc(loans.createdAt), asc(loans.id));
+  }
+
+  async getLoan(id: number): Promise<Loan | undefined> {
+    const [loan] = await db.select().from(loans).where(eq(loans.id, id));
+    return loan || undefined;
+  }
+
+  async createLoan(insertLoan: InsertLoan): Promise<Loan> {
+    const [loan] = await db
+      .insert(loans)
+      .values(insertLoan)
+      .returning();
+    return loan;
+  }
+
+  async updateLoan(id: number, insertLoan: Partial<InsertLoan>): Promise<Loan | undefined> {
+    const [loan] = await db
+      .update(loans)
+      .set(insertLoan)
+      .where(eq(loans.id, id))
+      .returning();
+    return loan || undefined;
+  }
+
+  async deleteLoan(id: number): Promise<boolean> {
+    const result = await db.delete(loans).where(eq(loans.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getProfileChangeRequests(status?: string): Promise<ProfileChangeRequestWithEmployee[]> {
+    const result = await db
+      .select()
+      .from(profileChangeRequests)
+      .innerJoin(employees, eq(profileChangeRequests.employeeId, employees.id))
+      .where(status ? eq(profileChangeRequests.status, status) : undefined)
+      .orderBy(desc(profileChangeRequests.createdAt), desc(profileChangeRequests.id));
+
+    return result.map(row => ({
+      ...row.profile_change_requests,
+      employee: row.employees,
+    }));
+  }
+
+  async getProfileChangeRequestsByEmployee(employeeId: number): Promise<ProfileChangeRequest[]> {
+    return await db
+      .select()
+      .from(profileChangeRequests)
+      .where(eq(profileChangeRequests.employeeId, employeeId))
+      .orderBy(desc(profileChangeRequests.createdAt), desc(profileChangeRequests.id));
+  }
+
+  async getProfileChangeRequest(id: number): Promise<ProfileChangeRequest | undefined> {
+    const [request] = await db.select().from(profileChangeRequests).where(eq(profileChangeRequests.id, id));
+    return request || undefined;
+  }
+
+  async createProfileChangeRequest(insertRequest: InsertProfileChangeRequest): Promise<ProfileChangeRequest> {
+    const [request] = await db
+      .insert(profileChangeRequests)
+      .values(insertRequest)
+      .returning();
+    return request;
+  }
+
+  async updateProfileChangeRequest(id: number, insertRequest: Partial<InsertProfileChangeRequest>): Promise<ProfileChangeRequest | undefined> {
+    const [request] = await db
+      .update(profileChangeRequests)
+      .set(insertRequest)
+      .where(eq(profileChangeRequests.id, id))
+      .returning();
+    return request || undefined;
+  }
+
+  async reviewProfileChangeRequest(id: number, review: ProfileChangeReview, employeeUpdate?: Partial<InsertEmployee>): Promise<ProfileChangeRequest | undefined> {
+    // The request is closed and its changes applied together or not at all
+    return await db.transaction(async (tx) => {
+      const [request] = await tx
+        .update(profileChangeRequests)
+        .set(review)
+        .where(and(eq(profileChangeRequests.id, id), eq(profileChangeRequests.status, "pending")))
+        .returning();
+      if (!request) return undefined;
+
+      if (employeeUpdate) {
+        await tx
+          .update(employees)
+          .set(employeeUpdate)
+          .where(eq(employees.id, request.employeeId));
+      }
+      return request;
+    });
+  }
+
+  async getPayRuns(): Promise<PayRun[]> {
+    return await db.select().from(payRuns).orderBy(desc(payRuns.createdAt));
+  }
+
+  async getPayRun(id: number): Promise<PayRunWithPayslips | undefined> {
+    const [payRun] = await db.select().from(payRuns).where(eq(payRuns.id, id));
+    if (!payRun) return undefined;
+
+    const payslipList = await db
+      .select()
+      .from(payslips)
+      .leftJoin(employees, eq(payslips.employeeId, employees.id))
+      .where(eq(payslips.payRunId, id));
+
+    return {
+      ...payRun,
+      payslips: payslipList.map(row => ({
+        ...row.payslips,
+        employee: row.employees!
+      }))
+    };
+  }
+
+  async createPayRun(insertPayRun: InsertPayRun, payslipRecords: PayslipRecord[], allowOverlapping: boolean): Promise<PayRun> {
+    // The run and every payslip in it are committed together or not at all
+    return await db.transaction(async (tx) => {
+      const [payRun] = await tx
+        .insert(payRuns)
+        .values(insertPayRun)
+        .returning();
+
+      await this.commitPayslipRecords(tx, payslipRecords, allowOverlapping, payRun.id);
+      return payRun;
+    });
+  }
+
+  async getTaxTables(): Promise<TaxTable[]> {
+    return await db.select().from(taxTables);
+  }
+
+  async getTaxTable(id: number): Promise<TaxTable | undefined> {
+    const [table] = await db.select().from(taxTables).where(eq(taxTables.id, id));
+    return table || undefined;
+  }
+
+  async createTaxTable(insertTaxTable: InsertTaxTable): Promise<TaxTable> {
+    const [table] = await db
+      .insert(taxTables)
+      .values(insertTaxTable)
+      .returning();
+    return table;
+  }
+
+  async updateTaxTable(id: number, insertTaxTable: Partial<InsertTaxTable>): Promise<TaxTable | undefined> {
+    const [table] = await db
+      .update(taxTables)
+      .set(insertTaxTable)
+      .where(eq(taxTables.id, id))
+      .returning();
+    return table || undefined;
+  }
+
+  async deleteTaxTable(id: number): Promise<boolean> {
+    const result = await db.delete(taxTables).where(eq(taxTables.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getEmployeeTaxProfile(employeeId: number): Promise<EmployeeTaxProfile | undefined> {
+    const [profile] = await db.select().from(employeeTaxProfiles).where(eq(employeeTaxProfiles.employeeId, employeeId));
+    return profile || undefined;
+  }
+
+  async upsertEmployeeTaxProfile(insertProfile: InsertEmployeeTaxProfile): Promise<EmployeeTaxProfile> {
+    const [profile] = await db
+      .insert(employeeTaxProfiles)
+      .values(insertProfile)
+      .onConflictDoUpdate({ target: employeeTaxProfiles.employeeId, set: insertProfile })
+      .returning();
+    return profile;
+  }
+
+  async getStats(): Promise<{
+    totalEmployees: number;
+    fullTimeEmployees: number;
     partTimeEmployees: number;
-    monthlyPayroll: number;
+    monthlyPayroll: { currency: string; amount: number }[];
   }> {
     const employeeList = await db.select().from(employees).where(eq(employees.status, 'active'));
     const fullTimeEmployees = employeeList.filter(emp => emp.type === 'full-time');
     const partTimeEmployees = employeeList.filter(emp => emp.type === 'part-time');
 
-    // Calculate monthly payroll estimate
-    let monthlyPayroll = 0;
+    // Calculate monthly payroll estimate per currency; hourly and daily pay assumes standard hours
+    const monthlyPayroll = new Map<string, number>();
     for (const employee of employeeList) {
-      const salary = parseFloat(employee.salary);
-      if (employee.type === 'full-time') {
-        monthlyPayroll += salary / 12; // Annual to monthly
-      } else {
-        monthlyPayroll += salary * 80; // Assuming 80 hours per month for part-time
-      }
+      const compensation = Compensation.fromRecord(employee);
+      const currency = compensation.getCurrency();
+      monthlyPayroll.set(currency, (monthlyPayroll.get(currency) ?? 0) + compensation.getAnnualAmount() / 12);
     }
 
     return {
       totalEmployees: employeeList.length,
       fullTimeEmployees: fullTimeEmployees.length,
       partTimeEmployees: partTimeEmployees.length,
-      monthlyPayroll: Math.round(monthlyPayroll)
+      monthlyPayroll: Array.from(monthlyPayroll, ([currency, amount]) => ({ currency, amount: Math.round(amount) }))
+        .sort((a, b) => a.currency.localeCompare(b.currency))
     };
   }
 }
@@ -0,0 +1,74 @@
+import { storage } from "./storage";
+import { TimeSheet, OverlappingTimeEntryError, TimeEntryLockedError, type TimesheetSummary } from "./classes/TimeSheet";
+import { OvertimeRules } from "./classes/OvertimeRules";
+import type { TimeEntry, TimeEntryInput } from "@shared/schema";
+
+// Approved hours for a pay period, plus entries in the period still waiting for review
+export interface PayPeriodTimesheet extends TimesheetSummary {
+  pendingEntries: TimeEntry[];
+}
+
+// Computes hours and rejects overlapping shifts before saving. Pass `id` to update an existing entry;
+// approved entries are locked, and editing a rejected one sends it back for review.
+export async function saveTimeEntry(employeeId: number, input: TimeEntryInput, id?: number): Promise<TimeEntry | undefined> {
+  if (id !== undefined) {
+    await assertTimeEntryEditable(id);
+  }
+
+  const hoursWorked = TimeSheet.calculateHours(input);
+
+  const existing = await storage.getTimeEntriesByEmployee(employeeId, input.workDate, input.workDate);
+  const overlap = TimeSheet.findOverlap(input, existing, id);
+  if (overlap) {
+    throw new OverlappingTimeEntryError(overlap);
+  }
+
+  const entry = { ...input, employeeId, hoursWorked: hoursWorked.toFixed(2) };
+  return id === undefined
+    ? await storage.createTimeEntry(entry)
+    : await storage.updateTimeEntry(id, { ...entry, status: "submitted", reviewedBy: null, reviewedAt: null });
+}
+
+export async function deleteTimeEntry(id: number): Promise<boolean> {
+  await assertTimeEntryEditable(id);
+  return await storage.deleteTimeEntry(id);
+}
+
+// Approves or rejects a submitted time entry
+export async function reviewTimeEntry(id: number, decision: "approved" | "rejected", actor: string): Promise<TimeEntry | undefined> {
+  const entry = await storage.getTimeEntry(id);
+  if (!entry) return undefined;
+  if (entry.status !== "submitted") {
+    throw new TimeEntryLockedError(entry);
+  }
+
+  return await storage.updateTimeEntry(id, { status: decision, reviewedBy: actor, reviewedAt: new Date() });
+}
+
+// Derives regular, overtime and double-time hours for a pay period from the employee's approved
+// time entries, under the employee's overtime rules
+export async function getPayPeriodTimesheet(
+  employeeId: number,
+  payPeriodFrom: Date,
+  payPeriodTo: Date,
+  rules: OvertimeRules = OvertimeRules.standard()
+): Promise<PayPeriodTimesheet> {
+  const from = TimeSheet.toWorkDate(payPeriodFrom);
+  const to = TimeSheet.toWorkDate(payPeriodTo);
+
+  // Start from the beginning of the first workweek so its earlier hours count toward the threshold
+  const entries = await storage.getTimeEntriesByEmployee(employeeId, TimeSheet.weekStart(from), to);
+  const approved = entries.filter(entry => entry.status === "approved");
+
+  return {
+    ...TimeSheet.summarize(approved, from, to, rules),
+    pendingEntries: entries.filter(entry => entry.status === "submitted" && entry.workDate >= from),
+  };
+}
+
+async function assertTimeEntryEditable(id: number): Promise<void> {
+  const entry = await storage.getTimeEntry(id);
+  if (entry && entry.status === "approved") {
+    throw new TimeEntryLockedError(entry);
+  }
+}
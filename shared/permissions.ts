@@ -0,0 +1,49 @@
+// Access roles for user accounts. These are separate from the job roles in the `roles` table.
+export const userRoles = ["admin", "hr", "manager", "employee"] as const;
+export type UserRole = typeof userRoles[number];
+
+export const permissions = [
+  "dashboard:view",
+  "reports:view",
+  "employees:read",
+  "employees:read-reports",
+  "employees:manage",
+  "roles:read",
+  "roles:manage",
+  "payroll:read",
+  "payroll:manage",
+  "timesheets:read",
+  "timesheets:manage",
+  "timesheets:review",
+  "users:manage",
+] as const;
+export type Permission = typeof permissions[number];
+
+// What each access role may do across the whole organization. Access to an
+// employee's own records and to a manager's direct reports is granted per
+// route on top of this (see requireEmployeeAccess on the server).
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  admin: permissions,
+  hr: [
+    "dashboard:view",
+    "reports:view",
+    "employees:read",
+    "employees:manage",
+    "roles:read",
+    "roles:manage",
+    "payroll:read",
+    "timesheets:read",
+    "timesheets:manage",
+    "timesheets:review",
+  ],
+  manager: [
+    "employees:read-reports",
+    "roles:read",
+  ],
+  employee: [],
+};
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !(userRoles as readonly string[]).includes(role)) return false;
+  return rolePermissions[role as UserRole].includes(permission);
+}
@@ -1,7 +1,29 @@
-import { pgTable, text, serial, integer, boolean, decimal, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, decimal, timestamp, json, date, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { userRoles } from "./permissions";
+
+// When worked hours are paid at a premium. Hours beyond the daily threshold, or beyond the weekly
+// threshold once daily overtime is taken out, are overtime; hours beyond the daily double-time
+// threshold are double time. An employee uses their own policy if set, otherwise their role's,
+// otherwise the default policy
+export const overtimePolicies = pgTable("overtime_policies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  dailyThreshold: decimal("daily_threshold", { precision: 5, scale: 2 }), // null for no daily overtime
+  dailyDoubleTimeThreshold: decimal("daily_double_time_threshold", { precision: 5, scale: 2 }), // null for no double time
+  weeklyThreshold: decimal("weekly_threshold", { precision: 5, scale: 2 }).default("40"), // null for no weekly overtime
+  overtimeMultiplier: decimal("overtime_multiplier", { precision: 4, scale: 2 }).default("1.5").notNull(),
+  doubleTimeMultiplier: decimal("double_time_multiplier", { precision: 4, scale: 2 }).default("2").notNull(),
+  // On the seventh consecutive day worked in a workweek, every hour is overtime and
+  // hours beyond SEVENTH_DAY_DOUBLE_TIME_AFTER are double time
+  seventhDayRule: boolean("seventh_day_rule").default(false).notNull(),
+  isExempt: boolean("is_exempt").default(false).notNull(), // exempt employees are never paid overtime
+  isDefault: boolean("is_default").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
 
 export const roles = pgTable("roles", {
   id: serial("id").primaryKey(),
@@ -11,7 +33,25 @@ export const roles = pgTable("roles", {
   level: integer("level").notNull(),
   minSalary: decimal("min_salary", { precision: 10, scale: 2 }).notNull(),
   maxSalary: decimal("max_salary", { precision: 10, scale: 2 }).notNull(),
+  payBasis: text("pay_basis").notNull().default("annual"), // the basis minSalary and maxSalary are expressed in
+  currency: text("currency").notNull().default("USD"), // ISO 4217 code minSalary and maxSalary are in
   responsibilities: json("responsibilities").$type<string[]>().notNull(),
+  overtimePolicyId: integer("overtime_policy_id").references(() => overtimePolicies.id),
+  isExempt: boolean("is_exempt").default(false).notNull(), // exempt from overtime, e.g. salaried managers
+});
+
+// How often and when a group of employees is paid. An employee uses their own schedule if set,
+// otherwise their department's, otherwise the default schedule
+export const paySchedules = pgTable("pay_schedules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  frequency: text("frequency").notNull().default("monthly"), // 'weekly', 'biweekly', 'semimonthly' or 'monthly'
+  anchorDate: date("anchor_date", { mode: "string" }).notNull(), // YYYY-MM-DD start of any weekly or bi-weekly period
+  payDateOffsetDays: integer("pay_date_offset_days").default(0).notNull(), // days after the period ends that pay goes out
+  department: text("department"),
+  isDefault: boolean("is_default").default(false).notNull(),
+  prorationBasis: text("proration_basis").notNull().default("working-days"), // 'working-days' or 'calendar-days'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const employees = pgTable("employees", {
@@ -20,56 +60,1072 @@ export const employees = pgTable("employees", {
   lastName: text("last_name").notNull(),
   email: text("email").notNull().unique(),
   phone: text("phone"),
+  emergencyContact: text("emergency_contact"),
+  address: text("address"),
+  personalNotes: text("personal_notes"),
   type: text("type").notNull(), // 'full-time' or 'part-time'
   department: text("department").notNull(),
   roleId: integer("role_id").references(() => roles.id).notNull(),
-  salary: decimal("salary", { precision: 10, scale: 2 }).notNull(),
+  managerId: integer("manager_id").references((): AnyPgColumn => employees.id),
+  payScheduleId: integer("pay_schedule_id").references(() => paySchedules.id),
+  overtimePolicyId: integer("overtime_policy_id").references(() => overtimePolicies.id), // overrides the role's policy
+  isExempt: boolean("is_exempt"), // overrides the role's exemption; null follows the role
+  // Compensation: payAmount is per year, hour or day depending on payBasis; standard hours
+  // convert between bases and set the hours in a salaried pay period
+  payBasis: text("pay_basis").notNull().default("annual"), // 'annual', 'hourly' or 'daily'
+  payAmount: decimal("pay_amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("USD"), // ISO 4217 code
+  standardHoursPerWeek: decimal("standard_hours_per_week", { precision: 5, scale: 2 }).default("40").notNull(),
   startDate: timestamp("start_date").notNull(),
+  terminationDate: timestamp("termination_date"), // last day employed; set when someone leaves
   status: text("status").notNull().default("active"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Login accounts; employeeId links an account to the employee it belongs to
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(), // scrypt hash, never sent to clients
+  employeeId: integer("employee_id").references(() => employees.id).unique(),
+  accessRole: text("access_role").notNull().default("employee"), // 'admin', 'hr', 'manager' or 'employee'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A batch of payslips generated together for one pay period
+export const payRuns = pgTable("pay_runs", {
+  id: serial("id").primaryKey(),
+  payPeriodFrom: timestamp("pay_period_from").notNull(),
+  payPeriodTo: timestamp("pay_period_to").notNull(),
+  payFrequency: text("pay_frequency").notNull().default("monthly"),
+  payScheduleId: integer("pay_schedule_id").references(() => paySchedules.id),
+  status: text("status").notNull().default("committed"),
+  employeeCount: integer("employee_count").notNull(),
+  totalGross: decimal("total_gross", { precision: 12, scale: 2 }).notNull(),
+  totalTax: decimal("total_tax", { precision: 12, scale: 2 }).notNull(),
+  totalDeductions: decimal("total_deductions", { precision: 12, scale: 2 }).notNull(),
+  totalNet: decimal("total_net", { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const payslips = pgTable("payslips", {
   id: serial("id").primaryKey(),
   employeeId: integer("employee_id").references(() => employees.id).notNull(),
+  payRunId: integer("pay_run_id").references(() => payRuns.id),
   payPeriodFrom: timestamp("pay_period_from").notNull(),
   payPeriodTo: timestamp("pay_period_to").notNull(),
   hoursWorked: decimal("hours_worked", { precision: 5, scale: 2 }).notNull(),
   overtimeHours: decimal("overtime_hours", { precision: 5, scale: 2 }).default("0").notNull(),
+  doubleTimeHours: decimal("double_time_hours", { precision: 5, scale: 2 }).default("0").notNull(),
   basePay: decimal("base_pay", { precision: 10, scale: 2 }).notNull(),
   overtimePay: decimal("overtime_pay", { precision: 10, scale: 2 }).default("0").notNull(),
+  taxWithheld: decimal("tax_withheld", { precision: 10, scale: 2 }).default("0").notNull(),
   deductions: decimal("deductions", { precision: 10, scale: 2 }).default("0").notNull(),
   grossPay: decimal("gross_pay", { precision: 10, scale: 2 }).notNull(),
   netPay: decimal("net_pay", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("generated"),
+  retirementContributions: decimal("retirement_contributions", { precision: 10, scale: 2 }).default("0").notNull(),
+  employerRetirementContributions: decimal("employer_retirement_contributions", { precision: 10, scale: 2 }).default("0").notNull(),
+  // Year-to-date totals for the tax year through this payslip, fixed when it is generated and
+  // refreshed only if an earlier payslip in the year is voided, deleted or added later
+  ytdGrossPay: decimal("ytd_gross_pay", { precision: 12, scale: 2 }),
+  ytdTaxWithheld: decimal("ytd_tax_withheld", { precision: 12, scale: 2 }),
+  ytdDeductions: decimal("ytd_deductions", { precision: 12, scale: 2 }),
+  ytdNetPay: decimal("ytd_net_pay", { precision: 12, scale: 2 }),
+  ytdRetirementContributions: decimal("ytd_retirement_contributions", { precision: 12, scale: 2 }),
+  ytdEmployerRetirementContributions: decimal("ytd_employer_retirement_contributions", { precision: 12, scale: 2 }),
+  status: text("status").notNull().default("draft"), // 'draft', 'approved', 'paid' or 'void'
+  approvedBy: text("approved_by"),
+  approvedAt: timestamp("approved_at"),
+  paidBy: text("paid_by"),
+  paidAt: timestamp("paid_at"),
+  voidedBy: text("voided_by"),
+  voidedAt: timestamp("voided_at"),
+  voidReason: text("void_reason"),
+  reissuedFromId: integer("reissued_from_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Itemized earnings, taxes and deductions making up a payslip
+export const payslipLines = pgTable("payslip_lines", {
+  id: serial("id").primaryKey(),
+  payslipId: integer("payslip_id").references(() => payslips.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // 'earning', 'tax', 'deduction' or 'employer'
+  code: text("code").notNull(),
+  description: text("description").notNull(),
+  hours: decimal("hours", { precision: 5, scale: 2 }),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  preTax: boolean("pre_tax").default(false).notNull(), // deductions taken before withholding
+  supplemental: boolean("supplemental").default(false).notNull(), // earnings withheld at the supplemental rate
+  benefitPlanId: integer("benefit_plan_id"), // the plan a benefit contribution was paid into
+  garnishmentOrderId: integer("garnishment_order_id"), // the order a garnishment was withheld for
+  loanId: integer("loan_id"), // the loan an installment repaid
+  earningId: integer("earning_id"), // the scheduled earning a bonus or commission paid
+  sortOrder: integer("sort_order").default(0).notNull(),
+});
+
+// Every attempt to email a payslip, successful or not
+export const payslipDeliveries = pgTable("payslip_deliveries", {
+  id: serial("id").primaryKey(),
+  payslipId: integer("payslip_id").references(() => payslips.id, { onDelete: "cascade" }).notNull(),
+  recipient: text("recipient").notNull(),
+  status: text("status").notNull(), // 'sent' or 'failed'
+  messageId: text("message_id"),
+  error: text("error"),
+  attemptedAt: timestamp("attempted_at").defaultNow().notNull(),
+});
+
+// Versioned withholding tables, one row per tax year / jurisdiction / filing status
+export const taxTables = pgTable("tax_tables", {
+  id: serial("id").primaryKey(),
+  taxYear: integer("tax_year").notNull(),
+  jurisdiction: text("jurisdiction").notNull(), // 'federal' or a state code such as 'CA'
+  filingStatus: text("filing_status").notNull(), // 'single', 'married' or 'head-of-household'
+  standardDeduction: decimal("standard_deduction", { precision: 10, scale: 2 }).default("0").notNull(),
+  allowanceAmount: decimal("allowance_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+  brackets: json("brackets").$type<TaxBracket[]>().notNull(),
+  supplementalRate: decimal("supplemental_rate", { precision: 5, scale: 4 }), // flat rate on supplemental wages such as bonuses; null taxes them with regular wages
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("tax_tables_year_jurisdiction_status_idx").on(table.taxYear, table.jurisdiction, table.filingStatus),
+]);
+
+export const employeeTaxProfiles = pgTable("employee_tax_profiles", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id).notNull().unique(),
+  filingStatus: text("filing_status").notNull().default("single"),
+  stateCode: text("state_code"),
+  allowances: integer("allowances").default(0).notNull(),
+  additionalWithholding: decimal("additional_withholding", { precision: 10, scale: 2 }).default("0").notNull(),
+  exempt: boolean("exempt").default(false).notNull(),
+});
+
+// One worked shift; hoursWorked is computed on the server from start, end and break
+export const timeEntries = pgTable("time_entries", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  workDate: date("work_date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  startTime: text("start_time").notNull(), // HH:MM, 24-hour
+  endTime: text("end_time").notNull(),
+  breakMinutes: integer("break_minutes").default(0).notNull(),
+  hoursWorked: decimal("hours_worked", { precision: 5, scale: 2 }).notNull(),
+  projectCode: text("project_code"),
+  description: text("description"),
+  status: text("status").notNull().default("submitted"), // 'submitted', 'approved' or 'rejected'
+  reviewedBy: text("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every change to an employee's pay, effective from a date. The employee row holds the
+// compensation in effect today; payroll uses the entry in effect on each day of a period
+export const compensationHistory = pgTable("compensation_history", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  effectiveDate: date("effective_date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  payBasis: text("pay_basis").notNull(),
+  payAmount: decimal("pay_amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("USD"),
+  standardHoursPerWeek: decimal("standard_hours_per_week", { precision: 5, scale: 2 }).default("40").notNull(),
+  reason: text("reason").notNull(), // 'hire', 'promotion', 'merit', 'correction' or 'adjustment'
+  note: text("note"),
+  changedBy: text("changed_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Back pay owed for a period already paid at the old rate when a pay change is back-dated.
+// Pending arrears are paid as a Retro Pay line on the employee's next payslip
+export const retroPayAdjustments = pgTable("retro_pay_adjustments", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  compensationChangeId: integer("compensation_change_id").references(() => compensationHistory.id, { onDelete: "cascade" }).notNull(),
+  payslipId: integer("payslip_id").references(() => payslips.id).notNull(), // the paid payslip that was recalculated
+  payPeriodFrom: timestamp("pay_period_from").notNull(),
+  payPeriodTo: timestamp("pay_period_to").notNull(),
+  paidAmount: decimal("paid_amount", { precision: 10, scale: 2 }).notNull(),
+  recalculatedAmount: decimal("recalculated_amount", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // negative when the period was overpaid
+  status: text("status").notNull().default("pending"), // 'pending', 'applied' or 'cancelled'
+  appliedPayslipId: integer("applied_payslip_id").references(() => payslips.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A stretch of unpaid leave; salaried pay for the days it covers is prorated away
+export const unpaidLeaves = pgTable("unpaid_leaves", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  startDate: date("start_date", { mode: "string" }).notNull(), // YYYY-MM-DD, inclusive
+  endDate: date("end_date", { mode: "string" }).notNull(), // YYYY-MM-DD, inclusive
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A benefit employees can enrol in, with the contributions new enrollments start from.
+// Pre-tax plans come out of wages before withholding is worked out
+export const benefitPlans = pgTable("benefit_plans", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // see benefitPlanTypes
+  description: text("description"),
+  isPreTax: boolean("is_pre_tax").default(true).notNull(),
+  employeeContributionType: text("employee_contribution_type").default("fixed").notNull(), // 'fixed' per period or 'percent' of earnings
+  employeeContribution: decimal("employee_contribution", { precision: 10, scale: 2 }).default("0").notNull(),
+  employerContributionType: text("employer_contribution_type").default("fixed").notNull(),
+  employerContribution: decimal("employer_contribution", { precision: 10, scale: 2 }).default("0").notNull(),
+  employerMatch: json("employer_match").$type<EmployerMatchTier[]>(), // matching formula, paid on top of the employer contribution
+  annualLimit: decimal("annual_limit", { precision: 12, scale: 2 }), // most the employee can contribute in a tax year
+  isActive: boolean("is_active").default(true).notNull(), // inactive plans take no new enrollments
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// An employee's enrollment in a benefit plan and what they and the employer pay into it
+// each period while it is in effect
+export const benefitEnrollments = pgTable("benefit_enrollments", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  planId: integer("plan_id").references(() => benefitPlans.id).notNull(),
+  employeeContributionType: text("employee_contribution_type").notNull(),
+  employeeContribution: decimal("employee_contribution", { precision: 10, scale: 2 }).notNull(),
+  employerContributionType: text("employer_contribution_type").notNull(),
+  employerContribution: decimal("employer_contribution", { precision: 10, scale: 2 }).notNull(),
+  startDate: date("start_date", { mode: "string" }).notNull(), // YYYY-MM-DD, inclusive
+  endDate: date("end_date", { mode: "string" }), // YYYY-MM-DD, inclusive; null while enrolled
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A court or agency order to withhold part of an employee's pay for a third party, such as
+// child support. Orders are taken after taxes in legal priority order until their total is paid
+export const garnishmentOrders = pgTable("garnishment_orders", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // see garnishmentTypes
+  payee: text("payee").notNull(), // who the withheld amounts are paid to
+  caseNumber: text("case_number"),
+  amountType: text("amount_type").default("fixed").notNull(), // 'fixed' per period or 'percent' of disposable earnings
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  maxPerPeriod: decimal("max_per_period", { precision: 10, scale: 2 }),
+  totalCap: decimal("total_cap", { precision: 12, scale: 2 }), // total owed; null for ongoing orders
+  disposableLimitPercent: decimal("disposable_limit_percent", { precision: 5, scale: 2 }), // overrides the type's limit
+  startDate: date("start_date", { mode: "string" }).notNull(), // YYYY-MM-DD, inclusive
+  endDate: date("end_date", { mode: "string" }), // YYYY-MM-DD, inclusive; null until the order is lifted
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A bonus or commission paid on top of regular pay: once, in the pay period containing its
+// start date, or in every period from its start date until its end date when recurring
+export const scheduledEarnings = pgTable("scheduled_earnings", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  calculation: text("calculation").notNull(), // see earningCalculations
+  description: text("description"),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // flat amount, or percentage of salary or of sales
+  salesAmount: decimal("sales_amount", { precision: 12, scale: 2 }), // sales figure commission is paid on
+  recurring: boolean("recurring").default(false).notNull(),
+  startDate: date("start_date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  endDate: date("end_date", { mode: "string" }), // YYYY-MM-DD, inclusive; recurring earnings only, null until stopped
+  isSupplemental: boolean("is_supplemental").default(true).notNull(), // withheld at the supplemental rate, not with regular wages
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Money advanced to an employee and recovered from their pay in installments. What is still
+// owed is the amount less the installments withheld on payslips, and deductions stop once
+// nothing is
+export const loans = pgTable("loans", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  description: text("description").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  installmentAmount: decimal("installment_amount", { precision: 10, scale: 2 }).notNull(), // withheld from each payslip
+  startDate: date("start_date", { mode: "string" }).notNull(), // YYYY-MM-DD; first pay period installments are taken from
+  status: text("status").notNull().default("active"), // 'active' or 'cancelled'; cancelled loans are no longer deducted
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Profile fields employees may change themselves, subject to HR approval
+export const selfServiceProfileFields = ["phone", "emergencyContact", "address", "personalNotes"] as const;
+export type SelfServiceProfileField = typeof selfServiceProfileFields[number];
+
+export type ProfileFieldChange = { from: string | null; to: string | null };
+export type ProfileChanges = Partial<Record<SelfServiceProfileField, ProfileFieldChange>>;
+
+// An employee's requested profile edit; approved requests are applied to the employee
+// and every request is kept as the history of their profile changes
+export const profileChangeRequests = pgTable("profile_change_requests", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  changes: json("changes").$type<ProfileChanges>().notNull(),
+  status: text("status").notNull().default("pending"), // 'pending', 'approved' or 'rejected'
+  requestedBy: text("requested_by").notNull(),
+  reviewedBy: text("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const profileChangeStatuses = ["pending", "approved", "rejected"] as const;
+export type ProfileChangeStatus = typeof profileChangeStatuses[number];
+
+// Only approved time entries feed payroll
+export const timeEntryStatuses = ["submitted", "approved", "rejected"] as const;
+export type TimeEntryStatus = typeof timeEntryStatuses[number];
+
+// Hours worked beyond this in one Sunday-Saturday workweek are paid as overtime
+// when no overtime policy says otherwise
+export const WEEKLY_OVERTIME_THRESHOLD = 40;
+
+// On the seventh consecutive day worked under a policy with the seventh-day rule, hours
+// beyond this are double time
+export const SEVENTH_DAY_DOUBLE_TIME_AFTER = 8;
+
+// What an employee's pay amount is quoted per
+export const payBases = ["annual", "hourly", "daily"] as const;
+export type PayBasis = typeof payBases[number];
+
+export const payBasisLabels: Record<PayBasis, string> = {
+  annual: "Annual",
+  hourly: "Hourly",
+  daily: "Daily",
+};
+
+export const payBasisUnits: Record<PayBasis, string> = {
+  annual: "per year",
+  hourly: "per hour",
+  daily: "per day",
+};
+
+export const compensationChangeReasons = ["hire", "promotion", "merit", "correction", "adjustment"] as const;
+export type CompensationChangeReason = typeof compensationChangeReasons[number];
+
+export const compensationChangeReasonLabels: Record<CompensationChangeReason, string> = {
+  hire: "Hire",
+  promotion: "Promotion",
+  merit: "Merit Increase",
+  correction: "Correction",
+  adjustment: "Adjustment",
+};
+
+// Used to convert between pay bases
+export const WEEKS_PER_YEAR = 52;
+export const HOURS_PER_WORKDAY = 8;
+
+// Pay frequencies and how many pay periods each one has in a year
+export const payFrequencies = ["weekly", "biweekly", "semimonthly", "monthly"] as const;
+export type PayFrequency = typeof payFrequencies[number];
+
+export const periodsPerYear: Record<PayFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+};
+
+// Whether salaried pay is prorated over working days (Monday-Friday) or every calendar day
+export const prorationBases = ["working-days", "calendar-days"] as const;
+export type ProrationBasis = typeof prorationBases[number];
+
+export const payFrequencyLabels: Record<PayFrequency, string> = {
+  weekly: "Weekly",
+  biweekly: "Bi-weekly",
+  semimonthly: "Semi-monthly",
+  monthly: "Monthly",
+};
+
+// Payslip lifecycle: draft -> approved -> paid, with void and reissue branches
+export const payslipStatuses = ["draft", "approved", "paid", "void"] as const;
+export type PayslipStatus = typeof payslipStatuses[number];
+
+export const payslipTransitions = ["approve", "pay", "void", "reissue"] as const;
+export type PayslipTransition = typeof payslipTransitions[number];
+
+// Retro pay is pending until a payslip carries it, and cancelled if the period it was
+// recalculated for is voided
+export const retroPayStatuses = ["pending", "applied", "cancelled"] as const;
+export type RetroPayStatus = typeof retroPayStatuses[number];
+
+// How a scheduled earning is worked out: a flat amount, a percentage of the employee's annual
+// salary (spread over the year's pay periods when recurring), or a commission rate applied to
+// a sales figure. Commissions are itemized as
+// COMMISSION and everything else as BONUS
+export const earningCalculations = ["flat", "percent_of_salary", "commission"] as const;
+export type EarningCalculation = typeof earningCalculations[number];
+
+export const earningCalculationLabels: Record<EarningCalculation, string> = {
+  flat: "Flat Bonus",
+  percent_of_salary: "Percentage of Salary Bonus",
+  commission: "Commission",
+};
+
+export const earningCalculationCodes: Record<EarningCalculation, string> = {
+  flat: "BONUS",
+  percent_of_salary: "BONUS",
+  commission: "COMMISSION",
+};
+
+// Cancelling a loan writes off whatever is still owed
+export const loanStatuses = ["active", "cancelled"] as const;
+export type LoanStatus = typeof loanStatuses[number];
+
+// Payslip line types and the codes users can add by hand. Employer lines record what the
+// employer pays on the employee's behalf and do not count toward gross or net pay
+export const payslipLineTypes = ["earning", "tax", "deduction", "employer"] as const;
+export type PayslipLineType = typeof payslipLineTypes[number];
+
+export const earningCodes = ["REGULAR", "OVERTIME", "BONUS", "COMMISSION", "REIMBURSEMENT"] as const;
+export const deductionCodes = ["HEALTH_PREMIUM", "RETIREMENT", "GARNISHMENT", "OTHER_DEDUCTION"] as const;
+
+// Earnings that are paid out but are not taxable wages
+export const nonTaxableEarningCodes: readonly string[] = ["REIMBURSEMENT"];
+
+export const payslipLineLabels: Record<string, string> = {
+  REGULAR: "Regular Pay",
+  OVERTIME: "Overtime Pay",
+  BONUS: "Bonus",
+  COMMISSION: "Commission",
+  REIMBURSEMENT: "Reimbursement",
+  PRORATION: "Proration",
+  DOUBLE_TIME: "Double Time Pay",
+  RETRO: "Retro Pay",
+  HEALTH_PREMIUM: "Health Premium",
+  RETIREMENT: "Retirement Contribution",
+  GARNISHMENT: "Garnishment",
+  OTHER_DEDUCTION: "Other Deduction",
+  DENTAL_PREMIUM: "Dental Premium",
+  VISION_PREMIUM: "Vision Premium",
+  BENEFIT: "Benefit Contribution",
+  EMPLOYER_BENEFIT: "Employer Benefit Contribution",
+  EMPLOYER_RETIREMENT: "Employer Retirement Contribution",
+  CHILD_SUPPORT: "Child Support",
+  TAX_LEVY: "Tax Levy",
+  STUDENT_LOAN: "Student Loan Garnishment",
+  LOAN_REPAYMENT: "Loan Repayment",
+};
+
+// Kinds of benefit plan and the deduction code each one's contributions are itemized under
+export const benefitPlanTypes = ["health", "dental", "vision", "retirement", "other"] as const;
+export type BenefitPlanType = typeof benefitPlanTypes[number];
+
+export const benefitPlanTypeLabels: Record<BenefitPlanType, string> = {
+  health: "Health",
+  dental: "Dental",
+  vision: "Vision",
+  retirement: "Retirement",
+  other: "Other",
+};
+
+export const benefitDeductionCodes: Record<BenefitPlanType, string> = {
+  health: "HEALTH_PREMIUM",
+  dental: "DENTAL_PREMIUM",
+  vision: "VISION_PREMIUM",
+  retirement: "RETIREMENT",
+  other: "BENEFIT",
+};
+
+// Employer contributions to retirement plans are itemized apart from other benefits so they
+// can be totalled for the year
+export const employerBenefitCodes: Record<BenefitPlanType, string> = {
+  health: "EMPLOYER_BENEFIT",
+  dental: "EMPLOYER_BENEFIT",
+  vision: "EMPLOYER_BENEFIT",
+  retirement: "EMPLOYER_RETIREMENT",
+  other: "EMPLOYER_BENEFIT",
+};
+
+// One step of an employer matching formula: the employer pays `matchPercent` of what the
+// employee contributes on the next `ofPercent` of their earnings. "100% up to 3%, 50% of
+// the next 2%" is [{ matchPercent: 100, ofPercent: 3 }, { matchPercent: 50, ofPercent: 2 }]
+export interface EmployerMatchTier {
+  matchPercent: number;
+  ofPercent: number;
+}
+
+export const employerMatchTierSchema = z.object({
+  matchPercent: z.number().positive(),
+  ofPercent: z.number().positive().max(100),
+});
+
+// Kinds of garnishment order in legal priority order: support first, then tax levies, then
+// student loans, then other creditors. Orders of the same kind are paid oldest first
+export const garnishmentTypes = ["child_support", "tax_levy", "student_loan", "creditor"] as const;
+export type GarnishmentType = typeof garnishmentTypes[number];
+
+export const garnishmentTypeLabels: Record<GarnishmentType, string> = {
+  child_support: "Child Support",
+  tax_levy: "Tax Levy",
+  student_loan: "Student Loan",
+  creditor: "Creditor Garnishment",
+};
+
+export const garnishmentDeductionCodes: Record<GarnishmentType, string> = {
+  child_support: "CHILD_SUPPORT",
+  tax_levy: "TAX_LEVY",
+  student_loan: "STUDENT_LOAN",
+  creditor: "GARNISHMENT",
+};
+
+// The most of an employee's disposable earnings (earnings less taxes) that garnishments may
+// take once an order of each kind is included. Limits are cumulative, so a creditor order
+// gets nothing once support takes a quarter of disposable earnings
+export const garnishmentDisposableLimits: Record<GarnishmentType, number> = {
+  child_support: 50,
+  tax_levy: 25,
+  student_loan: 15,
+  creditor: 25,
+};
+
+// A contribution is a fixed amount each pay period or a percentage of the period's taxable earnings
+export const contributionTypes = ["fixed", "percent"] as const;
+export type ContributionType = typeof contributionTypes[number];
+
+export const filingStatuses = ["single", "married", "head-of-household"] as const;
+
+// A bracket applies `rate` to annual taxable income above `over`, up to the next bracket
+export interface TaxBracket {
+  over: number;
+  rate: number;
+}
+
+export const taxBracketSchema = z.object({
+  over: z.number().min(0),
+  rate: z.number().min(0).max(1),
+});
+
 // Insert schemas
-export const insertRoleSchema = createInsertSchema(roles).omit({
+export const insertRoleSchema = createInsertSchema(roles, {
+  payBasis: z.enum(payBases).optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code").optional(),
+}).omit({
   id: true,
 });
 
-export const insertEmployeeSchema = createInsertSchema(employees).omit({
+const hoursThreshold = z.string().regex(/^\d+(\.\d+)?$/, "Threshold must be a number of hours").nullable().optional();
+
+export const insertOvertimePolicySchema = createInsertSchema(overtimePolicies, {
+  name: (schema) => schema.min(1, "Name is required"),
+  dailyThreshold: hoursThreshold,
+  dailyDoubleTimeThreshold: hoursThreshold,
+  weeklyThreshold: hoursThreshold,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPayScheduleSchema = createInsertSchema(paySchedules, {
+  name: (schema) => schema.min(1, "Name is required"),
+  frequency: z.enum(payFrequencies),
+  anchorDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  payDateOffsetDays: z.number().int().min(0).max(31).optional(),
+  prorationBasis: z.enum(prorationBases).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEmployeeSchema = createInsertSchema(employees, {
+  terminationDate: z.coerce.date().nullable().optional(),
+  payBasis: z.enum(payBases).optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code").optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertPayslipSchema = createInsertSchema(payslips).omit({
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.min(3),
+  password: (schema) => schema.min(8),
+  accessRole: z.enum(userRoles).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+export const updateUserSchema = insertUserSchema.pick({
+  employeeId: true,
+  accessRole: true,
+}).partial();
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const insertPayslipSchema = createInsertSchema(payslips, {
+  payPeriodFrom: z.coerce.date(),
+  payPeriodTo: z.coerce.date(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPayslipLineSchema = createInsertSchema(payslipLines, {
+  type: z.enum(payslipLineTypes),
+}).omit({
+  id: true,
+  payslipId: true,
+});
+
+// Hand-entered earning or deduction submitted with a payslip calculation
+export const payslipAdjustmentSchema = z.object({
+  type: z.enum(["earning", "deduction"]),
+  code: z.string().min(1),
+  description: z.string().optional(),
+  amount: z.number().nonnegative(),
+});
+
+// Per-employee hours and adjustments supplied when running payroll
+export const payRunEntrySchema = z.object({
+  employeeId: z.number().int(),
+  hoursWorked: z.number().nonnegative().optional(),
+  overtimeHours: z.number().nonnegative().optional(),
+  doubleTimeHours: z.number().nonnegative().optional(),
+  adjustments: z.array(payslipAdjustmentSchema).optional(),
+});
+
+// With a pay schedule, only its employees are paid and the frequency comes from the schedule
+export const payRunRequestSchema = z.object({
+  payPeriodFrom: z.coerce.date(),
+  payPeriodTo: z.coerce.date(),
+  payFrequency: z.enum(payFrequencies).default("monthly"),
+  payScheduleId: z.number().int().optional(),
+  entries: z.array(payRunEntrySchema).default([]),
+  // Committing pays employees who already have a payslip for an overlapping period only when set
+  allowOverlapping: z.boolean().default(false),
+}).refine(data => data.payPeriodFrom <= data.payPeriodTo, {
+  message: "Pay period start must be on or before its end",
+  path: ["payPeriodTo"],
+});
+
+export const insertPayRunSchema = createInsertSchema(payRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Payslip header totals are derived from the lines, so they are optional on create;
+// new payslips always start as drafts, so lifecycle fields cannot be supplied at all,
+// and year-to-date totals are always computed on the server
+export const createPayslipWithLinesSchema = insertPayslipSchema.omit({
+  ytdGrossPay: true,
+  ytdTaxWithheld: true,
+  ytdDeductions: true,
+  ytdNetPay: true,
+  ytdRetirementContributions: true,
+  ytdEmployerRetirementContributions: true,
+  status: true,
+  approvedBy: true,
+  approvedAt: true,
+  paidBy: true,
+  paidAt: true,
+  voidedBy: true,
+  voidedAt: true,
+  voidReason: true,
+  reissuedFromId: true,
+}).partial({
+  basePay: true,
+  overtimePay: true,
+  taxWithheld: true,
+  deductions: true,
+  grossPay: true,
+  netPay: true,
+}).extend({
+  lines: z.array(insertPayslipLineSchema).min(1),
+  // Saving for a period the employee already has a payslip for is allowed only when set
+  allowOverlapping: z.boolean().default(false),
+});
+
+export const insertPayslipDeliverySchema = createInsertSchema(payslipDeliveries).omit({
+  id: true,
+  attemptedAt: true,
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM format");
+
+export const insertTimeEntrySchema = createInsertSchema(timeEntries, {
+  workDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+  breakMinutes: z.number().int().nonnegative(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What clients submit; the employee comes from the URL, hours are computed server-side
+// and review fields are only set through the approve/reject routes
+export const timeEntryInputSchema = insertTimeEntrySchema.omit({
+  employeeId: true,
+  hoursWorked: true,
+  status: true,
+  reviewedBy: true,
+  reviewedAt: true,
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const insertRetroPayAdjustmentSchema = createInsertSchema(retroPayAdjustments, {
+  status: z.enum(retroPayStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUnpaidLeaveSchema = createInsertSchema(unpaidLeaves, {
+  startDate: isoDate,
+  endDate: isoDate,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What clients submit; the employee comes from the URL
+export const unpaidLeaveInputSchema = insertUnpaidLeaveSchema.omit({
+  employeeId: true,
+}).refine(data => data.startDate <= data.endDate, {
+  message: "Leave must end on or after its start date",
+  path: ["endDate"],
+});
+
+export const insertCompensationChangeSchema = createInsertSchema(compensationHistory, {
+  effectiveDate: isoDate,
+  payBasis: z.enum(payBases),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code").optional(),
+  reason: z.enum(compensationChangeReasons),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What clients submit; the employee comes from the URL and the author from the session
+export const compensationChangeInputSchema = insertCompensationChangeSchema.omit({
+  employeeId: true,
+  changedBy: true,
+});
+
+// Optional details sent with an employee update that changes their pay
+export const compensationChangeDetailsSchema = z.object({
+  compensationEffectiveDate: isoDate.optional(),
+  compensationReason: z.enum(compensationChangeReasons).optional(),
+  compensationNote: z.string().optional(),
+});
+
+const contributionAmount = z.string().regex(/^\d+(\.\d{1,2})?$/, "Contribution must be a non-negative amount");
+
+export const insertBenefitPlanSchema = createInsertSchema(benefitPlans, {
+  name: (schema) => schema.min(1, "Name is required"),
+  type: z.enum(benefitPlanTypes),
+  employeeContributionType: z.enum(contributionTypes).optional(),
+  employeeContribution: contributionAmount.optional(),
+  employerContributionType: z.enum(contributionTypes).optional(),
+  employerContribution: contributionAmount.optional(),
+  employerMatch: z.array(employerMatchTierSchema).nullable().optional(),
+  annualLimit: contributionAmount.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBenefitEnrollmentSchema = createInsertSchema(benefitEnrollments, {
+  employeeContributionType: z.enum(contributionTypes),
+  employeeContribution: contributionAmount,
+  employerContributionType: z.enum(contributionTypes),
+  employerContribution: contributionAmount,
+  startDate: isoDate,
+  endDate: isoDate.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+const benefitEnrollmentFields = insertBenefitEnrollmentSchema.omit({
+  employeeId: true,
+}).partial({
+  employeeContributionType: true,
+  employeeContribution: true,
+  employerContributionType: true,
+  employerContribution: true,
+});
+
+const enrollmentEndsAfterStart = {
+  message: "Enrollment must end on or after its start date",
+  path: ["endDate"],
+};
+
+// What clients submit; the employee comes from the URL and contributions left out are
+// taken from the plan
+export const benefitEnrollmentInputSchema = benefitEnrollmentFields
+  .refine(data => !data.endDate || data.startDate <= data.endDate, enrollmentEndsAfterStart);
+
+// Edits to an enrollment; the plan cannot change, so switching plans is a new enrollment
+export const benefitEnrollmentUpdateSchema = benefitEnrollmentFields.omit({ planId: true }).partial()
+  .refine(data => !data.endDate || !data.startDate || data.startDate <= data.endDate, enrollmentEndsAfterStart);
+
+const garnishmentAmount = z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a non-negative amount");
+
+export const insertGarnishmentOrderSchema = createInsertSchema(garnishmentOrders, {
+  type: z.enum(garnishmentTypes),
+  payee: (schema) => schema.min(1, "Payee is required"),
+  caseNumber: z.string().nullable().optional(),
+  amountType: z.enum(contributionTypes).optional(),
+  amount: garnishmentAmount,
+  maxPerPeriod: garnishmentAmount.nullable().optional(),
+  totalCap: garnishmentAmount.nullable().optional(),
+  disposableLimitPercent: garnishmentAmount.nullable().optional(),
+  startDate: isoDate,
+  endDate: isoDate.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+const garnishmentOrderFields = insertGarnishmentOrderSchema.omit({ employeeId: true });
+
+const orderEndsAfterStart = {
+  message: "Order must end on or after its start date",
+  path: ["endDate"],
+};
+
+const percentOfDisposableEarnings = (value: string | null | undefined) => !value || parseFloat(value) <= 100;
+
+// What clients submit; the employee comes from the URL
+export const garnishmentOrderInputSchema = garnishmentOrderFields
+  .refine(data => !data.endDate || data.startDate <= data.endDate, orderEndsAfterStart)
+  .refine(data => data.amountType !== "percent" || percentOfDisposableEarnings(data.amount), {
+    message: "A percentage cannot be more than 100",
+    path: ["amount"],
+  })
+  .refine(data => percentOfDisposableEarnings(data.disposableLimitPercent), {
+    message: "A percentage cannot be more than 100",
+    path: ["disposableLimitPercent"],
+  });
+
+export const garnishmentOrderUpdateSchema = garnishmentOrderFields.partial()
+  .refine(data => !data.endDate || !data.startDate || data.startDate <= data.endDate, orderEndsAfterStart)
+  .refine(data => percentOfDisposableEarnings(data.disposableLimitPercent), {
+    message: "A percentage cannot be more than 100",
+    path: ["disposableLimitPercent"],
+  });
+
+const earningAmount = z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a non-negative amount");
+
+export const insertScheduledEarningSchema = createInsertSchema(scheduledEarnings, {
+  calculation: z.enum(earningCalculations),
+  description: z.string().nullable().optional(),
+  amount: earningAmount,
+  salesAmount: earningAmount.nullable().optional(),
+  startDate: isoDate,
+  endDate: isoDate.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+const scheduledEarningFields = insertScheduledEarningSchema.omit({ employeeId: true });
+
+const earningEndsAfterStart = {
+  message: "Earning must end on or after its start date",
+  path: ["endDate"],
+};
+
+// What clients submit; the employee comes from the URL
+export const scheduledEarningInputSchema = scheduledEarningFields
+  .refine(data => !data.endDate || data.startDate <= data.endDate, earningEndsAfterStart)
+  .refine(data => !data.endDate || data.recurring === true, {
+    message: "Only recurring earnings have an end date",
+    path: ["endDate"],
+  })
+  .refine(data => data.calculation !== "commission" || !!data.salesAmount, {
+    message: "Commission needs the sales figure it is paid on",
+    path: ["salesAmount"],
+  });
+
+export const scheduledEarningUpdateSchema = scheduledEarningFields.partial()
+  .refine(data => !data.endDate || !data.startDate || data.startDate <= data.endDate, earningEndsAfterStart);
+
+// Adds the same earning for a whole department. Without rows every active employee in the
+// department gets it; with rows, only the listed employees do, each with their own amount or
+// sales figure when given (such as commission from an imported sales report)
+export const earningImportSchema = z.object({
+  department: z.string().min(1, "Department is required"),
+  earning: scheduledEarningFields.partial({ amount: true }),
+  rows: z.array(z.object({
+    employeeId: z.number().int().positive(),
+    amount: earningAmount.optional(),
+    salesAmount: earningAmount.optional(),
+  })).min(1).optional(),
+});
+
+const loanAmount = z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a non-negative amount")
+  .refine(value => parseFloat(value) > 0, "Amount must be more than zero");
+
+export const insertLoanSchema = createInsertSchema(loans, {
+  description: (schema) => schema.min(1, "Description is required"),
+  amount: loanAmount,
+  installmentAmount: loanAmount,
+  startDate: isoDate,
+  status: z.enum(loanStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What clients submit; the employee comes from the URL. The repayment schedule is either a
+// fixed installment or a number of equal installments
+export const loanInputSchema = insertLoanSchema.omit({
+  employeeId: true,
+  status: true,
+}).partial({
+  installmentAmount: true,
+}).extend({
+  installments: z.number().int().positive().optional(),
+}).refine(data => (data.installmentAmount === undefined) !== (data.installments === undefined), {
+  message: "Give either an installment amount or a number of installments",
+  path: ["installmentAmount"],
+});
+
+// Edits to a loan; the amount advanced cannot change once recorded
+export const loanUpdateSchema = insertLoanSchema.pick({
+  description: true,
+  installmentAmount: true,
+  startDate: true,
+  status: true,
+}).partial();
+
+const profileFieldChangeSchema = z.object({
+  from: z.string().nullable(),
+  to: z.string().nullable(),
+});
+
+export const insertProfileChangeRequestSchema = createInsertSchema(profileChangeRequests, {
+  changes: z.object({
+    phone: profileFieldChangeSchema.optional(),
+    emergencyContact: profileFieldChangeSchema.optional(),
+    address: profileFieldChangeSchema.optional(),
+    personalNotes: profileFieldChangeSchema.optional(),
+  }),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What an employee submits from the portal; blank values clear the field
+export const profileUpdateSchema = z.object({
+  phone: z.string().max(50).nullable().optional(),
+  emergencyContact: z.string().max(200).nullable().optional(),
+  address: z.string().max(500).nullable().optional(),
+  personalNotes: z.string().max(1000).nullable().optional(),
+});
+
+export const profileChangeReviewSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+export const insertTaxTableSchema = createInsertSchema(taxTables, {
+  jurisdiction: (schema) => schema.min(1),
+  filingStatus: z.enum(filingStatuses),
+  brackets: z.array(taxBracketSchema).min(1),
+  supplementalRate: z.string()
+    .refine(value => !isNaN(parseFloat(value)) && parseFloat(value) >= 0 && parseFloat(value) <= 1, "Supplemental rate must be between 0 and 1")
+    .nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEmployeeTaxProfileSchema = createInsertSchema(employeeTaxProfiles, {
+  filingStatus: z.enum(filingStatuses),
+}).omit({
+  id: true,
+});
+
 // Types
 export type Role = typeof roles.$inferSelect;
 export type InsertRole = z.infer<typeof insertRoleSchema>;
 
+export type PaySchedule = typeof paySchedules.$inferSelect;
+export type InsertPaySchedule = z.infer<typeof insertPayScheduleSchema>;
+
 export type Employee = typeof employees.$inferSelect;
 export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
 
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type SafeUser = Omit<User, "password">;
+
 export type Payslip = typeof payslips.$inferSelect;
 export type InsertPayslip = z.infer<typeof insertPayslipSchema>;
 
+export type PayRun = typeof payRuns.$inferSelect;
+export type InsertPayRun = z.infer<typeof insertPayRunSchema>;
+export type PayRunEntry = z.infer<typeof payRunEntrySchema>;
+export type PayRunRequest = z.infer<typeof payRunRequestSchema>;
+
+export type PayslipStatusUpdate = Partial<Pick<Payslip,
+  "status" | "approvedBy" | "approvedAt" | "paidBy" | "paidAt" | "voidedBy" | "voidedAt" | "voidReason"
+>>;
+
+export type PayslipYearToDate = Pick<Payslip, "ytdGrossPay" | "ytdTaxWithheld" | "ytdDeductions" | "ytdNetPay" | "ytdRetirementContributions" | "ytdEmployerRetirementContributions">;
+
+export type PayslipLine = typeof payslipLines.$inferSelect;
+export type InsertPayslipLine = z.infer<typeof insertPayslipLineSchema>;
+
+// Payslip lines added up per type, code and the earning, plan, order or loan they came from
+export type PayslipLineTotal = Pick<PayslipLine, "type" | "code" | "earningId" | "benefitPlanId" | "garnishmentOrderId" | "loanId"> & { amount: number };
+
+export type PayslipDelivery = typeof payslipDeliveries.$inferSelect;
+export type InsertPayslipDelivery = z.infer<typeof insertPayslipDeliverySchema>;
+
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type InsertTimeEntry = z.infer<typeof insertTimeEntrySchema>;
+export type TimeEntryInput = z.infer<typeof timeEntryInputSchema>;
+
+export type CompensationChange = typeof compensationHistory.$inferSelect;
+export type InsertCompensationChange = z.infer<typeof insertCompensationChangeSchema>;
+export type CompensationChangeInput = z.infer<typeof compensationChangeInputSchema>;
+export type CompensationChangeDetails = z.infer<typeof compensationChangeDetailsSchema>;
+
+export type RetroPayAdjustment = typeof retroPayAdjustments.$inferSelect;
+export type InsertRetroPayAdjustment = z.infer<typeof insertRetroPayAdjustmentSchema>;
+
+export type OvertimePolicy = typeof overtimePolicies.$inferSelect;
+export type InsertOvertimePolicy = z.infer<typeof insertOvertimePolicySchema>;
+
+export type BenefitPlan = typeof benefitPlans.$inferSelect;
+export type InsertBenefitPlan = z.infer<typeof insertBenefitPlanSchema>;
+
+export type BenefitEnrollment = typeof benefitEnrollments.$inferSelect;
+export type InsertBenefitEnrollment = z.infer<typeof insertBenefitEnrollmentSchema>;
+export type BenefitEnrollmentInput = z.infer<typeof benefitEnrollmentInputSchema>;
+export type BenefitEnrollmentUpdate = z.infer<typeof benefitEnrollmentUpdateSchema>;
+
+export type GarnishmentOrder = typeof garnishmentOrders.$inferSelect;
+export type InsertGarnishmentOrder = z.infer<typeof insertGarnishmentOrderSchema>;
+export type GarnishmentOrderInput = z.infer<typeof garnishmentOrderInputSchema>;
+export type GarnishmentOrderUpdate = z.infer<typeof garnishmentOrderUpdateSchema>;
+
+export type ScheduledEarning = typeof scheduledEarnings.$inferSelect;
+export type InsertScheduledEarning = z.infer<typeof insertScheduledEarningSchema>;
+export type ScheduledEarningInput = z.infer<typeof scheduledEarningInputSchema>;
+export type ScheduledEarningUpdate = z.infer<typeof scheduledEarningUpdateSchema>;
+export type EarningImport = z.infer<typeof earningImportSchema>;
+
+export type Loan = typeof loans.$inferSelect;
+export type InsertLoan = z.infer<typeof insertLoanSchema>;
+export type LoanInput = z.infer<typeof loanInputSchema>;
+export type LoanUpdate = z.infer<typeof loanUpdateSchema>;
+
+export type UnpaidLeave = typeof unpaidLeaves.$inferSelect;
+export type InsertUnpaidLeave = z.infer<typeof insertUnpaidLeaveSchema>;
+export type UnpaidLeaveInput = z.infer<typeof unpaidLeaveInputSchema>;
+
+export type ProfileChangeRequest = typeof profileChangeRequests.$inferSelect;
+export type InsertProfileChangeRequest = z.infer<typeof insertProfileChangeRequestSchema>;
+export type ProfileUpdate = z.infer<typeof profileUpdateSchema>;
+export type ProfileChangeReview = Pick<ProfileChangeRequest, "status" | "reviewedBy" | "reviewedAt" | "reviewNote">;
+
+export type TaxTable = typeof taxTables.$inferSelect;
+export type InsertTaxTable = z.infer<typeof insertTaxTableSchema>;
+
+export type EmployeeTaxProfile = typeof employeeTaxProfiles.$inferSelect;
+export type InsertEmployeeTaxProfile = z.infer<typeof insertEmployeeTaxProfileSchema>;
+
 // Extended types for API responses
 export type EmployeeWithRole = Employee & {
   role: Role;
@@ -79,10 +1135,90 @@ export type PayslipWithEmployee = Payslip & {
   employee: Employee;
 };
 
+export type PayslipDetail = PayslipWithEmployee & {
+  lines: PayslipLine[];
+};
+
+export type ProfileChangeRequestWithEmployee = ProfileChangeRequest & {
+  employee: Employee;
+};
+
+// One period of a generated pay calendar; dates are YYYY-MM-DD
+export type PayPeriod = {
+  periodNumber: number;
+  startDate: string;
+  endDate: string;
+  payDate: string;
+};
+
+export type EmployeePaySchedule = {
+  schedule: PaySchedule | null;
+  frequency: PayFrequency;
+  standardHours: number;
+  currentPeriod: PayPeriod | null;
+};
+
+// Where an employee's overtime policy came from; "standard" means no policy applies and
+// hours over WEEKLY_OVERTIME_THRESHOLD a week are paid at time and a half
+export type OvertimePolicySource = "employee" | "role" | "default" | "standard";
+
+export type EmployeeOvertimePolicy = {
+  policy: OvertimePolicy | null;
+  source: OvertimePolicySource;
+  // Exempt by the employee's or role's classification, or by the policy itself
+  isExempt: boolean;
+};
+
+export type BenefitEnrollmentWithPlan = BenefitEnrollment & {
+  plan: BenefitPlan;
+};
+
+// An order with what has been withheld for it on payslips so far; remainingBalance is null
+// for orders without a total
+export type GarnishmentOrderWithBalance = GarnishmentOrder & {
+  amountPaid: string;
+  remainingBalance: string | null;
+};
+
+// A loan with what has been repaid on payslips so far, what is still owed and how many
+// installments that leaves
+export type LoanWithBalance = Loan & {
+  amountRepaid: string;
+  outstandingBalance: string;
+  installmentsRemaining: number;
+};
+
+export type ScheduledEarningWithEmployee = ScheduledEarning & {
+  employee: Employee;
+};
+
+export type PayRunWithPayslips = PayRun & {
+  payslips: PayslipWithEmployee[];
+};
+
+// A recorded pay change and the retro pay it created for periods already paid
+export type CompensationChangeResult = CompensationChange & {
+  retroPay: RetroPayAdjustment[];
+};
+
 // Relations for Drizzle ORM
 
-export const rolesRelations = relations(roles, ({ many }) => ({
+export const overtimePoliciesRelations = relations(overtimePolicies, ({ many }) => ({
+  roles: many(roles),
+  employees: many(employees),
+}));
+
+export const rolesRelations = relations(roles, ({ one, many }) => ({
+  overtimePolicy: one(overtimePolicies, {
+    fields: [roles.overtimePolicyId],
+    references: [overtimePolicies.id],
+  }),
+  employees: many(employees),
+}));
+
+export const paySchedulesRelations = relations(paySchedules, ({ many }) => ({
   employees: many(employees),
+  payRuns: many(payRuns),
 }));
 
 export const employeesRelations = relations(employees, ({ one, many }) => ({
@@ -90,12 +1226,148 @@ export const employeesRelations = relations(employees, ({ one, many }) => ({
     fields: [employees.roleId],
     references: [roles.id],
   }),
+  paySchedule: one(paySchedules, {
+    fields: [employees.payScheduleId],
+    references: [paySchedules.id],
+  }),
+  overtimePolicy: one(overtimePolicies, {
+    fields: [employees.overtimePolicyId],
+    references: [overtimePolicies.id],
+  }),
+  payslips: many(payslips),
+  timeEntries: many(timeEntries),
+  unpaidLeaves: many(unpaidLeaves),
+  compensationHistory: many(compensationHistory),
+  retroPayAdjustments: many(retroPayAdjustments),
+  benefitEnrollments: many(benefitEnrollments),
+  garnishmentOrders: many(garnishmentOrders),
+  loans: many(loans),
+  scheduledEarnings: many(scheduledEarnings),
+  profileChangeRequests: many(profileChangeRequests),
+  taxProfile: one(employeeTaxProfiles),
+  user: one(users),
+}));
+
+export const payRunsRelations = relations(payRuns, ({ one, many }) => ({
+  paySchedule: one(paySchedules, {
+    fields: [payRuns.payScheduleId],
+    references: [paySchedules.id],
+  }),
   payslips: many(payslips),
 }));
 
-export const payslipsRelations = relations(payslips, ({ one }) => ({
+export const payslipsRelations = relations(payslips, ({ one, many }) => ({
   employee: one(employees, {
     fields: [payslips.employeeId],
     references: [employees.id],
   }),
+  payRun: one(payRuns, {
+    fields: [payslips.payRunId],
+    references: [payRuns.id],
+  }),
+  lines: many(payslipLines),
+  deliveries: many(payslipDeliveries),
+}));
+
+export const payslipLinesRelations = relations(payslipLines, ({ one }) => ({
+  payslip: one(payslips, {
+    fields: [payslipLines.payslipId],
+    references: [payslips.id],
+  }),
+}));
+
+export const payslipDeliveriesRelations = relations(payslipDeliveries, ({ one }) => ({
+  payslip: one(payslips, {
+    fields: [payslipDeliveries.payslipId],
+    references: [payslips.id],
+  }),
+}));
+
+export const employeeTaxProfilesRelations = relations(employeeTaxProfiles, ({ one }) => ({
+  employee: one(employees, {
+    fields: [employeeTaxProfiles.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
+  employee: one(employees, {
+    fields: [timeEntries.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const compensationHistoryRelations = relations(compensationHistory, ({ one }) => ({
+  employee: one(employees, {
+    fields: [compensationHistory.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const retroPayAdjustmentsRelations = relations(retroPayAdjustments, ({ one }) => ({
+  employee: one(employees, {
+    fields: [retroPayAdjustments.employeeId],
+    references: [employees.id],
+  }),
+  compensationChange: one(compensationHistory, {
+    fields: [retroPayAdjustments.compensationChangeId],
+    references: [compensationHistory.id],
+  }),
+}));
+
+export const benefitPlansRelations = relations(benefitPlans, ({ many }) => ({
+  enrollments: many(benefitEnrollments),
+}));
+
+export const benefitEnrollmentsRelations = relations(benefitEnrollments, ({ one }) => ({
+  employee: one(employees, {
+    fields: [benefitEnrollments.employeeId],
+    references: [employees.id],
+  }),
+  plan: one(benefitPlans, {
+    fields: [benefitEnrollments.planId],
+    references: [benefitPlans.id],
+  }),
+}));
+
+export const garnishmentOrdersRelations = relations(garnishmentOrders, ({ one }) => ({
+  employee: one(employees, {
+    fields: [garnishmentOrders.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const scheduledEarningsRelations = relations(scheduledEarnings, ({ one }) => ({
+  employee: one(employees, {
+    fields: [scheduledEarnings.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const loansRelations = relations(loans, ({ one }) => ({
+  employee: one(employees, {
+    fields: [loans.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const unpaidLeavesRelations = relations(unpaidLeaves, ({ one }) => ({
+  employee: one(employees, {
+    fields: [unpaidLeaves.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const usersRelations = relations(users, ({ one }) => ({
+  employee: one(employees, {
+    fields: [users.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const profileChangeRequestsRelations = relations(profileChangeRequests, ({ one }) => ({
+  employee: one(employees, {
+    fields: [profileChangeRequests.employeeId],
+    references: [employees.id],
+  }),
 }));